@@ -0,0 +1,219 @@
+'use client'
+
+/**
+ * Admin Edit Scheme Page
+ * 
+ * Edits a single scheme and shows its revision history:
+ * - Editor form for all catalogue fields
+ * - Field-level diff for each revision
+ * - Rollback to an earlier revision
+ * 
+ * @module app/admin/catalogue/[id]/page
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { SchemeEditorForm } from '@/components/admin/SchemeEditorForm'
+import { SchemeRevisionHistory } from '@/components/admin/SchemeRevisionHistory'
+import { AlertCircle, ArrowLeft } from 'lucide-react'
+import { toast } from 'sonner'
+import type { Scheme, SchemeRevision, SchemeUpdate } from '@/types/database'
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function AdminEditSchemePage() {
+  const params = useParams<{ id: string }>()
+  const schemeId = params.id
+
+  // State
+  const [scheme, setScheme] = useState<Scheme | null>(null)
+  const [revisions, setRevisions] = useState<SchemeRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [revisionsLoading, setRevisionsLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped after rollback so the form re-initialises from the restored scheme
+  const [formKey, setFormKey] = useState(0)
+
+  /**
+   * Fetch the scheme
+   */
+  const fetchScheme = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/admin/schemes/${schemeId}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to fetch scheme')
+      }
+
+      setScheme(result.data)
+    } catch (err) {
+      console.error('Error fetching scheme:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load scheme')
+    } finally {
+      setLoading(false)
+    }
+  }, [schemeId])
+
+  /**
+   * Fetch revision history
+   */
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setRevisionsLoading(true)
+
+      const response = await fetch(`/api/admin/schemes/${schemeId}/revisions`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to fetch revisions')
+      }
+
+      setRevisions(result.data)
+    } catch (err) {
+      console.error('Error fetching scheme revisions:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to load revisions')
+    } finally {
+      setRevisionsLoading(false)
+    }
+  }, [schemeId])
+
+  /**
+   * Save edits
+   */
+  const handleSubmit = async (values: SchemeUpdate, note: string) => {
+    try {
+      setSubmitting(true)
+
+      const response = await fetch(`/api/admin/schemes/${schemeId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ updates: values, note: note || undefined }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to save scheme')
+      }
+
+      setScheme(result.data.scheme)
+
+      if (result.data.revision) {
+        toast.success(`Saved as revision #${result.data.revision.revision_number}`)
+        fetchRevisions()
+      } else {
+        toast.info('No changes to save')
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  /**
+   * Roll back to an earlier revision
+   */
+  const handleRollback = async (revisionNumber: number) => {
+    try {
+      const response = await fetch(`/api/admin/schemes/${schemeId}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revisionNumber }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to roll back scheme')
+      }
+
+      setScheme(result.data.scheme)
+      setFormKey(key => key + 1)
+      toast.success(`Restored revision #${revisionNumber}`)
+      fetchRevisions()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to roll back scheme')
+    }
+  }
+
+  /**
+   * Initial data load
+   */
+  useEffect(() => {
+    fetchScheme()
+    fetchRevisions()
+  }, [fetchScheme, fetchRevisions])
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <div className="border-b bg-background">
+        <div className="px-6 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/admin/catalogue">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              {scheme?.scheme_name || 'Edit Scheme'}
+              {scheme && !scheme.is_active && <Badge variant="secondary">Inactive</Badge>}
+            </h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Changes are saved as new revisions and can be rolled back
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="px-6 pt-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 px-6 py-6 grid gap-6 xl:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+        <div>
+          {loading ? (
+            <div className="space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-32 w-full" />
+              ))}
+            </div>
+          ) : scheme ? (
+            <SchemeEditorForm
+              key={`${scheme.id}-${formKey}`}
+              scheme={scheme}
+              submitting={submitting}
+              onSubmit={handleSubmit}
+            />
+          ) : null}
+        </div>
+
+        <div>
+          <SchemeRevisionHistory
+            revisions={revisions}
+            loading={revisionsLoading}
+            onRollback={handleRollback}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+'use client'
+
+/**
+ * Admin Scheme Data Quality Page
+ *
+ * Shows the data quality audit of the scheme catalogue:
+ * - Average score and issue counts per check
+ * - Per-scheme score (100 = no issues) with the issues found
+ * - Filter by check and active state
+ * - Links to edit the flagged schemes
+ *
+ * The same report is printed by `npm run audit:schemes`.
+ *
+ * @module app/admin/catalogue/audit/page
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AlertCircle, ArrowLeft, Pencil, RefreshCw } from 'lucide-react'
+import { AUDIT_CHECK_LABELS } from '@/lib/schemes/schemeAudit'
+import type { AuditCheck, SchemeAuditReport } from '@/lib/schemes/schemeAudit'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ALL_CHECKS = 'all'
+
+function scoreVariant(score: number): 'default' | 'secondary' | 'destructive' {
+  if (score >= 80) return 'default'
+  if (score >= 50) return 'secondary'
+  return 'destructive'
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function AdminSchemeAuditPage() {
+  // State
+  const [report, setReport] = useState<SchemeAuditReport | null>(null)
+  const [check, setCheck] = useState<string>(ALL_CHECKS)
+  const [activeOnly, setActiveOnly] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Fetch the audit report
+   */
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/admin/schemes/audit')
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || 'Failed to audit schemes')
+      }
+
+      const result = await response.json()
+
+      if (result.success && result.data) {
+        setReport(result.data)
+      } else {
+        throw new Error('Invalid response format')
+      }
+    } catch (err) {
+      console.error('Error auditing schemes:', err)
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to audit schemes. Please try again.'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  /**
+   * Initial data load
+   */
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  const visibleSchemes = useMemo(() => {
+    if (!report) return []
+    return report.schemes.filter((scheme) =>
+      (!activeOnly || scheme.is_active) &&
+      (check === ALL_CHECKS || scheme.issues.some((issue) => issue.check === check))
+    )
+  }, [report, check, activeOnly])
+
+  const cleanCount = report?.schemes.filter((scheme) => scheme.issues.length === 0).length || 0
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <div className="border-b bg-background">
+        <div className="px-6 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/admin/catalogue">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-semibold">Data Quality</h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Placeholders, stringified JSON, missing data, duplicates and broken links in the catalogue.
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={fetchReport} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-run audit
+          </Button>
+        </div>
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="px-6 pt-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 px-6 py-6 space-y-4">
+        {loading || !report ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid gap-4 md:grid-cols-3">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Average score</CardDescription>
+                  <CardTitle className="text-3xl">{report.averageScore}/100</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Schemes audited</CardDescription>
+                  <CardTitle className="text-3xl">{report.schemeCount}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Schemes with no issues</CardDescription>
+                  <CardTitle className="text-3xl">{cleanCount}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Issues by check</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {(Object.keys(AUDIT_CHECK_LABELS) as AuditCheck[]).map((key) => (
+                  <Badge key={key} variant={report.issueCounts[key] > 0 ? 'secondary' : 'outline'}>
+                    {AUDIT_CHECK_LABELS[key]}: {report.issueCounts[key]}
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <Select value={check} onValueChange={setCheck}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CHECKS}>All schemes</SelectItem>
+                    {(Object.keys(AUDIT_CHECK_LABELS) as AuditCheck[]).map((key) => (
+                      <SelectItem key={key} value={key}>{AUDIT_CHECK_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="active-only"
+                    checked={activeOnly}
+                    onCheckedChange={(checked) => setActiveOnly(checked === true)}
+                  />
+                  <Label htmlFor="active-only" className="text-sm">Active only</Label>
+                </div>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                Showing {visibleSchemes.length} of {report.schemeCount} schemes
+              </div>
+            </div>
+
+            {/* Schemes Table */}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scheme</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Issues</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleSchemes.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                        No schemes match
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleSchemes.map((scheme) => (
+                      <TableRow key={scheme.id}>
+                        <TableCell className="font-medium max-w-xs align-top">
+                          {scheme.scheme_name}
+                          {!scheme.is_active && (
+                            <Badge variant="secondary" className="ml-2">Inactive</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Badge variant={scoreVariant(scheme.score)}>{scheme.score}</Badge>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          {scheme.issues.length === 0 ? (
+                            <span className="text-sm text-muted-foreground">No issues</span>
+                          ) : (
+                            <ul className="space-y-1 text-sm">
+                              {scheme.issues.map((issue, i) => (
+                                <li key={i} className={issue.severity === 'error' ? 'text-destructive' : 'text-muted-foreground'}>
+                                  {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right align-top">
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href={`/admin/catalogue/${scheme.id}`}>
+                              <Pencil className="h-4 w-4 mr-1" />
+                              Edit
+                            </Link>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
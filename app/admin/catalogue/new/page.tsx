@@ -0,0 +1,83 @@
+'use client'
+
+/**
+ * Admin New Scheme Page
+ * 
+ * Form to add a scheme to the catalogue. The created scheme starts
+ * with revision 1.
+ * 
+ * @module app/admin/catalogue/new/page
+ */
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { SchemeEditorForm } from '@/components/admin/SchemeEditorForm'
+import { ArrowLeft } from 'lucide-react'
+import { toast } from 'sonner'
+import type { SchemeUpdate } from '@/types/database'
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function AdminNewSchemePage() {
+  const router = useRouter()
+  const [submitting, setSubmitting] = useState(false)
+
+  /**
+   * Create the scheme and open its edit page
+   */
+  const handleSubmit = async (values: SchemeUpdate, note: string) => {
+    try {
+      setSubmitting(true)
+
+      const response = await fetch('/api/admin/schemes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheme: values, note: note || undefined }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to create scheme')
+      }
+
+      toast.success('Scheme created')
+      router.push(`/admin/catalogue/${result.data.scheme.id}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <div className="border-b bg-background">
+        <div className="px-6 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/admin/catalogue">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-semibold">New Scheme</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Add a scheme to the catalogue
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 px-6 py-6 max-w-5xl">
+        <SchemeEditorForm
+          submitting={submitting}
+          submitLabel="Create Scheme"
+          onSubmit={handleSubmit}
+        />
+      </div>
+    </div>
+  )
+}
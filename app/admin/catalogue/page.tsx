@@ -0,0 +1,314 @@
+'use client'
+
+/**
+ * Admin Scheme Catalogue Page
+ * 
+ * Lists all schemes in the catalogue (active and inactive) with:
+ * - Search by scheme name
+ * - Active / inactive toggle
+ * - Links to create and edit schemes
+ * - Deactivate / reactivate actions
+ * - Link to the data quality report
+ * 
+ * @module app/admin/catalogue/page
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AlertCircle, ChevronLeft, ChevronRight, Pencil, Plus, Power, Search, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import type { Scheme } from '@/types/database'
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function AdminCataloguePage() {
+  // State
+  const [schemes, setSchemes] = useState<Scheme[]>([])
+  const [searchQuery, setSearchQuery] = useState('')
+  const [includeInactive, setIncludeInactive] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  const pageSize = 20
+
+  /**
+   * Fetch schemes
+   */
+  const fetchSchemes = useCallback(async (page: number, search: string, inactive: boolean) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      params.set('page', page.toString())
+      params.set('pageSize', pageSize.toString())
+      params.set('includeInactive', inactive ? 'true' : 'false')
+      if (search) {
+        params.set('search', search)
+      }
+
+      const response = await fetch(`/api/admin/schemes?${params.toString()}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || 'Failed to fetch schemes')
+      }
+
+      const result = await response.json()
+
+      if (result.success && result.data) {
+        setSchemes(result.data)
+        setTotalPages(result.pagination?.totalPages || 1)
+        setTotalCount(result.pagination?.totalCount || 0)
+        setCurrentPage(result.pagination?.page || 1)
+      } else {
+        throw new Error('Invalid response format')
+      }
+    } catch (err) {
+      console.error('Error fetching schemes:', err)
+      setError(
+        err instanceof Error 
+          ? err.message 
+          : 'Failed to load schemes. Please try again.'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  /**
+   * Deactivate or reactivate a scheme
+   */
+  const handleToggleActive = async (scheme: Scheme) => {
+    try {
+      const response = scheme.is_active
+        ? await fetch(`/api/admin/schemes/${scheme.id}`, { method: 'DELETE' })
+        : await fetch(`/api/admin/schemes/${scheme.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ updates: { is_active: true } }),
+          })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to update scheme')
+      }
+
+      toast.success(scheme.is_active ? 'Scheme deactivated' : 'Scheme reactivated')
+      fetchSchemes(currentPage, searchQuery, includeInactive)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update scheme')
+    }
+  }
+
+  /**
+   * Handle search
+   */
+  const handleSearch = (query: string) => {
+    setSearchQuery(query)
+    fetchSchemes(1, query, includeInactive)
+  }
+
+  /**
+   * Handle inactive toggle
+   */
+  const handleIncludeInactiveChange = (checked: boolean) => {
+    setIncludeInactive(checked)
+    fetchSchemes(1, searchQuery, checked)
+  }
+
+  /**
+   * Initial data load
+   */
+  useEffect(() => {
+    fetchSchemes(1, '', true)
+  }, [fetchSchemes])
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <div className="border-b bg-background">
+        <div className="px-6 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold">Scheme Catalogue</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Create, edit and deactivate schemes. Every change is versioned.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/admin/catalogue/audit">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Data Quality
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link href="/admin/catalogue/new">
+                <Plus className="h-4 w-4 mr-2" />
+                New Scheme
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="px-6 pt-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 px-6 py-6 space-y-4">
+        {/* Search Bar and Results Count */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 flex-1">
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Search by scheme name..."
+                value={searchQuery}
+                onChange={(e) => handleSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="include-inactive"
+                checked={includeInactive}
+                onCheckedChange={(checked) => handleIncludeInactiveChange(checked === true)}
+              />
+              <Label htmlFor="include-inactive" className="text-sm">Show inactive</Label>
+            </div>
+          </div>
+          {!loading && (
+            <div className="text-sm text-muted-foreground">
+              Showing {schemes.length} of {totalCount} schemes
+            </div>
+          )}
+        </div>
+
+        {/* Schemes Table */}
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scheme</TableHead>
+                  <TableHead>Ministry</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schemes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No schemes found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  schemes.map((scheme) => (
+                    <TableRow key={scheme.id}>
+                      <TableCell className="font-medium max-w-md">{scheme.scheme_name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{scheme.ministry || '—'}</TableCell>
+                      <TableCell>
+                        {scheme.category ? <Badge variant="outline">{scheme.category}</Badge> : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={scheme.is_active ? 'default' : 'secondary'}>
+                          {scheme.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(scheme.updated_at).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href={`/admin/catalogue/${scheme.id}`}>
+                              <Pencil className="h-4 w-4 mr-1" />
+                              Edit
+                            </Link>
+                          </Button>
+                          <Button
+                            variant={scheme.is_active ? 'ghost' : 'secondary'}
+                            size="sm"
+                            onClick={() => handleToggleActive(scheme)}
+                          >
+                            <Power className="h-4 w-4 mr-1" />
+                            {scheme.is_active ? 'Deactivate' : 'Reactivate'}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={currentPage <= 1 || loading}
+              onClick={() => fetchSchemes(currentPage - 1, searchQuery, includeInactive)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {currentPage} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={currentPage >= totalPages || loading}
+              onClick={() => fetchSchemes(currentPage + 1, searchQuery, includeInactive)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
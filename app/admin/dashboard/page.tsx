@@ -8,6 +8,8 @@
  * - Stat cards showing key metrics
  * - Charts for data visualization
  * - Export functionality
+ * - LLM usage and cost
+ * - Prompt experiment outcomes
  * 
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 8.1, 8.2, 8.3, 8.4, 8.5
  * 
@@ -22,6 +24,8 @@ import { IndustryDistributionChart } from '@/components/admin/charts/IndustryDis
 import { LocationDistributionChart } from '@/components/admin/charts/LocationDistributionChart'
 import { ConversationTrendChart } from '@/components/admin/charts/ConversationTrendChart'
 import { ExportButton } from '@/components/admin/ExportButton'
+import { UsageCostCard } from '@/components/admin/UsageCostCard'
+import { PromptExperimentsCard } from '@/components/admin/PromptExperimentsCard'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertCircle } from 'lucide-react'
 import type { AnalyticsSummary, AnalyticsFilters } from '@/types/database'
@@ -177,6 +181,12 @@ export default function AdminDashboardPage() {
             <ConversationTrendChart summary={summary} loading={loading} />
           </div>
         </div>
+
+        {/* LLM Usage and Cost */}
+        <UsageCostCard filters={filters} />
+
+        {/* Prompt Experiments */}
+        <PromptExperimentsCard filters={filters} />
       </div>
     </div>
   )
@@ -0,0 +1,304 @@
+'use client'
+
+/**
+ * Admin Flagged Answers Page
+ *
+ * Lists chat answers that failed a catalogue check after they were
+ * generated (services/ai/responseGuard):
+ * - Counts of pending, reviewed and dismissed flags
+ * - The question, the answer and each failed check with the catalogue's figures
+ * - Mark a flag reviewed (a real problem) or dismissed (a false alarm)
+ *
+ * @module app/admin/responses/page
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AlertCircle, Check, RefreshCw, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { VERIFICATION_CHECK_LABELS } from '@/lib/schemes/responseVerifier'
+import type { VerificationIssue } from '@/lib/schemes/responseVerifier'
+import type { ResponseFlag, ResponseFlagStatus } from '@/types/database'
+import type { ResponseFlagCounts } from '@/services/analytics/responseFlagService'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ALL_STATUSES = 'all'
+
+const STATUS_LABELS: Record<ResponseFlagStatus, string> = {
+  pending: 'Pending',
+  reviewed: 'Reviewed',
+  dismissed: 'Dismissed',
+}
+
+function statusVariant(status: ResponseFlagStatus): 'default' | 'secondary' | 'outline' {
+  if (status === 'pending') return 'default'
+  if (status === 'reviewed') return 'secondary'
+  return 'outline'
+}
+
+function flagIssues(flag: ResponseFlag): VerificationIssue[] {
+  return Array.isArray(flag.issues) ? (flag.issues as unknown as VerificationIssue[]) : []
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function AdminFlaggedAnswersPage() {
+  // State
+  const [flags, setFlags] = useState<ResponseFlag[]>([])
+  const [counts, setCounts] = useState<ResponseFlagCounts | null>(null)
+  const [status, setStatus] = useState<string>('pending')
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Fetch flags with the selected status
+   */
+  const fetchFlags = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const query = status === ALL_STATUSES ? '' : `?status=${status}`
+      const response = await fetch(`/api/admin/responses/flags${query}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || 'Failed to fetch flagged answers')
+      }
+
+      const result = await response.json()
+
+      if (result.success && result.data) {
+        setFlags(result.data.flags)
+        setCounts(result.data.counts)
+      } else {
+        throw new Error('Invalid response format')
+      }
+    } catch (err) {
+      console.error('Error fetching flagged answers:', err)
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to fetch flagged answers. Please try again.'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  /**
+   * Initial data load and reload on filter change
+   */
+  useEffect(() => {
+    fetchFlags()
+  }, [fetchFlags])
+
+  /**
+   * Mark a flag reviewed or dismissed
+   */
+  const reviewFlag = async (flag: ResponseFlag, newStatus: ResponseFlagStatus) => {
+    try {
+      setUpdatingId(flag.id)
+
+      const response = await fetch(`/api/admin/responses/flags/${flag.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || 'Failed to update flag')
+      }
+
+      toast.success(newStatus === 'dismissed' ? 'Flag dismissed' : 'Flag marked reviewed')
+      await fetchFlags()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update flag')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <div className="border-b bg-background">
+        <div className="px-6 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold">Flagged Answers</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Chat answers naming schemes outside the catalogue or figures that contradict a scheme&apos;s financial details.
+            </p>
+          </div>
+          <Button variant="outline" onClick={fetchFlags} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="px-6 pt-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 px-6 py-6 space-y-4">
+        {/* Summary */}
+        {counts && (
+          <div className="grid gap-4 md:grid-cols-3">
+            {(Object.keys(STATUS_LABELS) as ResponseFlagStatus[]).map((key) => (
+              <Card key={key}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{STATUS_LABELS[key]}</CardDescription>
+                  <CardTitle className="text-3xl">{counts[key]}</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All flags</SelectItem>
+              {(Object.keys(STATUS_LABELS) as ResponseFlagStatus[]).map((key) => (
+                <SelectItem key={key} value={key}>{STATUS_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="text-sm text-muted-foreground">
+            Showing {flags.length} flags
+          </div>
+        </div>
+
+        {/* Flags Table */}
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Answer</TableHead>
+                  <TableHead>Issues</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flags.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                      No flagged answers
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  flags.map((flag) => (
+                    <TableRow key={flag.id}>
+                      <TableCell className="max-w-md align-top">
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(flag.created_at).toLocaleString()} · {flag.model}
+                          {flag.corrected && ' · note added'}
+                        </p>
+                        <p className="text-sm font-medium mt-1">{flag.user_message}</p>
+                        <details className="mt-1">
+                          <summary className="text-xs text-primary cursor-pointer">Show answer</summary>
+                          <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">{flag.response_text}</p>
+                        </details>
+                      </TableCell>
+                      <TableCell className="max-w-md align-top">
+                        <ul className="space-y-2 text-sm">
+                          {flagIssues(flag).map((issue, i) => (
+                            <li key={i}>
+                              <Badge variant="secondary" className="mb-1">
+                                {VERIFICATION_CHECK_LABELS[issue.check] || issue.check}
+                              </Badge>
+                              <p>{issue.message}</p>
+                              {issue.check !== 'unknown_scheme' && (
+                                <p className="text-xs text-muted-foreground italic">&ldquo;{issue.claim}&rdquo;</p>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <Badge variant={statusVariant(flag.status)}>{STATUS_LABELS[flag.status]}</Badge>
+                        {flag.reviewer_notes && (
+                          <p className="text-xs text-muted-foreground mt-1">{flag.reviewer_notes}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right align-top">
+                        {flag.status === 'pending' && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={updatingId === flag.id}
+                              onClick={() => reviewFlag(flag, 'reviewed')}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Reviewed
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={updatingId === flag.id}
+                              onClick={() => reviewFlag(flag, 'dismissed')}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Dismiss
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
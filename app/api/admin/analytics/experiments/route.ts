@@ -0,0 +1,66 @@
+/**
+ * Admin Prompt Experiments API Endpoint
+ * 
+ * GET /api/admin/analytics/experiments
+ * 
+ * Returns the outcomes of each prompt experiment variant: conversations,
+ * users, schemes saved and applied for, and flagged answers.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { ExperimentService, type ExperimentFilters } from '@/services/analytics/experimentService';
+
+/**
+ * GET handler for experiment results
+ * 
+ * Query Parameters:
+ * - startDate: ISO date string (optional)
+ * - endDate: ISO date string (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+
+    // Date range filter, on when conversations started
+    const { searchParams } = new URL(request.url);
+    const filters: ExperimentFilters = {};
+
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    if (startDate && endDate) {
+      filters.dateRange = {
+        startDate,
+        endDate
+      };
+    }
+
+    const experimentService = new ExperimentService({ supabaseClient: supabase });
+    const results = await experimentService.getResults(filters);
+
+    return NextResponse.json({
+      success: true,
+      data: results
+    });
+
+  } catch (error) {
+    console.error('[Admin API] Error getting experiment results:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get experiment results',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
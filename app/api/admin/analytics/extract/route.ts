@@ -12,6 +12,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/api/adminAuth';
 import { ExtractionService } from '@/services/analytics/extractionService';
+import { recordLlmUsage } from '@/services/analytics/usageService';
 
 /**
  * POST handler for manual extraction trigger
@@ -122,6 +123,21 @@ export async function POST(request: NextRequest) {
     const extractionService = new ExtractionService(supabase);
     const extractionResult = await extractionService.extractFromConversation(conversationId);
 
+    // Record what the extraction cost
+    const { usage } = extractionResult.metadata;
+    if (usage) {
+      await recordLlmUsage({
+        purpose: 'extraction',
+        user_id: conversation.user_id,
+        conversation_id: conversationId,
+        extraction_job_id: jobId || null,
+        model: usage.model,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        cost_usd: usage.costUsd
+      });
+    }
+
     // Update job status to completed
     if (jobId) {
       await (supabase as any)
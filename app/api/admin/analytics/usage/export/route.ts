@@ -0,0 +1,74 @@
+/**
+ * Admin LLM Usage Export API Endpoint
+ * 
+ * GET /api/admin/analytics/usage/export
+ * 
+ * Exports the usage ledger as CSV, one line per chat response or
+ * extraction run.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { UsageService, type UsageFilters } from '@/services/analytics/usageService';
+
+/**
+ * GET handler for usage export
+ * 
+ * Query Parameters:
+ * - startDate: ISO date string (optional)
+ * - endDate: ISO date string (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+
+    // Date range filter
+    const { searchParams } = new URL(request.url);
+    const filters: UsageFilters = {};
+
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    if (startDate && endDate) {
+      filters.dateRange = {
+        startDate,
+        endDate
+      };
+    }
+
+    const usageService = new UsageService({ supabaseClient: supabase });
+    const csv = await usageService.exportCsv(filters);
+
+    // Generate filename with timestamp
+    const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+
+    const headers = new Headers();
+    headers.set('Content-Type', 'text/csv; charset=utf-8');
+    headers.set('Content-Disposition', `attachment; filename="llm_usage_${timestamp}.csv"`);
+    headers.set('Cache-Control', 'no-cache, no-store, must-revalidate');
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers
+    });
+
+  } catch (error) {
+    console.error('[Admin API] Error exporting usage:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to export usage',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
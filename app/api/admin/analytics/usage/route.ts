@@ -0,0 +1,66 @@
+/**
+ * Admin LLM Usage API Endpoint
+ * 
+ * GET /api/admin/analytics/usage
+ * 
+ * Returns tokens and cost of chat responses and extraction runs, in total
+ * and per day, model, purpose, user and conversation.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { UsageService, type UsageFilters } from '@/services/analytics/usageService';
+
+/**
+ * GET handler for usage summary
+ * 
+ * Query Parameters:
+ * - startDate: ISO date string (optional)
+ * - endDate: ISO date string (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+
+    // Date range filter
+    const { searchParams } = new URL(request.url);
+    const filters: UsageFilters = {};
+
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    if (startDate && endDate) {
+      filters.dateRange = {
+        startDate,
+        endDate
+      };
+    }
+
+    const usageService = new UsageService({ supabaseClient: supabase });
+    const summary = await usageService.getSummary(filters);
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('[Admin API] Error getting usage summary:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get usage summary',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
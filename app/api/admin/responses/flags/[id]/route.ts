@@ -0,0 +1,77 @@
+/**
+ * Admin Response Flag Review API Endpoint
+ * 
+ * PATCH /api/admin/responses/flags/[id]
+ * 
+ * Records an admin's review of a flagged chat answer: confirmed
+ * (reviewed) or a false alarm (dismissed), with optional notes.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { ResponseFlagService } from '@/services/analytics/responseFlagService';
+import type { ResponseFlagStatus } from '@/types/database';
+
+const STATUSES: ResponseFlagStatus[] = ['pending', 'reviewed', 'dismissed'];
+
+/**
+ * PATCH handler to review a flag
+ * 
+ * Request Body:
+ * {
+ *   status: 'pending' | 'reviewed' | 'dismissed'
+ *   notes?: string
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { user, supabase } = authResult;
+    const { id } = await params;
+
+    const body = await request.json();
+    const { status, notes } = body;
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request',
+          message: `status must be one of ${STATUSES.join(', ')}`
+        },
+        { status: 400 }
+      );
+    }
+
+    const flagService = new ResponseFlagService({ supabaseClient: supabase });
+    const flag = await flagService.reviewFlag(id, {
+      status,
+      reviewerNotes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      reviewedBy: user.id
+    });
+
+    return NextResponse.json({ success: true, data: flag });
+
+  } catch (error) {
+    console.error('[Admin API] Error reviewing response flag:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to review response flag',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Admin Response Flags API Endpoint
+ * 
+ * GET /api/admin/responses/flags
+ * 
+ * Returns chat answers that failed a catalogue check (unknown schemes,
+ * subsidy rates, amounts or interest rates that contradict the scheme's
+ * financial details), newest first, with the number of flags per status.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { ResponseFlagService } from '@/services/analytics/responseFlagService';
+import type { ResponseFlagStatus } from '@/types/database';
+
+const STATUSES: ResponseFlagStatus[] = ['pending', 'reviewed', 'dismissed'];
+
+/**
+ * GET handler for flagged responses
+ * 
+ * Query Parameters:
+ * - status: pending | reviewed | dismissed (optional, all when omitted)
+ * - limit: number of flags (optional, default 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = parseInt(searchParams.get('limit') || '', 10);
+
+    if (status && !STATUSES.includes(status as ResponseFlagStatus)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request',
+          message: `status must be one of ${STATUSES.join(', ')}`
+        },
+        { status: 400 }
+      );
+    }
+
+    const flagService = new ResponseFlagService({ supabaseClient: supabase });
+    const [flags, counts] = await Promise.all([
+      flagService.listFlags({
+        status: (status as ResponseFlagStatus) || undefined,
+        limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, 500) : undefined
+      }),
+      flagService.getCounts()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { flags, counts }
+    });
+
+  } catch (error) {
+    console.error('[Admin API] Error getting response flags:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get response flags',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
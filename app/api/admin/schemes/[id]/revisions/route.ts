@@ -0,0 +1,47 @@
+/**
+ * Admin Scheme Revisions API Endpoint
+ * 
+ * GET /api/admin/schemes/[id]/revisions
+ * 
+ * Returns the revision history for a scheme, newest first. Each revision
+ * has its author, timestamp, field-level diff and a snapshot of the scheme.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { SchemeService } from '@/services/database/schemeService';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+    const { id } = await params;
+
+    const schemeService = new SchemeService(supabase);
+    const revisions = await schemeService.getRevisions(id);
+
+    return NextResponse.json({ success: true, data: revisions });
+
+  } catch (error) {
+    console.error('[Admin API] Error getting scheme revisions:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get scheme revisions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Admin Scheme Rollback API Endpoint
+ * 
+ * POST /api/admin/schemes/[id]/rollback
+ * 
+ * Restores a scheme to the state captured in an earlier revision. The
+ * rollback is itself recorded as a new revision, so it can be undone.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { SchemeService } from '@/services/database/schemeService';
+import { revalidateSchemePages } from '@/lib/api/schemePages';
+
+/**
+ * POST handler for rollback
+ * 
+ * Request Body:
+ * {
+ *   revisionNumber: number (required)
+ *   note?: string
+ * }
+ * 
+ * Response:
+ * {
+ *   success: boolean
+ *   data: { scheme: Scheme, revision: SchemeRevision | null }
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { user, supabase } = authResult;
+    const { id } = await params;
+
+    // Parse request body
+    const body = await request.json();
+    const { revisionNumber, note } = body;
+
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request',
+          message: 'revisionNumber is required and must be a positive integer'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log('[Admin API] Rolling back scheme:', id, 'to revision', revisionNumber);
+
+    const schemeService = new SchemeService(supabase);
+    const result = await schemeService.rollbackToRevision(
+      id,
+      revisionNumber,
+      { id: user.id, email: user.email },
+      typeof note === 'string' ? note : undefined
+    );
+
+    await revalidateSchemePages();
+
+    return NextResponse.json({ success: true, data: result });
+
+  } catch (error) {
+    console.error('[Admin API] Error rolling back scheme:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to roll back scheme',
+        message
+      },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Admin Individual Scheme API Endpoint
+ * 
+ * GET /api/admin/schemes/[id] - Get a scheme (including inactive)
+ * PATCH /api/admin/schemes/[id] - Edit scheme fields
+ * DELETE /api/admin/schemes/[id] - Deactivate a scheme (soft delete)
+ * 
+ * Every change is recorded as a new revision with a field-level diff.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { SchemeService } from '@/services/database/schemeService';
+import { revalidateSchemePages } from '@/lib/api/schemePages';
+
+/**
+ * Map service errors to HTTP status codes
+ */
+function errorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.startsWith('Invalid')) return 400;
+  return 500;
+}
+
+/**
+ * GET handler for a single scheme
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+    const { id } = await params;
+
+    const schemeService = new SchemeService(supabase);
+    const scheme = await schemeService.getScheme(id);
+
+    return NextResponse.json({ success: true, data: scheme });
+
+  } catch (error) {
+    console.error('[Admin API] Error getting scheme:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get scheme',
+        message
+      },
+      { status: errorStatus(message) }
+    );
+  }
+}
+
+/**
+ * PATCH handler to edit a scheme
+ * 
+ * Request Body:
+ * {
+ *   updates: SchemeUpdate - description, benefits, eligibility, documents_required,
+ *            financial_details, eligibility_rules, tags, target_audience, is_active, ...
+ *   note?: string - stored with the revision
+ * }
+ * 
+ * Response:
+ * {
+ *   success: boolean
+ *   data: { scheme: Scheme, revision: SchemeRevision | null }
+ * }
+ * 
+ * revision is null when the submitted values match the current scheme.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { user, supabase } = authResult;
+    const { id } = await params;
+
+    // Parse request body
+    const body = await request.json();
+    const { updates, note } = body;
+
+    if (!updates || typeof updates !== 'object' || Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request',
+          message: 'updates is required and must contain at least one field'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log('[Admin API] Updating scheme:', id, Object.keys(updates));
+
+    const schemeService = new SchemeService(supabase);
+    const result = await schemeService.updateScheme(
+      id,
+      updates,
+      { id: user.id, email: user.email },
+      typeof note === 'string' ? note : undefined
+    );
+
+    await revalidateSchemePages();
+
+    return NextResponse.json({ success: true, data: result });
+
+  } catch (error) {
+    console.error('[Admin API] Error updating scheme:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update scheme',
+        message
+      },
+      { status: errorStatus(message) }
+    );
+  }
+}
+
+/**
+ * DELETE handler to deactivate a scheme
+ * 
+ * Schemes are never hard-deleted so that scheme_interests and user_schemes
+ * keep their references. Reactivate with PATCH { updates: { is_active: true } }.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { user, supabase } = authResult;
+    const { id } = await params;
+
+    console.log('[Admin API] Deactivating scheme:', id);
+
+    const schemeService = new SchemeService(supabase);
+    const result = await schemeService.setSchemeActive(
+      id,
+      false,
+      { id: user.id, email: user.email }
+    );
+
+    await revalidateSchemePages();
+
+    return NextResponse.json({ success: true, data: result });
+
+  } catch (error) {
+    console.error('[Admin API] Error deactivating scheme:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to deactivate scheme',
+        message
+      },
+      { status: errorStatus(message) }
+    );
+  }
+}
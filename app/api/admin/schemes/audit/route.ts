@@ -0,0 +1,50 @@
+/**
+ * Admin Scheme Data Quality API Endpoint
+ * 
+ * GET /api/admin/schemes/audit - Audit every scheme (including inactive)
+ * 
+ * Returns a per-scheme score and the issues found (placeholders,
+ * stringified JSON, missing data, duplicates, bad URLs).
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { SchemeService } from '@/services/database/schemeService';
+import { auditSchemes } from '@/lib/schemes/schemeAudit';
+
+/**
+ * GET handler for the data quality report
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+
+    const schemeService = new SchemeService(supabase);
+    const schemes = await schemeService.listAllSchemes();
+
+    return NextResponse.json({
+      success: true,
+      data: auditSchemes(schemes)
+    });
+
+  } catch (error) {
+    console.error('[Admin API] Error auditing schemes:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to audit schemes',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
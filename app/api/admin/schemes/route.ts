@@ -0,0 +1,141 @@
+/**
+ * Admin Scheme Catalogue API Endpoint
+ * 
+ * GET /api/admin/schemes - List schemes (including inactive)
+ * POST /api/admin/schemes - Create a scheme
+ * 
+ * Every create is recorded as revision 1 in scheme_revisions.
+ * Requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/adminAuth';
+import { SchemeService } from '@/services/database/schemeService';
+import { revalidateSchemePages } from '@/lib/api/schemePages';
+
+/**
+ * GET handler for the scheme catalogue
+ * 
+ * Query Parameters:
+ * - page: number (default: 1)
+ * - pageSize: number (default: 20)
+ * - search: string (optional) - search by scheme name
+ * - includeInactive: 'true' | 'false' (default: 'true')
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { supabase } = authResult;
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const pageSize = parseInt(searchParams.get('pageSize') || '20', 10);
+    const search = searchParams.get('search');
+    const includeInactive = searchParams.get('includeInactive') !== 'false';
+
+    console.log('[Admin API] Listing schemes:', { page, pageSize, search, includeInactive });
+
+    const schemeService = new SchemeService(supabase);
+    const result = await schemeService.listSchemes({
+      page,
+      pageSize,
+      search: search || undefined,
+      includeInactive
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination
+    });
+
+  } catch (error) {
+    console.error('[Admin API] Error listing schemes:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list schemes',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler to create a scheme
+ * 
+ * Request Body:
+ * {
+ *   scheme: SchemeInsert (scheme_name required)
+ *   note?: string - stored with the revision
+ * }
+ * 
+ * Response:
+ * {
+ *   success: boolean
+ *   data: { scheme: Scheme, revision: SchemeRevision }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Require admin authentication
+    const authResult = await requireAdmin(request);
+    
+    if (authResult instanceof NextResponse) {
+      return authResult; // Return 401 or 403 error
+    }
+
+    const { user, supabase } = authResult;
+
+    // Parse request body
+    const body = await request.json();
+    const { scheme, note } = body;
+
+    if (!scheme || typeof scheme !== 'object') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request',
+          message: 'scheme is required and must be an object'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log('[Admin API] Creating scheme:', scheme.scheme_name);
+
+    const schemeService = new SchemeService(supabase);
+    const result = await schemeService.createScheme(
+      scheme,
+      { id: user.id, email: user.email },
+      typeof note === 'string' ? note : undefined
+    );
+
+    await revalidateSchemePages();
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 });
+
+  } catch (error) {
+    console.error('[Admin API] Error creating scheme:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: message.startsWith('Invalid') ? 'Invalid request' : 'Failed to create scheme',
+        message
+      },
+      { status: message.startsWith('Invalid') ? 400 : 500 }
+    );
+  }
+}
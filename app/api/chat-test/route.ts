@@ -1,12 +1,8 @@
 import { streamText, convertToModelMessages, type UIMessage } from 'ai';
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { getLLMProvider } from '@/services/ai/llmProvider';
 
 export const runtime = 'edge';
 
-const openrouter = createOpenRouter({
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-});
-
 export async function POST(req: Request) {
   try {
     const { messages }: { messages: UIMessage[] } = await req.json();
@@ -15,7 +11,7 @@ export async function POST(req: Request) {
     console.log('[Test API] First message:', JSON.stringify(messages[0], null, 2));
 
     const result = streamText({
-      model: openrouter.chat('openai/gpt-4o-mini'),
+      model: getLLMProvider().getModel('chat', 'openai/gpt-4o-mini'),
       messages: convertToModelMessages(messages),
     });
 
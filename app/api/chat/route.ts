@@ -1,18 +1,38 @@
 import { NextRequest } from 'next/server';
-import { streamText, convertToModelMessages, type UIMessage } from 'ai';
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import {
+  streamText,
+  convertToModelMessages,
+  createUIMessageStreamResponse,
+  stepCountIs,
+  type UIMessage
+} from 'ai';
 import { conversationManager } from '@/services/chat/conversationManager';
 import { schemeDataService } from '@/services/schemes/schemeDataService';
 import { extractionTriggerService } from '@/services/analytics/extractionTriggerService';
+import {
+  citeSchemeSources,
+  createSchemeTools,
+  loadSchemeToolContext,
+  type SchemeChatMessage
+} from '@/services/ai/schemeTools';
+import { schemeDataParts } from '@/services/ai/schemeDataParts';
+import { createCitationRegistry } from '@/lib/schemes/schemeCitations';
+import { getLLMProvider } from '@/services/ai/llmProvider';
+import { createRoutedModel, routeChatTurn } from '@/services/ai/modelRouter';
+import { toUsageRecord } from '@/services/ai/modelPricing';
+import { recordLlmUsage } from '@/services/analytics/usageService';
+import { recordResponseFlag } from '@/services/analytics/responseFlagService';
+import { createResponseGuard } from '@/services/ai/responseGuard';
+import { getHistoryTokenBudget } from '@/services/ai/contextBudget';
+import { compactHistory, formatSummaryForPrompt } from '@/services/ai/conversationSummarizer';
+import { assignedVersion, resolvePromptAssignments } from '@/lib/prompts/promptRegistry';
+import type { ConversationService } from '@/services/database/conversationService';
+import type { ChatMessageMetadata, ConversationSummary } from '@/types/conversation';
+import type { Json } from '@/types/database';
 
 // Edge runtime for streaming
 export const runtime = 'edge';
 
-// Configure OpenRouter using the official provider
-const openrouter = createOpenRouter({
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-});
-
 // Rate limiting store (in production, use Redis or similar)
 const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
 
@@ -77,6 +97,12 @@ export async function POST(request: NextRequest) {
       console.log('[Chat API] First message structure:', JSON.stringify(uiMessages[0], null, 2));
     }
 
+    // Saved conversations keep their rolling summary and prompt versions in
+    // the database
+    let conversationService: ConversationService | null = null;
+    let storedSummary: ConversationSummary | null = null;
+    let promptState: Awaited<ReturnType<ConversationService['getPromptVariants']>> = null;
+
     // If we have a conversationId, load full conversation history from database
     if (conversationId) {
       console.log('[Chat API] Loading conversation history for:', conversationId);
@@ -85,10 +111,23 @@ export async function POST(request: NextRequest) {
       try {
         // Import MessageService to load messages
         const { MessageService } = await import('@/services/database/messageService');
+        const { ConversationService } = await import('@/services/database/conversationService');
         const { createClient } = await import('@/lib/supabase/server');
         
         const supabase = await createClient();
         const messageService = new MessageService(supabase);
+        conversationService = new ConversationService(supabase);
+
+        [storedSummary, promptState] = await Promise.all([
+          conversationService.getSummary(conversationId).catch(error => {
+            console.error('[Chat API] Failed to load conversation summary:', error);
+            return null;
+          }),
+          conversationService.getPromptVariants(conversationId).catch(error => {
+            console.error('[Chat API] Failed to load conversation prompt variants:', error);
+            return null;
+          })
+        ]);
         
         // Load all messages from database
         const dbMessages = await messageService.getMessages(conversationId);
@@ -176,9 +215,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if OpenRouter is configured
-    if (!process.env.OPENROUTER_API_KEY) {
-      // Fallback to mock response if not configured
+    // Check if the LLM provider is configured
+    const provider = getLLMProvider();
+    if (!provider.isConfigured()) {
+      // Fallback to a static response if not configured
       const lastMessage = uiMessages.length > 0 ? extractMessageContent(uiMessages[uiMessages.length - 1]) : '';
       return handleFallbackResponse(lastMessage, sessionId);
     }
@@ -187,14 +227,43 @@ export async function POST(request: NextRequest) {
     const lastMsg = uiMessages[uiMessages.length - 1];
     const lastUserMessage = extractMessageContent(lastMsg);
 
+    // Prompt versions: those the conversation already used, or on its first
+    // turn the owner's variants in any prompt experiment
+    const promptAssignments = resolvePromptAssignments(['chat-system', 'summary'], {
+      subjectId: promptState?.userId,
+      pinned: promptState?.variants
+    });
+    if (conversationService && promptState && JSON.stringify(promptState.variants) !== JSON.stringify(promptAssignments)) {
+      await conversationService.setPromptVariants(conversationId, promptAssignments).catch(error =>
+        console.error('[Chat API] Failed to record prompt variants:', error));
+    }
+
+    console.log('[Chat API] Prompt versions:', promptAssignments
+      .map(assignment => `${assignment.prompt}@${assignment.version}${assignment.experimentId ? ` (${assignment.experimentId})` : ''}`)
+      .join(', '));
+
     // Process chat with context from our data layer
-    const { systemPrompt, context, session } = await conversationManager.processChat({
+    const { systemPrompt, session } = await conversationManager.processChat({
       message: lastUserMessage,
       sessionId,
       language,
-      userProfile
+      userProfile,
+      toolsEnabled: true,
+      promptVersion: assignedVersion(promptAssignments, 'chat-system')
     });
 
+    // Bind the tools to the signed-in user, if any
+    const toolContext = await loadSchemeToolContext(session.userProfile);
+
+    // Route the turn to a fast or strong model chain. The client's model
+    // field is the conversation default, so only the account preference
+    // (or an explicit model from an anonymous client) is honoured
+    const routed = createRoutedModel(provider, routeChatTurn({
+      message: lastUserMessage,
+      preferredModel: toolContext.preferredModel || (toolContext.userId ? undefined : model)
+    }));
+    console.log(`[Chat API] Routed to ${routed.route.tier} tier (${routed.route.reason}): ${routed.route.chain.join(' -> ')}`);
+
     // Filter out any invalid messages (like welcome messages)
     const validUIMessages = uiMessages.filter((m: UIMessage) => {
       // Skip the welcome message from the client
@@ -227,27 +296,88 @@ export async function POST(request: NextRequest) {
       console.log('UI messages:', JSON.stringify(validUIMessages, null, 2));
     }
 
+    // Keep the history within the budget of the smallest model the turn may
+    // fail over to, folding older messages into the conversation summary
+    const compacted = await compactHistory({
+      messages: validUIMessages,
+      summary: conversationService ? storedSummary : session.summary || null,
+      budget: getHistoryTokenBudget(routed.route.chain.map(modelId => provider.getModelId('chat', modelId))),
+      provider,
+      userId: toolContext.userId || null,
+      conversationId: conversationId || null,
+      promptVersion: assignedVersion(promptAssignments, 'summary')
+    });
+    console.log(`[Chat API] Sending ${compacted.messages.length} of ${validUIMessages.length} messages (summary covers ${compacted.summary?.coveredMessageCount || 0}, dropped ${compacted.droppedMessages})`);
+
+    if (compacted.summaryUpdated && compacted.summary) {
+      if (conversationService) {
+        await conversationService.updateSummary(conversationId, compacted.summary).catch(error =>
+          console.error('[Chat API] Failed to save conversation summary:', error));
+      } else {
+        conversationManager.setSummary(session.id, compacted.summary);
+      }
+    }
+
+    // Tool results are numbered as citations across the whole answer
+    const citations = createCitationRegistry();
+
+    // Check the schemes and figures in the answer against the catalogue
+    const guard = createResponseGuard(await schemeDataService.getAllSchemes());
+
     // Use AI SDK v5 streamText with convertToModelMessages
     // This function handles all the message format conversions properly
     const result = streamText({
-      model: openrouter.chat(model || process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini'),
-      system: systemPrompt,
-      messages: convertToModelMessages(validUIMessages),
+      model: routed.model,
+      system: systemPrompt + formatSummaryForPrompt(compacted.summary),
+      messages: convertToModelMessages(compacted.messages),
       temperature: 0.7,
-      async onFinish({ text, finishReason }) {
-        // Update session with the conversation
-        const mentionedSchemes = extractMentionedSchemes(text, context.relevantSchemes);
+      // Failover to the next model in the chain replaces same-model retries
+      maxRetries: 0,
+      // Let the model search, look up and check schemes, then answer
+      tools: createSchemeTools(toolContext, citations),
+      stopWhen: stepCountIs(5),
+      // Send the scheme fields the answer cites as sources, and a note
+      // correcting claims the catalogue contradicts
+      experimental_transform: [citeSchemeSources(citations), guard.transform()],
+      async onFinish({ text, finishReason, totalUsage }) {
+        // Record tokens and cost of the whole response, tool steps included
+        const usage = toUsageRecord(routed.record().model, totalUsage);
+        void recordLlmUsage({
+          purpose: 'chat',
+          user_id: toolContext.userId || null,
+          conversation_id: conversationId || null,
+          model: usage.model,
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+          cost_usd: usage.costUsd
+        });
+
+        // Log answers that failed a catalogue check for admin review
+        const verification = guard.result();
+        if (verification.issues.length > 0) {
+          console.warn(`[Chat API] Answer flagged: ${verification.issues.map(issue => issue.message).join('; ')}`);
+          void recordResponseFlag({
+            user_id: toolContext.userId || null,
+            conversation_id: conversationId || null,
+            model: usage.model,
+            user_message: lastUserMessage,
+            response_text: text,
+            issues: verification.issues as unknown as Json,
+            corrected: verification.corrected
+          });
+        }
 
+        // Update session with the conversation
         conversationManager.updateSession(
           session.id,
           lastUserMessage,
           text,
-          mentionedSchemes
+          verification.mentionedSchemeIds
         );
 
-        // Log token usage and cost estimation
+        // Log token usage and cost
         if (process.env.ENABLE_DEBUG_LOGS === 'true') {
-          console.log(`Session: ${session.id}, Finish reason: ${finishReason}`);
+          console.log(`Session: ${session.id}, Finish reason: ${finishReason}, ${usage.inputTokens} in / ${usage.outputTokens} out, $${usage.costUsd.toFixed(6)}`);
         }
 
         // Trigger extraction job if conditions are met (async, non-blocking)
@@ -268,11 +398,25 @@ export async function POST(request: NextRequest) {
 
     // Return streaming response with custom headers in UI message format
     // Pass originalMessages to ensure proper message ID tracking on the client
-    return result.toUIMessageStreamResponse({
-      originalMessages: validUIMessages,
+    return createUIMessageStreamResponse({
+      stream: result
+        .toUIMessageStream<SchemeChatMessage>({
+          sendSources: true,
+          originalMessages: validUIMessages as SchemeChatMessage[],
+          // Record which model answered, why, and what it cost on the assistant message
+          messageMetadata: ({ part }): ChatMessageMetadata | undefined =>
+            part.type === 'finish'
+              ? { routing: routed.record(), usage: toUsageRecord(routed.record().model, part.totalUsage) }
+              : undefined
+        })
+        // Scheme cards, eligibility verdicts, checklists and follow-up questions
+        .pipeThrough(schemeDataParts({ language })),
       headers: {
         'X-Session-Id': session.id,
-        'X-Model-Used': model || process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini',
+        // Headers go out before failover can happen; the message metadata
+        // has the model that actually answered
+        'X-Model-Used': routed.model.modelId,
+        'X-Model-Tier': routed.route.tier,
         'Cache-Control': 'no-cache',
       }
     });
@@ -325,24 +469,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Extract mentioned schemes from AI response
- */
-function extractMentionedSchemes(text: string, relevantSchemes: any[]): any[] {
-  const mentioned: any[] = [];
-
-  for (const scheme of relevantSchemes) {
-    const schemeName = scheme.scheme_name?.toLowerCase() || '';
-    const textLower = text.toLowerCase();
-
-    if (textLower.includes(schemeName)) {
-      mentioned.push(scheme);
-    }
-  }
-
-  return mentioned;
-}
-
 /**
  * Rate limiting check
  */
@@ -371,13 +497,13 @@ function checkRateLimit(clientId: string): boolean {
 }
 
 /**
- * Handle fallback response when OpenRouter is not configured
+ * Handle fallback response when the LLM provider is not configured
  */
 async function handleFallbackResponse(message: string, sessionId?: string) {
   const schemes = await schemeDataService.getAllSchemes();
 
   // Generate simple fallback response
-  const fallbackResponse = `I apologize, but the AI service is not currently configured. However, I can tell you that we have ${schemes.length} government schemes available. To enable full AI capabilities, please configure your OPENROUTER_API_KEY environment variable.`;
+  const fallbackResponse = `I apologize, but the AI service is not currently configured. However, I can tell you that we have ${schemes.length} government schemes available. To enable full AI capabilities, please configure an API key for the LLM_PROVIDER in use.`;
 
   // Create a simple data stream response
   const encoder = new TextEncoder();
@@ -1,25 +1,45 @@
 import { NextRequest } from 'next/server';
-import { streamText, convertToCoreMessages } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
+import {
+  streamText,
+  convertToModelMessages,
+  createUIMessageStreamResponse,
+  stepCountIs,
+  type UIMessage
+} from 'ai';
 import { conversationManager } from '@/services/chat/conversationManager';
 import { schemeDataService } from '@/services/schemes/schemeDataService';
+import {
+  citeSchemeSources,
+  createSchemeTools,
+  loadSchemeToolContext,
+  type SchemeChatMessage
+} from '@/services/ai/schemeTools';
+import { schemeDataParts } from '@/services/ai/schemeDataParts';
+import { createCitationRegistry } from '@/lib/schemes/schemeCitations';
+import { getLLMProvider } from '@/services/ai/llmProvider';
+import { createRoutedModel, routeChatTurn } from '@/services/ai/modelRouter';
+import { toUsageRecord } from '@/services/ai/modelPricing';
+import { recordLlmUsage } from '@/services/analytics/usageService';
+import { recordResponseFlag } from '@/services/analytics/responseFlagService';
+import { createResponseGuard } from '@/services/ai/responseGuard';
+import { getHistoryTokenBudget } from '@/services/ai/contextBudget';
+import { compactHistory, formatSummaryForPrompt } from '@/services/ai/conversationSummarizer';
+import { assignedVersion, resolvePromptAssignments } from '@/lib/prompts/promptRegistry';
+import type { ConversationService } from '@/services/database/conversationService';
+import type { ChatMessageMetadata, ConversationSummary } from '@/types/conversation';
+import type { Json } from '@/types/database';
 
 // Edge runtime for streaming
 export const runtime = 'edge';
 
-// Configure OpenRouter as an OpenAI-compatible provider
-const openrouter = createOpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-});
-
 // Rate limiting store (in production, use Redis or similar)
 const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { messages, sessionId, language = 'en', userProfile, model } = body;
+    const { sessionId, language = 'en', userProfile, model, conversationId } = body;
+    const messages: UIMessage[] = Array.isArray(body.messages) ? body.messages : [];
 
     // Get client IP for rate limiting
     const clientIp = request.headers.get('x-forwarded-for') ||
@@ -37,58 +57,171 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if OpenRouter is configured
-    if (!process.env.OPENROUTER_API_KEY) {
-      // Fallback to mock response if not configured
-      const lastMessage = messages[messages.length - 1]?.content || '';
-      return handleFallbackResponse(lastMessage, sessionId);
+    // Check if the LLM provider is configured
+    const provider = getLLMProvider();
+    if (!provider.isConfigured()) {
+      // Fallback to a static response if not configured
+      return handleFallbackResponse(getMessageText(messages[messages.length - 1]), sessionId);
     }
 
     // Get the last user message
-    const lastUserMessage = messages[messages.length - 1]?.content || '';
+    const lastUserMessage = getMessageText(messages[messages.length - 1]);
+
+    // Saved conversations keep their rolling summary and prompt versions in
+    // the database
+    let conversationService: ConversationService | null = null;
+    let storedSummary: ConversationSummary | null = null;
+    let promptState: Awaited<ReturnType<ConversationService['getPromptVariants']>> = null;
+    if (conversationId) {
+      try {
+        const { ConversationService } = await import('@/services/database/conversationService');
+        const { createClient } = await import('@/lib/supabase/server');
+        conversationService = new ConversationService(await createClient());
+
+        [storedSummary, promptState] = await Promise.all([
+          conversationService.getSummary(conversationId).catch(error => {
+            console.error('Failed to load conversation summary:', error);
+            return null;
+          }),
+          conversationService.getPromptVariants(conversationId).catch(error => {
+            console.error('Failed to load conversation prompt variants:', error);
+            return null;
+          })
+        ]);
+      } catch (error) {
+        console.error('Failed to load conversation:', error);
+      }
+    }
+
+    // Prompt versions: those the conversation already used, or on its first
+    // turn the owner's variants in any prompt experiment
+    const promptAssignments = resolvePromptAssignments(['chat-system', 'summary'], {
+      subjectId: promptState?.userId,
+      pinned: promptState?.variants
+    });
+    if (conversationService && promptState && JSON.stringify(promptState.variants) !== JSON.stringify(promptAssignments)) {
+      await conversationService.setPromptVariants(conversationId, promptAssignments).catch(error =>
+        console.error('Failed to record prompt variants:', error));
+    }
 
     // Process chat with context from our data layer
-    const { systemPrompt, context, session } = await conversationManager.processChat({
+    const { systemPrompt, session } = await conversationManager.processChat({
       message: lastUserMessage,
       sessionId,
       language,
-      userProfile
+      userProfile,
+      toolsEnabled: true,
+      promptVersion: assignedVersion(promptAssignments, 'chat-system')
+    });
+
+    // Bind the tools to the signed-in user, if any
+    const toolContext = await loadSchemeToolContext(session.userProfile);
+
+    // Route the turn to a fast or strong model chain
+    const routed = createRoutedModel(provider, routeChatTurn({
+      message: lastUserMessage,
+      preferredModel: toolContext.preferredModel || (toolContext.userId ? undefined : model)
+    }));
+
+    // Keep the history within budget; the summary of older messages is
+    // saved with the conversation, or kept on the session for unsaved chats
+    const compacted = await compactHistory({
+      messages,
+      summary: conversationService ? storedSummary : session.summary || null,
+      budget: getHistoryTokenBudget(routed.route.chain.map(modelId => provider.getModelId('chat', modelId))),
+      provider,
+      userId: toolContext.userId || null,
+      conversationId: conversationId || null,
+      promptVersion: assignedVersion(promptAssignments, 'summary')
     });
+    if (compacted.summaryUpdated && compacted.summary) {
+      if (conversationService) {
+        await conversationService.updateSummary(conversationId, compacted.summary).catch(error =>
+          console.error('Failed to save conversation summary:', error));
+      } else {
+        conversationManager.setSummary(session.id, compacted.summary);
+      }
+    }
 
-    // Convert messages to core format and add system prompt
-    const coreMessages = convertToCoreMessages([
-      { role: 'system', content: systemPrompt },
-      ...messages
-    ]);
+    // Tool results are numbered as citations across the whole answer
+    const citations = createCitationRegistry();
+
+    // Check the schemes and figures in the answer against the catalogue
+    const guard = createResponseGuard(await schemeDataService.getAllSchemes());
 
     // Use AI SDK v5 streamText
     const result = streamText({
-      model: openrouter(model || process.env.OPENROUTER_MODEL || 'anthropic/claude-3-haiku'),
-      messages: coreMessages,
+      model: routed.model,
+      system: systemPrompt + formatSummaryForPrompt(compacted.summary),
+      messages: convertToModelMessages(compacted.messages),
       temperature: 0.7,
-      async onFinish({ text, finishReason }) {
-        // Update session with the conversation
-        const mentionedSchemes = extractMentionedSchemes(text, context.relevantSchemes);
+      maxRetries: 0,
+      // Let the model search, look up and check schemes, then answer
+      tools: createSchemeTools(toolContext, citations),
+      stopWhen: stepCountIs(5),
+      // Send the scheme fields the answer cites as sources, and a note
+      // correcting claims the catalogue contradicts
+      experimental_transform: [citeSchemeSources(citations), guard.transform()],
+      async onFinish({ text, finishReason, totalUsage }) {
+        // Record tokens and cost of the whole response, tool steps included
+        const usage = toUsageRecord(routed.record().model, totalUsage);
+        void recordLlmUsage({
+          purpose: 'chat',
+          user_id: toolContext.userId || null,
+          conversation_id: conversationId || null,
+          model: usage.model,
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+          cost_usd: usage.costUsd
+        });
+
+        // Log answers that failed a catalogue check for admin review
+        const verification = guard.result();
+        if (verification.issues.length > 0) {
+          void recordResponseFlag({
+            user_id: toolContext.userId || null,
+            conversation_id: conversationId || null,
+            model: usage.model,
+            user_message: lastUserMessage,
+            response_text: text,
+            issues: verification.issues as unknown as Json,
+            corrected: verification.corrected
+          });
+        }
 
+        // Update session with the conversation
         conversationManager.updateSession(
           session.id,
           lastUserMessage,
           text,
-          mentionedSchemes
+          verification.mentionedSchemeIds
         );
 
-        // Log token usage and cost estimation
+        // Log token usage and cost
         if (process.env.ENABLE_DEBUG_LOGS === 'true') {
-          console.log(`Session: ${session.id}, Finish reason: ${finishReason}`);
+          console.log(`Session: ${session.id}, Finish reason: ${finishReason}, ${usage.inputTokens} in / ${usage.outputTokens} out, $${usage.costUsd.toFixed(6)}`);
         }
       }
     });
 
-    // Return streaming response with custom headers
-    return result.toTextStreamResponse({
+    // Return streaming response with custom headers. The UI message format
+    // carries tool results and scheme cards alongside the text.
+    return createUIMessageStreamResponse({
+      stream: result
+        .toUIMessageStream<SchemeChatMessage>({
+          sendSources: true,
+          originalMessages: messages as SchemeChatMessage[],
+          messageMetadata: ({ part }): ChatMessageMetadata | undefined =>
+            part.type === 'finish'
+              ? { routing: routed.record(), usage: toUsageRecord(routed.record().model, part.totalUsage) }
+              : undefined
+        })
+        // Scheme cards, eligibility verdicts, checklists and follow-up questions
+        .pipeThrough(schemeDataParts({ language })),
       headers: {
         'X-Session-Id': session.id,
-        'X-Model-Used': model || process.env.OPENROUTER_MODEL || 'anthropic/claude-3-haiku',
+        'X-Model-Used': routed.model.modelId,
+        'X-Model-Tier': routed.route.tier,
         'Cache-Control': 'no-cache',
       }
     });
@@ -111,21 +244,15 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Extract mentioned schemes from AI response
+ * Text of a UI message's text parts
  */
-function extractMentionedSchemes(text: string, relevantSchemes: any[]): any[] {
-  const mentioned: any[] = [];
-
-  for (const scheme of relevantSchemes) {
-    const schemeName = scheme.scheme_name?.toLowerCase() || '';
-    const textLower = text.toLowerCase();
-
-    if (textLower.includes(schemeName)) {
-      mentioned.push(scheme);
-    }
-  }
+function getMessageText(message?: UIMessage): string {
+  if (!message?.parts) return '';
 
-  return mentioned;
+  return message.parts
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .trim();
 }
 
 /**
@@ -156,13 +283,13 @@ function checkRateLimit(clientId: string): boolean {
 }
 
 /**
- * Handle fallback response when OpenRouter is not configured
+ * Handle fallback response when the LLM provider is not configured
  */
 async function handleFallbackResponse(message: string, sessionId?: string) {
   const schemes = await schemeDataService.getAllSchemes();
 
   // Generate simple fallback response
-  const fallbackResponse = `I apologize, but the AI service is not currently configured. However, I can tell you that we have ${schemes.length} government schemes available. To enable full AI capabilities, please configure your OPENROUTER_API_KEY environment variable.`;
+  const fallbackResponse = `I apologize, but the AI service is not currently configured. However, I can tell you that we have ${schemes.length} government schemes available. To enable full AI capabilities, please configure an API key for the LLM_PROVIDER in use.`;
 
   // Create a simple data stream response
   const encoder = new TextEncoder();
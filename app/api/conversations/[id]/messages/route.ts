@@ -31,6 +31,7 @@ import { ConversationService } from '@/services/database/conversationService'
  * - role: 'user' | 'assistant' | 'system' (required)
  * - content: string (required, non-empty)
  * - parts: any (optional, for AI SDK v5 support)
+ * - metadata: object (optional, e.g. which model answered)
  * 
  * @param params.id - Conversation ID
  * @returns Created message
@@ -93,6 +94,13 @@ export async function POST(
       }
     }
     
+    // Validate metadata if provided
+    if (body.metadata !== undefined && body.metadata !== null) {
+      if (typeof body.metadata !== 'object' || Array.isArray(body.metadata)) {
+        return badRequest('Message metadata must be an object')
+      }
+    }
+    
     // Create service instances with server-side client
     const conversationService = new ConversationService(supabase)
     const messageService = new MessageService(supabase)
@@ -116,7 +124,8 @@ export async function POST(
       conversationId,
       body.role,
       body.content,
-      body.parts || null
+      body.parts || null,
+      body.metadata || null
     )
     
     return created({
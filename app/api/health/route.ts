@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { openRouterService } from '@/services/ai/openRouterService';
+import { getLLMProvider } from '@/services/ai/llmProvider';
 import { schemeDataService } from '@/services/schemes/schemeDataService';
 
 /**
@@ -10,6 +10,7 @@ export async function GET(request: NextRequest) {
   try {
     const schemes = await schemeDataService.getAllSchemes();
     const cacheStats = schemeDataService.getCacheStats();
+    const llm = getLLMProvider();
     
     const status = {
       status: 'healthy',
@@ -21,9 +22,10 @@ export async function GET(request: NextRequest) {
           cacheMode: cacheStats.mode,
           cacheSize: cacheStats.size
         },
-        openRouter: {
-          status: openRouterService.isConfigured() ? 'configured' : 'not_configured',
-          apiKeyPresent: !!process.env.OPENROUTER_API_KEY
+        llm: {
+          status: llm.isConfigured() ? 'configured' : 'not_configured',
+          provider: llm.name,
+          model: llm.getModelId('chat')
         }
       }
     };
@@ -0,0 +1,74 @@
+/**
+ * Scheme Calculator API Route
+ *
+ * Splits a project cost into subsidy, own contribution and bank loan for a
+ * scheme and returns the EMI schedule. Public, like the scheme pages.
+ *
+ * POST /api/schemes/calculator - Calculate subsidy, loan and EMI
+ */
+
+import { NextRequest } from 'next/server'
+import {
+  success,
+  badRequest,
+  notFound,
+  internalError,
+  unprocessableEntity,
+} from '@/lib/api/auth'
+import { loanCalculatorSchema } from '@/lib/validators/scheme'
+import { schemeDataService } from '@/services/schemes/schemeDataService'
+import { calculateSchemeFinance, supportsLoanCalculation } from '@/lib/schemes/financialCalculator'
+
+/**
+ * POST /api/schemes/calculator
+ *
+ * Request Body:
+ * - scheme: string - Scheme ID or official name
+ * - projectCost: number - Total project cost in INR
+ * - areaType: 'urban' | 'rural' - Location of the unit
+ * - category: 'general' | 'special' - Beneficiary category
+ * - sector: string (optional) - manufacturing, services, trading or agriculture
+ * - interestRate: number (optional) - Annual interest rate in %, overrides the scheme rate
+ * - tenureYears: number (optional) - Loan tenure in years
+ *
+ * @returns The calculation with subsidy, contribution, loan, EMI and yearly schedule
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Request body must be valid JSON')
+  }
+
+  const parsed = loanCalculatorSchema.safeParse(body)
+  if (!parsed.success) {
+    return unprocessableEntity(parsed.error.issues[0]?.message || 'Invalid calculator input')
+  }
+
+  try {
+    const { scheme: schemeKey, ...input } = parsed.data
+
+    const scheme = await schemeDataService.findScheme(schemeKey)
+
+    if (!scheme) {
+      return notFound('Scheme not found')
+    }
+
+    if (!supportsLoanCalculation(scheme)) {
+      return unprocessableEntity(
+        'This scheme has no subsidy or loan terms to calculate with',
+        'no_financial_terms'
+      )
+    }
+
+    return success({
+      calculation: calculateSchemeFinance(scheme, input),
+    })
+  } catch (error) {
+    console.error('Failed to calculate scheme finance:', error)
+    return internalError(
+      error instanceof Error ? error.message : 'Failed to calculate scheme finance'
+    )
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Document Checklist API Route
+ *
+ * Builds one merged document checklist for a set of schemes, personalised
+ * by the applicant's answers. Public, like the scheme pages.
+ *
+ * POST /api/schemes/checklist - Build a checklist for 1-10 schemes
+ */
+
+import { NextRequest } from 'next/server'
+import {
+  success,
+  badRequest,
+  notFound,
+  internalError,
+  unprocessableEntity,
+} from '@/lib/api/auth'
+import { documentChecklistSchema } from '@/lib/validators/scheme'
+import { schemeDataService } from '@/services/schemes/schemeDataService'
+import { buildDocumentChecklist, toChecklistProfile } from '@/lib/schemes/documentChecklist'
+import type { ProcessedScheme } from '@/types/scheme'
+
+/**
+ * POST /api/schemes/checklist
+ *
+ * Request Body:
+ * - schemes: string[] - Scheme IDs or official names
+ * - profile: object (optional) - Answers used to personalise the list
+ *   - category: 'general' | 'sc' | 'st' | 'obc' | 'minority'
+ *   - businessConstitution: 'proprietorship' | 'partnership' | 'llp' | 'company' | 'society'
+ *   - businessStage: 'planning' | 'new' | 'existing' | 'expansion'
+ *   - areaType: 'urban' | 'rural'
+ *
+ * @returns The checklist, plus any schemes that were not found
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Request body must be valid JSON')
+  }
+
+  const parsed = documentChecklistSchema.safeParse(body)
+  if (!parsed.success) {
+    return unprocessableEntity(parsed.error.issues[0]?.message || 'Invalid checklist request')
+  }
+
+  try {
+    const schemes: ProcessedScheme[] = []
+    const missing: string[] = []
+
+    for (const key of new Set(parsed.data.schemes)) {
+      const scheme = await schemeDataService.findScheme(key)
+      if (scheme) {
+        schemes.push(scheme)
+      } else {
+        missing.push(key)
+      }
+    }
+
+    if (schemes.length === 0) {
+      return notFound('None of the requested schemes were found')
+    }
+
+    return success({
+      checklist: buildDocumentChecklist(schemes, toChecklistProfile(parsed.data.profile || {})),
+      missing,
+    })
+  } catch (error) {
+    console.error('Failed to build document checklist:', error)
+    return internalError(
+      error instanceof Error ? error.message : 'Failed to build document checklist'
+    )
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Scheme Comparison API Route
+ *
+ * Returns processed schemes for the side-by-side comparison view. Public,
+ * like the scheme pages.
+ *
+ * GET /api/schemes/compare?id=<id>&id=<id> - Fetch 2-4 schemes by ID or name
+ */
+
+import { NextRequest } from 'next/server'
+import { success, badRequest, notFound, internalError } from '@/lib/api/auth'
+import { schemeDataService } from '@/services/schemes/schemeDataService'
+import { MIN_COMPARE_SCHEMES, MAX_COMPARE_SCHEMES } from '@/lib/schemes/schemeUtils'
+import type { ProcessedScheme } from '@/types/scheme'
+
+/**
+ * GET /api/schemes/compare
+ *
+ * Query Parameters:
+ * - id: string (repeated) - Scheme ID or official name, 2 to 4 times
+ *
+ * @returns The schemes in the requested order, plus any keys that were not found
+ */
+export async function GET(request: NextRequest) {
+  const keys = Array.from(new Set(
+    request.nextUrl.searchParams.getAll('id').map(key => key.trim()).filter(Boolean)
+  ))
+
+  if (keys.length < MIN_COMPARE_SCHEMES || keys.length > MAX_COMPARE_SCHEMES) {
+    return badRequest(
+      `Provide between ${MIN_COMPARE_SCHEMES} and ${MAX_COMPARE_SCHEMES} scheme ids to compare`
+    )
+  }
+
+  try {
+    const schemes: ProcessedScheme[] = []
+    const missing: string[] = []
+
+    for (const key of keys) {
+      const scheme = await schemeDataService.findScheme(key)
+      if (scheme) {
+        schemes.push(scheme)
+      } else {
+        missing.push(key)
+      }
+    }
+
+    if (schemes.length === 0) {
+      return notFound('None of the requested schemes were found')
+    }
+
+    return success({ schemes, missing })
+  } catch (error) {
+    console.error('Failed to fetch schemes for comparison:', error)
+    return internalError(
+      error instanceof Error ? error.message : 'Failed to fetch schemes for comparison'
+    )
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Saved Schemes API Route
+ *
+ * Saves a scheme to the signed-in user's list, for the save button on
+ * scheme cards in the chat. The assistant's save_scheme_for_user tool does
+ * the same from a chat message.
+ *
+ * POST /api/schemes/saved - Save a scheme for the authenticated user
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  requireAuth,
+  success,
+  created,
+  badRequest,
+  notFound,
+  internalError,
+  unprocessableEntity,
+} from '@/lib/api/auth'
+import { saveSchemeToolSchema } from '@/lib/validators/scheme'
+import { schemeDataService } from '@/services/schemes/schemeDataService'
+import { UserSchemeService } from '@/services/database/userSchemeService'
+
+/**
+ * POST /api/schemes/saved
+ *
+ * Request Body:
+ * - scheme: string - Scheme ID or official name
+ * - notes: string (optional) - Note to keep with the scheme
+ *
+ * @returns The saved row and whether the user had already saved the scheme
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth(request)
+
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const { user, supabase } = authResult
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Request body must be valid JSON')
+  }
+
+  const parsed = saveSchemeToolSchema.safeParse(body)
+  if (!parsed.success) {
+    return unprocessableEntity(parsed.error.issues[0]?.message || 'Invalid save request')
+  }
+
+  try {
+    const scheme = await schemeDataService.findScheme(parsed.data.scheme)
+    if (!scheme) {
+      return notFound(`No scheme named "${parsed.data.scheme}"`)
+    }
+
+    const userSchemeService = new UserSchemeService(supabase)
+    const { userScheme, alreadySaved } = await userSchemeService.saveScheme(
+      user.id,
+      scheme.id,
+      parsed.data.notes
+    )
+
+    return alreadySaved
+      ? success({ userScheme, alreadySaved })
+      : created({ userScheme, alreadySaved })
+  } catch (error) {
+    console.error('Failed to save scheme:', error)
+    return internalError(
+      error instanceof Error ? error.message : 'Failed to save scheme'
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Public Scheme API Route (v1)
+ *
+ * Read-only access to a single scheme of the curated catalogue. Public,
+ * versioned and cacheable: responses carry an ETag and honour
+ * If-None-Match.
+ *
+ * GET /api/v1/schemes/:id - Fetch a scheme by ID or official name
+ */
+
+import { NextRequest } from 'next/server'
+import { notFound, internalError, unprocessableEntity } from '@/lib/api/auth'
+import {
+  cachedJson,
+  resolveFields,
+  resolveLanguage,
+  toPublicScheme,
+} from '@/lib/api/publicSchemes'
+import { schemeDetailQuerySchema } from '@/lib/validators/scheme'
+import { schemeDataService } from '@/services/schemes/schemeDataService'
+
+/**
+ * GET /api/v1/schemes/:id
+ *
+ * Query Parameters:
+ * - fields: string (comma-separated) - Scheme fields to return; id is always included
+ * - lang: string - Language code for labels (scheme text is English)
+ *
+ * @returns The scheme and labels
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const searchParams = request.nextUrl.searchParams
+
+  const parsed = schemeDetailQuerySchema.safeParse({
+    fields: searchParams.getAll('fields'),
+    lang: searchParams.get('lang') ?? undefined,
+  })
+  if (!parsed.success) {
+    return unprocessableEntity(parsed.error.issues[0]?.message || 'Invalid query parameters')
+  }
+
+  const selection = resolveFields(parsed.data.fields)
+  if ('unknown' in selection) {
+    return unprocessableEntity(`Unknown fields: ${selection.unknown.join(', ')}`)
+  }
+
+  const language = resolveLanguage(parsed.data.lang)
+  if (!language) {
+    return unprocessableEntity(`Unsupported language: ${parsed.data.lang}`)
+  }
+
+  try {
+    const scheme = await schemeDataService.findScheme(id)
+    if (!scheme) {
+      return notFound('Scheme not found')
+    }
+
+    return cachedJson(request, {
+      data: toPublicScheme(scheme, selection.fields),
+      ...language,
+    })
+  } catch (error) {
+    console.error('Failed to fetch scheme:', error)
+    return internalError(
+      error instanceof Error ? error.message : 'Failed to fetch scheme'
+    )
+  }
+}
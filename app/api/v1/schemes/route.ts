@@ -0,0 +1,87 @@
+/**
+ * Public Schemes API Route (v1)
+ *
+ * Read-only access to the curated scheme catalogue for partners (NGOs,
+ * banks). Public, versioned and cacheable: responses carry an ETag and
+ * honour If-None-Match.
+ *
+ * GET /api/v1/schemes - List schemes with filters and cursor pagination
+ */
+
+import { NextRequest } from 'next/server'
+import { badRequest, internalError, unprocessableEntity } from '@/lib/api/auth'
+import {
+  cachedJson,
+  paginate,
+  resolveFields,
+  resolveLanguage,
+  toPublicScheme,
+} from '@/lib/api/publicSchemes'
+import { schemeListQuerySchema } from '@/lib/validators/scheme'
+import { schemeDataService } from '@/services/schemes/schemeDataService'
+import { filterSchemes } from '@/lib/schemes/schemeUtils'
+
+const LIST_PARAMS = ['categories', 'tags', 'targetAudience', 'fields']
+
+/**
+ * GET /api/v1/schemes
+ *
+ * Query Parameters:
+ * - categories, tags, targetAudience: string (comma-separated or repeated)
+ * - ministry, state, district: string
+ * - hasOnlineApplication: 'true' | 'false'
+ * - searchQuery: string - Ranked full-text search
+ * - limit: number (1-100, default 20)
+ * - cursor: string - nextCursor from the previous page
+ * - fields: string (comma-separated) - Scheme fields to return; id is always included
+ * - lang: string - Language code for labels (scheme text is English)
+ *
+ * @returns Schemes, pagination info and labels
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const query: Record<string, string | string[]> = {}
+  searchParams.forEach((value, key) => {
+    query[key] = LIST_PARAMS.includes(key) ? searchParams.getAll(key) : value
+  })
+
+  const parsed = schemeListQuerySchema.safeParse(query)
+  if (!parsed.success) {
+    return unprocessableEntity(parsed.error.issues[0]?.message || 'Invalid query parameters')
+  }
+  const { fields: requestedFields, lang, cursor, limit, ...filter } = parsed.data
+
+  const selection = resolveFields(requestedFields)
+  if ('unknown' in selection) {
+    return unprocessableEntity(`Unknown fields: ${selection.unknown.join(', ')}`)
+  }
+
+  const language = resolveLanguage(lang)
+  if (!language) {
+    return unprocessableEntity(`Unsupported language: ${lang}`)
+  }
+
+  try {
+    const schemes = filterSchemes(await schemeDataService.getAllSchemes(), filter)
+
+    const page = paginate(schemes, cursor, limit)
+    if (!page) {
+      return badRequest('Invalid or expired cursor; start again from the first page')
+    }
+
+    return cachedJson(request, {
+      data: page.items.map(scheme => toPublicScheme(scheme, selection.fields)),
+      pagination: {
+        limit,
+        total: schemes.length,
+        nextCursor: page.nextCursor,
+      },
+      ...language,
+    })
+  } catch (error) {
+    console.error('Failed to list schemes:', error)
+    return internalError(
+      error instanceof Error ? error.message : 'Failed to list schemes'
+    )
+  }
+}
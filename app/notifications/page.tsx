@@ -0,0 +1,188 @@
+'use client'
+
+/**
+ * Notifications Page
+ *
+ * In-app feed of changes to schemes the user saved or asked about:
+ * - Change summary per notification with read / unread state
+ * - Link to the updated scheme
+ * - Preferences for which change types to be notified about
+ */
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useNotifications } from '@/hooks/useNotifications'
+import { SCHEME_CHANGE_TYPE_LABELS } from '@/services/database/notificationService'
+import { slugifySchemeName } from '@/lib/schemes/schemeUtils'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Bell, CheckCheck, ExternalLink } from 'lucide-react'
+import type { SchemeChangeType } from '@/types/database'
+
+const CHANGE_TYPES = Object.keys(SCHEME_CHANGE_TYPE_LABELS) as SchemeChangeType[]
+
+export default function NotificationsPage() {
+  const router = useRouter()
+  const {
+    notifications,
+    unreadCount,
+    preferences,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    updatePreferences,
+  } = useNotifications()
+
+  const handleToggleType = (type: SchemeChangeType, checked: boolean) => {
+    if (!preferences) return
+    const changeTypes = checked
+      ? [...preferences.change_types, type]
+      : preferences.change_types.filter(t => t !== type)
+    updatePreferences({ change_types: changeTypes })
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Bell className="h-7 w-7" />
+            Notifications
+          </h1>
+          <div className="flex gap-2">
+            {unreadCount > 0 && (
+              <Button variant="outline" onClick={markAllAsRead}>
+                <CheckCheck className="h-4 w-4 mr-2" />
+                Mark all read
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => router.back()}>
+              Back
+            </Button>
+          </div>
+        </div>
+
+        {/* Feed */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Scheme Updates</CardTitle>
+            <CardDescription>
+              Changes to schemes you saved or asked about
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-20 w-full" />
+                ))}
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No updates yet. We will let you know when a scheme you follow changes.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {notifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    className={`rounded-md border p-4 space-y-2 ${notification.is_read ? '' : 'border-primary bg-primary/5'}`}
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="space-y-1">
+                        <p className="font-medium">{notification.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(notification.created_at).toLocaleString()}
+                        </p>
+                      </div>
+                      {!notification.is_read && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => markAsRead([notification.id])}
+                        >
+                          Mark read
+                        </Button>
+                      )}
+                    </div>
+
+                    <ul className="list-disc pl-5 text-sm space-y-1">
+                      {notification.summary.map((line, i) => (
+                        <li key={i}>{line}</li>
+                      ))}
+                    </ul>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {notification.change_types.map((type) => (
+                        <Badge key={type} variant="secondary">
+                          {SCHEME_CHANGE_TYPE_LABELS[type]}
+                        </Badge>
+                      ))}
+                      {notification.scheme && (
+                        <Link
+                          href={`/schemes/${slugifySchemeName(notification.scheme.scheme_name)}`}
+                          onClick={() => !notification.is_read && markAsRead([notification.id])}
+                          className="ml-auto inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                        >
+                          View scheme
+                          <ExternalLink className="h-3 w-3" />
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Preferences */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Notification Settings</CardTitle>
+            <CardDescription>
+              Choose which kinds of changes you want to hear about
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!preferences ? (
+              <Skeleton className="h-32 w-full" />
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="in_app_enabled"
+                    checked={preferences.in_app_enabled}
+                    onCheckedChange={(checked) => updatePreferences({ in_app_enabled: checked === true })}
+                  />
+                  <Label htmlFor="in_app_enabled">Show scheme updates in the app</Label>
+                </div>
+
+                <div className="space-y-3 pt-4 border-t">
+                  {CHANGE_TYPES.map((type) => (
+                    <div key={type} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`change_type_${type}`}
+                        checked={preferences.change_types.includes(type)}
+                        disabled={!preferences.in_app_enabled}
+                        onCheckedChange={(checked) => handleToggleType(type, checked === true)}
+                      />
+                      <Label htmlFor={`change_type_${type}`}>
+                        {SCHEME_CHANGE_TYPE_LABELS[type]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+import type { MetadataRoute } from "next";
+import { SITE_URL } from "@/lib/schemes/structuredData";
+
+/**
+ * Let crawlers index the public pages and point them at the sitemap
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: ["/admin", "/api/"],
+    },
+    sitemap: `${SITE_URL}/sitemap.xml`,
+  };
+}
@@ -0,0 +1,251 @@
+import type { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import NextLink from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Building, FileText, CheckCircle, Users, ClipboardList, Link, MapPin } from "lucide-react";
+import { schemeDataService } from "@/services/schemes/schemeDataService";
+import { formatJurisdiction } from "@/lib/schemes/jurisdiction";
+import {
+  buildSchemeJsonLd,
+  getSchemeMetaDescription,
+  getSchemePageUrl,
+  serializeJsonLd,
+} from "@/lib/schemes/structuredData";
+import { SchemeCalculator } from "@/components/schemes/SchemeCalculator";
+import { DocumentChecklist } from "@/components/schemes/DocumentChecklist";
+import { ReactNode } from "react";
+
+// Pages are generated at build time for every active scheme and regenerated
+// hourly, so admin edits to the schemes table show up without a deploy.
+// Schemes added later are rendered on first request.
+export const revalidate = 3600;
+
+interface SchemePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Section component for displaying scheme details with icons
+interface SectionProps {
+  id?: string; // Anchor that chat citations link to
+  title: string;
+  icon: ReactNode;
+  children: ReactNode;
+}
+
+function Section({ id, title, icon, children }: SectionProps) {
+  return (
+    <Card id={id} className="scroll-mt-20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {icon}
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Helper function to get tag variant based on tag type
+const getTagVariant = (tag: string): "default" | "secondary" | "outline" => {
+  // Financial tags
+  if (['Loan', 'Financial Assistance', 'Subsidy', 'Credit Linked Subsidy'].includes(tag)) {
+    return 'default';
+  }
+
+  // Beneficiary tags
+  if (['Women', 'Mahila', 'SC/ST'].includes(tag)) {
+    return 'secondary';
+  }
+
+  // Skill/Training tags
+  if (['Training', 'Skill Development', 'Skill Upgradation'].includes(tag)) {
+    return 'outline';
+  }
+
+  // Business tags
+  if (['Entrepreneur', 'Business', 'MSME', 'Enterprises'].includes(tag)) {
+    return 'default';
+  }
+
+  return 'secondary';
+};
+
+export async function generateStaticParams() {
+  const schemes = await schemeDataService.getAllSchemes();
+  return schemes.map((scheme) => ({ slug: scheme.slug }));
+}
+
+export async function generateMetadata({ params }: SchemePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const scheme = await schemeDataService.getSchemeBySlug(slug);
+
+  if (!scheme) {
+    return { title: "Scheme Not Found - MSME Mitr" };
+  }
+
+  const title = `${scheme.name} - MSME Mitr`;
+  const description = getSchemeMetaDescription(scheme);
+  const url = getSchemePageUrl(scheme);
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      title,
+      description,
+      url,
+      siteName: "MSME Mitr",
+      locale: "en_IN",
+      type: "article",
+    },
+    twitter: {
+      card: "summary",
+      title,
+      description,
+    },
+  };
+}
+
+export default async function SchemeDetailsPage({ params }: SchemePageProps) {
+  const { slug } = await params;
+  const scheme = await schemeDataService.getSchemeBySlug(slug);
+
+  if (!scheme) {
+    // Older links used the URL-encoded scheme name or the scheme ID
+    let key = slug;
+    try {
+      key = decodeURIComponent(slug);
+    } catch {
+      // Malformed escape: not a legacy link
+    }
+    const legacy = await schemeDataService.findScheme(key);
+    if (legacy) {
+      permanentRedirect(`/schemes/${legacy.slug}`);
+    }
+    notFound();
+  }
+
+  const { sections } = scheme;
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-4xl">
+      {/* Structured data for search engines */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildSchemeJsonLd(scheme)) }}
+      />
+
+      {/* Back Button */}
+      <Button variant="ghost" className="mb-6" asChild>
+        <NextLink href="/schemes">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Schemes
+        </NextLink>
+      </Button>
+
+      {/* Scheme Header */}
+      <div className="mt-6">
+        {/* Ministry and Jurisdiction Badges */}
+        <div className="flex flex-wrap gap-2 mb-2">
+          {scheme.ministry && (
+            <Badge variant="outline">
+              <Building className="w-3 h-3 mr-1" />
+              {scheme.ministry}
+            </Badge>
+          )}
+          <Badge variant="outline">
+            <MapPin className="w-3 h-3 mr-1" />
+            {formatJurisdiction(scheme.jurisdiction)}
+          </Badge>
+        </div>
+
+        {/* Scheme Name */}
+        <h1 className="text-3xl font-bold mt-2">{scheme.name}</h1>
+
+        {/* Description */}
+        <p className="text-muted-foreground mt-2 text-lg">
+          {scheme.fullDescription}
+        </p>
+
+        {/* All Tags */}
+        {scheme.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {scheme.tags.map((tag, idx) => (
+              <Badge key={idx} variant={getTagVariant(tag)}>
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Details Sections */}
+      <div className="mt-8 space-y-6">
+        {/* Details Section */}
+        {sections.details && (
+          <Section id="details" title="Details" icon={<FileText className="w-5 h-5" />}>
+            <p className="whitespace-pre-line">{sections.details}</p>
+          </Section>
+        )}
+
+        {/* Benefits Section */}
+        {sections.benefits && (
+          <Section id="benefits" title="Benefits" icon={<CheckCircle className="w-5 h-5" />}>
+            <p className="whitespace-pre-line">{sections.benefits}</p>
+          </Section>
+        )}
+
+        {/* Eligibility Section */}
+        {sections.eligibility && (
+          <Section id="eligibility" title="Eligibility" icon={<Users className="w-5 h-5" />}>
+            <p className="whitespace-pre-line">{sections.eligibility}</p>
+          </Section>
+        )}
+
+        {/* Subsidy & Loan Calculator (hidden for schemes without terms) */}
+        <div id="calculator" className="scroll-mt-20">
+          <SchemeCalculator schemeName={scheme.name} />
+        </div>
+
+        {/* Application Process Section */}
+        {sections.applicationProcess && (
+          <Section id="application-process" title="Application Process" icon={<ClipboardList className="w-5 h-5" />}>
+            <p className="whitespace-pre-line">{sections.applicationProcess}</p>
+          </Section>
+        )}
+
+        {/* Document Checklist */}
+        <div id="documents" className="scroll-mt-20">
+          <DocumentChecklist schemes={[scheme.name]} />
+        </div>
+
+        {/* Sources Section */}
+        {sections.sources.length > 0 && (
+          <Section id="sources" title="Sources & Links" icon={<Link className="w-5 h-5" />}>
+            <div className="space-y-2">
+              {sections.sources.map((source, idx) => (
+                <Button
+                  key={idx}
+                  variant="outline"
+                  className="w-full justify-between"
+                  asChild
+                >
+                  <a href={source.url} target="_blank" rel="noopener noreferrer">
+                    {source.text}
+                    <Link className="w-4 h-4" />
+                  </a>
+                </Button>
+              ))}
+            </div>
+          </Section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState, type ReactNode } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, ArrowLeft, CheckCircle, ExternalLink, Layers, Link2, Loader2, X } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { evaluateEligibility, accountToEligibilityProfile } from "@/lib/schemes/eligibilityEngine";
+import { buildCompareUrl, formatAmount, MIN_COMPARE_SCHEMES } from "@/lib/schemes/schemeUtils";
+import { formatJurisdiction } from "@/lib/schemes/jurisdiction";
+import { describeRelation, findRelations } from "@/lib/schemes/schemeRelationships";
+import { DocumentChecklist } from "@/components/schemes/DocumentChecklist";
+import { cn } from "@/lib/utils";
+import type { EligibilityResult, ProcessedScheme } from "@/types/scheme";
+
+// One row of the comparison grid
+interface CompareRow {
+  label: string;
+  render: (scheme: ProcessedScheme) => ReactNode;
+}
+
+function BulletList({ items }: { items: string[] }) {
+  if (items.length === 0) {
+    return <span className="text-muted-foreground">Not specified</span>;
+  }
+  return (
+    <ul className="list-disc pl-4 space-y-1">
+      {items.map((item, idx) => (
+        <li key={idx}>{item}</li>
+      ))}
+    </ul>
+  );
+}
+
+// Flatten financial details into readable lines
+const getFinancialLines = (scheme: ProcessedScheme): string[] => {
+  const details = scheme.financialDetails;
+  if (!details) return [];
+
+  const lines: string[] = [];
+  if (details.loanAmount?.max) {
+    lines.push(`Loan up to ₹${formatAmount(details.loanAmount.max)}`);
+  }
+  if (details.maxProjectCost) {
+    lines.push(`Project cost up to ₹${formatAmount(details.maxProjectCost)}`);
+  }
+  if (details.subsidyPercentage) {
+    const { urban, rural } = details.subsidyPercentage;
+    lines.push(`Subsidy: ${urban ?? "-"}% urban / ${rural ?? "-"}% rural`);
+  }
+  if (details.specialCategorySubsidyPercentage) {
+    const { urban, rural } = details.specialCategorySubsidyPercentage;
+    lines.push(`Special category subsidy: ${urban ?? "-"}% urban / ${rural ?? "-"}% rural`);
+  }
+  if (details.ownContributionPercentage) {
+    const { general, special } = details.ownContributionPercentage;
+    lines.push(`Own contribution: ${general ?? "-"}% general / ${special ?? "-"}% special`);
+  }
+  if (details.interestRate !== undefined) {
+    lines.push(`Interest rate: ${details.interestRate}%`);
+  }
+  if (details.collateralRequired !== undefined) {
+    lines.push(details.collateralRequired ? "Collateral required" : "No collateral required");
+  }
+  return lines;
+};
+
+const rows: CompareRow[] = [
+  {
+    label: "Category",
+    render: (scheme) => <span className="capitalize">{scheme.category}</span>,
+  },
+  {
+    label: "Available in",
+    render: (scheme) => formatJurisdiction(scheme.jurisdiction),
+  },
+  {
+    label: "Ministry",
+    render: (scheme) => scheme.ministry || <span className="text-muted-foreground">Not specified</span>,
+  },
+  {
+    label: "Key benefits",
+    render: (scheme) => <BulletList items={scheme.keyBenefits} />,
+  },
+  {
+    label: "Financial support",
+    render: (scheme) => <BulletList items={getFinancialLines(scheme)} />,
+  },
+  {
+    label: "Eligibility",
+    render: (scheme) => <BulletList items={scheme.eligibilityCriteria} />,
+  },
+  {
+    label: "Documents needed",
+    render: (scheme) => <BulletList items={scheme.documentsNeeded} />,
+  },
+  {
+    label: "Online application",
+    render: (scheme) => (
+      <div className="space-y-1">
+        <span>{scheme.onlineApplication ? "Yes" : "No"}</span>
+        {scheme.applicationUrls[0] && (
+          <a
+            href={scheme.applicationUrls[0]}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-primary hover:underline"
+          >
+            Apply <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+    ),
+  },
+];
+
+// Badge shown under each scheme name for signed-in users
+function EligibilityBadge({ result }: { result: EligibilityResult }) {
+  if (result.status === "eligible") {
+    return (
+      <Badge className="bg-green-600 hover:bg-green-600">
+        <CheckCircle className="w-3 h-3 mr-1" />
+        You qualify
+      </Badge>
+    );
+  }
+  if (result.status === "not_eligible") {
+    return <Badge variant="destructive">Not eligible</Badge>;
+  }
+  return <Badge variant="outline">Needs more details</Badge>;
+}
+
+function CompareSchemesView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { profile } = useAuth();
+
+  const keys = useMemo(() => searchParams.getAll("id"), [searchParams]);
+  const query = searchParams.toString();
+
+  const [schemes, setSchemes] = useState<ProcessedScheme[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSchemes = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/schemes/compare?${query}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load schemes");
+        }
+        if (!cancelled) {
+          setSchemes(data.schemes);
+          setMissing(data.missing);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setSchemes([]);
+          setError(err instanceof Error ? err.message : "Failed to load schemes");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSchemes();
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  // Eligibility against the signed-in user's profile, keyed by scheme ID
+  const eligibility = useMemo(() => {
+    if (!profile) return null;
+    const eligibilityProfile = accountToEligibilityProfile(profile);
+    return new Map(
+      schemes.map((scheme) => [scheme.id, evaluateEligibility(scheme, eligibilityProfile)])
+    );
+  }, [profile, schemes]);
+
+  // Curated stacking and conflict rules between the compared schemes
+  const relations = useMemo(() => findRelations(schemes), [schemes]);
+  const conflicts = relations.filter((relation) => relation.type === "excludes");
+  const combinable = relations.filter((relation) => relation.type !== "excludes");
+
+  const handleRemove = (scheme: ProcessedScheme) => {
+    const remaining = keys.filter((key) => key !== scheme.id && key !== scheme.name);
+    if (remaining.length < MIN_COMPARE_SCHEMES) {
+      router.push("/schemes");
+      return;
+    }
+    router.replace(buildCompareUrl(remaining));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Comparison link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => router.push("/schemes")}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <h1 className="text-2xl font-bold">Compare Schemes</h1>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCopyLink} disabled={schemes.length === 0}>
+          <Link2 className="w-4 h-4 mr-2" />
+          Copy link
+        </Button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Loading schemes...
+        </div>
+      )}
+
+      {!loading && error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!loading && !error && (
+        <div className="space-y-4">
+          {missing.length > 0 && (
+            <Alert>
+              <AlertDescription>
+                Could not find: {missing.join(", ")}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {conflicts.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium">Choose one of these</p>
+                <ul className="list-disc pl-4">
+                  {conflicts.map((relation) => (
+                    <li key={`${relation.from.id}-${relation.to.id}`}>{describeRelation(relation)}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {combinable.length > 0 && (
+            <Alert>
+              <Layers className="h-4 w-4" />
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {combinable.map((relation) => (
+                    <li key={`${relation.from.id}-${relation.to.id}`}>{describeRelation(relation)}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!profile && (
+            <p className="text-sm text-muted-foreground">
+              Sign in and complete your profile to see which of these schemes you qualify for.
+            </p>
+          )}
+
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="w-40 p-3 text-left align-top font-medium text-muted-foreground" />
+                  {schemes.map((scheme) => {
+                    const result = eligibility?.get(scheme.id);
+                    return (
+                      <th
+                        key={scheme.id}
+                        className={cn(
+                          "min-w-[220px] p-3 text-left align-top",
+                          result?.status === "eligible" && "bg-green-50"
+                        )}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <a
+                            href={`/schemes/${scheme.slug}`}
+                            className="font-semibold hover:underline"
+                          >
+                            {scheme.name}
+                          </a>
+                          <button
+                            type="button"
+                            onClick={() => handleRemove(scheme)}
+                            className="text-muted-foreground hover:text-foreground"
+                            aria-label={`Remove ${scheme.name} from comparison`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                        {result && (
+                          <div className="mt-2">
+                            <EligibilityBadge result={result} />
+                          </div>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {eligibility && (
+                  <tr className="border-b">
+                    <td className="p-3 align-top font-medium text-muted-foreground">Your eligibility</td>
+                    {schemes.map((scheme) => {
+                      const result = eligibility.get(scheme.id);
+                      const reasons = result?.criteria
+                        .filter((criterion) => criterion.status !== "eligible")
+                        .map((criterion) => criterion.reason) ?? [];
+                      return (
+                        <td
+                          key={scheme.id}
+                          className={cn("p-3 align-top", result?.status === "eligible" && "bg-green-50")}
+                        >
+                          {result?.status === "eligible" ? (
+                            <span>Meets all listed criteria</span>
+                          ) : (
+                            <BulletList items={reasons.length > 0 ? reasons : result?.notes ?? []} />
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                )}
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-b last:border-b-0">
+                    <td className="p-3 align-top font-medium text-muted-foreground">{row.label}</td>
+                    {schemes.map((scheme) => (
+                      <td
+                        key={scheme.id}
+                        className={cn(
+                          "p-3 align-top",
+                          eligibility?.get(scheme.id)?.status === "eligible" && "bg-green-50"
+                        )}
+                      >
+                        {row.render(scheme)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* One checklist covering every scheme compared */}
+          {schemes.length > 0 && (
+            <DocumentChecklist schemes={schemes.map((scheme) => scheme.id)} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CompareSchemesPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Loading schemes...
+        </div>
+      }
+    >
+      <CompareSchemesView />
+    </Suspense>
+  );
+}
@@ -1,13 +1,14 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { ChatSidebar } from "@/components/mobile/ChatSidebar";
 import { SchemeCard } from "@/components/mobile/SchemeCard";
+import { CompareTray } from "@/components/schemes/CompareTray";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Search, Filter, Bot, Menu, Globe, Phone } from "lucide-react";
+import { Search, Filter, Bot, Menu, Globe, Phone, MapPin } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -16,6 +17,16 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import schemesData from "@/data/schemes.json";
+import { SchemeSearchIndex, rawSchemeToDocument } from "@/lib/schemes/searchIndex";
+import {
+  INDIAN_STATES,
+  inferJurisdiction,
+  isAvailableInLocation,
+  normalizeStateName,
+} from "@/lib/schemes/jurisdiction";
+import type { PublicScheme } from "@/lib/api/publicSchemes";
+import type { SchemeJurisdiction } from "@/types/scheme";
+import { useAuth } from "@/contexts/AuthContext";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 
@@ -29,6 +40,33 @@ const categories = [
   "Startup",
 ];
 
+/**
+ * Where each scheme can be availed, as set in the scheme database (admins
+ * can correct it there), keyed by scheme name
+ */
+async function fetchJurisdictions(): Promise<Map<string, SchemeJurisdiction>> {
+  const jurisdictions = new Map<string, SchemeJurisdiction>();
+  let cursor: string | null = null;
+
+  do {
+    const params = new URLSearchParams({ fields: "name,jurisdiction", limit: "100" });
+    if (cursor) params.set("cursor", cursor);
+
+    const response = await fetch(`/api/v1/schemes?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to load scheme jurisdictions (${response.status})`);
+    }
+
+    const page: { data: PublicScheme[]; pagination: { nextCursor: string | null } } = await response.json();
+    page.data.forEach((scheme) => {
+      if (scheme.name && scheme.jurisdiction) jurisdictions.set(scheme.name, scheme.jurisdiction);
+    });
+    cursor = page.pagination.nextCursor;
+  } while (cursor);
+
+  return jurisdictions;
+}
+
 const languages = [
   { code: "en", label: "English", labelLocal: "English" },
   { code: "hi", label: "Hindi", labelLocal: "हिंदी" },
@@ -41,6 +79,44 @@ export default function SchemesPage() {
   const [filteredSchemes, setFilteredSchemes] = useState(schemesData.schemes);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Closed by default - focus on schemes
   const [currentLanguage, setCurrentLanguage] = useState("en");
+  // null until the user picks a state; until then the profile's state applies
+  const [selectedState, setSelectedState] = useState<string | null>(null);
+  const { profile } = useAuth();
+
+  // Ranked index over the catalogue (understands Hinglish, Devanagari and typos)
+  const searchIndex = useMemo(
+    () => new SchemeSearchIndex(schemesData.schemes, rawSchemeToDocument),
+    []
+  );
+
+  // Where each scheme can be availed. Inferred from the ministry until the
+  // database's jurisdictions load, or if they cannot be loaded.
+  const [jurisdictions, setJurisdictions] = useState(
+    () => new Map(schemesData.schemes.map((scheme) => [scheme.scheme_name, inferJurisdiction(scheme.ministry)]))
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchJurisdictions()
+      .then((loaded) => {
+        if (!cancelled) setJurisdictions((inferred) => new Map([...inferred, ...loaded]));
+      })
+      .catch((error) => console.error("Failed to load scheme jurisdictions:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const activeState = selectedState ?? normalizeStateName(profile?.state) ?? "all";
+
+  // Hide other states' schemes; central schemes always show
+  const visibleSchemes = useMemo(() => {
+    if (activeState === "all") return filteredSchemes;
+    return filteredSchemes.filter((scheme) => {
+      const jurisdiction = jurisdictions.get(scheme.scheme_name);
+      return !jurisdiction || isAvailableInLocation(jurisdiction, { state: activeState });
+    });
+  }, [filteredSchemes, jurisdictions, activeState]);
 
   // Handle new chat - navigate to chat page
   const handleNewChat = useCallback(() => {
@@ -70,16 +146,9 @@ export default function SchemesPage() {
   const filterSchemes = (query: string, category: string) => {
     let filtered = schemesData.schemes;
 
-    // Filter by search query
-    if (query) {
-      filtered = filtered.filter(
-        (scheme) =>
-          scheme.scheme_name.toLowerCase().includes(query.toLowerCase()) ||
-          scheme.description.toLowerCase().includes(query.toLowerCase()) ||
-          scheme.tags?.some((tag) =>
-            tag.toLowerCase().includes(query.toLowerCase())
-          )
-      );
+    // Filter by search query, best matches first
+    if (query.trim()) {
+      filtered = searchIndex.search(query).map((hit) => hit.item);
     }
 
     // Filter by category
@@ -221,20 +290,37 @@ export default function SchemesPage() {
           </div>
 
           {/* Results Count */}
-          <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center justify-between gap-2 mb-4">
             <p className="text-sm text-muted-foreground">
-              {filteredSchemes.length} schemes found
+              {visibleSchemes.length} schemes found
             </p>
-            <Button variant="outline" size="sm" className="h-8">
-              <Filter className="w-4 h-4 mr-1" />
-              Filters
-            </Button>
+            <div className="flex items-center gap-2">
+              {/* State Filter */}
+              <Select value={activeState} onValueChange={setSelectedState}>
+                <SelectTrigger className="w-44 h-8 text-sm" aria-label="Filter by state">
+                  <MapPin className="w-4 h-4 mr-1" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All states</SelectItem>
+                  {INDIAN_STATES.map((state) => (
+                    <SelectItem key={state} value={state}>
+                      {state}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" className="h-8">
+                <Filter className="w-4 h-4 mr-1" />
+                Filters
+              </Button>
+            </div>
           </div>
 
           {/* Schemes Grid - Responsive layout with auto-flow for expanded cards */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 auto-rows-fr">
-            {filteredSchemes.length > 0 ? (
-              filteredSchemes.map((scheme, index) => (
+            {visibleSchemes.length > 0 ? (
+              visibleSchemes.map((scheme, index) => (
                 <SchemeCard key={index} scheme={scheme} language="en" />
               ))
             ) : (
@@ -249,6 +335,9 @@ export default function SchemesPage() {
             )}
           </div>
         </div>
+
+        {/* Schemes picked for side-by-side comparison */}
+        <CompareTray />
       </main>
       </div>
     </div>
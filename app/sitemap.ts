@@ -0,0 +1,32 @@
+import type { MetadataRoute } from "next";
+import { schemeDataService } from "@/services/schemes/schemeDataService";
+import { SITE_URL, getSchemePageUrl } from "@/lib/schemes/structuredData";
+
+// Rebuilt hourly, like the scheme pages, so new and retired schemes show up
+export const revalidate = 3600;
+
+/**
+ * Sitemap of the public pages: the scheme list and every active scheme
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const schemes = await schemeDataService.getAllSchemes();
+
+  return [
+    {
+      url: SITE_URL,
+      changeFrequency: "weekly",
+      priority: 1,
+    },
+    {
+      url: `${SITE_URL}/schemes`,
+      changeFrequency: "daily",
+      priority: 0.9,
+    },
+    ...schemes.map((scheme) => ({
+      url: getSchemePageUrl(scheme),
+      lastModified: scheme.lastUpdated,
+      changeFrequency: "weekly" as const,
+      priority: 0.8,
+    })),
+  ];
+}
@@ -4,7 +4,7 @@
  * Admin Navigation Component
  * 
  * Provides navigation sidebar for the admin dashboard with:
- * - Navigation links (Dashboard, Users, Schemes, Settings)
+ * - Navigation links (Dashboard, Users, Schemes, Catalogue, Flagged Answers, Settings)
  * - Active route highlighting
  * - User profile display with role badge
  * - Styled with Tailwind CSS
@@ -21,6 +21,8 @@ import {
   LayoutDashboard, 
   Users, 
   FileText, 
+  BookOpen,
+  ShieldAlert,
   Settings
 } from 'lucide-react'
 
@@ -54,6 +56,16 @@ const navItems: NavItem[] = [
     href: '/admin/schemes',
     icon: FileText,
   },
+  {
+    name: 'Catalogue',
+    href: '/admin/catalogue',
+    icon: BookOpen,
+  },
+  {
+    name: 'Flagged Answers',
+    href: '/admin/responses',
+    icon: ShieldAlert,
+  },
   {
     name: 'Settings',
     href: '/admin/settings',
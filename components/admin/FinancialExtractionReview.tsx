@@ -0,0 +1,175 @@
+'use client'
+
+/**
+ * Financial Extraction Review Component
+ *
+ * Lists the financial details read from a scheme's text for an admin to
+ * check before they go into financial_details:
+ * - Extracted value next to the current one
+ * - Confidence and the sentence it was read from
+ * - Checkbox per field; confident values are pre-selected
+ *
+ * Applying only fills the editor form; nothing is saved until the admin
+ * saves the scheme, which records a revision.
+ *
+ * @module components/admin/FinancialExtractionReview
+ */
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Check, X } from 'lucide-react'
+import { AUTO_ACCEPT_CONFIDENCE, FINANCIAL_FIELD_LABELS } from '@/lib/schemes/financialExtractor'
+import { formatAmount } from '@/lib/schemes/schemeUtils'
+import type { FinancialDetails, FinancialFieldExtraction } from '@/types/scheme'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FinancialExtractionReviewProps {
+  extractions: FinancialFieldExtraction[]
+  current?: FinancialDetails | null
+  onApply: (selected: FinancialFieldExtraction[]) => void
+  onCancel: () => void
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Render an extracted or current value as short readable text
+ */
+function formatFinancialValue(
+  field: FinancialFieldExtraction['field'],
+  value: FinancialDetails[FinancialFieldExtraction['field']]
+): string {
+  if (value === undefined || value === null) return '—'
+
+  if (field === 'loanAmount' && typeof value === 'object') {
+    const { min, max } = value as NonNullable<FinancialDetails['loanAmount']>
+    if (min && max) return `₹${formatAmount(min)} – ₹${formatAmount(max)}`
+    if (max) return `Up to ₹${formatAmount(max)}`
+    return min ? `From ₹${formatAmount(min)}` : '—'
+  }
+  if (field === 'subsidyPercentage' && typeof value === 'object') {
+    const { urban, rural } = value as NonNullable<FinancialDetails['subsidyPercentage']>
+    return urban === rural ? `${urban}%` : `Urban ${urban ?? '—'}%, Rural ${rural ?? '—'}%`
+  }
+  if (field === 'interestRate') return `${value}% p.a.`
+  if (field === 'processingFee') return value === 0 ? 'None' : `₹${formatAmount(value as number)}`
+  if (field === 'collateralRequired') return value ? 'Required' : 'Not required'
+
+  return JSON.stringify(value)
+}
+
+function confidenceBadge(confidence: number): { label: string; variant: 'default' | 'secondary' | 'destructive' } {
+  const percent = `${Math.round(confidence * 100)}%`
+  if (confidence >= 0.8) return { label: `High ${percent}`, variant: 'default' }
+  if (confidence >= AUTO_ACCEPT_CONFIDENCE) return { label: `Medium ${percent}`, variant: 'secondary' }
+  return { label: `Low ${percent}`, variant: 'destructive' }
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function FinancialExtractionReview({
+  extractions,
+  current,
+  onApply,
+  onCancel,
+}: FinancialExtractionReviewProps) {
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(
+      extractions
+        .filter(extraction => extraction.confidence >= AUTO_ACCEPT_CONFIDENCE)
+        .map(extraction => extraction.field)
+    )
+  )
+
+  const toggle = (field: string, checked: boolean) => {
+    setSelected(previous => {
+      const next = new Set(previous)
+      if (checked) {
+        next.add(field)
+      } else {
+        next.delete(field)
+      }
+      return next
+    })
+  }
+
+  if (extractions.length === 0) {
+    return (
+      <div className="rounded-md border p-4 flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          No loan amounts, subsidy rates, interest, fees or collateral terms found in the details or benefits text.
+        </p>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-md border divide-y">
+      <div className="p-3">
+        <p className="text-sm font-medium">Extracted from the scheme text</p>
+        <p className="text-xs text-muted-foreground">
+          Check each value against the sentence it came from. Applied values go into the JSON above and are saved with the scheme.
+        </p>
+      </div>
+
+      {extractions.map((extraction) => {
+        const badge = confidenceBadge(extraction.confidence)
+        const currentValue = current?.[extraction.field]
+
+        return (
+          <div key={extraction.field} className="p-3 flex gap-3">
+            <Checkbox
+              id={`extract-${extraction.field}`}
+              className="mt-1"
+              checked={selected.has(extraction.field)}
+              onCheckedChange={(checked) => toggle(extraction.field, checked === true)}
+            />
+            <div className="flex-1 space-y-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor={`extract-${extraction.field}`} className="text-sm font-medium">
+                  {FINANCIAL_FIELD_LABELS[extraction.field]}: {formatFinancialValue(extraction.field, extraction.value)}
+                </label>
+                <Badge variant={badge.variant}>{badge.label}</Badge>
+                {currentValue !== undefined && (
+                  <span className="text-xs text-muted-foreground">
+                    Currently {formatFinancialValue(extraction.field, currentValue)}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground break-words">
+                <span className="capitalize">{extraction.source}</span>: &ldquo;{extraction.excerpt}&rdquo;
+              </p>
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="p-3 flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Discard
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={selected.size === 0}
+          onClick={() => onApply(extractions.filter(extraction => selected.has(extraction.field)))}
+        >
+          <Check className="h-4 w-4 mr-2" />
+          Apply {selected.size} selected
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+/**
+ * Prompt Experiments Card Component
+ *
+ * Compares the variants of each prompt experiment side by side:
+ * - Conversations, users and messages per conversation
+ * - Share of users who saved a scheme, and applications
+ * - Answers flagged by the catalogue check per conversation
+ *
+ * Experiments are configured with PROMPT_EXPERIMENTS (lib/prompts/promptRegistry).
+ *
+ * @module components/admin/PromptExperimentsCard
+ */
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { FlaskConical } from 'lucide-react'
+import type { AnalyticsFilters, PromptExperimentResults } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptExperimentsCardProps {
+  filters?: AnalyticsFilters
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatRate(count: number, total: number): string {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '-'
+}
+
+function formatAverage(count: number, total: number): string {
+  return total > 0 ? (count / total).toFixed(1) : '-'
+}
+
+/**
+ * Query string for a date range, with its leading "?"
+ */
+function dateQuery(startDate?: string, endDate?: string): string {
+  if (!startDate || !endDate) return ''
+  return `?${new URLSearchParams({ startDate, endDate }).toString()}`
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function PromptExperimentsCard({ filters = {} }: PromptExperimentsCardProps) {
+  const [experiments, setExperiments] = useState<PromptExperimentResults[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const startDate = filters.dateRange?.startDate
+  const endDate = filters.dateRange?.endDate
+
+  /**
+   * Fetch experiment results when the dates change
+   */
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchExperiments = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/admin/analytics/experiments${dateQuery(startDate, endDate)}`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch experiments')
+        }
+
+        if (!cancelled) setExperiments(result.data)
+      } catch (error) {
+        console.error('Error fetching experiment results:', error)
+        if (!cancelled) setExperiments([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchExperiments()
+    return () => {
+      cancelled = true
+    }
+  }, [startDate, endDate])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5 text-primary" />
+          Prompt Experiments
+        </CardTitle>
+        <CardDescription>
+          Outcomes of conversations per prompt variant; saves and applications count from each user&apos;s first conversation with the variant
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : experiments.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No prompt experiments configured or recorded
+          </p>
+        ) : (
+          experiments.map((experiment) => (
+            <div key={experiment.experimentId} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <h3 className="font-medium">{experiment.experimentId}</h3>
+                <Badge variant="outline">{experiment.prompt}</Badge>
+                {!experiment.active && <Badge variant="secondary">Ended</Badge>}
+              </div>
+              {experiment.variants.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No conversations yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead className="text-right">Conversations</TableHead>
+                      <TableHead className="text-right">Users</TableHead>
+                      <TableHead className="text-right">Messages / conv.</TableHead>
+                      <TableHead className="text-right">Users who saved</TableHead>
+                      <TableHead className="text-right">Schemes saved</TableHead>
+                      <TableHead className="text-right">Applications</TableHead>
+                      <TableHead className="text-right">Flags / conv.</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {experiment.variants.map((variant) => (
+                      <TableRow key={variant.version}>
+                        <TableCell className="font-medium">v{variant.version}</TableCell>
+                        <TableCell className="text-right">{variant.conversations}</TableCell>
+                        <TableCell className="text-right">{variant.users}</TableCell>
+                        <TableCell className="text-right">{formatAverage(variant.messages, variant.conversations)}</TableCell>
+                        <TableCell className="text-right">{formatRate(variant.usersWhoSaved, variant.users)}</TableCell>
+                        <TableCell className="text-right">{variant.savedSchemes}</TableCell>
+                        <TableCell className="text-right">{variant.applications}</TableCell>
+                        <TableCell className="text-right">{formatAverage(variant.flaggedAnswers, variant.conversations)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,475 @@
+'use client'
+
+/**
+ * Scheme Editor Form Component
+ *
+ * Form for creating or editing a scheme in the catalogue:
+ * - Basic info (name, URL, ministry, category)
+ * - Long-form content (description, benefits, eligibility, documents)
+ * - Structured JSON (financial_details, eligibility_rules, jurisdiction, relationships)
+ * - Financial details extracted from the text, reviewed before they are applied
+ * - Tags, target audience and active state
+ * - Optional revision note
+ *
+ * @module components/admin/SchemeEditorForm
+ */
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Save, Wand2 } from 'lucide-react'
+import { FinancialExtractionReview } from '@/components/admin/FinancialExtractionReview'
+import { extractFinancialDetails } from '@/lib/schemes/financialExtractor'
+import { SchemeCategory } from '@/types/scheme'
+import type { FinancialDetails, FinancialFieldExtraction } from '@/types/scheme'
+import type { Json, Scheme, SchemeUpdate } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchemeEditorFormProps {
+  scheme?: Scheme | null
+  submitting?: boolean
+  submitLabel?: string
+  onSubmit: (values: SchemeUpdate, note: string) => Promise<void> | void
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read the text content of a JSONB column.
+ * scripts/migrate-schemes.ts stores long text as { content: string }.
+ */
+function getContent(value: Json | null | undefined): string {
+  if (!value) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'object' && !Array.isArray(value) && typeof value.content === 'string') {
+    return value.content
+  }
+  return JSON.stringify(value, null, 2)
+}
+
+/**
+ * Write text back into a JSONB column, keeping any sibling keys (e.g. sources)
+ */
+function setContent(original: Json | null | undefined, text: string): Json | null {
+  if (!text.trim()) return null
+  if (original && typeof original === 'object' && !Array.isArray(original)) {
+    return { ...original, content: text }
+  }
+  return { content: text }
+}
+
+function formatJson(value: Json | null | undefined): string {
+  return value ? JSON.stringify(value, null, 2) : ''
+}
+
+function parseList(text: string): string[] {
+  return text
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function SchemeEditorForm({
+  scheme,
+  submitting = false,
+  submitLabel = 'Save Changes',
+  onSubmit,
+}: SchemeEditorFormProps) {
+  // Form state
+  const [schemeName, setSchemeName] = useState(scheme?.scheme_name || '')
+  const [schemeUrl, setSchemeUrl] = useState(scheme?.scheme_url || '')
+  const [ministry, setMinistry] = useState(scheme?.ministry || '')
+  const [category, setCategory] = useState(scheme?.category || '')
+  const [description, setDescription] = useState(scheme?.description || '')
+  const [details, setDetails] = useState(getContent(scheme?.details))
+  const [benefits, setBenefits] = useState(getContent(scheme?.benefits))
+  const [eligibility, setEligibility] = useState(getContent(scheme?.eligibility))
+  const [documents, setDocuments] = useState(getContent(scheme?.documents_required))
+  const [financialDetails, setFinancialDetails] = useState(formatJson(scheme?.financial_details))
+  const [eligibilityRules, setEligibilityRules] = useState(formatJson(scheme?.eligibility_rules))
+  const [jurisdiction, setJurisdiction] = useState(formatJson(scheme?.jurisdiction))
+  const [relationships, setRelationships] = useState(formatJson(scheme?.relationships))
+  const [tags, setTags] = useState((scheme?.tags || []).join(', '))
+  const [targetAudience, setTargetAudience] = useState((scheme?.target_audience || []).join(', '))
+  const [isActive, setIsActive] = useState(scheme?.is_active ?? true)
+  const [note, setNote] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  // Financial details read from the text, awaiting review
+  const [extractions, setExtractions] = useState<FinancialFieldExtraction[] | null>(null)
+
+  /**
+   * Parse a JSON textarea, reporting which field is invalid
+   */
+  const parseJsonField = (label: string, text: string): Json | null => {
+    if (!text.trim()) return null
+    try {
+      const parsed = JSON.parse(text)
+      if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error()
+      }
+      return parsed
+    } catch {
+      throw new Error(`${label} must be a valid JSON object`)
+    }
+  }
+
+  /**
+   * Parse a JSON textarea holding a list, reporting which field is invalid
+   */
+  const parseJsonList = (label: string, text: string): Json | null => {
+    if (!text.trim()) return null
+    try {
+      const parsed = JSON.parse(text)
+      if (!Array.isArray(parsed)) {
+        throw new Error()
+      }
+      return parsed
+    } catch {
+      throw new Error(`${label} must be a valid JSON array`)
+    }
+  }
+
+  /**
+   * Current financial details, or null when the JSON does not parse
+   */
+  const currentFinancialDetails = (): FinancialDetails | null => {
+    try {
+      return (parseJsonField('Financial details', financialDetails) || {}) as FinancialDetails
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Read financial details from the details and benefits text for review
+   */
+  const handleExtract = () => {
+    setError(null)
+    setExtractions(extractFinancialDetails({ details, benefits }))
+  }
+
+  /**
+   * Merge the reviewed values into the financial details JSON, keeping
+   * fields the extractor does not read (e.g. calculator terms)
+   */
+  const handleApplyExtractions = (selected: FinancialFieldExtraction[]) => {
+    const current = currentFinancialDetails()
+    if (!current) {
+      setError('Financial details must be a valid JSON object before applying extracted values')
+      return
+    }
+
+    const merged: Record<string, unknown> = { ...current }
+    selected.forEach(extraction => {
+      merged[extraction.field] = extraction.value
+    })
+
+    setFinancialDetails(JSON.stringify(merged, null, 2))
+    setExtractions(null)
+    if (!note.trim()) {
+      setNote('Reviewed financial details extracted from the scheme text')
+    }
+  }
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!schemeName.trim()) {
+      setError('Scheme name is required')
+      return
+    }
+
+    try {
+      const values: SchemeUpdate = {
+        scheme_name: schemeName.trim(),
+        scheme_url: schemeUrl.trim() || null,
+        ministry: ministry.trim() || null,
+        category: category || null,
+        description: description.trim() || null,
+        details: setContent(scheme?.details, details),
+        benefits: setContent(scheme?.benefits, benefits),
+        eligibility: setContent(scheme?.eligibility, eligibility),
+        documents_required: setContent(scheme?.documents_required, documents),
+        financial_details: parseJsonField('Financial details', financialDetails),
+        eligibility_rules: parseJsonField('Eligibility rules', eligibilityRules),
+        jurisdiction: parseJsonField('Jurisdiction', jurisdiction),
+        relationships: parseJsonList('Relationships', relationships),
+        tags: parseList(tags),
+        target_audience: parseList(targetAudience),
+        is_active: isActive,
+      }
+
+      await onSubmit(values, note.trim())
+      setNote('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save scheme')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Basic Information */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Basic Information</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="scheme_name">Scheme Name</Label>
+            <Input
+              id="scheme_name"
+              value={schemeName}
+              onChange={(e) => setSchemeName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scheme_url">Official URL</Label>
+            <Input
+              id="scheme_url"
+              type="url"
+              value={schemeUrl}
+              onChange={(e) => setSchemeUrl(e.target.value)}
+              placeholder="https://"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ministry">Ministry</Label>
+            <Input
+              id="ministry"
+              value={ministry}
+              onChange={(e) => setMinistry(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category">Category</Label>
+            <Select
+              value={category || 'none'}
+              onValueChange={(value) => setCategory(value === 'none' ? '' : value)}
+            >
+              <SelectTrigger id="category" className="h-9 w-full">
+                <SelectValue placeholder="Uncategorised" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Uncategorised</SelectItem>
+                {Object.values(SchemeCategory).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value.replace('_', ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 pt-6">
+            <Checkbox
+              id="is_active"
+              checked={isActive}
+              onCheckedChange={(checked) => setIsActive(checked === true)}
+            />
+            <Label htmlFor="is_active">Active (visible to users)</Label>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            <Input
+              id="tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Loan, Subsidy, Women"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="target_audience">Target Audience</Label>
+            <Input
+              id="target_audience"
+              value={targetAudience}
+              onChange={(e) => setTargetAudience(e.target.value)}
+              placeholder="Women Entrepreneurs, Rural Enterprises"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Content */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Content</CardTitle>
+          <CardDescription>Text shown to users and used as chat context</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="details">Details</Label>
+            <Textarea
+              id="details"
+              rows={5}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="benefits">Benefits</Label>
+            <Textarea
+              id="benefits"
+              rows={5}
+              value={benefits}
+              onChange={(e) => setBenefits(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="eligibility">Eligibility</Label>
+            <Textarea
+              id="eligibility"
+              rows={5}
+              value={eligibility}
+              onChange={(e) => setEligibility(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="documents_required">Documents Required</Label>
+            <Textarea
+              id="documents_required"
+              rows={4}
+              value={documents}
+              onChange={(e) => setDocuments(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Structured Data */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Structured Data</CardTitle>
+          <CardDescription>JSON objects; leave empty to clear</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="financial_details">Financial Details</Label>
+              <Button type="button" variant="outline" size="sm" onClick={handleExtract}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Extract from text
+              </Button>
+            </div>
+            <Textarea
+              id="financial_details"
+              rows={8}
+              className="font-mono text-xs"
+              value={financialDetails}
+              onChange={(e) => setFinancialDetails(e.target.value)}
+              placeholder='{ "loanAmount": { "max": 5000000 } }'
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center min-h-8">
+              <Label htmlFor="eligibility_rules">Eligibility Rules</Label>
+            </div>
+            <Textarea
+              id="eligibility_rules"
+              rows={8}
+              className="font-mono text-xs"
+              value={eligibilityRules}
+              onChange={(e) => setEligibilityRules(e.target.value)}
+              placeholder='{ "minAge": 18, "unitStages": ["new"] }'
+            />
+          </div>
+          {extractions && (
+            <div className="md:col-span-2">
+              <FinancialExtractionReview
+                extractions={extractions}
+                current={currentFinancialDetails()}
+                onApply={handleApplyExtractions}
+                onCancel={() => setExtractions(null)}
+              />
+            </div>
+          )}
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="jurisdiction">Jurisdiction</Label>
+            <Textarea
+              id="jurisdiction"
+              rows={3}
+              className="font-mono text-xs"
+              value={jurisdiction}
+              onChange={(e) => setJurisdiction(e.target.value)}
+              placeholder='{ "level": "state", "states": ["Gujarat"] }'
+            />
+            <p className="text-xs text-muted-foreground">
+              Empty means inferred from the ministry (central unless a state government runs it)
+            </p>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="relationships">Relationships</Label>
+            <Textarea
+              id="relationships"
+              rows={5}
+              className="font-mono text-xs"
+              value={relationships}
+              onChange={(e) => setRelationships(e.target.value)}
+              placeholder='[{ "type": "excludes", "scheme": "Coir Udyami Yojana", "note": "..." }]'
+            />
+            <p className="text-xs text-muted-foreground">
+              Types: stacks_with, excludes, prerequisite_for (this scheme comes first). Use the other scheme&apos;s official name. Empty means the curated list applies
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Revision Note and Submit */}
+      <div className="flex flex-col gap-3 md:flex-row md:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="note">Revision Note (optional)</Label>
+          <Input
+            id="note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Updated subsidy rates per 2026 guidelines"
+          />
+        </div>
+        <Button type="submit" disabled={submitting}>
+          <Save className="h-4 w-4 mr-2" />
+          {submitting ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
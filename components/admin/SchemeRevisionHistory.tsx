@@ -0,0 +1,214 @@
+'use client'
+
+/**
+ * Scheme Revision History Component
+ *
+ * Lists every revision of a scheme with:
+ * - Revision number, action, author and timestamp
+ * - Field-level diff (before / after)
+ * - Rollback button for earlier revisions
+ *
+ * @module components/admin/SchemeRevisionHistory
+ */
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { ChevronDown, ChevronRight, History, RotateCcw } from 'lucide-react'
+import type { Json, SchemeRevision, SchemeRevisionAction } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchemeRevisionHistoryProps {
+  revisions: SchemeRevision[]
+  loading?: boolean
+  onRollback: (revisionNumber: number) => Promise<void> | void
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ACTION_VARIANTS: Record<SchemeRevisionAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  deactivate: 'destructive',
+  reactivate: 'outline',
+  rollback: 'outline',
+}
+
+/**
+ * Render a JSONB value as short readable text
+ */
+function formatValue(value: Json | null): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'string') return value
+  if (typeof value === 'object' && !Array.isArray(value) && typeof value.content === 'string') {
+    return value.content
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.join(', ')
+  }
+  return JSON.stringify(value, null, 2)
+}
+
+function truncate(text: string, length: number = 400): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function SchemeRevisionHistory({
+  revisions,
+  loading = false,
+  onRollback,
+}: SchemeRevisionHistoryProps) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [pendingRollback, setPendingRollback] = useState<number | null>(null)
+
+  const latestRevision = revisions[0]?.revision_number
+
+  /**
+   * Confirm rollback from the dialog
+   */
+  const handleConfirmRollback = async () => {
+    if (pendingRollback === null) return
+    const revisionNumber = pendingRollback
+    setPendingRollback(null)
+    await onRollback(revisionNumber)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No revisions yet. The current state will be captured on the first edit.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {revisions.map((revision) => {
+              const isExpanded = expanded === revision.revision_number
+              const isLatest = revision.revision_number === latestRevision
+
+              return (
+                <div key={revision.id} className="rounded-md border">
+                  <div className="flex items-center justify-between gap-2 p-3">
+                    <button
+                      type="button"
+                      className="flex flex-1 items-center gap-2 text-left"
+                      onClick={() => setExpanded(isExpanded ? null : revision.revision_number)}
+                    >
+                      {isExpanded ? (
+                        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span className="font-medium">#{revision.revision_number}</span>
+                      <Badge variant={ACTION_VARIANTS[revision.action]}>
+                        {revision.action}
+                        {revision.rolled_back_to ? ` → #${revision.rolled_back_to}` : ''}
+                      </Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {revision.changes.length} field{revision.changes.length === 1 ? '' : 's'}
+                      </span>
+                    </button>
+                    <div className="flex items-center gap-3">
+                      <div className="text-right text-xs text-muted-foreground">
+                        <div>{revision.author_email || 'Unknown author'}</div>
+                        <div>{new Date(revision.created_at).toLocaleString()}</div>
+                      </div>
+                      {!isLatest && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPendingRollback(revision.revision_number)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="space-y-3 border-t p-3">
+                      {revision.note && (
+                        <p className="text-sm italic text-muted-foreground">{revision.note}</p>
+                      )}
+                      {revision.changes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Snapshot only, no field changes.</p>
+                      ) : (
+                        revision.changes.map((change) => (
+                          <div key={change.field} className="space-y-1">
+                            <div className="text-sm font-medium">{change.field}</div>
+                            <div className="grid gap-2 md:grid-cols-2">
+                              <pre className="whitespace-pre-wrap rounded bg-red-50 p-2 text-xs text-red-900 dark:bg-red-950 dark:text-red-100">
+                                {truncate(formatValue(change.before))}
+                              </pre>
+                              <pre className="whitespace-pre-wrap rounded bg-green-50 p-2 text-xs text-green-900 dark:bg-green-950 dark:text-green-100">
+                                {truncate(formatValue(change.after))}
+                              </pre>
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Rollback Confirmation */}
+      <AlertDialog
+        open={pendingRollback !== null}
+        onOpenChange={(open) => !open && setPendingRollback(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore revision #{pendingRollback}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The scheme will be reset to the state saved in this revision. The
+              restore is recorded as a new revision, so it can be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRollback}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+/**
+ * Usage Cost Card Component
+ *
+ * Shows what the LLM calls behind chat and extraction cost to run:
+ * - Total cost, calls and tokens for the selected dates
+ * - Breakdown by model, day, user and conversation
+ * - CSV export of the usage ledger
+ *
+ * @module components/admin/UsageCostCard
+ */
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Coins, Download, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { AnalyticsFilters, UsageSummary, UsageTotals } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsageCostCardProps {
+  filters?: AnalyticsFilters
+}
+
+interface BreakdownRow extends UsageTotals {
+  key: string
+  label: string
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-IN')
+}
+
+/**
+ * Query string for a date range, with its leading "?"
+ */
+function dateQuery(startDate?: string, endDate?: string): string {
+  if (!startDate || !endDate) return ''
+  return `?${new URLSearchParams({ startDate, endDate }).toString()}`
+}
+
+function BreakdownTable({ rows, label }: { rows: BreakdownRow[]; label: string }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">No usage recorded</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Input tokens</TableHead>
+          <TableHead className="text-right">Output tokens</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="max-w-[240px] truncate" title={row.label}>{row.label}</TableCell>
+            <TableCell className="text-right">{formatTokens(row.calls)}</TableCell>
+            <TableCell className="text-right">{formatTokens(row.inputTokens)}</TableCell>
+            <TableCell className="text-right">{formatTokens(row.outputTokens)}</TableCell>
+            <TableCell className="text-right font-medium">{formatCost(row.costUsd)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function UsageCostCard({ filters = {} }: UsageCostCardProps) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+
+  const startDate = filters.dateRange?.startDate
+  const endDate = filters.dateRange?.endDate
+
+  /**
+   * Fetch usage summary when the dates change
+   */
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchUsage = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/admin/analytics/usage${dateQuery(startDate, endDate)}`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch usage')
+        }
+
+        if (!cancelled) setUsage(result.data)
+      } catch (error) {
+        console.error('Error fetching usage summary:', error)
+        if (!cancelled) setUsage(null)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchUsage()
+    return () => {
+      cancelled = true
+    }
+  }, [startDate, endDate])
+
+  /**
+   * Download the usage ledger as CSV
+   */
+  const handleExport = async () => {
+    try {
+      setExporting(true)
+      const response = await fetch(`/api/admin/analytics/usage/export${dateQuery(startDate, endDate)}`)
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || 'Export failed')
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `llm_usage_${new Date().toISOString().split('T')[0]}.csv`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+
+      toast.success('Usage exported as CSV')
+    } catch (error) {
+      console.error('Usage export error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to export usage')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const totals = usage?.totals
+  const stats = [
+    { label: 'Total cost', value: totals ? formatCost(totals.costUsd) : '-' },
+    { label: 'Model calls', value: totals ? formatTokens(totals.calls) : '-' },
+    { label: 'Input tokens', value: totals ? formatTokens(totals.inputTokens) : '-' },
+    { label: 'Output tokens', value: totals ? formatTokens(totals.outputTokens) : '-' },
+  ]
+
+  const byModel: BreakdownRow[] = usage?.byModel.map((row) => ({ ...row, key: row.model, label: row.model })) || []
+  const byDay: BreakdownRow[] = [...(usage?.byDay || [])]
+    .reverse()
+    .map((row) => ({ ...row, key: row.date, label: row.date }))
+  const byUser: BreakdownRow[] = usage?.byUser.map((row) => ({
+    ...row,
+    key: row.userId || 'anonymous',
+    label: row.email || row.userId || 'Anonymous chats',
+  })) || []
+  const byConversation: BreakdownRow[] = usage?.byConversation.map((row) => ({
+    ...row,
+    key: row.conversationId,
+    label: row.title || row.conversationId,
+  })) || []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5 text-primary" />
+            LLM Usage &amp; Cost
+          </CardTitle>
+          <CardDescription>
+            Tokens and cost of chat responses and extraction runs (USD)
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || loading}>
+          {exporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg bg-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              {loading ? (
+                <Skeleton className="h-7 w-20 mt-1" />
+              ) : (
+                <p className="text-2xl font-semibold">{stat.value}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Breakdowns */}
+        {loading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <Tabs defaultValue="model">
+            <TabsList>
+              <TabsTrigger value="model">By model</TabsTrigger>
+              <TabsTrigger value="day">By day</TabsTrigger>
+              <TabsTrigger value="user">By user</TabsTrigger>
+              <TabsTrigger value="conversation">By conversation</TabsTrigger>
+            </TabsList>
+            <TabsContent value="model">
+              <BreakdownTable rows={byModel} label="Model" />
+            </TabsContent>
+            <TabsContent value="day">
+              <BreakdownTable rows={byDay} label="Date" />
+            </TabsContent>
+            <TabsContent value="user">
+              <BreakdownTable rows={byUser} label="User" />
+            </TabsContent>
+            <TabsContent value="conversation">
+              <BreakdownTable rows={byConversation} label="Conversation" />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
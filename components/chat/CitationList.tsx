@@ -0,0 +1,119 @@
+"use client";
+
+import React from "react";
+import { BookOpen, ExternalLink } from "lucide-react";
+import { citationRefsIn, replaceCitationMarkers } from "@/lib/schemes/schemeCitations";
+import type { SchemeChatMessage } from "@/services/ai/schemeTools";
+
+type MessagePart = SchemeChatMessage["parts"][number];
+export type CitationPart = Extract<MessagePart, { type: "source-url" }>;
+
+/**
+ * A cited source with the number shown for it in this answer
+ */
+export interface NumberedCitation {
+  number: number;
+  part: CitationPart;
+}
+
+const CITATION_HREF_PREFIX = "#cite-";
+
+/**
+ * Whether a message part is a citation sent with the answer
+ */
+export function isCitationPart(part: MessagePart): part is CitationPart {
+  return part.type === "source-url";
+}
+
+/**
+ * Number citations 1, 2, 3 in the order the answer refers to them; sources
+ * the text does not mark come last
+ */
+export function numberCitations(content: string, parts: CitationPart[]): NumberedCitation[] {
+  const ordered: CitationPart[] = [];
+
+  citationRefsIn(content).forEach((ref) => {
+    const part = parts.find((candidate) => candidate.sourceId === String(ref));
+    if (part && !ordered.includes(part)) ordered.push(part);
+  });
+  parts.forEach((part) => {
+    if (!ordered.includes(part)) ordered.push(part);
+  });
+
+  return ordered.map((part, index) => ({ number: index + 1, part }));
+}
+
+/**
+ * Rewrite [n] markers as markdown links that MessageBubble renders with
+ * CitationMarker. Markers with no matching source stay as written.
+ */
+export function linkCitationMarkers(content: string, citations: NumberedCitation[]): string {
+  if (citations.length === 0) return content;
+
+  return replaceCitationMarkers(content, (ref) => {
+    const citation = citations.find((candidate) => candidate.part.sourceId === String(ref));
+    return citation ? `[${citation.number}](${CITATION_HREF_PREFIX}${citation.number})` : null;
+  });
+}
+
+/**
+ * The citation a link made by linkCitationMarkers points to
+ */
+export function findCitation(href: string | undefined, citations: NumberedCitation[]): NumberedCitation | undefined {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return undefined;
+  const number = parseInt(href.slice(CITATION_HREF_PREFIX.length), 10);
+  return citations.find((citation) => citation.number === number);
+}
+
+/**
+ * Inline reference number linking to its source
+ */
+export function CitationMarker({ citation }: { citation: NumberedCitation }) {
+  return (
+    <sup>
+      <a
+        href={citation.part.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={citation.part.title}
+        className="text-primary no-underline hover:underline text-[10px] font-medium px-0.5"
+      >
+        [{citation.number}]
+      </a>
+    </sup>
+  );
+}
+
+/**
+ * Numbered references under an answer
+ */
+export function CitationList({ citations }: { citations: NumberedCitation[] }) {
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-border/50">
+      <p className="text-xs font-medium text-muted-foreground flex items-center gap-1 mb-1">
+        <BookOpen className="w-3 h-3" aria-hidden="true" />
+        Sources
+      </p>
+      <ol className="space-y-0.5">
+        {citations.map((citation) => (
+          <li key={citation.part.sourceId} className="text-xs flex items-start gap-1.5">
+            <span className="text-muted-foreground tabular-nums">{citation.number}.</span>
+            <a
+              href={citation.part.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline inline-flex items-center gap-1 min-w-0"
+            >
+              <span className="truncate">{citation.part.title || citation.part.url}</span>
+              {/^https?:\/\//.test(citation.part.url) && (
+                <ExternalLink className="w-3 h-3 flex-shrink-0" aria-hidden="true" />
+              )}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
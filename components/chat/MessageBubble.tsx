@@ -5,16 +5,32 @@ import ReactMarkdown, { Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Sparkles, User } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { ToolResultPart, isSchemeToolPart } from "./ToolResultPart";
+import { FollowUpQuestions, SchemeDataPart, getFollowUpQuestions, isSchemeCardPart } from "./SchemeDataPart";
+import {
+  CitationList,
+  CitationMarker,
+  findCitation,
+  isCitationPart,
+  linkCitationMarkers,
+  numberCitations,
+} from "./CitationList";
+import type { SchemeChatMessage } from "@/services/ai/schemeTools";
 
 interface MessageBubbleProps {
   role: "user" | "assistant";
   content: string;
   isStreaming?: boolean;
+  parts?: SchemeChatMessage["parts"]; // Tool results and scheme cards are shown above the reply, citations below it
+  onFollowUp?: (question: string) => void; // Shows the suggested follow-up questions
 }
 
 // Memoize the component to prevent unnecessary re-renders
-export const MessageBubble = React.memo(function MessageBubble({ role, content, isStreaming = false }: MessageBubbleProps) {
+export const MessageBubble = React.memo(function MessageBubble({ role, content, isStreaming = false, parts, onFollowUp }: MessageBubbleProps) {
   const isUser = role === "user";
+  const resultParts = isUser ? [] : (parts || []).filter((part) => isSchemeToolPart(part) || isSchemeCardPart(part));
+  const followUps = isUser || !onFollowUp ? [] : getFollowUpQuestions(parts || []);
+  const citations = isUser ? [] : numberCitations(content, (parts || []).filter(isCitationPart));
 
   // Define custom components with proper typing for react-markdown v10
   // Use consistent text-sm sizing throughout to match the base text size
@@ -41,17 +57,23 @@ export const MessageBubble = React.memo(function MessageBubble({ role, content,
         </pre>
       );
     },
-    a: ({ node, children, href, ...props }) => (
-      <a
-        href={href}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="text-primary underline hover:no-underline text-sm"
-        {...props}
-      >
-        {children}
-      </a>
-    ),
+    a: ({ node, children, href, ...props }) => {
+      const citation = findCitation(href, citations);
+      if (citation) {
+        return <CitationMarker citation={citation} />;
+      }
+      return (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary underline hover:no-underline text-sm"
+          {...props}
+        >
+          {children}
+        </a>
+      );
+    },
     h1: ({ node, ...props }) => <h1 className="text-base font-bold mb-2 mt-0" {...props} />,
     h2: ({ node, ...props }) => <h2 className="text-sm font-bold mb-2 mt-0" {...props} />,
     h3: ({ node, ...props }) => <h3 className="text-sm font-semibold mb-2 mt-0" {...props} />,
@@ -83,6 +105,17 @@ export const MessageBubble = React.memo(function MessageBubble({ role, content,
           isStreaming && "animate-pulse-subtle"
         )}
       >
+        {resultParts.length > 0 && (
+          <div className={cn("space-y-2", content && "mb-2")}>
+            {resultParts.map((part, index) =>
+              isSchemeToolPart(part) ? (
+                <ToolResultPart key={part.toolCallId} part={part} />
+              ) : (
+                <SchemeDataPart key={part.id || index} part={part} />
+              )
+            )}
+          </div>
+        )}
         <div className="text-sm leading-relaxed">
           {isUser ? (
             <p className="whitespace-pre-wrap m-0">{content}</p>
@@ -91,10 +124,16 @@ export const MessageBubble = React.memo(function MessageBubble({ role, content,
               remarkPlugins={[remarkGfm]}
               components={markdownComponents}
             >
-              {content}
+              {linkCitationMarkers(content, citations)}
             </ReactMarkdown>
           )}
         </div>
+        <CitationList citations={citations} />
+        {followUps.length > 0 && onFollowUp && (
+          <div className="mt-3">
+            <FollowUpQuestions questions={followUps} onSelect={onFollowUp} />
+          </div>
+        )}
       </div>
 
       {/* User avatar with User icon */}
@@ -21,8 +21,10 @@ import {
   MapPin,
   Users,
   Target,
+  Scale,
+  Check,
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { useSchemeComparison } from "@/hooks/useSchemeComparison";
 
 interface SchemeCardProps {
   scheme: {
@@ -47,6 +49,8 @@ interface SchemeCardProps {
 
 export function SchemeCard({ scheme, onCheckEligibility, onApply }: SchemeCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { isSelected, toggle } = useSchemeComparison();
+  const inComparison = isSelected(scheme.id);
 
   const isCentral = scheme.scheme_type?.toLowerCase() === "central";
   const hasWomenCategory = scheme.special_categories?.some(cat =>
@@ -241,13 +245,25 @@ export function SchemeCard({ scheme, onCheckEligibility, onApply }: SchemeCardPr
               </Button>
             )}
 
+            <Button
+              variant={inComparison ? "secondary" : "outline"}
+              size="sm"
+              className="btn-touch text-xs h-10"
+              onClick={() => toggle({ key: scheme.id, name: scheme.scheme_name })}
+              aria-pressed={inComparison}
+            >
+              {inComparison ? (
+                <Check className="w-4 h-4 mr-1" />
+              ) : (
+                <Scale className="w-4 h-4 mr-1" />
+              )}
+              {inComparison ? "Added" : "Compare"}
+            </Button>
+
             {onApply && (
               <Button
                 size="sm"
-                className={cn(
-                  "btn-touch text-xs h-10",
-                  !scheme.link && !onCheckEligibility && "col-span-2 sm:col-span-3"
-                )}
+                className="btn-touch text-xs h-10"
                 onClick={() => onApply(scheme.id)}
               >
                 <FileText className="w-4 h-4 mr-1" />
@@ -0,0 +1,304 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Bookmark,
+  BookmarkCheck,
+  Check,
+  CheckCircle,
+  ClipboardList,
+  ExternalLink,
+  HelpCircle,
+  Info,
+  MapPin,
+  MessageCircleQuestion,
+  Scale,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DOCUMENT_GROUP_LABELS } from "@/lib/schemes/documentChecklist";
+import { useSchemeComparison } from "@/hooks/useSchemeComparison";
+import type { SchemeChatMessage } from "@/services/ai/schemeTools";
+import type { EligibilityVerdict, SchemeCardData } from "@/services/ai/schemeDataParts";
+import type { DocumentGroup, EligibilityStatus } from "@/types/scheme";
+
+type MessagePart = SchemeChatMessage["parts"][number];
+export type SchemeDataPartType = Extract<MessagePart, { type: `data-${string}` }>;
+type CardDataPart = Exclude<SchemeDataPartType, { type: "data-followUps" }>;
+
+/**
+ * Whether a message part is a scheme card, eligibility verdict or checklist
+ * sent with the answer
+ */
+export function isSchemeCardPart(part: MessagePart): part is CardDataPart {
+  return part.type === "data-schemeCards" || part.type === "data-eligibility" || part.type === "data-documentChecklist";
+}
+
+/**
+ * Follow-up questions suggested for the answer, if any
+ */
+export function getFollowUpQuestions(parts: MessagePart[]): string[] {
+  const part = parts.find((candidate) => candidate.type === "data-followUps");
+  return part?.type === "data-followUps" ? part.data.questions : [];
+}
+
+const ELIGIBILITY_BADGES: Record<EligibilityStatus, { label: string; icon: typeof CheckCircle; className: string }> = {
+  eligible: { label: "Likely eligible", icon: CheckCircle, className: "text-green-700" },
+  not_eligible: { label: "Not eligible", icon: XCircle, className: "text-destructive" },
+  unknown: { label: "Need more info", icon: HelpCircle, className: "text-muted-foreground" },
+};
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function CompareButton({ scheme }: { scheme: { id: string; name: string } }) {
+  const { isSelected, toggle } = useSchemeComparison();
+  const inComparison = isSelected(scheme.id);
+
+  return (
+    <Button
+      variant={inComparison ? "secondary" : "outline"}
+      size="sm"
+      className="h-8 text-xs"
+      onClick={() => toggle({ key: scheme.id, name: scheme.name })}
+      aria-pressed={inComparison}
+    >
+      {inComparison ? <Check className="w-3.5 h-3.5 mr-1" /> : <Scale className="w-3.5 h-3.5 mr-1" />}
+      {inComparison ? "Added" : "Compare"}
+    </Button>
+  );
+}
+
+function SaveButton({ scheme }: { scheme: { id: string; name: string } }) {
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/schemes/saved", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scheme: scheme.id }),
+      });
+
+      if (response.status === 401) {
+        toast.info("Sign in to save schemes");
+        return;
+      }
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to save scheme");
+      }
+
+      setSaved(true);
+      toast.success(result.alreadySaved ? `${scheme.name} is already saved` : `Saved ${scheme.name}`);
+    } catch (error) {
+      console.error("Failed to save scheme:", error);
+      toast.error(`Could not save ${scheme.name}. Please try again.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="h-8 text-xs"
+      onClick={handleSave}
+      disabled={saving || saved}
+    >
+      {saved ? <BookmarkCheck className="w-3.5 h-3.5 mr-1" /> : <Bookmark className="w-3.5 h-3.5 mr-1" />}
+      {saved ? "Saved" : "Save"}
+    </Button>
+  );
+}
+
+function DetailsButton({ href }: { href: string }) {
+  return (
+    <Button asChild variant="ghost" size="sm" className="h-8 text-xs">
+      <Link href={href}>
+        <Info className="w-3.5 h-3.5 mr-1" />
+        Details
+      </Link>
+    </Button>
+  );
+}
+
+// ============================================================================
+// Cards
+// ============================================================================
+
+function SchemeRecommendationCard({ scheme }: { scheme: SchemeCardData }) {
+  return (
+    <li className="rounded-lg border border-border/60 bg-background p-3 space-y-2">
+      <div>
+        <div className="flex items-start justify-between gap-2">
+          <Link href={scheme.pageUrl} className="font-medium text-primary hover:underline leading-snug">
+            {scheme.name}
+          </Link>
+          {scheme.category && (
+            <Badge variant="outline" className="text-[10px] capitalize flex-shrink-0">
+              {scheme.category}
+            </Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-0.5">
+          <MapPin className="w-3 h-3" aria-hidden="true" />
+          {scheme.availableIn} · {scheme.ministry}
+        </p>
+      </div>
+      <p className="text-xs leading-relaxed">{scheme.summary}</p>
+      {scheme.keyBenefits.length > 0 && (
+        <ul className="text-xs ml-4 list-disc space-y-0.5">
+          {scheme.keyBenefits.map((benefit, index) => (
+            <li key={index}>{benefit}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-1.5 pt-1">
+        <SaveButton scheme={scheme} />
+        <CompareButton scheme={scheme} />
+        <DetailsButton href={scheme.pageUrl} />
+        {scheme.applyUrl && (
+          <Button asChild variant="ghost" size="sm" className="h-8 text-xs">
+            <a href={scheme.applyUrl} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="w-3.5 h-3.5 mr-1" />
+              {scheme.onlineApplication ? "Apply online" : "Official page"}
+            </a>
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function EligibilityVerdictCard({ result }: { result: EligibilityVerdict }) {
+  const badge = ELIGIBILITY_BADGES[result.status];
+  const Icon = badge.icon;
+  const scheme = { id: result.schemeId, name: result.schemeName };
+
+  return (
+    <li className="rounded-lg border border-border/60 bg-background p-3 space-y-2">
+      <p className={cn("flex items-center gap-1.5 font-medium", badge.className)}>
+        <Icon className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        {badge.label}: <span className="text-foreground">{result.schemeName}</span>
+      </p>
+      {result.reasons.length > 0 && (
+        <ul className="text-xs text-muted-foreground ml-6 list-disc space-y-0.5">
+          {result.reasons.map((reason, index) => (
+            <li key={index}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-1.5">
+        {result.status !== "not_eligible" && <SaveButton scheme={scheme} />}
+        <CompareButton scheme={scheme} />
+        <DetailsButton href={result.pageUrl} />
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Structured result sent with the answer: scheme recommendation cards,
+ * eligibility verdicts or a document checklist
+ */
+export function SchemeDataPart({ part }: { part: CardDataPart }) {
+  switch (part.type) {
+    case "data-schemeCards": {
+      const { schemes } = part.data;
+      if (schemes.length === 0) {
+        return <p className="text-xs text-muted-foreground">No matching schemes found.</p>;
+      }
+      return (
+        <ul className="space-y-2">
+          {schemes.map((scheme) => (
+            <SchemeRecommendationCard key={scheme.id} scheme={scheme} />
+          ))}
+        </ul>
+      );
+    }
+
+    case "data-eligibility":
+      return (
+        <ul className="space-y-2 text-sm">
+          {part.data.results.map((result) => (
+            <EligibilityVerdictCard key={result.schemeId} result={result} />
+          ))}
+        </ul>
+      );
+
+    case "data-documentChecklist": {
+      const { items, schemes } = part.data;
+      const groups = Object.keys(DOCUMENT_GROUP_LABELS) as DocumentGroup[];
+      return (
+        <div className="rounded-lg border border-border/60 bg-background p-3 text-sm space-y-2">
+          <p className="font-medium flex items-center gap-1.5">
+            <ClipboardList className="w-4 h-4" aria-hidden="true" />
+            Documents for {schemes.join(", ")}
+          </p>
+          {groups.map((group) => {
+            const groupItems = items.filter((item) => item.group === group);
+            if (groupItems.length === 0) return null;
+            return (
+              <div key={group}>
+                <p className="text-xs font-semibold text-muted-foreground">{DOCUMENT_GROUP_LABELS[group]}</p>
+                <ul className="text-xs space-y-1 mt-1">
+                  {groupItems.map((item) => (
+                    <li key={item.id}>
+                      <label className="flex items-start gap-2 cursor-pointer">
+                        <input type="checkbox" className="mt-0.5 accent-primary" />
+                        <span>
+                          {item.label}
+                          {item.note && <span className="text-muted-foreground"> ({item.note})</span>}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+  }
+}
+
+/**
+ * Suggested follow-up questions; choosing one sends it as the next message
+ */
+export function FollowUpQuestions({
+  questions,
+  onSelect,
+}: {
+  questions: string[];
+  onSelect: (question: string) => void;
+}) {
+  if (questions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5" role="group" aria-label="Suggested questions">
+      {questions.map((question) => (
+        <Button
+          key={question}
+          variant="outline"
+          size="sm"
+          className="h-auto py-1.5 px-3 text-xs whitespace-normal text-left rounded-full"
+          onClick={() => onSelect(question)}
+        >
+          <MessageCircleQuestion className="w-3.5 h-3.5 mr-1 flex-shrink-0" aria-hidden="true" />
+          {question}
+        </Button>
+      ))}
+    </div>
+  );
+}
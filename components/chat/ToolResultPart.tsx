@@ -0,0 +1,118 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { BookmarkCheck, Calculator, Loader2 } from "lucide-react";
+import { formatAmount } from "@/lib/schemes/schemeUtils";
+import { DATA_PART_TOOLS } from "@/services/ai/schemeDataParts";
+import type { SchemeChatMessage, SchemeToolSummary } from "@/services/ai/schemeTools";
+
+type MessagePart = SchemeChatMessage["parts"][number];
+type ToolPart = Extract<MessagePart, { type: `tool-${string}` }>;
+
+const PENDING_LABELS: Record<ToolPart["type"], string> = {
+  "tool-search_schemes": "Searching schemes…",
+  "tool-get_scheme_details": "Looking up scheme details…",
+  "tool-check_eligibility": "Checking eligibility…",
+  "tool-generate_document_checklist": "Preparing document checklist…",
+  "tool-calculate_scheme_finance": "Calculating subsidy and loan…",
+  "tool-save_scheme_for_user": "Saving scheme…",
+};
+
+/**
+ * Whether a message part is a scheme tool call
+ */
+export function isSchemeToolPart(part: MessagePart): part is ToolPart {
+  return part.type in PENDING_LABELS;
+}
+
+function isDataPartTool(part: ToolPart): boolean {
+  return DATA_PART_TOOLS.some((name) => part.type === `tool-${name}`);
+}
+
+function rupees(amount: number): string {
+  return `₹${formatAmount(amount)}`;
+}
+
+function SchemeLink({ scheme }: { scheme: Pick<SchemeToolSummary, "name" | "pageUrl"> }) {
+  return (
+    <Link href={scheme.pageUrl} className="font-medium text-primary hover:underline">
+      {scheme.name}
+    </Link>
+  );
+}
+
+/**
+ * Scheme tool call, shown above the assistant's reply: progress while it
+ * runs, then the calculation or saved confirmation. Search, details,
+ * eligibility and checklist results arrive as data parts (SchemeDataPart).
+ */
+export function ToolResultPart({ part }: { part: ToolPart }) {
+  if (part.state === "input-streaming" || part.state === "input-available") {
+    return (
+      <p className="text-xs text-muted-foreground flex items-center gap-2">
+        <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />
+        {PENDING_LABELS[part.type]}
+      </p>
+    );
+  }
+
+  // Tools report expected problems as { error }; the reply explains them
+  if (part.state === "output-error" || "error" in part.output || isDataPartTool(part)) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-border/60 bg-background p-3 text-sm">
+      {renderOutput(part)}
+    </div>
+  );
+}
+
+function renderOutput(part: ToolPart): React.ReactNode {
+  if (part.state !== "output-available" || "error" in part.output) return null;
+
+  switch (part.type) {
+    case "tool-calculate_scheme_finance": {
+      const result = part.output;
+      const rows: Array<[string, string]> = [
+        ["Project cost", rupees(result.projectCost)],
+        [`Subsidy (${result.subsidyRate}%)`, rupees(result.subsidyAmount)],
+        [`Own contribution (${result.ownContributionRate}%)`, rupees(result.ownContribution)],
+        ["Bank loan", rupees(result.bankLoan)],
+        [`EMI (${result.tenureMonths} months @ ${result.interestRate}%)`, rupees(result.emi)],
+      ];
+      return (
+        <div className="space-y-2">
+          <p className="font-medium flex items-center gap-1.5">
+            <Calculator className="w-4 h-4" aria-hidden="true" />
+            {result.schemeName}
+          </p>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            {rows.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="font-medium text-right">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+      );
+    }
+
+    case "tool-save_scheme_for_user": {
+      const { scheme, alreadySaved, status } = part.output;
+      return (
+        <p className="flex items-center gap-1.5">
+          <BookmarkCheck className="w-4 h-4 text-primary" aria-hidden="true" />
+          <SchemeLink scheme={scheme} />
+          <span className="text-muted-foreground">
+            {alreadySaved ? "is already in your saved schemes" : "saved to your schemes"}
+          </span>
+          {status !== "saved" && <Badge variant="secondary" className="capitalize">{status}</Badge>}
+        </p>
+      );
+    }
+  }
+}
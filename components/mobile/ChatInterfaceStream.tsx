@@ -10,7 +10,9 @@ import { useOfflineMode } from "@/hooks/useOfflineMode";
 import { OfflineModeMessage } from "@/components/ui/network-status";
 import { useChatVoiceInput } from "@/hooks/useVoiceRecording";
 import { MessageBubble } from "@/components/chat/MessageBubble";
+import type { SchemeChatMessage } from "@/services/ai/schemeTools";
 import { SchemeCard } from "@/components/chat/SchemeCard";
+import { CompareTray } from "@/components/schemes/CompareTray";
 import { useConversationStoreDb } from "@/hooks/useConversationStoreDb";
 import { useSmartScroll } from "@/hooks/useSmartScroll";
 import { useConversationTransition } from "@/hooks/useConversationTransition";
@@ -114,13 +116,14 @@ export function ChatInterfaceStream({
       return message.text;
     }
 
-    // Parts array (AI SDK v5 format)
+    // Parts array (AI SDK v5 format). Tool calls split a reply into one
+    // text part per step.
     if (message.parts && Array.isArray(message.parts)) {
       const text = message.parts
         .filter((part: any) => part && (part.type === 'text' || part.text))
         .map((part: any) => part.text || '')
         .filter(Boolean)
-        .join('');
+        .join('\n\n');
       if (text) return text;
     }
 
@@ -484,7 +487,10 @@ export function ChatInterfaceStream({
                   key={message.id}
                   role={message.role as "user" | "assistant"}
                   content={getMessageText(message)}
+                  parts={message.parts as SchemeChatMessage["parts"]}
                   isStreaming={isLoading && index === messages.length - 1 && message.role === 'assistant'}
+                  // Suggested follow-ups only make sense for the latest answer
+                  onFollowUp={!isLoading && index === messages.length - 1 ? handleQuickPrompt : undefined}
                 />
               ))}
 
@@ -575,6 +581,11 @@ export function ChatInterfaceStream({
         </div>
       )}
 
+      {/* Schemes added to compare from the cards in the chat */}
+      <div className="flex-shrink-0">
+        <CompareTray />
+      </div>
+
       {/* Fixed Input Area - stays at bottom */}
       <form 
         onSubmit={handleSubmit} 
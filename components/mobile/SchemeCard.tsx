@@ -12,9 +12,11 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Building, ExternalLink, ChevronDown, ChevronUp } from "lucide-react";
+import { Building, ExternalLink, ChevronDown, ChevronUp, Scale, Check } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { slugifySchemeName } from "@/lib/schemes/schemeUtils";
+import { useSchemeComparison } from "@/hooks/useSchemeComparison";
 
 interface SchemeCardProps {
   scheme: {
@@ -43,6 +45,8 @@ interface SchemeCardProps {
 export function SchemeCard({ scheme, language = "en" }: SchemeCardProps) {
   const router = useRouter();
   const [isExpanded, setIsExpanded] = useState(false);
+  const { isSelected, toggle } = useSchemeComparison();
+  const inComparison = isSelected(scheme.scheme_name);
 
   const handleViewDetails = () => {
     try {
@@ -50,8 +54,7 @@ export function SchemeCard({ scheme, language = "en" }: SchemeCardProps) {
         window.open(scheme.scheme_url, '_blank', 'noopener,noreferrer');
       } else {
         // Fallback to local details page if scheme_url is not available
-        const schemeId = encodeURIComponent(scheme.scheme_name);
-        router.push(`/schemes/${schemeId}`);
+        router.push(`/schemes/${slugifySchemeName(scheme.scheme_name)}`);
       }
     } catch (error) {
       console.error('Failed to open scheme URL:', error);
@@ -156,15 +159,29 @@ export function SchemeCard({ scheme, language = "en" }: SchemeCardProps) {
         )}
       </CardContent>
       
-      <CardFooter className="pt-4">
+      <CardFooter className="pt-4 gap-2">
         {/* View Details Button */}
         <Button 
-          className="w-full" 
+          className="flex-1" 
           onClick={handleViewDetails}
         >
           View Details
           <ExternalLink className="w-4 h-4 ml-2" />
         </Button>
+
+        {/* Add to Compare Button */}
+        <Button
+          variant={inComparison ? "secondary" : "outline"}
+          onClick={() => toggle({ key: scheme.scheme_name, name: scheme.scheme_name })}
+          aria-pressed={inComparison}
+        >
+          {inComparison ? (
+            <Check className="w-4 h-4 mr-1" />
+          ) : (
+            <Scale className="w-4 h-4 mr-1" />
+          )}
+          {inComparison ? "Added" : "Compare"}
+        </Button>
       </CardFooter>
     </Card>
   );
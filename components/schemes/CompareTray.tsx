@@ -0,0 +1,75 @@
+'use client'
+
+/**
+ * Compare Tray Component
+ *
+ * Bar pinned to the bottom of scheme listings while schemes are selected
+ * for comparison:
+ * - Selected scheme names with remove buttons
+ * - Compare button (enabled from two schemes) and Clear
+ *
+ * @module components/schemes/CompareTray
+ */
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Scale, X } from 'lucide-react'
+import { useSchemeComparison } from '@/hooks/useSchemeComparison'
+import { MIN_COMPARE_SCHEMES, MAX_COMPARE_SCHEMES } from '@/lib/schemes/schemeUtils'
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function CompareTray() {
+  const { selected, canCompare, compareUrl, remove, clear } = useSchemeComparison()
+
+  if (selected.length === 0) return null
+
+  return (
+    <div className="sticky bottom-0 z-20 border-t bg-background/95 backdrop-blur px-4 py-3 shadow-lg">
+      <div className="container mx-auto flex flex-col gap-3 sm:flex-row sm:items-center">
+        <div className="flex flex-1 flex-wrap gap-2">
+          {selected.map((scheme) => (
+            <Badge key={scheme.key} variant="secondary" className="max-w-[240px] gap-1 py-1">
+              <span className="truncate">{scheme.name}</span>
+              <button
+                type="button"
+                onClick={() => remove(scheme.key)}
+                className="rounded-full hover:bg-muted-foreground/20"
+                aria-label={`Remove ${scheme.name} from comparison`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+          {!canCompare && (
+            <span className="text-xs text-muted-foreground self-center">
+              Add at least {MIN_COMPARE_SCHEMES} schemes (up to {MAX_COMPARE_SCHEMES})
+            </span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={clear}>
+            Clear
+          </Button>
+          {canCompare ? (
+            <Button asChild size="sm">
+              <Link href={compareUrl}>
+                <Scale className="w-4 h-4 mr-1" />
+                Compare ({selected.length})
+              </Link>
+            </Button>
+          ) : (
+            <Button size="sm" disabled>
+              <Scale className="w-4 h-4 mr-1" />
+              Compare ({selected.length})
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
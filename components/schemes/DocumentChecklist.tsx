@@ -0,0 +1,353 @@
+'use client'
+
+/**
+ * Document Checklist Component
+ *
+ * Checklist of documents needed to apply for one or more schemes:
+ * - Personalisation: social category, business type, stage, location
+ * - Documents grouped by kind, merged across schemes
+ * - Tick off documents already in hand (remembered on this device)
+ * - Print or download the checklist
+ *
+ * The list is built on /api/schemes/checklist.
+ *
+ * @module components/schemes/DocumentChecklist
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, ClipboardCheck, Download, Printer } from 'lucide-react'
+import { DOCUMENT_GROUP_LABELS, formatChecklistText } from '@/lib/schemes/documentChecklist'
+import type { DocumentChecklist as Checklist, DocumentGroup } from '@/types/scheme'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DocumentChecklistProps {
+  schemes: string[] // Scheme IDs or official names
+}
+
+interface Answers {
+  category: string
+  businessConstitution: string
+  businessStage: string
+  areaType: string
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const STORAGE_KEY = 'documentChecklistTicks'
+const NOT_SAYING = 'any'
+
+function readTicks(): Set<string> {
+  if (typeof window === 'undefined') return new Set()
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return new Set(Array.isArray(stored) ? stored : [])
+  } catch {
+    return new Set()
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function DocumentChecklist({ schemes }: DocumentChecklistProps) {
+  const [answers, setAnswers] = useState<Answers>({
+    category: NOT_SAYING,
+    businessConstitution: NOT_SAYING,
+    businessStage: NOT_SAYING,
+    areaType: NOT_SAYING,
+  })
+  const [checklist, setChecklist] = useState<Checklist | null>(null)
+  const [ticked, setTicked] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const schemesKey = schemes.join('\n')
+
+  const fetchChecklist = useCallback(async (current: Answers) => {
+    setLoading(true)
+    setError(null)
+
+    // Leave out questions the user skipped
+    const profile = Object.fromEntries(
+      Object.entries(current).filter(([, value]) => value !== NOT_SAYING)
+    )
+
+    try {
+      const response = await fetch('/api/schemes/checklist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ schemes: schemesKey.split('\n'), profile }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to build checklist')
+      }
+
+      setChecklist(data.checklist)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build checklist')
+    } finally {
+      setLoading(false)
+    }
+  }, [schemesKey])
+
+  // Documents ticked earlier on this device
+  useEffect(() => {
+    setTicked(readTicks())
+  }, [])
+
+  useEffect(() => {
+    if (schemesKey) fetchChecklist(answers)
+  }, [fetchChecklist, schemesKey, answers])
+
+  const setAnswer = (key: keyof Answers) => (value: string) => {
+    setAnswers((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const toggle = (id: string) => {
+    setTicked((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(next)))
+      return next
+    })
+  }
+
+  const groups = useMemo(() => {
+    if (!checklist) return []
+    const byGroup = new Map<DocumentGroup, Checklist['items']>()
+    checklist.items.forEach((item) => {
+      byGroup.set(item.group, [...(byGroup.get(item.group) || []), item])
+    })
+    return Array.from(byGroup.entries())
+  }, [checklist])
+
+  const readyCount = checklist ? checklist.items.filter((item) => ticked.has(item.id)).length : 0
+  const total = checklist?.items.length || 0
+
+  /**
+   * Download the checklist as a text file, with ticked documents marked
+   */
+  const handleDownload = () => {
+    if (!checklist) return
+    const blob = new Blob([formatChecklistText(checklist, ticked)], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'document-checklist.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  /**
+   * Open a print-friendly copy of the checklist
+   */
+  const handlePrint = () => {
+    if (!checklist) return
+    const printWindow = window.open('', '_blank')
+    if (!printWindow) {
+      setError('Allow pop-ups to print the checklist')
+      return
+    }
+
+    const sections = groups.map(([group, items]) => `
+      <h2>${escapeHtml(DOCUMENT_GROUP_LABELS[group])}</h2>
+      <ul>${items.map((item) => `
+        <li>${ticked.has(item.id) ? '&#9745;' : '&#9744;'} ${escapeHtml(item.label)}${
+          item.note ? ` <em>(${escapeHtml(item.note)})</em>` : ''
+        }</li>`).join('')}
+      </ul>`).join('')
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html><head><title>Document checklist</title>
+      <style>
+        body { font-family: sans-serif; margin: 2rem; }
+        h1 { font-size: 1.4rem; } h2 { font-size: 1.1rem; margin-top: 1.5rem; }
+        ul { list-style: none; padding: 0; } li { margin: 0.4rem 0; }
+      </style></head>
+      <body>
+        <h1>Document checklist</h1>
+        <p>${escapeHtml(checklist.schemes.join(', '))}</p>
+        ${sections}
+      </body></html>`)
+    printWindow.document.close()
+    printWindow.focus()
+    printWindow.print()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          Document Checklist
+        </CardTitle>
+        <CardDescription>
+          Documents to keep ready before you apply. Answer a few questions to leave out what does not apply to you.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="checklist-category">Social category</Label>
+            <Select value={answers.category} onValueChange={setAnswer('category')}>
+              <SelectTrigger id="checklist-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_SAYING}>Prefer not to say</SelectItem>
+                <SelectItem value="general">General</SelectItem>
+                <SelectItem value="sc">SC</SelectItem>
+                <SelectItem value="st">ST</SelectItem>
+                <SelectItem value="obc">OBC</SelectItem>
+                <SelectItem value="minority">Minority</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="checklist-constitution">Business type</Label>
+            <Select value={answers.businessConstitution} onValueChange={setAnswer('businessConstitution')}>
+              <SelectTrigger id="checklist-constitution">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_SAYING}>Not sure</SelectItem>
+                <SelectItem value="proprietorship">Proprietorship</SelectItem>
+                <SelectItem value="partnership">Partnership</SelectItem>
+                <SelectItem value="llp">LLP</SelectItem>
+                <SelectItem value="company">Company</SelectItem>
+                <SelectItem value="society">Society, trust, SHG or cooperative</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="checklist-stage">Business stage</Label>
+            <Select value={answers.businessStage} onValueChange={setAnswer('businessStage')}>
+              <SelectTrigger id="checklist-stage">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_SAYING}>Not sure</SelectItem>
+                <SelectItem value="planning">Planning to start</SelectItem>
+                <SelectItem value="new">Just started</SelectItem>
+                <SelectItem value="existing">Running</SelectItem>
+                <SelectItem value="expansion">Expanding</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="checklist-area">Location</Label>
+            <Select value={answers.areaType} onValueChange={setAnswer('areaType')}>
+              <SelectTrigger id="checklist-area">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_SAYING}>Not sure</SelectItem>
+                <SelectItem value="urban">Urban</SelectItem>
+                <SelectItem value="rural">Rural</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {checklist && (
+          <div className={loading ? 'space-y-4 opacity-60' : 'space-y-4'}>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {readyCount} of {total} documents ready
+              </p>
+              <Progress value={total > 0 ? (readyCount / total) * 100 : 0} />
+            </div>
+
+            {groups.map(([group, items]) => (
+              <div key={group} className="space-y-2">
+                <h4 className="text-sm font-semibold">{DOCUMENT_GROUP_LABELS[group]}</h4>
+                <ul className="space-y-2">
+                  {items.map((item) => (
+                    <li key={item.id} className="flex items-start gap-3">
+                      <Checkbox
+                        id={`doc-${item.id}`}
+                        checked={ticked.has(item.id)}
+                        onCheckedChange={() => toggle(item.id)}
+                        className="mt-0.5"
+                      />
+                      <label htmlFor={`doc-${item.id}`} className="text-sm leading-snug cursor-pointer">
+                        <span className={ticked.has(item.id) ? 'line-through text-muted-foreground' : ''}>
+                          {item.label}
+                        </span>
+                        {item.note && (
+                          <span className="block text-xs text-muted-foreground">{item.note}</span>
+                        )}
+                        {item.schemes.length > 0 && checklist.schemes.length > 1 && (
+                          <span className="block text-xs text-muted-foreground">
+                            For {item.schemes.join(', ')}
+                          </span>
+                        )}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={handlePrint}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Check the scheme&apos;s official guidelines; the implementing agency may ask for more.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,313 @@
+'use client'
+
+/**
+ * Scheme Calculator Component
+ *
+ * Subsidy and loan calculator for a scheme's detail page:
+ * - Inputs: project cost, location, beneficiary category, sector
+ * - Optional interest rate and tenure overrides
+ * - Results: subsidy, own contribution, bank loan, EMI
+ * - Year-by-year repayment schedule and the assumptions used
+ *
+ * Calculations run on /api/schemes/calculator. The card hides itself when
+ * the scheme has no subsidy or loan terms.
+ *
+ * @module components/schemes/SchemeCalculator
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Calculator, Info } from 'lucide-react'
+import type {
+  AreaType,
+  BeneficiaryCategory,
+  BusinessSector,
+  LoanCalculationResult,
+} from '@/types/scheme'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchemeCalculatorProps {
+  schemeName: string
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DEFAULT_PROJECT_COST = 1000000
+
+function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function SchemeCalculator({ schemeName }: SchemeCalculatorProps) {
+  const [projectCost, setProjectCost] = useState(String(DEFAULT_PROJECT_COST))
+  const [areaType, setAreaType] = useState<AreaType>('urban')
+  const [category, setCategory] = useState<BeneficiaryCategory>('general')
+  const [sector, setSector] = useState<BusinessSector | 'any'>('any')
+  const [interestRate, setInterestRate] = useState('')
+  const [tenureYears, setTenureYears] = useState('')
+
+  const [result, setResult] = useState<LoanCalculationResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [unsupported, setUnsupported] = useState(false)
+
+  const calculate = useCallback(async (input: Record<string, unknown>) => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/schemes/calculator', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheme: schemeName, ...input }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        if (data.error === 'no_financial_terms') {
+          setUnsupported(true)
+          return
+        }
+        throw new Error(data.message || 'Failed to calculate')
+      }
+
+      setResult(data.calculation)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to calculate')
+    } finally {
+      setLoading(false)
+    }
+  }, [schemeName])
+
+  // Show an example for the default inputs straight away
+  useEffect(() => {
+    calculate({ projectCost: DEFAULT_PROJECT_COST, areaType: 'urban', category: 'general' })
+  }, [calculate])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const cost = Number(projectCost)
+    if (!Number.isFinite(cost) || cost <= 0) {
+      setError('Enter a project cost greater than zero')
+      return
+    }
+
+    calculate({
+      projectCost: cost,
+      areaType,
+      category,
+      sector: sector === 'any' ? undefined : sector,
+      interestRate: interestRate ? Number(interestRate) : undefined,
+      tenureYears: tenureYears ? Number(tenureYears) : undefined,
+    })
+  }
+
+  if (unsupported) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="w-5 h-5" />
+          Subsidy &amp; Loan Calculator
+        </CardTitle>
+        <CardDescription>
+          Estimate your subsidy, own contribution, bank loan and monthly EMI
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="calc-project-cost">Project cost (₹)</Label>
+            <Input
+              id="calc-project-cost"
+              type="number"
+              min={1}
+              value={projectCost}
+              onChange={(e) => setProjectCost(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calc-area">Location</Label>
+            <Select value={areaType} onValueChange={(value) => setAreaType(value as AreaType)}>
+              <SelectTrigger id="calc-area">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="urban">Urban</SelectItem>
+                <SelectItem value="rural">Rural</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calc-category">Beneficiary category</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as BeneficiaryCategory)}>
+              <SelectTrigger id="calc-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="general">General</SelectItem>
+                <SelectItem value="special">
+                  Special (SC/ST/OBC, minority, women, ex-servicemen, PH, NER/hill/border)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calc-sector">Sector</Label>
+            <Select value={sector} onValueChange={(value) => setSector(value as BusinessSector | 'any')}>
+              <SelectTrigger id="calc-sector">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Not sure</SelectItem>
+                <SelectItem value="manufacturing">Manufacturing</SelectItem>
+                <SelectItem value="services">Services</SelectItem>
+                <SelectItem value="trading">Trading / Business</SelectItem>
+                <SelectItem value="agriculture">Agriculture-allied</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calc-interest">Interest rate (% a year, optional)</Label>
+            <Input
+              id="calc-interest"
+              type="number"
+              min={0}
+              step="0.1"
+              placeholder="Scheme or typical bank rate"
+              value={interestRate}
+              onChange={(e) => setInterestRate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calc-tenure">Tenure (years, optional)</Label>
+            <Input
+              id="calc-tenure"
+              type="number"
+              min={1}
+              step="0.5"
+              placeholder="Longest allowed"
+              value={tenureYears}
+              onChange={(e) => setTenureYears(e.target.value)}
+            />
+          </div>
+
+          <div className="sm:col-span-2">
+            <Button type="submit" disabled={loading} className="w-full sm:w-auto">
+              {loading ? 'Calculating...' : 'Calculate'}
+            </Button>
+          </div>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Subsidy ({result.subsidyRate}%)</p>
+                <p className="text-lg font-semibold text-green-700">{formatRupees(result.subsidyAmount)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Your contribution ({result.ownContributionRate}%)</p>
+                <p className="text-lg font-semibold">{formatRupees(result.ownContribution)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Bank loan</p>
+                <p className="text-lg font-semibold">{formatRupees(result.bankLoan)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">
+                  EMI ({result.interestRate}%, {result.tenureMonths} months)
+                </p>
+                <p className="text-lg font-semibold">{formatRupees(result.emi)}</p>
+              </div>
+            </div>
+
+            {result.schedule.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Year</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.schedule.map((row) => (
+                    <TableRow key={row.year}>
+                      <TableCell>{row.year}</TableCell>
+                      <TableCell className="text-right">{formatRupees(row.principalPaid)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(row.interestPaid)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(row.closingBalance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              Total interest {formatRupees(result.totalInterest)} · Total repayment {formatRupees(result.totalRepayment)}
+            </p>
+
+            {result.assumptions.length > 0 && (
+              <ul className="space-y-1 text-sm text-muted-foreground">
+                {result.assumptions.map((assumption, idx) => (
+                  <li key={idx} className="flex gap-2">
+                    <Info className="w-4 h-4 mt-0.5 shrink-0" />
+                    {assumption}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Estimates only. The bank and implementing agency decide the final sanctioned amounts.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,11 +5,13 @@
  * 
  * Reusable dropdown menu for user profile with options:
  * - Edit Profile
+ * - Notifications (with unread count)
  * - Logout
  */
 
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
+import { useNotifications } from '@/hooks/useNotifications'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
 import {
@@ -19,7 +21,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { User, LogOut, ChevronDown } from 'lucide-react'
+import { User, LogOut, ChevronDown, Bell } from 'lucide-react'
 
 interface UserProfileMenuProps {
   language?: 'en' | 'hi'
@@ -36,6 +38,7 @@ export function UserProfileMenu({
 }: UserProfileMenuProps) {
   const router = useRouter()
   const { user, profile, signOut } = useAuth()
+  const { unreadCount } = useNotifications({ limit: 1 })
   const isHindi = language === 'hi'
 
   const getUserInitials = () => {
@@ -123,6 +126,15 @@ export function UserProfileMenu({
           <User className="mr-2 h-4 w-4" />
           <span>{isHindi ? 'प्रोफ़ाइल संपादित करें' : 'Edit Profile'}</span>
         </DropdownMenuItem>
+
+        {/* Notifications */}
+        <DropdownMenuItem onClick={() => router.push('/notifications')} className="cursor-pointer">
+          <Bell className="mr-2 h-4 w-4" />
+          <span>{isHindi ? 'सूचनाएं' : 'Notifications'}</span>
+          {unreadCount > 0 && (
+            <Badge className="ml-auto h-5 px-1.5 text-xs">{unreadCount}</Badge>
+          )}
+        </DropdownMenuItem>
         
         <DropdownMenuSeparator />
         
@@ -148,6 +148,9 @@ export function useConversationStoreDb(
         id: msg.id,
         role: msg.role as 'user' | 'assistant',
         content: msg.content,
+        // Stored AI SDK parts keep tool results (scheme cards, checklists) on reload
+        parts: Array.isArray(msg.parts) ? (msg.parts as unknown as Message['parts']) : undefined,
+        metadata: msg.metadata ?? undefined,
         createdAt: new Date(msg.created_at),
       }));
     }
@@ -269,6 +272,9 @@ export function useConversationStoreDb(
             await addMessage({
               role: 'assistant',
               content: content,
+              parts: message.parts,
+              // Which model answered and why (see services/ai/modelRouter)
+              metadata: message.metadata ?? null,
             });
             console.log('[onFinish] Assistant message saved successfully!');
             
@@ -313,7 +319,8 @@ export function useConversationStoreDb(
     const uiDisplayMessages: Message[] = displayMessages.map(msg => ({
       id: msg.id,
       role: msg.role,
-      parts: [{ type: 'text' as const, text: msg.content }],
+      parts: msg.parts || [{ type: 'text' as const, text: msg.content }],
+      metadata: msg.metadata,
       createdAt: msg.createdAt,
     }));
 
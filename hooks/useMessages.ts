@@ -13,7 +13,7 @@
 import { useEffect, useState, useCallback, useRef } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { MessageService } from '@/services/database/messageService'
-import type { Message } from '@/types/database'
+import type { Json, Message } from '@/types/database'
 import { toast } from 'sonner'
 
 // ============================================================================
@@ -29,6 +29,7 @@ export interface AddMessageInput {
   role: 'user' | 'assistant' | 'system'
   content: string
   parts?: any
+  metadata?: Json | null
 }
 
 export interface UseMessagesReturn {
@@ -165,7 +166,7 @@ export function useMessages(
    */
   const addMessage = useCallback(
     async (input: AddMessageInput): Promise<Message | null> => {
-      const { role, content, parts } = input
+      const { role, content, parts, metadata } = input
       
       if (!conversationId) {
         toast.error('No conversation selected')
@@ -185,6 +186,7 @@ export function useMessages(
         role,
         content,
         parts: parts || null,
+        metadata: metadata || null,
         created_at: new Date().toISOString(),
       }
       
@@ -198,7 +200,8 @@ export function useMessages(
           conversationId,
           role,
           content,
-          parts
+          parts,
+          metadata
         )
         
         // Replace optimistic message with real message
@@ -0,0 +1,224 @@
+/**
+ * useNotifications Hook
+ *
+ * Custom React hook for the scheme change notification feed.
+ * Provides the feed, unread count, read state and notification preferences.
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState, useCallback } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { NotificationService } from '@/services/database/notificationService'
+import type {
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  SchemeNotificationWithScheme,
+} from '@/types/database'
+import { toast } from 'sonner'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseNotificationsOptions {
+  autoLoad?: boolean
+  unreadOnly?: boolean
+  limit?: number
+}
+
+export interface UseNotificationsReturn {
+  // Data
+  notifications: SchemeNotificationWithScheme[]
+  unreadCount: number
+  preferences: NotificationPreferences | null
+  loading: boolean
+  error: Error | null
+
+  // Actions
+  markAsRead: (notificationIds: string[]) => Promise<void>
+  markAllAsRead: () => Promise<void>
+  updatePreferences: (updates: NotificationPreferencesUpdate) => Promise<NotificationPreferences | null>
+
+  // Utilities
+  refresh: () => Promise<void>
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Hook for managing scheme change notifications
+ *
+ * @param options - Configuration options
+ * @returns Notification feed and management functions
+ *
+ * @example
+ * ```tsx
+ * function NotificationBell() {
+ *   const { unreadCount } = useNotifications({ limit: 1 })
+ *   return <Badge>{unreadCount}</Badge>
+ * }
+ * ```
+ */
+export function useNotifications(
+  options: UseNotificationsOptions = {}
+): UseNotificationsReturn {
+  const { autoLoad = true, unreadOnly = false, limit = 50 } = options
+  const { user } = useAuth()
+
+  // State
+  const [notifications, setNotifications] = useState<SchemeNotificationWithScheme[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  // Service instance
+  const notificationService = useMemo(() => new NotificationService(), [])
+
+  /**
+   * Load feed, unread count and preferences
+   */
+  const loadNotifications = useCallback(async () => {
+    if (!user) {
+      setNotifications([])
+      setUnreadCount(0)
+      setPreferences(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [feed, count, prefs] = await Promise.all([
+        notificationService.getNotifications(user.id, { unreadOnly, limit }),
+        notificationService.getUnreadCount(user.id),
+        notificationService.getPreferences(user.id),
+      ])
+
+      setNotifications(feed)
+      setUnreadCount(count)
+      setPreferences(prefs)
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to load notifications')
+      setError(error)
+      console.error('Error loading notifications:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, unreadOnly, limit, notificationService])
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadNotifications()
+    } else {
+      setLoading(false)
+    }
+  }, [autoLoad, loadNotifications])
+
+  /**
+   * Mark specific notifications as read
+   */
+  const markAsRead = useCallback(
+    async (notificationIds: string[]): Promise<void> => {
+      if (!user || notificationIds.length === 0) return
+
+      try {
+        await notificationService.markAsRead(user.id, notificationIds)
+
+        // Update local state
+        const readAt = new Date().toISOString()
+        const newlyRead = notifications.filter(
+          n => notificationIds.includes(n.id) && !n.is_read
+        ).length
+        setNotifications(prev =>
+          prev.map(n => notificationIds.includes(n.id) ? { ...n, is_read: true, read_at: readAt } : n)
+        )
+        setUnreadCount(prev => Math.max(0, prev - newlyRead))
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Failed to mark as read')
+        setError(error)
+        console.error('Error marking notifications as read:', error)
+        toast.error('Failed to update notifications')
+      }
+    },
+    [user, notifications, notificationService]
+  )
+
+  /**
+   * Mark every unread notification as read
+   */
+  const markAllAsRead = useCallback(async (): Promise<void> => {
+    if (!user) return
+
+    try {
+      await notificationService.markAsRead(user.id)
+
+      // Update local state
+      const readAt = new Date().toISOString()
+      setNotifications(prev =>
+        prev.map(n => n.is_read ? n : { ...n, is_read: true, read_at: readAt })
+      )
+      setUnreadCount(0)
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to mark all as read')
+      setError(error)
+      console.error('Error marking all notifications as read:', error)
+      toast.error('Failed to update notifications')
+    }
+  }, [user, notificationService])
+
+  /**
+   * Save notification preferences
+   */
+  const updatePreferences = useCallback(
+    async (updates: NotificationPreferencesUpdate): Promise<NotificationPreferences | null> => {
+      if (!user) {
+        toast.error('You must be logged in to change notification settings')
+        return null
+      }
+
+      try {
+        const saved = await notificationService.updatePreferences(user.id, updates)
+        setPreferences(saved)
+        toast.success('Notification settings saved')
+        return saved
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Failed to save preferences')
+        setError(error)
+        console.error('Error updating notification preferences:', error)
+        toast.error(error.message.includes('Invalid') ? error.message : 'Failed to save notification settings')
+        return null
+      }
+    },
+    [user, notificationService]
+  )
+
+  /**
+   * Refresh notifications from database
+   */
+  const refresh = useCallback(async () => {
+    await loadNotifications()
+  }, [loadNotifications])
+
+  return {
+    // Data
+    notifications,
+    unreadCount,
+    preferences,
+    loading,
+    error,
+
+    // Actions
+    markAsRead,
+    markAllAsRead,
+    updatePreferences,
+
+    // Utilities
+    refresh,
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * useSchemeComparison Hook
+ *
+ * Custom React hook for the "add to compare" selection.
+ * The selection is kept in localStorage and shared by every component
+ * using the hook, so scheme cards and the compare tray stay in sync.
+ */
+
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { toast } from 'sonner'
+import {
+  MIN_COMPARE_SCHEMES,
+  MAX_COMPARE_SCHEMES,
+  buildCompareUrl,
+} from '@/lib/schemes/schemeUtils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ComparedScheme {
+  key: string // ProcessedScheme id, or official name on pages without ids
+  name: string
+}
+
+export interface UseSchemeComparisonReturn {
+  // Data
+  selected: ComparedScheme[]
+  canCompare: boolean
+  compareUrl: string
+
+  // Actions
+  toggle: (scheme: ComparedScheme) => void
+  remove: (key: string) => void
+  clear: () => void
+
+  // Utilities
+  isSelected: (key: string) => boolean
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const STORAGE_KEY = 'schemeComparison'
+const CHANGE_EVENT = 'scheme-comparison-change'
+
+function readSelection(): ComparedScheme[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored) ? stored.slice(0, MAX_COMPARE_SCHEMES) : []
+  } catch {
+    return []
+  }
+}
+
+function writeSelection(selection: ComparedScheme[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(selection))
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Hook for selecting schemes to compare
+ *
+ * @returns Selected schemes, the shareable compare URL and selection actions
+ *
+ * @example
+ * ```tsx
+ * const { isSelected, toggle, compareUrl, canCompare } = useSchemeComparison()
+ *
+ * <Button onClick={() => toggle({ key: scheme.id, name: scheme.name })}>
+ *   {isSelected(scheme.id) ? 'Added' : 'Compare'}
+ * </Button>
+ * ```
+ */
+export function useSchemeComparison(): UseSchemeComparisonReturn {
+  const [selected, setSelected] = useState<ComparedScheme[]>([])
+
+  /**
+   * Load the stored selection and follow changes from other components/tabs
+   */
+  useEffect(() => {
+    const sync = () => setSelected(readSelection())
+    sync()
+
+    window.addEventListener(CHANGE_EVENT, sync)
+    window.addEventListener('storage', sync)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync)
+      window.removeEventListener('storage', sync)
+    }
+  }, [])
+
+  const isSelected = useCallback(
+    (key: string) => selected.some((scheme) => scheme.key === key),
+    [selected]
+  )
+
+  const toggle = useCallback((scheme: ComparedScheme) => {
+    const current = readSelection()
+
+    if (current.some((s) => s.key === scheme.key)) {
+      writeSelection(current.filter((s) => s.key !== scheme.key))
+      return
+    }
+
+    if (current.length >= MAX_COMPARE_SCHEMES) {
+      toast.error(`You can compare up to ${MAX_COMPARE_SCHEMES} schemes at a time`)
+      return
+    }
+
+    writeSelection([...current, scheme])
+  }, [])
+
+  const remove = useCallback((key: string) => {
+    writeSelection(readSelection().filter((s) => s.key !== key))
+  }, [])
+
+  const clear = useCallback(() => {
+    writeSelection([])
+  }, [])
+
+  return {
+    selected,
+    canCompare: selected.length >= MIN_COMPARE_SCHEMES,
+    compareUrl: buildCompareUrl(selected.map((scheme) => scheme.key)),
+    toggle,
+    remove,
+    clear,
+    isSelected,
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Public Scheme API Utilities
+ *
+ * Shared by the versioned, read-only scheme endpoints partners pull the
+ * curated catalogue from (/api/v1/schemes):
+ * - Public scheme shape and field selection
+ * - Opaque cursor pagination
+ * - ETag / If-None-Match handling with shared caching headers
+ * - Language negotiation for labels
+ *
+ * @module lib/api/publicSchemes
+ */
+
+import { createHash } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { languageService, SupportedLanguage } from '@/services/language/languageService'
+import type { ProcessedScheme } from '@/types/scheme'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scheme fields exposed publicly. Internal ranking and LLM context fields
+ * are left out.
+ */
+export const PUBLIC_SCHEME_FIELDS = [
+  'id',
+  'slug',
+  'name',
+  'shortName',
+  'url',
+  'ministry',
+  'summary',
+  'fullDescription',
+  'category',
+  'tags',
+  'targetAudience',
+  'jurisdiction',
+  'relationships',
+  'keyBenefits',
+  'eligibilityCriteria',
+  'eligibilityRules',
+  'financialDetails',
+  'applicationSteps',
+  'documentsNeeded',
+  'onlineApplication',
+  'applicationUrls',
+] as const
+
+export type PublicSchemeField = typeof PUBLIC_SCHEME_FIELDS[number]
+
+export type PublicScheme = Partial<Pick<ProcessedScheme, PublicSchemeField>>
+
+/**
+ * UI labels in the requested language, for partners rendering the data
+ */
+export interface PublicSchemeLabels {
+  schemes: string
+  eligibility: string
+  benefits: string
+  applyNow: string
+  learnMore: string
+}
+
+/**
+ * Resolved language for a response. Scheme text is only curated in
+ * English, so contentLanguage stays 'en' whatever was requested.
+ */
+export interface PublicLanguage {
+  language: SupportedLanguage
+  contentLanguage: 'en'
+  labels: PublicSchemeLabels
+}
+
+// ============================================================================
+// Field Selection
+// ============================================================================
+
+/**
+ * Validate a field selection. Returns the fields to include (always with
+ * id), or the unknown field names.
+ */
+export function resolveFields(
+  requested: string[] | undefined
+): { fields: PublicSchemeField[] } | { unknown: string[] } {
+  if (!requested || requested.length === 0) {
+    return { fields: [...PUBLIC_SCHEME_FIELDS] }
+  }
+
+  const unknown = requested.filter(
+    field => !(PUBLIC_SCHEME_FIELDS as readonly string[]).includes(field)
+  )
+  if (unknown.length > 0) {
+    return { unknown }
+  }
+
+  return { fields: Array.from(new Set(['id', ...requested])) as PublicSchemeField[] }
+}
+
+/**
+ * Convert a processed scheme to its public shape with the selected fields
+ */
+export function toPublicScheme(
+  scheme: ProcessedScheme,
+  fields: PublicSchemeField[] = [...PUBLIC_SCHEME_FIELDS]
+): PublicScheme {
+  const result: Record<string, unknown> = {}
+  fields.forEach(field => {
+    if (scheme[field] !== undefined) {
+      result[field] = scheme[field]
+    }
+  })
+  return result as PublicScheme
+}
+
+// ============================================================================
+// Cursor Pagination
+// ============================================================================
+
+/**
+ * Encode the last scheme of a page as an opaque cursor
+ */
+export function encodeCursor(schemeId: string): string {
+  return Buffer.from(schemeId, 'utf8').toString('base64url')
+}
+
+/**
+ * Page through schemes after the cursor. Returns null when the cursor does
+ * not point at a scheme in the list (malformed, or the data changed).
+ */
+export function paginate(
+  schemes: ProcessedScheme[],
+  cursor: string | undefined,
+  limit: number
+): { items: ProcessedScheme[]; nextCursor: string | null } | null {
+  let start = 0
+
+  if (cursor) {
+    const afterId = Buffer.from(cursor, 'base64url').toString('utf8')
+    const index = schemes.findIndex(scheme => scheme.id === afterId)
+    if (index === -1) return null
+    start = index + 1
+  }
+
+  const items = schemes.slice(start, start + limit)
+  const hasMore = start + limit < schemes.length
+
+  return {
+    items,
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(items[items.length - 1].id) : null,
+  }
+}
+
+// ============================================================================
+// Language
+// ============================================================================
+
+/**
+ * Resolve the lang parameter. Returns null for an unsupported language.
+ */
+export function resolveLanguage(lang: string | undefined): PublicLanguage | null {
+  const code = (lang || 'en') as SupportedLanguage
+  if (!languageService.getSupportedLanguages().some(info => info.code === code)) {
+    return null
+  }
+
+  const translations = languageService.getTranslations(code)
+  return {
+    language: code,
+    contentLanguage: 'en',
+    labels: {
+      schemes: translations.schemes,
+      eligibility: translations.eligibility,
+      benefits: translations.benefits,
+      applyNow: translations.applyNow,
+      learnMore: translations.learnMore,
+    },
+  }
+}
+
+// ============================================================================
+// Caching
+// ============================================================================
+
+/**
+ * Scheme data changes rarely: let shared caches keep it for 5 minutes and
+ * serve stale copies for a day while revalidating
+ */
+const CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=86400'
+
+/**
+ * Weak ETag from the serialized response body
+ */
+export function computeETag(body: string): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`
+}
+
+/**
+ * Whether the request's If-None-Match matches the ETag
+ */
+function matchesETag(request: NextRequest, etag: string): boolean {
+  const header = request.headers.get('if-none-match')
+  if (!header) return false
+  if (header.trim() === '*') return true
+
+  // Weak comparison: ignore the W/ prefix on either side
+  const opaque = etag.replace(/^W\//, '')
+  return header.split(',').some(tag => tag.trim().replace(/^W\//, '') === opaque)
+}
+
+/**
+ * JSON response with ETag and caching headers, or 304 Not Modified when the
+ * client already has this version
+ *
+ * @example
+ * ```typescript
+ * return cachedJson(request, { data: schemes })
+ * ```
+ */
+export function cachedJson<T>(request: NextRequest, data: T): NextResponse {
+  const body = JSON.stringify(data)
+  const etag = computeETag(body)
+  const headers = {
+    ETag: etag,
+    'Cache-Control': CACHE_CONTROL,
+    'Content-Language': 'en',
+  }
+
+  if (matchesETag(request, etag)) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,27 @@
+/**
+ * Public Scheme Page Revalidation
+ *
+ * The scheme detail pages and the sitemap are statically generated from
+ * SchemeDataService. Admin routes call this after writing to the schemes
+ * table so edits, new schemes and deactivations show up immediately
+ * instead of at the next hourly regeneration.
+ *
+ * @module lib/api/schemePages
+ */
+
+import { revalidatePath } from 'next/cache'
+import { schemeDataService } from '@/services/schemes/schemeDataService'
+
+/**
+ * Reload the scheme cache and mark the public scheme pages stale
+ */
+export async function revalidateSchemePages(): Promise<void> {
+  try {
+    await schemeDataService.forceRefresh()
+    revalidatePath('/schemes/[slug]', 'page')
+    revalidatePath('/sitemap.xml')
+  } catch (error) {
+    // The write already succeeded; pages catch up at the next regeneration
+    console.error('[Scheme Pages] Failed to revalidate:', error)
+  }
+}
@@ -12,6 +12,8 @@
  * - Regional language variations
  */
 
+import { renderTemplate, type PromptTemplate } from './promptTemplate';
+
 export const MULTILINGUAL_EXTRACTION_PROMPT = `You are an intelligent multilingual data extraction assistant analyzing conversations about government schemes for MSMEs in India.
 
 ## LANGUAGE SUPPORT:
@@ -193,11 +195,30 @@ Return ONLY a JSON object with extracted data in ENGLISH (normalized).
 
 The conversation history will be provided below. Analyze all messages and extract structured business information following the rules above.`;
 
+export const EXTRACTION_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'extraction',
+    version: '1',
+    description: 'Multilingual extraction of business profile and scheme interests',
+    variables: ['conversation'],
+    template: `${MULTILINGUAL_EXTRACTION_PROMPT}
+
+---
+
+{{conversation}}
+
+---
+
+Now extract the structured business information from this conversation and return ONLY the JSON object as specified above.`
+  }
+];
+
 /**
  * Build the full extraction prompt with conversation context
  */
 export function buildExtractionPrompt(
-  conversationHistory: Array<{ role: string; content: string }>
+  conversationHistory: Array<{ role: string; content: string }>,
+  template: PromptTemplate = EXTRACTION_PROMPTS[0]
 ): string {
   const conversationText = conversationHistory
     .map((msg, index) => {
@@ -206,13 +227,5 @@ export function buildExtractionPrompt(
     })
     .join('\n\n');
 
-  return `${MULTILINGUAL_EXTRACTION_PROMPT}
-
----
-
-${conversationText}
-
----
-
-Now extract the structured business information from this conversation and return ONLY the JSON object as specified above.`;
+  return renderTemplate(template, { conversation: conversationText });
 }
@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { CHAT_SYSTEM_PROMPTS } from './chatSystemPrompt';
+import { EXTRACTION_PROMPTS } from './extractionPrompt';
+import { SUMMARY_PROMPTS } from './summaryPrompt';
+import { WELCOME_PROMPTS } from './welcomePrompt';
+import {
+  PromptTemplateError,
+  templatePlaceholders,
+  type PromptAssignment,
+  type PromptName,
+  type PromptTemplate
+} from './promptTemplate';
+
+/**
+ * Prompt Registry
+ *
+ * All versions of every prompt, the version in use, and prompt
+ * experiments.
+ *
+ * The version in use is the first registered one unless PROMPT_VERSIONS
+ * picks another, e.g. "chat-system=2,summary=1".
+ *
+ * PROMPT_EXPERIMENTS splits signed-in users between versions of a prompt
+ * by weight, e.g.
+ * [{"id":"concise-answers","prompt":"chat-system","variants":{"1":50,"2":50}}].
+ * Assignment is a hash of the experiment and user, so a user keeps their
+ * variant across conversations and devices. The chat records the versions
+ * a conversation used (conversations.prompt_variants) and keeps using them
+ * for the rest of it, so outcomes can be compared per variant.
+ */
+
+export interface PromptExperiment {
+  id: string;
+  prompt: PromptName;
+  variants: Record<string, number>; // Version -> relative weight
+}
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  ...CHAT_SYSTEM_PROMPTS,
+  ...WELCOME_PROMPTS,
+  ...EXTRACTION_PROMPTS,
+  ...SUMMARY_PROMPTS
+];
+
+const experimentSchema = z.object({
+  id: z.string().min(1),
+  prompt: z.enum(['chat-system', 'welcome-en', 'welcome-hi', 'extraction', 'summary']),
+  variants: z.record(z.string(), z.number().nonnegative())
+});
+
+// Placeholders and declared variables must agree, or a variable would be
+// sent to the model as "{{name}}"
+PROMPT_TEMPLATES.forEach(template => {
+  const placeholders = templatePlaceholders(template.template);
+  const undeclared = placeholders.filter(name => !template.variables.includes(name));
+  const unused = template.variables.filter(name => !placeholders.includes(name));
+
+  if (undeclared.length > 0 || unused.length > 0) {
+    throw new PromptTemplateError(
+      `Prompt ${template.name}@${template.version} declares [${template.variables.join(', ')}] but uses [${placeholders.join(', ')}]`
+    );
+  }
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * FNV-1a hash, so assignment needs no crypto API (the chat runs on the edge)
+ */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    value ^= text.charCodeAt(index);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function parseVersionConfig(): Partial<Record<PromptName, string>> {
+  const config: Partial<Record<PromptName, string>> = {};
+
+  (process.env.PROMPT_VERSIONS || '')
+    .split(',')
+    .map(entry => entry.split('=').map(part => part.trim()))
+    .forEach(([name, version]) => {
+      if (name && version) config[name as PromptName] = version;
+    });
+
+  return config;
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+/**
+ * All registered versions of a prompt, oldest first
+ */
+export function listPromptVersions(name: PromptName): PromptTemplate[] {
+  return PROMPT_TEMPLATES.filter(template => template.name === name);
+}
+
+export function hasPromptVersion(name: PromptName, version: string): boolean {
+  return PROMPT_TEMPLATES.some(template => template.name === name && template.version === version);
+}
+
+/**
+ * Version of a prompt in use when no experiment applies
+ */
+export function getActivePromptVersion(name: PromptName): string {
+  const configured = parseVersionConfig()[name];
+
+  if (configured && hasPromptVersion(name, configured)) {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[promptRegistry] PROMPT_VERSIONS names unknown version ${name}@${configured}; using the default`);
+  }
+
+  return listPromptVersions(name)[0].version;
+}
+
+/**
+ * A prompt template; the active version unless one is given
+ */
+export function getPromptTemplate(name: PromptName, version: string = getActivePromptVersion(name)): PromptTemplate {
+  const template = PROMPT_TEMPLATES.find(candidate => candidate.name === name && candidate.version === version);
+
+  if (!template) {
+    throw new PromptTemplateError(`Unknown prompt version ${name}@${version}`);
+  }
+
+  return template;
+}
+
+// ============================================================================
+// Experiments
+// ============================================================================
+
+// Parsed once per configuration, so invalid entries are reported once
+let experimentCache: { config: string; experiments: PromptExperiment[] } | null = null;
+
+/**
+ * Experiments configured in PROMPT_EXPERIMENTS. Invalid entries and
+ * variants naming unknown versions are left out.
+ */
+export function getPromptExperiments(): PromptExperiment[] {
+  const config = process.env.PROMPT_EXPERIMENTS || '';
+  if (experimentCache?.config !== config) {
+    experimentCache = { config, experiments: parseExperiments(config) };
+  }
+  return experimentCache.experiments;
+}
+
+function parseExperiments(config: string): PromptExperiment[] {
+  if (!config) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(config);
+  } catch {
+    console.error('[promptRegistry] PROMPT_EXPERIMENTS is not valid JSON');
+    return [];
+  }
+
+  return (Array.isArray(entries) ? entries : [])
+    .map(entry => {
+      const parsed = experimentSchema.safeParse(entry);
+      if (!parsed.success) {
+        console.error('[promptRegistry] Ignoring invalid prompt experiment:', parsed.error.message);
+        return null;
+      }
+
+      const variants = Object.fromEntries(
+        Object.entries(parsed.data.variants).filter(([version, weight]) =>
+          weight > 0 && hasPromptVersion(parsed.data.prompt, version))
+      );
+      return Object.keys(variants).length > 0 ? { ...parsed.data, variants } : null;
+    })
+    .filter((experiment): experiment is PromptExperiment => experiment !== null);
+}
+
+/**
+ * Variant of an experiment a user is in
+ */
+export function assignPromptVariant(experiment: PromptExperiment, subjectId: string): string {
+  const variants = Object.entries(experiment.variants);
+  const totalWeight = variants.reduce((sum, [, weight]) => sum + weight, 0);
+  let bucket = (hash(`${experiment.id}:${subjectId}`) / 0x100000000) * totalWeight;
+
+  for (const [version, weight] of variants) {
+    if (bucket < weight) return version;
+    bucket -= weight;
+  }
+
+  return variants[variants.length - 1][0];
+}
+
+/**
+ * Versions of prompts to use for a conversation
+ *
+ * Versions the conversation already used are kept. Otherwise a signed-in
+ * user is assigned a variant of the prompt's experiment, if it has one;
+ * anyone else gets the active version.
+ */
+export function resolvePromptAssignments(
+  prompts: PromptName[],
+  options: { subjectId?: string | null; pinned?: PromptAssignment[] | null } = {}
+): PromptAssignment[] {
+  const experiments = options.subjectId ? getPromptExperiments() : [];
+
+  return prompts.map(prompt => {
+    const pinned = options.pinned?.find(assignment => assignment.prompt === prompt);
+    if (pinned && hasPromptVersion(prompt, pinned.version)) {
+      return pinned;
+    }
+
+    const experiment = experiments.find(candidate => candidate.prompt === prompt);
+    if (experiment && options.subjectId) {
+      return { prompt, version: assignPromptVariant(experiment, options.subjectId), experimentId: experiment.id };
+    }
+
+    return { prompt, version: getActivePromptVersion(prompt), experimentId: null };
+  });
+}
+
+/**
+ * Version assigned to a prompt, or the active version
+ */
+export function assignedVersion(assignments: PromptAssignment[], prompt: PromptName): string {
+  return assignments.find(assignment => assignment.prompt === prompt)?.version || getActivePromptVersion(prompt);
+}
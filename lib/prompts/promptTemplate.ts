@@ -0,0 +1,64 @@
+/**
+ * Prompt Templates
+ *
+ * Every prompt the app sends is a named, versioned template with
+ * {{variable}} placeholders. Templates are registered in
+ * lib/prompts/promptRegistry.ts, which picks the active version of each
+ * and assigns users to variants in prompt experiments.
+ *
+ * A version is never edited once it has been used: change a prompt by
+ * adding a version, so answers and outcomes stay attributable to the text
+ * that produced them.
+ */
+
+export type PromptName = 'chat-system' | 'welcome-en' | 'welcome-hi' | 'extraction' | 'summary';
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  description: string; // What changed in this version
+  variables: readonly string[];
+  template: string;
+}
+
+/**
+ * The version of a prompt a conversation used, and the experiment that
+ * chose it (null when it is the configured version)
+ */
+export interface PromptAssignment {
+  prompt: PromptName;
+  version: string;
+  experimentId: string | null;
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Placeholders used in a template's text
+ */
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1])));
+}
+
+/**
+ * Fill in a template's variables. Every declared variable must be given;
+ * an empty string leaves its section out.
+ */
+export function renderTemplate(template: PromptTemplate, variables: Record<string, string>): string {
+  const missing = template.variables.filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(
+      `Prompt ${template.name}@${template.version} is missing variables: ${missing.join(', ')}`
+    );
+  }
+
+  return template.template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    template.variables.includes(name) ? variables[name] : placeholder);
+}
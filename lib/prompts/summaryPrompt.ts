@@ -0,0 +1,77 @@
+/**
+ * Conversation Summary Prompt
+ *
+ * Folds the older messages of a long advisory chat into a rolling summary
+ * that is sent to the model in their place. The summary has to carry
+ * everything the assistant would otherwise forget: the user's business
+ * facts, the schemes already discussed and what was concluded about them,
+ * and the questions still open.
+ */
+
+import type { ConversationSummary } from '@/types/conversation';
+import { renderTemplate, type PromptTemplate } from './promptTemplate';
+
+export const CONVERSATION_SUMMARY_PROMPT = `You maintain a running summary of a conversation between an Indian MSME owner and an AI advisor on government schemes.
+
+You are given the current summary (if any) and the next messages of the conversation. Return the complete updated summary as JSON:
+
+{
+  "businessFacts": string[],
+  "schemesDiscussed": string[],
+  "openQuestions": string[]
+}
+
+## RULES:
+
+1. **businessFacts**: Everything the user said about their business and themselves: industry, products, location, stage, turnover, employees, category (women/SC/ST/OBC), funding needed, documents they have. One fact per item, with the numbers as stated.
+2. **schemesDiscussed**: One item per scheme, with what was concluded (e.g. "PMEGP: user appears eligible, subsidy 25% of ₹10 lakh project explained").
+3. **openQuestions**: Questions the user asked that were not fully answered, and next steps the assistant offered or is waiting on.
+4. **Merge**: Keep every item from the current summary unless the new messages correct it or resolve an open question. Never drop a business fact because it was not repeated.
+5. **Be concise**: Short items, no pleasantries, no advice the assistant has not actually given.
+6. **Language**: Write in English, keeping scheme names, amounts and the user's own terms (e.g. "kirana store") as given.
+7. **No personal identifiers**: Leave out names, phone numbers, Aadhaar or PAN numbers.
+
+Return ONLY the JSON object.`;
+
+export const SUMMARY_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'summary',
+    version: '1',
+    description: 'Rolling summary of business facts, schemes discussed and open questions',
+    variables: ['currentSummary', 'messages'],
+    template: `${CONVERSATION_SUMMARY_PROMPT}
+
+---
+
+## CURRENT SUMMARY:
+
+{{currentSummary}}
+
+## NEXT MESSAGES:
+
+{{messages}}`
+  }
+];
+
+/**
+ * Build the summary prompt from the current summary and the messages to fold in
+ */
+export function buildSummaryPrompt(
+  previous: ConversationSummary | null,
+  messages: Array<{ role: string; content: string }>,
+  template: PromptTemplate = SUMMARY_PROMPTS[0]
+): string {
+  const currentSummary = previous
+    ? JSON.stringify({
+        businessFacts: previous.businessFacts,
+        schemesDiscussed: previous.schemesDiscussed,
+        openQuestions: previous.openQuestions
+      }, null, 2)
+    : '(none yet)';
+
+  const conversationText = messages
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content.replace(/\s*\n\s*/g, ' ')}`)
+    .join('\n');
+
+  return renderTemplate(template, { currentSummary, messages: conversationText });
+}
@@ -0,0 +1,359 @@
+import {
+  ProcessedScheme,
+  UserProfile,
+  AreaType,
+  BusinessConstitution,
+  DocumentGroup,
+  ChecklistItem,
+  DocumentChecklist
+} from '@/types/scheme';
+import curatedDocuments from '@/data/schemeDocuments.json';
+
+/**
+ * Document checklists built from the scheme catalogue
+ *
+ * Each scheme's documents come from data/schemeDocuments.json plus the
+ * documents its application text mentions. A checklist merges them across
+ * schemes, drops documents the profile rules out (caste certificate for
+ * general category, partnership deed for a company) and marks the rest
+ * "if applicable" when the profile does not say.
+ */
+
+interface DocumentDefinition {
+  id: string;
+  label: string;
+  group: DocumentGroup;
+  pattern: RegExp; // Matched against scheme text
+  note?: string; // Always shown
+  appliesTo?: {
+    categories?: string[];
+    constitutions?: BusinessConstitution[];
+    stages?: NonNullable<UserProfile['businessStage']>[];
+    areaTypes?: AreaType[];
+  };
+  conditionNote?: string; // Shown when the profile does not say whether it applies
+}
+
+export const DOCUMENT_CATALOGUE: DocumentDefinition[] = [
+  // Identity & address
+  { id: 'aadhaar', label: 'Aadhaar Card', group: 'identity', pattern: /\baadhaa?r\b/i },
+  { id: 'pan', label: 'PAN Card', group: 'identity', pattern: /\bpan\b(?! india)/i },
+  { id: 'photo', label: 'Passport-size photographs', group: 'identity', pattern: /photograph/i },
+  { id: 'address_proof', label: 'Address proof (residence and business)', group: 'identity', pattern: /address proof|proof of address/i },
+  { id: 'ration_card', label: 'Ration card', group: 'identity', pattern: /ration card/i },
+
+  // Business registration
+  {
+    id: 'udyam',
+    label: 'Udyam Registration Certificate',
+    group: 'business',
+    pattern: /udyam|udyog aadhaa?r/i,
+    note: 'Free at udyamregistration.gov.in if not registered yet'
+  },
+  { id: 'gst', label: 'GST registration certificate', group: 'business', pattern: /\bgst(in)?\b/i, note: 'If registered for GST' },
+  {
+    id: 'partnership_deed',
+    label: 'Partnership deed',
+    group: 'business',
+    pattern: /partnership deed/i,
+    appliesTo: { constitutions: ['partnership'] },
+    conditionNote: 'For partnership firms'
+  },
+  {
+    id: 'llp_agreement',
+    label: 'LLP agreement and certificate of incorporation',
+    group: 'business',
+    pattern: /llp agreement/i,
+    appliesTo: { constitutions: ['llp'] },
+    conditionNote: 'For LLPs'
+  },
+  {
+    id: 'incorporation',
+    label: 'Certificate of incorporation, MoA and AoA',
+    group: 'business',
+    pattern: /certificate of incorporation|memorandum of association/i,
+    appliesTo: { constitutions: ['company'] },
+    conditionNote: 'For companies'
+  },
+  {
+    id: 'society_registration',
+    label: 'Registration certificate (society, trust, SHG or cooperative)',
+    group: 'business',
+    pattern: /darpan|society registration|registration certificate of the (society|trust)/i,
+    appliesTo: { constitutions: ['society'] },
+    conditionNote: 'For societies, trusts, SHGs and cooperatives'
+  },
+  {
+    id: 'board_resolution',
+    label: 'Board resolution or authorisation letter',
+    group: 'business',
+    pattern: /board resolution|authori[sz]ation letter/i,
+    appliesTo: { constitutions: ['company', 'llp', 'society'] },
+    conditionNote: 'When applying on behalf of an organisation'
+  },
+  { id: 'iec', label: 'Importer-Exporter Code (IEC)', group: 'business', pattern: /\biec\b|importer.exporter code/i },
+
+  // Financial
+  { id: 'bank_details', label: 'Bank account details (passbook or cancelled cheque)', group: 'financial', pattern: /bank (account|passbook)|cancell?ed cheque/i },
+  { id: 'bank_statement', label: 'Bank statements (last 6 months)', group: 'financial', pattern: /bank statement/i },
+  {
+    id: 'itr',
+    label: 'Income tax returns (last 3 years)',
+    group: 'financial',
+    pattern: /income tax return|\bitr\b/i,
+    appliesTo: { stages: ['existing', 'expansion'] },
+    conditionNote: 'For existing businesses'
+  },
+  {
+    id: 'financial_statements',
+    label: 'Audited balance sheet and profit & loss statement',
+    group: 'financial',
+    pattern: /balance sheet|audited (accounts|financial)/i,
+    appliesTo: { stages: ['existing', 'expansion'] },
+    conditionNote: 'For existing businesses'
+  },
+  { id: 'expenditure_proof', label: 'Bills, invoices and payment receipts for expenses claimed', group: 'financial', pattern: /proof of (expenditure|payment)|invoices|payment receipt/i },
+
+  // Project
+  { id: 'project_report', label: 'Project report (DPR)', group: 'project', pattern: /project report|\bdpr\b/i },
+  { id: 'quotations', label: 'Quotations for machinery and equipment', group: 'project', pattern: /quotation/i },
+
+  // Category & qualifications
+  {
+    id: 'caste_certificate',
+    label: 'Caste certificate',
+    group: 'category',
+    pattern: /caste certificate|community certificate/i,
+    appliesTo: { categories: ['sc', 'st', 'obc'] },
+    conditionNote: 'If you are SC, ST or OBC'
+  },
+  {
+    id: 'special_category_certificate',
+    label: 'Special category certificate (minority, ex-serviceman, disability)',
+    group: 'category',
+    pattern: /ex.servicem[ae]n certificate|disability certificate|minority certificate/i,
+    note: 'If claiming special category benefits'
+  },
+  {
+    id: 'rural_certificate',
+    label: 'Rural area certificate',
+    group: 'category',
+    pattern: /rural area certificate/i,
+    appliesTo: { areaTypes: ['rural'] },
+    conditionNote: 'If your unit is in a rural area'
+  },
+  { id: 'education_certificate', label: 'Educational qualification certificate', group: 'category', pattern: /educational (qualification|certificate)|qualification certificate/i },
+  { id: 'edp_certificate', label: 'Entrepreneurship Development Programme (EDP) training certificate', group: 'category', pattern: /\bedp\b.*certificate|edp training/i },
+  { id: 'experience_certificate', label: 'Experience or skill certificate', group: 'category', pattern: /experience certificate|skill certificate/i }
+];
+
+// Documents every application needs, whatever the scheme
+const BASIC_DOCUMENT_IDS = ['aadhaar', 'pan', 'address_proof', 'bank_details', 'udyam', 'gst'];
+
+// Proof of the business's legal form, listed when the profile gives it
+const CONSTITUTION_DOCUMENT_IDS = [
+  'partnership_deed',
+  'llp_agreement',
+  'incorporation',
+  'society_registration',
+  'board_resolution'
+];
+
+export const DOCUMENT_GROUP_LABELS: Record<DocumentGroup, string> = {
+  identity: 'Identity & address',
+  business: 'Business registration',
+  financial: 'Financial',
+  project: 'Project',
+  category: 'Category & qualifications',
+  other: 'Other'
+};
+
+const GROUP_ORDER: DocumentGroup[] = ['identity', 'business', 'financial', 'project', 'category', 'other'];
+
+const definitionsById = new Map(DOCUMENT_CATALOGUE.map(doc => [doc.id, doc]));
+
+/**
+ * Look up curated document ids for a scheme by its official name
+ */
+export function getCuratedDocuments(schemeName: string): string[] | undefined {
+  const documents = (curatedDocuments.documents as Record<string, string[]>)[schemeName];
+  return documents ? [...documents] : undefined;
+}
+
+/**
+ * Labels of the documents a scheme asks for: curated ones plus any its
+ * documents/application text mentions, in catalogue order
+ */
+export function extractSchemeDocuments(schemeName: string, text: string): string[] {
+  const ids = new Set(getCuratedDocuments(schemeName) || []);
+  DOCUMENT_CATALOGUE.forEach(doc => {
+    if (doc.pattern.test(text)) ids.add(doc.id);
+  });
+
+  return DOCUMENT_CATALOGUE
+    .filter(doc => ids.has(doc.id))
+    .map(doc => doc.label);
+}
+
+/**
+ * Catalogue entry for a document name, by label or pattern
+ */
+function findDefinition(name: string): DocumentDefinition | undefined {
+  const target = name.trim().toLowerCase();
+  return DOCUMENT_CATALOGUE.find(doc => doc.label.toLowerCase() === target) ||
+    DOCUMENT_CATALOGUE.find(doc => doc.pattern.test(name));
+}
+
+/**
+ * Social categories named in free text such as "SC/ST" or "OBC"
+ */
+function parseCategories(category?: string): string[] {
+  if (!category) return [];
+  return category.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+}
+
+/**
+ * Whether a document applies to the profile: true, false, or undefined
+ * when the profile does not have the information
+ */
+function appliesToProfile(doc: DocumentDefinition, profile: UserProfile): boolean | undefined {
+  const conditions = doc.appliesTo;
+  if (!conditions) return true;
+
+  const checks: (boolean | undefined)[] = [];
+
+  if (conditions.categories) {
+    const categories = parseCategories(profile.category);
+    checks.push(categories.length > 0
+      ? categories.some(c => conditions.categories!.includes(c))
+      : undefined);
+  }
+  if (conditions.constitutions) {
+    checks.push(profile.businessConstitution
+      ? conditions.constitutions.includes(profile.businessConstitution)
+      : undefined);
+  }
+  if (conditions.stages) {
+    checks.push(profile.businessStage
+      ? conditions.stages.includes(profile.businessStage)
+      : undefined);
+  }
+  if (conditions.areaTypes) {
+    const isRural = profile.location?.isRural;
+    checks.push(isRural !== undefined
+      ? conditions.areaTypes.includes(isRural ? 'rural' : 'urban')
+      : undefined);
+  }
+
+  if (checks.includes(false)) return false;
+  if (checks.includes(undefined)) return undefined;
+  return true;
+}
+
+/**
+ * Profile from the checklist's personalisation answers
+ */
+export function toChecklistProfile(answers: {
+  category?: string;
+  businessConstitution?: BusinessConstitution;
+  businessStage?: UserProfile['businessStage'];
+  areaType?: AreaType;
+}): UserProfile {
+  return {
+    category: answers.category,
+    businessConstitution: answers.businessConstitution,
+    businessStage: answers.businessStage,
+    location: answers.areaType ? { isRural: answers.areaType === 'rural' } : undefined
+  };
+}
+
+/**
+ * Build one deduplicated checklist for a set of schemes, personalised by
+ * profile. Documents the profile rules out are left out.
+ */
+export function buildDocumentChecklist(
+  schemes: ProcessedScheme[],
+  profile: UserProfile = {}
+): DocumentChecklist {
+  const items = new Map<string, ChecklistItem>();
+
+  const add = (doc: DocumentDefinition, schemeName?: string, onlyIfConfirmed = false) => {
+    const applies = appliesToProfile(doc, profile);
+    if (applies === false || (onlyIfConfirmed && applies !== true)) return;
+
+    const existing = items.get(doc.id);
+    if (existing) {
+      if (schemeName && existing.schemes.length > 0 && !existing.schemes.includes(schemeName)) {
+        existing.schemes.push(schemeName);
+      }
+      return;
+    }
+
+    items.set(doc.id, {
+      id: doc.id,
+      label: doc.label,
+      group: doc.group,
+      schemes: schemeName ? [schemeName] : [],
+      note: doc.note || (applies === undefined ? doc.conditionNote : undefined)
+    });
+  };
+
+  BASIC_DOCUMENT_IDS.forEach(id => add(definitionsById.get(id)!));
+  CONSTITUTION_DOCUMENT_IDS.forEach(id => add(definitionsById.get(id)!, undefined, true));
+
+  schemes.forEach(scheme => {
+    scheme.documentsNeeded.forEach(name => {
+      const doc = findDefinition(name);
+      if (doc) {
+        add(doc, scheme.name);
+        return;
+      }
+
+      // Free-text document set by an admin
+      const id = `other:${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+      const existing = items.get(id);
+      if (existing) {
+        if (!existing.schemes.includes(scheme.name)) existing.schemes.push(scheme.name);
+      } else {
+        items.set(id, { id, label: name.trim(), group: 'other', schemes: [scheme.name] });
+      }
+    });
+  });
+
+  const order = new Map(DOCUMENT_CATALOGUE.map((doc, index) => [doc.id, index]));
+
+  return {
+    schemes: schemes.map(scheme => scheme.name),
+    items: Array.from(items.values()).sort((a, b) =>
+      GROUP_ORDER.indexOf(a.group) - GROUP_ORDER.indexOf(b.group) ||
+      (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity)
+    )
+  };
+}
+
+/**
+ * Plain-text checklist for download or printing, with ticked items marked
+ */
+export function formatChecklistText(
+  checklist: DocumentChecklist,
+  checkedIds: Set<string> = new Set()
+): string {
+  const lines = ['Document checklist', `Schemes: ${checklist.schemes.join(', ')}`];
+
+  GROUP_ORDER.forEach(group => {
+    const items = checklist.items.filter(item => item.group === group);
+    if (items.length === 0) return;
+
+    lines.push('', DOCUMENT_GROUP_LABELS[group]);
+    items.forEach(item => {
+      let line = `[${checkedIds.has(item.id) ? 'x' : ' '}] ${item.label}`;
+      if (item.note) line += ` - ${item.note}`;
+      if (item.schemes.length > 0 && checklist.schemes.length > 1) {
+        line += ` (for ${item.schemes.join(', ')})`;
+      }
+      lines.push(line);
+    });
+  });
+
+  return lines.join('\n');
+}
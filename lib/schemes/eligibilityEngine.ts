@@ -0,0 +1,427 @@
+import {
+  ProcessedScheme,
+  UserProfile,
+  EligibilityRules,
+  EligibilityStatus,
+  EligibilityCriterion,
+  CriterionResult,
+  EligibilityResult,
+  BusinessSize,
+  BusinessSector,
+  UnitStage
+} from '@/types/scheme';
+import type { UserProfile as AccountProfile } from '@/types/database';
+import { normalizeIndustry } from '@/lib/utils/normalization';
+import { formatAmount } from './schemeUtils';
+import curatedRules from '@/data/eligibilityRules.json';
+
+/**
+ * Rule-based eligibility evaluation for schemes
+ *
+ * Each criterion present in a scheme's EligibilityRules is checked against
+ * the user profile and yields eligible / not_eligible / unknown with a
+ * human-readable reason. Criteria the scheme does not restrict are skipped.
+ */
+
+// MSMED Act classification (revised April 2025), in INR
+const MSME_LIMITS: Record<BusinessSize, { investment: number; turnover: number }> = {
+  Micro: { investment: 25000000, turnover: 100000000 },
+  Small: { investment: 250000000, turnover: 1000000000 },
+  Medium: { investment: 1250000000, turnover: 5000000000 }
+};
+
+const FEMALE_TERMS = ['female', 'woman', 'women', 'f', 'mahila', 'महिला'];
+const MALE_TERMS = ['male', 'man', 'men', 'm', 'purush', 'पुरुष'];
+
+/**
+ * Look up curated rules for a scheme by its official name
+ */
+export function getCuratedRules(schemeName: string): EligibilityRules | undefined {
+  const rules = (curatedRules.rules as Record<string, EligibilityRules>)[schemeName];
+  return rules ? { ...rules } : undefined;
+}
+
+/**
+ * Evaluate a single scheme against a user profile
+ */
+export function evaluateEligibility(
+  scheme: ProcessedScheme,
+  profile: UserProfile
+): EligibilityResult {
+  const rules = scheme.eligibilityRules;
+
+  if (!rules) {
+    return {
+      schemeId: scheme.id,
+      schemeName: scheme.name,
+      status: 'unknown',
+      criteria: [],
+      missingFields: [],
+      notes: ['No structured eligibility rules are available for this scheme yet']
+    };
+  }
+
+  const criteria = evaluateRules(rules, profile);
+
+  return {
+    schemeId: scheme.id,
+    schemeName: scheme.name,
+    status: combineStatuses(criteria.map(c => c.status)),
+    criteria,
+    missingFields: criteria
+      .filter(c => c.status === 'unknown')
+      .map(c => c.criterion),
+    notes: rules.notes || []
+  };
+}
+
+/**
+ * Evaluate many schemes, ordered eligible first, then unknown, then not eligible
+ */
+export function evaluateSchemesEligibility(
+  schemes: ProcessedScheme[],
+  profile: UserProfile
+): EligibilityResult[] {
+  const order: Record<EligibilityStatus, number> = {
+    eligible: 0,
+    unknown: 1,
+    not_eligible: 2
+  };
+
+  return schemes
+    .map(scheme => evaluateEligibility(scheme, profile))
+    .sort((a, b) => order[a.status] - order[b.status]);
+}
+
+/**
+ * Build an eligibility profile from a signed-in user's account profile.
+ * Only fields the account actually stores are set; the rest stay unknown.
+ */
+export function accountToEligibilityProfile(account: AccountProfile): UserProfile {
+  const profile: UserProfile = {};
+  const sizes: BusinessSize[] = ['Micro', 'Small', 'Medium'];
+
+  if (account.business_type) {
+    profile.businessType = account.business_type;
+    profile.sector = account.business_type;
+  }
+  if (account.annual_turnover !== null) {
+    profile.annualTurnover = account.annual_turnover;
+  }
+  if (account.state || account.district) {
+    profile.location = {
+      state: account.state || undefined,
+      district: account.district || undefined
+    };
+  }
+
+  const size = sizes.find(s => s.toLowerCase() === account.business_category?.trim().toLowerCase());
+  if (size) {
+    profile.businessSize = size;
+  }
+
+  return profile;
+}
+
+/**
+ * Evaluate every criterion the rules define
+ */
+export function evaluateRules(
+  rules: EligibilityRules,
+  profile: UserProfile
+): CriterionResult[] {
+  const results: CriterionResult[] = [];
+  const sector = resolveSector(profile);
+
+  if (rules.minAge !== undefined || rules.maxAge !== undefined) {
+    results.push(checkAge(rules, profile.age));
+  }
+  if (rules.maxTurnover !== undefined) {
+    results.push(checkMaximum('turnover', 'Annual turnover', rules.maxTurnover, profile.annualTurnover));
+  }
+  if (rules.maxInvestment !== undefined || rules.investmentCapsBySector) {
+    results.push(checkInvestment(rules, profile.investment, sector));
+  }
+  if (rules.businessSizes && rules.businessSizes.length > 0) {
+    results.push(checkBusinessSize(rules.businessSizes, profile));
+  }
+  if (rules.genders && rules.genders.length > 0) {
+    results.push(checkGender(rules.genders, profile.gender));
+  }
+  if (rules.socialCategories && rules.socialCategories.length > 0) {
+    results.push(checkSocialCategory(rules.socialCategories, profile.category));
+  }
+  if (rules.areaTypes && rules.areaTypes.length > 0) {
+    results.push(checkArea(rules.areaTypes, profile.location?.isRural));
+  }
+  if (rules.unitStages && rules.unitStages.length > 0) {
+    results.push(checkUnitStage(rules.unitStages, profile.businessStage));
+  }
+  if ((rules.sectors && rules.sectors.length > 0) || (rules.excludedActivities && rules.excludedActivities.length > 0)) {
+    results.push(checkSector(rules, profile, sector));
+  }
+
+  return results;
+}
+
+/**
+ * One-line summary suitable for chat replies and advisor notes
+ */
+export function formatEligibilityResult(result: EligibilityResult): string {
+  const label: Record<EligibilityStatus, string> = {
+    eligible: 'Likely eligible',
+    not_eligible: 'Not eligible',
+    unknown: 'Need more information'
+  };
+
+  const reasons = result.criteria
+    .filter(c => result.status === 'eligible' || c.status === result.status)
+    .map(c => c.reason);
+
+  return reasons.length > 0
+    ? `${label[result.status]} for ${result.schemeName}: ${reasons.join('; ')}`
+    : `${label[result.status]} for ${result.schemeName}`;
+}
+
+/**
+ * Classify an enterprise by investment and turnover.
+ * Returns null when it exceeds the medium enterprise limits.
+ */
+export function classifyBusinessSize(
+  investment?: number,
+  turnover?: number
+): BusinessSize | null | undefined {
+  if (investment === undefined && turnover === undefined) return undefined;
+
+  const sizes: BusinessSize[] = ['Micro', 'Small', 'Medium'];
+  for (const size of sizes) {
+    const limits = MSME_LIMITS[size];
+    const withinInvestment = investment === undefined || investment <= limits.investment;
+    const withinTurnover = turnover === undefined || turnover <= limits.turnover;
+    if (withinInvestment && withinTurnover) return size;
+  }
+
+  return null;
+}
+
+// Private helpers
+
+function combineStatuses(statuses: EligibilityStatus[]): EligibilityStatus {
+  if (statuses.length === 0) return 'unknown';
+  if (statuses.includes('not_eligible')) return 'not_eligible';
+  if (statuses.includes('unknown')) return 'unknown';
+  return 'eligible';
+}
+
+function result(
+  criterion: EligibilityCriterion,
+  status: EligibilityStatus,
+  reason: string
+): CriterionResult {
+  return { criterion, status, reason };
+}
+
+function checkAge(rules: EligibilityRules, age?: number): CriterionResult {
+  const range = rules.maxAge !== undefined
+    ? `${rules.minAge ?? 0}-${rules.maxAge} years`
+    : `${rules.minAge}+ years`;
+
+  if (age === undefined) {
+    return result('age', 'unknown', `Age not provided (scheme requires ${range})`);
+  }
+  if (rules.minAge !== undefined && age < rules.minAge) {
+    return result('age', 'not_eligible', `Applicant must be at least ${rules.minAge} years old`);
+  }
+  if (rules.maxAge !== undefined && age > rules.maxAge) {
+    return result('age', 'not_eligible', `Applicant must be at most ${rules.maxAge} years old`);
+  }
+  return result('age', 'eligible', `Age ${age} is within ${range}`);
+}
+
+function checkMaximum(
+  criterion: EligibilityCriterion,
+  label: string,
+  limit: number,
+  value?: number
+): CriterionResult {
+  if (value === undefined) {
+    return result(criterion, 'unknown', `${label} not provided (limit ₹${formatAmount(limit)})`);
+  }
+  if (value > limit) {
+    return result(criterion, 'not_eligible', `${label} ₹${formatAmount(value)} exceeds the ₹${formatAmount(limit)} limit`);
+  }
+  return result(criterion, 'eligible', `${label} ₹${formatAmount(value)} is within the ₹${formatAmount(limit)} limit`);
+}
+
+function checkInvestment(
+  rules: EligibilityRules,
+  investment: number | undefined,
+  sector: BusinessSector | undefined
+): CriterionResult {
+  const caps = rules.investmentCapsBySector || {};
+
+  if (sector && caps[sector] !== undefined) {
+    return checkMaximum('investment', `Project cost for ${sector}`, caps[sector]!, investment);
+  }
+
+  const capValues = Object.values(caps).filter((v): v is number => v !== undefined);
+  if (capValues.length === 0) {
+    return checkMaximum('investment', 'Project cost', rules.maxInvestment!, investment);
+  }
+
+  // Sector unknown - decide only when the answer holds for every sector cap
+  const lowest = Math.min(...capValues);
+  const highest = Math.max(...capValues, rules.maxInvestment ?? 0);
+  if (investment === undefined) {
+    return result('investment', 'unknown', `Project cost not provided (limit ₹${formatAmount(lowest)}-₹${formatAmount(highest)} depending on sector)`);
+  }
+  if (investment <= lowest) {
+    return result('investment', 'eligible', `Project cost ₹${formatAmount(investment)} is within the limit for every sector`);
+  }
+  if (investment > highest) {
+    return result('investment', 'not_eligible', `Project cost ₹${formatAmount(investment)} exceeds the ₹${formatAmount(highest)} limit`);
+  }
+  return result('investment', 'unknown', `Project cost limit depends on the sector; please share whether the business is manufacturing or services`);
+}
+
+function checkBusinessSize(allowed: BusinessSize[], profile: UserProfile): CriterionResult {
+  const size = profile.businessSize ?? classifyBusinessSize(profile.investment, profile.annualTurnover);
+
+  if (size === undefined) {
+    return result('businessSize', 'unknown', `Business size not known (scheme is for ${allowed.join('/')} enterprises)`);
+  }
+  if (size === null) {
+    return result('businessSize', 'not_eligible', 'Enterprise exceeds MSME investment or turnover limits');
+  }
+  if (!allowed.includes(size)) {
+    return result('businessSize', 'not_eligible', `Scheme is only for ${allowed.join('/')} enterprises, not ${size}`);
+  }
+  return result('businessSize', 'eligible', `${size} enterprises are covered`);
+}
+
+function checkGender(allowed: string[], gender?: string): CriterionResult {
+  const normalized = normalizeGender(gender);
+
+  if (!normalized) {
+    return result('gender', 'unknown', `Gender not provided (scheme is for ${allowed.join('/')} applicants)`);
+  }
+  if (!allowed.includes(normalized)) {
+    return result('gender', 'not_eligible', `Scheme is only for ${allowed.join('/')} applicants`);
+  }
+  return result('gender', 'eligible', `Open to ${normalized} applicants`);
+}
+
+function checkSocialCategory(allowed: string[], category?: string): CriterionResult {
+  const categories = normalizeSocialCategories(category);
+
+  if (categories.length === 0) {
+    return result('socialCategory', 'unknown', `Social category not provided (scheme is for ${formatList(allowed)})`);
+  }
+  const match = categories.find(c => allowed.includes(c));
+  if (!match) {
+    return result('socialCategory', 'not_eligible', `Scheme is reserved for ${formatList(allowed)} applicants`);
+  }
+  return result('socialCategory', 'eligible', `${match.toUpperCase()} applicants are covered`);
+}
+
+function checkArea(allowed: string[], isRural?: boolean): CriterionResult {
+  if (isRural === undefined) {
+    return result('area', 'unknown', `Location type not provided (scheme is for ${allowed.join('/')} areas)`);
+  }
+  const area = isRural ? 'rural' : 'urban';
+  if (!allowed.includes(area)) {
+    return result('area', 'not_eligible', `Scheme only covers ${allowed.join('/')} areas`);
+  }
+  return result('area', 'eligible', `${area === 'rural' ? 'Rural' : 'Urban'} units are covered`);
+}
+
+function checkUnitStage(
+  allowed: UnitStage[],
+  stage?: UserProfile['businessStage']
+): CriterionResult {
+  if (!stage) {
+    return result('unitStage', 'unknown', `Business stage not provided (scheme is for ${allowed.join('/')} units)`);
+  }
+  const unitStage: UnitStage = stage === 'planning' || stage === 'new' ? 'new' : 'existing';
+  if (!allowed.includes(unitStage)) {
+    return result('unitStage', 'not_eligible', unitStage === 'existing'
+      ? 'Scheme only supports setting up new units'
+      : 'Scheme only supports existing units');
+  }
+  return result('unitStage', 'eligible', `${unitStage === 'new' ? 'New' : 'Existing'} units are covered`);
+}
+
+function checkSector(
+  rules: EligibilityRules,
+  profile: UserProfile,
+  sector: BusinessSector | undefined
+): CriterionResult {
+  const activity = [profile.sector, profile.businessType].filter(Boolean).join(' ').toLowerCase();
+
+  const excluded = (rules.excludedActivities || []).find(keyword => activity.includes(keyword));
+  if (excluded) {
+    return result('sector', 'not_eligible', `"${excluded}" is on the scheme's negative list of activities`);
+  }
+
+  if (!rules.sectors || rules.sectors.length === 0) {
+    return activity
+      ? result('sector', 'eligible', 'Activity is not on the negative list')
+      : result('sector', 'unknown', 'Business activity not provided (scheme has a negative list)');
+  }
+  if (!sector) {
+    return result('sector', 'unknown', `Business sector not provided (scheme covers ${rules.sectors.join('/')})`);
+  }
+  if (!rules.sectors.includes(sector)) {
+    return result('sector', 'not_eligible', `Scheme covers ${rules.sectors.join('/')}, not ${sector}`);
+  }
+  return result('sector', 'eligible', `${sector.charAt(0).toUpperCase() + sector.slice(1)} is a covered sector`);
+}
+
+/**
+ * Map free-text business description to a broad sector
+ */
+function resolveSector(profile: UserProfile): BusinessSector | undefined {
+  const industry = normalizeIndustry(profile.sector || profile.businessType);
+  if (!industry) return undefined;
+
+  const lower = industry.toLowerCase();
+  if (lower.startsWith('manufacturing')) return 'manufacturing';
+  if (lower.startsWith('retail') || lower.startsWith('trading')) return 'trading';
+  if (lower.startsWith('agriculture')) return 'agriculture';
+  if (lower === 'services' || lower === 'service') return 'services';
+
+  const known = [
+    'information technology', 'professional services', 'education & training',
+    'healthcare', 'personal services', 'repair & maintenance', 'construction',
+    'transportation & logistics', 'food & beverage'
+  ];
+  return known.includes(lower) ? 'services' : undefined;
+}
+
+function normalizeGender(gender?: string): string | undefined {
+  if (!gender) return undefined;
+  const lower = gender.trim().toLowerCase();
+  if (FEMALE_TERMS.includes(lower)) return 'female';
+  if (MALE_TERMS.includes(lower)) return 'male';
+  return lower;
+}
+
+function normalizeSocialCategories(category?: string): string[] {
+  if (!category) return [];
+  return category
+    .toLowerCase()
+    .split(/[\/,&]|\s+and\s+/)
+    .map(c => c.trim())
+    .map(c => {
+      if (c.includes('scheduled caste')) return 'sc';
+      if (c.includes('scheduled tribe')) return 'st';
+      if (c.includes('backward')) return 'obc';
+      if (c === 'gen') return 'general';
+      return c;
+    })
+    .filter(Boolean);
+}
+
+function formatList(values: string[]): string {
+  return values.map(v => v.toUpperCase()).join('/');
+}
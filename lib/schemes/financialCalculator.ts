@@ -0,0 +1,200 @@
+import {
+  ProcessedScheme,
+  FinancialDetails,
+  LoanCalculationInput,
+  LoanCalculationResult,
+  RepaymentYear
+} from '@/types/scheme';
+import { formatAmount } from './schemeUtils';
+import curatedTerms from '@/data/financialTerms.json';
+
+/**
+ * Subsidy and loan calculator for schemes
+ *
+ * Splits a project cost into subsidy, the beneficiary's own contribution
+ * and the bank loan using the scheme's FinancialDetails, then builds an EMI
+ * schedule. Used by the scheme page, /api/schemes/calculator and the chat
+ * assistant, so every surface quotes the same numbers.
+ */
+
+// Used when the scheme does not state a rate or tenure
+const DEFAULT_INTEREST_RATE = 11; // annual %, typical MSME term loan
+const DEFAULT_TENURE_YEARS = 5;
+const DEFAULT_OWN_CONTRIBUTION = 10; // % of project cost
+
+/**
+ * Look up curated calculator terms for a scheme by its official name
+ */
+export function getCuratedFinancialTerms(schemeName: string): FinancialDetails | undefined {
+  const terms = (curatedTerms.terms as Record<string, FinancialDetails>)[schemeName];
+  return terms ? { ...terms } : undefined;
+}
+
+/**
+ * Whether a scheme has calculator terms (curated or set by an admin).
+ * Figures guessed from the details text are not reliable enough to quote.
+ */
+export function supportsLoanCalculation(scheme: ProcessedScheme): boolean {
+  return scheme.financialDetails?.ownContributionPercentage !== undefined;
+}
+
+/**
+ * Equated monthly instalment for a principal, annual rate (%) and tenure
+ */
+export function calculateEmi(principal: number, annualRate: number, months: number): number {
+  if (principal <= 0 || months <= 0) return 0;
+  const monthlyRate = annualRate / 12 / 100;
+  if (monthlyRate === 0) return principal / months;
+
+  const growth = Math.pow(1 + monthlyRate, months);
+  return (principal * monthlyRate * growth) / (growth - 1);
+}
+
+/**
+ * Year-by-year repayment summary of a reducing-balance loan
+ */
+export function buildRepaymentSchedule(
+  principal: number,
+  annualRate: number,
+  months: number
+): RepaymentYear[] {
+  const emi = calculateEmi(principal, annualRate, months);
+  const monthlyRate = annualRate / 12 / 100;
+  const schedule: RepaymentYear[] = [];
+  let balance = principal;
+
+  for (let month = 1; month <= months; month++) {
+    const interest = balance * monthlyRate;
+    const principalPaid = Math.min(emi - interest, balance);
+    balance -= principalPaid;
+
+    const year = Math.ceil(month / 12);
+    if (!schedule[year - 1]) {
+      schedule[year - 1] = { year, principalPaid: 0, interestPaid: 0, closingBalance: 0 };
+    }
+    schedule[year - 1].principalPaid += principalPaid;
+    schedule[year - 1].interestPaid += interest;
+    schedule[year - 1].closingBalance = Math.max(0, balance);
+  }
+
+  return schedule.map(row => ({
+    year: row.year,
+    principalPaid: Math.round(row.principalPaid),
+    interestPaid: Math.round(row.interestPaid),
+    closingBalance: Math.round(row.closingBalance)
+  }));
+}
+
+/**
+ * Calculate subsidy, own contribution, bank loan and EMI for a project
+ * @throws Error if the project cost or tenure is not positive
+ */
+export function calculateSchemeFinance(
+  scheme: ProcessedScheme,
+  input: LoanCalculationInput
+): LoanCalculationResult {
+  if (!(input.projectCost > 0)) {
+    throw new Error('Project cost must be greater than zero');
+  }
+  if (input.tenureYears !== undefined && !(input.tenureYears > 0)) {
+    throw new Error('Tenure must be greater than zero');
+  }
+
+  const financial = scheme.financialDetails || {};
+  const assumptions: string[] = [];
+  const { projectCost, areaType, category, sector } = input;
+
+  // Cost admissible for subsidy
+  const sectorCaps = financial.maxProjectCostBySector;
+  let costCap = financial.maxProjectCost;
+  if (sectorCaps && sector && sectorCaps[sector]) {
+    costCap = sectorCaps[sector];
+  } else if (sectorCaps) {
+    costCap = Math.max(...Object.values(sectorCaps).filter((cap): cap is number => cap !== undefined));
+    assumptions.push(`Sector not given, so the highest project cost limit (₹${formatAmount(costCap)}) was used`);
+  }
+  const eligibleProjectCost = costCap ? Math.min(projectCost, costCap) : projectCost;
+  if (costCap && projectCost > costCap) {
+    assumptions.push(
+      `Subsidy is calculated on the maximum admissible cost of ₹${formatAmount(costCap)}; the rest is funded by the bank without subsidy`
+    );
+  }
+
+  // Subsidy rate by category and area
+  const specialRate = category === 'special' ? financial.specialCategorySubsidyPercentage?.[areaType] : undefined;
+  const subsidyRate = specialRate ?? financial.subsidyPercentage?.[areaType] ?? 0;
+  if (subsidyRate === 0) {
+    assumptions.push('No capital subsidy applies for this scheme and beneficiary');
+  }
+  const subsidyAmount = Math.round((eligibleProjectCost * subsidyRate) / 100);
+
+  // Beneficiary's own contribution
+  let ownContributionRate = financial.ownContributionPercentage?.[category];
+  if (ownContributionRate === undefined) {
+    ownContributionRate = DEFAULT_OWN_CONTRIBUTION;
+    assumptions.push(`Own contribution assumed at ${DEFAULT_OWN_CONTRIBUTION}% of project cost`);
+  }
+  let ownContribution = Math.round((projectCost * ownContributionRate) / 100);
+
+  // Bank loan covers the rest, up to the scheme's loan limit
+  let bankLoan = projectCost - ownContribution;
+  const loanCap = financial.loanAmount?.max;
+  if (loanCap && bankLoan > loanCap) {
+    bankLoan = loanCap;
+    ownContribution = projectCost - bankLoan;
+    ownContributionRate = Math.round((ownContribution / projectCost) * 1000) / 10;
+    assumptions.push(`Loan is limited to ₹${formatAmount(loanCap)}; the balance must come from your own funds`);
+  }
+
+  // The subsidy portion carries no EMI: it is either paid against the loan
+  // up front or held as an interest-free deposit and adjusted later
+  const repayableLoan = Math.max(0, bankLoan - subsidyAmount);
+  if (subsidyAmount > 0 && financial.subsidyLockInYears) {
+    assumptions.push(
+      `Subsidy is held by the bank for ${financial.subsidyLockInYears} years and then adjusted against the loan; no interest is charged on it`
+    );
+  }
+
+  const interestRate = input.interestRate ?? financial.interestRate ?? DEFAULT_INTEREST_RATE;
+  if (input.interestRate === undefined && financial.interestRate === undefined) {
+    assumptions.push(`Interest rate assumed at ${DEFAULT_INTEREST_RATE}% a year; actual rates are set by the bank`);
+  }
+
+  const tenureYears = clampTenure(input.tenureYears ?? financial.loanTenureYears?.max ?? DEFAULT_TENURE_YEARS, financial);
+  if (input.tenureYears !== undefined && tenureYears !== input.tenureYears) {
+    assumptions.push(`Tenure adjusted to ${tenureYears} years, the scheme's allowed range`);
+  }
+  const tenureMonths = Math.round(tenureYears * 12);
+
+  const emi = calculateEmi(repayableLoan, interestRate, tenureMonths);
+  const schedule = buildRepaymentSchedule(repayableLoan, interestRate, tenureMonths);
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interestPaid, 0);
+
+  return {
+    schemeId: scheme.id,
+    schemeName: scheme.name,
+    projectCost,
+    eligibleProjectCost,
+    subsidyRate,
+    subsidyAmount,
+    ownContributionRate,
+    ownContribution,
+    bankLoan,
+    repayableLoan,
+    interestRate,
+    tenureMonths,
+    emi: Math.round(emi),
+    totalInterest,
+    totalRepayment: repayableLoan + totalInterest,
+    schedule,
+    assumptions
+  };
+}
+
+function clampTenure(years: number, financial: FinancialDetails): number {
+  const { min, max } = financial.loanTenureYears || {};
+  let tenure = years;
+  if (min !== undefined) tenure = Math.max(min, tenure);
+  if (max !== undefined) tenure = Math.min(max, tenure);
+  return tenure;
+}
@@ -0,0 +1,302 @@
+import {
+  ExtractedFinancialField,
+  FinancialDetails,
+  FinancialFieldExtraction
+} from '@/types/scheme';
+import { normalizeCurrency } from '@/lib/utils/normalization';
+
+/**
+ * Financial details from scheme text
+ *
+ * Reads loan amounts, subsidy rates, interest rate, processing fee and
+ * collateral terms from the free-text details and benefits ("₹25 lakh for
+ * manufacturing", "15% in urban, 25% in rural", "collateral free up to ₹10
+ * lakh"). Every value comes with a confidence and the sentence it was read
+ * from. Admins review the results in the scheme editor before saving them
+ * to financial_details; nothing extracted is used until then.
+ */
+
+export type FinancialSourceText = Partial<Record<FinancialFieldExtraction['source'], string | null>>;
+
+// Extracted values at or above this confidence are pre-selected for review
+// in the scheme editor
+export const AUTO_ACCEPT_CONFIDENCE = 0.6;
+
+export const FINANCIAL_FIELD_LABELS: Record<ExtractedFinancialField, string> = {
+  loanAmount: 'Loan amount',
+  subsidyPercentage: 'Subsidy',
+  interestRate: 'Interest rate',
+  processingFee: 'Processing fee',
+  collateralRequired: 'Collateral'
+};
+
+interface Sentence {
+  text: string;
+  source: FinancialFieldExtraction['source'];
+}
+
+// Amounts need a currency marker or an Indian unit to tell them apart from
+// ages, durations and counts. A trailing "/-" closes the figure.
+const AMOUNT_PATTERN = /(₹|\brs\.?|\binr\b)?\s*\.?\s*(\d[\d,]*(?:\.\d+)?)\s*(\/-)?\s*(lakhs?|lacs?|crores?|cr\b)?/gi;
+const PERCENT_PATTERN = /(\d+(?:\.\d+)?)\s*%/g;
+
+const LOAN_KEYWORDS = /\bloans?\b|credit (?:support|facility|limit)|\btranche|collateral/i;
+const LIMIT_KEYWORDS = /up\s*-?\s*to|maximum|ceiling|\bmax\b|not exceed/i;
+// Amounts given per sector ("₹25 lakh for manufacturing") or as the project
+// cost limit, which is what the loan is sized against
+const SECTOR_KEYWORDS = /\b(?:for|in) (?:the )?(?:manufacturing|service|services|business|trading)\b/i;
+const PROJECT_COST_KEYWORDS = /cost of (?:the )?project|project cost/i;
+const SUBSIDY_KEYWORDS = /subsid|margin money|financial assistance|reimburse|\bgrant\b/i;
+const INTEREST_KEYWORDS = /interest/i;
+const INTEREST_RATE_KEYWORDS = /rate of interest|interest rate|interest\s*@|\broi\b/i;
+const PROCESSING_FEE_KEYWORDS = /processing (?:fees?|charges?)/i;
+
+// Sentences about budgets and limits on the applicant, not what they receive
+const NOT_A_BENEFIT = /budget|allocat|earmark|turnover|income|costing above|investment limit/i;
+// Percentages in these sentences are shares of the project cost or rates
+const NOT_A_SUBSIDY_RATE = /interest|contribution|working capital|bank credit|bank will sanction/i;
+
+const COLLATERAL_FREE = /collateral[\s-]*free|without (?:any )?collateral|no collateral|collateral (?:security )?(?:is )?not (?:required|needed)|free (?:of|from) collateral/i;
+const COLLATERAL_REQUIRED = /collateral (?:security )?(?:is |will be |shall be )?(?:required|necessary|mandatory)|against collateral/i;
+const FEE_WAIVED = /no processing|processing (?:fees?|charges?)[^.]*(?:nil|waived|exempt|free)/i;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split the source texts into sentences (lines, and sentences within a line)
+ */
+function splitSentences(text: FinancialSourceText): Sentence[] {
+  const sentences: Sentence[] = [];
+
+  (['details', 'benefits'] as const).forEach(source => {
+    (text[source] || '')
+      .split(/\n+|(?<=[.;])\s+(?=[A-Z•])/)
+      .map(part => part.replace(/\s+/g, ' ').trim())
+      .filter(part => part.length > 0)
+      .forEach(part => sentences.push({ text: part, source }));
+  });
+
+  return sentences;
+}
+
+/**
+ * INR amounts mentioned in a sentence
+ */
+export function findAmounts(text: string): number[] {
+  const amounts: number[] = [];
+
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const [, currency, digits, closed, unit] = match;
+    if (!currency && !unit) continue;
+
+    const value = normalizeCurrency(`${digits.replace(/,/g, '')} ${closed ? '' : unit || ''}`);
+    if (value !== null && value > 0) {
+      amounts.push(value);
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Percentages mentioned in a sentence, 0-100
+ */
+export function findPercentages(text: string): number[] {
+  return Array.from(text.matchAll(PERCENT_PATTERN), match => parseFloat(match[1]))
+    .filter(value => value > 0 && value <= 100);
+}
+
+function unique(values: number[]): number[] {
+  return Array.from(new Set(values));
+}
+
+function excerpt(text: string): string {
+  return text.length > 200 ? `${text.slice(0, 197)}...` : text;
+}
+
+function result(
+  field: ExtractedFinancialField,
+  value: FinancialFieldExtraction['value'],
+  confidence: number,
+  sentence: Sentence
+): FinancialFieldExtraction {
+  return {
+    field,
+    value,
+    confidence: Math.round(Math.min(confidence, 0.95) * 100) / 100,
+    source: sentence.source,
+    excerpt: excerpt(sentence.text)
+  };
+}
+
+// ============================================================================
+// Field Extractors
+// ============================================================================
+
+function withAmounts(sentences: Sentence[], keywords: RegExp[]) {
+  return sentences
+    .filter(sentence => keywords.some(pattern => pattern.test(sentence.text)) && !NOT_A_BENEFIT.test(sentence.text))
+    .map(sentence => ({ sentence, amounts: findAmounts(sentence.text) }))
+    .filter(entry => entry.amounts.length > 0);
+}
+
+function extractLoanAmount(sentences: Sentence[]): FinancialFieldExtraction | undefined {
+  // Sentences naming the loan come first; per-sector amounts and project
+  // cost limits stand in for it when none do
+  const namedLoan = withAmounts(sentences, [LOAN_KEYWORDS]);
+  const loanSentences = namedLoan.length > 0
+    ? namedLoan
+    : withAmounts(sentences, [SECTOR_KEYWORDS, PROJECT_COST_KEYWORDS]);
+
+  if (loanSentences.length === 0) return undefined;
+
+  const amounts = unique(loanSentences.flatMap(entry => entry.amounts));
+  const value = amounts.length === 1
+    ? { max: amounts[0] }
+    : { min: Math.min(...amounts), max: Math.max(...amounts) };
+
+  // One sentence naming the loan is the clearest case; figures spread over
+  // several sentences may be for different components
+  let confidence = loanSentences.length === 1 ? 0.8 : 0.6;
+  if (namedLoan.length === 0) {
+    confidence -= 0.2;
+  }
+  if (loanSentences.some(entry => LIMIT_KEYWORDS.test(entry.sentence.text))) {
+    confidence += 0.1;
+  }
+
+  return result('loanAmount', value, confidence, loanSentences[0].sentence);
+}
+
+/**
+ * Rate for an area from the clause naming it: "Urban 15%", "15% in urban"
+ */
+function findAreaRate(text: string, area: 'urban' | 'rural'): number | undefined {
+  const clause = text.split(/[,;]|\band\b/i).find(part =>
+    new RegExp(`\\b${area}\\b`, 'i').test(part) && findPercentages(part).length === 1
+  );
+  return clause ? findPercentages(clause)[0] : undefined;
+}
+
+function extractSubsidyPercentage(sentences: Sentence[]): FinancialFieldExtraction | undefined {
+  const rateSentences = sentences.filter(sentence =>
+    !NOT_A_SUBSIDY_RATE.test(sentence.text) &&
+    !NOT_A_BENEFIT.test(sentence.text) &&
+    findPercentages(sentence.text).length > 0
+  );
+  const subsidySentences = rateSentences.filter(sentence => SUBSIDY_KEYWORDS.test(sentence.text));
+
+  // Separate urban and rural rates are subsidy rates even when the
+  // sentence does not say so ("15% in urban, 25% in rural")
+  for (const sentence of [...subsidySentences, ...rateSentences]) {
+    const urban = findAreaRate(sentence.text, 'urban');
+    const rural = findAreaRate(sentence.text, 'rural');
+    if (urban !== undefined && rural !== undefined) {
+      const confidence = SUBSIDY_KEYWORDS.test(sentence.text) ? 0.9 : 0.7;
+      return result('subsidyPercentage', { urban, rural }, confidence, sentence);
+    }
+  }
+
+  if (subsidySentences.length === 0) return undefined;
+
+  // The same rate everywhere; several different rates usually mean tiers
+  // (by enterprise size or category) that need a person to pick
+  const rates = unique(subsidySentences.flatMap(sentence => findPercentages(sentence.text)));
+  const rate = findPercentages(subsidySentences[0].text)[0];
+  const confidence = rates.length === 1 ? 0.7 : 0.4;
+
+  return result('subsidyPercentage', { urban: rate, rural: rate }, confidence, subsidySentences[0]);
+}
+
+function extractInterestRate(sentences: Sentence[]): FinancialFieldExtraction | undefined {
+  const candidates = sentences
+    .filter(sentence => INTEREST_KEYWORDS.test(sentence.text))
+    .map(sentence => {
+      // Take the first rate after the word "interest"
+      const index = sentence.text.search(INTEREST_KEYWORDS);
+      const rates = findPercentages(sentence.text.slice(index));
+      return { sentence, rate: rates[0] };
+    })
+    .filter(entry => entry.rate !== undefined);
+
+  if (candidates.length === 0) return undefined;
+
+  const named = candidates.find(entry => INTEREST_RATE_KEYWORDS.test(entry.sentence.text));
+  // A subvention is a discount on the rate, not the rate itself
+  const best = named || candidates[0];
+  const confidence = named ? 0.8 : /subvention/i.test(best.sentence.text) ? 0.3 : 0.5;
+
+  return result('interestRate', best.rate, confidence, best.sentence);
+}
+
+function extractProcessingFee(sentences: Sentence[]): FinancialFieldExtraction | undefined {
+  const sentence = sentences.find(candidate => PROCESSING_FEE_KEYWORDS.test(candidate.text) || /no processing/i.test(candidate.text));
+  if (!sentence) return undefined;
+
+  if (FEE_WAIVED.test(sentence.text)) {
+    return result('processingFee', 0, 0.9, sentence);
+  }
+
+  // Fees given only as a percentage cannot be stored as an amount
+  const amounts = findAmounts(sentence.text);
+  return amounts.length > 0 ? result('processingFee', amounts[0], 0.7, sentence) : undefined;
+}
+
+function extractCollateral(sentences: Sentence[]): FinancialFieldExtraction | undefined {
+  const free = sentences.find(sentence => COLLATERAL_FREE.test(sentence.text));
+  if (free) {
+    return result('collateralRequired', false, 0.9, free);
+  }
+
+  const required = sentences.find(sentence => COLLATERAL_REQUIRED.test(sentence.text));
+  return required ? result('collateralRequired', true, 0.7, required) : undefined;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Extract financial details from a scheme's details and benefits text.
+ * Returns one entry per field found, with its confidence (0-1).
+ *
+ * @example
+ * ```typescript
+ * extractFinancialDetails({ details: 'Collateral free loans up to ₹10 lakh' });
+ * // [{ field: 'loanAmount', value: { max: 1000000 }, confidence: 0.9, ... },
+ * //  { field: 'collateralRequired', value: false, confidence: 0.9, ... }]
+ * ```
+ */
+export function extractFinancialDetails(text: FinancialSourceText): FinancialFieldExtraction[] {
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) return [];
+
+  return [
+    extractLoanAmount(sentences),
+    extractSubsidyPercentage(sentences),
+    extractInterestRate(sentences),
+    extractProcessingFee(sentences),
+    extractCollateral(sentences)
+  ].filter((extraction): extraction is FinancialFieldExtraction => extraction !== undefined);
+}
+
+/**
+ * Merge extracted fields into FinancialDetails, keeping those at or above
+ * minConfidence. Returns undefined when none qualify.
+ */
+export function toFinancialDetails(
+  extractions: FinancialFieldExtraction[],
+  minConfidence = AUTO_ACCEPT_CONFIDENCE
+): FinancialDetails | undefined {
+  const details: FinancialDetails = {};
+
+  extractions
+    .filter(extraction => extraction.confidence >= minConfidence)
+    .forEach(extraction => {
+      (details as Record<ExtractedFinancialField, unknown>)[extraction.field] = extraction.value;
+    });
+
+  return Object.keys(details).length > 0 ? details : undefined;
+}
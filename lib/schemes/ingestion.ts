@@ -0,0 +1,676 @@
+import type {
+  Json,
+  Scheme,
+  SchemeInsert,
+  SchemeUpdate,
+  EditableSchemeField
+} from '@/types/database';
+import { schemeRecordSchema, SchemeRecord } from '@/lib/validators/scheme';
+import { getCuratedRules } from './eligibilityEngine';
+import { inferJurisdiction } from './jurisdiction';
+import { getCuratedRelationships } from './schemeRelationships';
+import { schemeNameSimilarity } from './schemeUtils';
+
+/**
+ * Scheme ingestion: parse scraped dumps, clean and validate records,
+ * deduplicate them and plan the changes against the current catalogue
+ *
+ * Scrapes arrive as SchemesDatabase JSON (like data/schemes.json) or CSV and
+ * carry scraper artifacts: 'None' for missing values and Python dict/list
+ * repr text ("{'content': '...', 'has_tabs': False}") instead of objects.
+ * Everything here is pure; scripts/ingest-schemes.ts does the I/O.
+ */
+
+export type IngestionFormat = 'json' | 'csv';
+
+export interface CleanedRecord {
+  record?: SchemeRecord;
+  errors: string[];
+  fixes: string[];
+}
+
+export interface DuplicateRecord {
+  kept: string;
+  dropped: string;
+  reason: 'url' | 'name';
+}
+
+export interface RejectedRecord {
+  index: number;
+  scheme_name: string | null;
+  errors: string[];
+}
+
+export interface PlannedUpdate {
+  id: string;
+  scheme_name: string;
+  changedFields: EditableSchemeField[];
+  updates: SchemeUpdate;
+}
+
+export interface PlannedDeactivation {
+  id: string;
+  scheme_name: string;
+}
+
+export interface IngestionReport {
+  source: string;
+  format: IngestionFormat;
+  totalRecords: number;
+  inserts: SchemeInsert[];
+  updates: PlannedUpdate[];
+  deactivations: PlannedDeactivation[];
+  missing: PlannedDeactivation[]; // absent from the dump but left active
+  unchanged: string[];
+  duplicates: DuplicateRecord[];
+  rejected: RejectedRecord[];
+  fixes: Array<{ scheme_name: string; fixes: string[] }>;
+}
+
+/**
+ * Fields owned by the scraper. Admin-curated fields (category, target
+ * audience, financial details, eligibility rules, active state) are set on
+ * insert but never overwritten by a re-ingest.
+ */
+export const INGESTED_FIELDS: EditableSchemeField[] = [
+  'scheme_name',
+  'scheme_url',
+  'ministry',
+  'description',
+  'tags',
+  'details',
+  'benefits',
+  'eligibility',
+  'application_process',
+  'documents_required'
+];
+
+// Names at least this similar (0-1) are treated as the same scheme
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+const NULL_TOKENS = new Set(['none', 'null', 'nan', 'n/a', 'na', 'undefined', '-']);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a dump into raw records. JSON may be a SchemesDatabase object or a
+ * plain array; CSV must have a header row with SchemeData column names.
+ */
+export function parseSchemeDump(text: string, format: IngestionFormat): Record<string, unknown>[] {
+  if (format === 'csv') {
+    const rows = parseCsv(text);
+    if (rows.length === 0) return [];
+
+    const header = rows[0].map(column => column.trim().toLowerCase().replace(/\s+/g, '_'));
+    if (!header.includes('scheme_name')) {
+      throw new Error('CSV header must include a scheme_name column');
+    }
+
+    return rows.slice(1)
+      .filter(row => row.some(cell => cell.trim() !== ''))
+      .map(row => Object.fromEntries(header.map((column, i) => [column, row[i] ?? ''])));
+  }
+
+  const parsed: unknown = JSON.parse(text);
+  if (Array.isArray(parsed)) {
+    return parsed as Record<string, unknown>[];
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as { schemes?: unknown }).schemes)) {
+    return (parsed as { schemes: Record<string, unknown>[] }).schemes;
+  }
+  throw new Error('JSON dump must be an array of schemes or an object with a "schemes" array');
+}
+
+/**
+ * RFC 4180 CSV parser: quoted fields, doubled quotes, embedded newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a Python literal (dict, list, tuple, str, number, True/False/None)
+ * as produced by repr() in the scraper. Also accepts JSON.
+ * Returns undefined if the text is not a complete literal.
+ */
+export function parsePythonLiteral(text: string): Json | undefined {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) throw new Error(`Expected ${char} at ${pos}`);
+    pos++;
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos++];
+    let result = '';
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\\') {
+        const next = text[pos + 1];
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+        if (escapes[next] !== undefined) {
+          result += escapes[next];
+          pos += 2;
+        } else if (next === 'u' || next === 'x') {
+          const length = next === 'u' ? 4 : 2;
+          result += String.fromCharCode(parseInt(text.slice(pos + 2, pos + 2 + length), 16));
+          pos += 2 + length;
+        } else {
+          result += next;
+          pos += 2;
+        }
+      } else {
+        result += text[pos++];
+      }
+    }
+    if (text[pos] !== quote) throw new Error('Unterminated string');
+    pos++;
+    return result;
+  };
+
+  const parseValue = (): Json => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const result: { [key: string]: Json } = {};
+      skipWhitespace();
+      while (text[pos] !== '}') {
+        const key = parseValue();
+        expect(':');
+        result[String(key)] = parseValue();
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          skipWhitespace();
+        } else if (text[pos] !== '}') {
+          throw new Error(`Expected , or } at ${pos}`);
+        }
+      }
+      pos++;
+      return result;
+    }
+
+    if (char === '[' || char === '(') {
+      const close = char === '[' ? ']' : ')';
+      pos++;
+      const result: Json[] = [];
+      skipWhitespace();
+      while (text[pos] !== close) {
+        result.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          skipWhitespace();
+        } else if (text[pos] !== close) {
+          throw new Error(`Expected , or ${close} at ${pos}`);
+        }
+      }
+      pos++;
+      return result;
+    }
+
+    if (char === "'" || char === '"') {
+      return parseString();
+    }
+
+    const literal = /^(True|False|None|true|false|null|-?\d+(?:\.\d+)?)/.exec(text.slice(pos));
+    if (!literal) throw new Error(`Unexpected character at ${pos}`);
+    pos += literal[0].length;
+
+    if (literal[0] === 'True' || literal[0] === 'true') return true;
+    if (literal[0] === 'False' || literal[0] === 'false') return false;
+    if (literal[0] === 'None' || literal[0] === 'null') return null;
+    return Number(literal[0]);
+  };
+
+  try {
+    const value = parseValue();
+    skipWhitespace();
+    return pos === text.length ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Cleanup and Validation
+// ============================================================================
+
+/**
+ * Whether text is a scraper null marker ('None', 'NaN', 'N/A', ...)
+ */
+export function isNullToken(text: string): boolean {
+  return NULL_TOKENS.has(text.trim().toLowerCase());
+}
+
+/**
+ * Trim text and turn scraper null markers ('None', 'NaN', 'N/A') into null
+ */
+function cleanText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const text = String(value)
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return text === '' || NULL_TOKENS.has(text.toLowerCase()) ? null : text;
+}
+
+/**
+ * Parse text that looks like a Python/JSON dict or list
+ */
+function parseStructuredText(value: unknown, fixes: string[], field: string): unknown {
+  if (typeof value !== 'string') return value;
+  const text = value.trim();
+  if (!/^[[({]/.test(text)) return value;
+
+  const parsed = parsePythonLiteral(text);
+  if (parsed === undefined) return value;
+
+  fixes.push(`${field}: parsed stringified ${Array.isArray(parsed) ? 'list' : 'dict'}`);
+  return parsed;
+}
+
+function cleanTags(value: unknown, fixes: string[]): string[] {
+  const parsed = parseStructuredText(value, fixes, 'tags');
+  const items = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'string' ? parsed.split(/[|;,]/) : [];
+
+  const seen = new Set<string>();
+  return items
+    .map(cleanText)
+    .filter((tag): tag is string => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+}
+
+function cleanApplicationProcess(value: unknown, fixes: string[]): SchemeRecord['application_process'] {
+  const parsed = parseStructuredText(value, fixes, 'application_process');
+
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const { content, has_tabs } = parsed as { content?: unknown; has_tabs?: unknown };
+    const text = cleanText(content);
+    if (!text) return null;
+    return typeof has_tabs === 'boolean' ? { content: text, has_tabs } : { content: text };
+  }
+
+  const text = cleanText(parsed);
+  return text ? { content: text } : null;
+}
+
+function cleanContentText(value: unknown, fixes: string[], field: string): string | null {
+  const parsed = parseStructuredText(value, fixes, field);
+
+  if (Array.isArray(parsed)) {
+    return cleanText(parsed.map(cleanText).filter(Boolean).join('\n'));
+  }
+  if (parsed && typeof parsed === 'object') {
+    return cleanText((parsed as { content?: unknown }).content);
+  }
+  return cleanText(parsed);
+}
+
+function cleanFaqs(value: unknown, fixes: string[]): unknown[] | null {
+  const parsed = parseStructuredText(value, fixes, 'faqs');
+  if (Array.isArray(parsed)) return parsed.length > 0 ? parsed : null;
+
+  const text = cleanText(parsed);
+  return text ? [text] : null;
+}
+
+function cleanSources(value: unknown, fixes: string[]): SchemeRecord['sources'] {
+  const parsed = parseStructuredText(value, fixes, 'sources');
+
+  const items: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : (cleanText(parsed)?.match(/https?:\/\/[^\s|;,]+/g) || []);
+
+  return items
+    .map(item => {
+      if (typeof item === 'string') return { text: item, url: item };
+      if (item && typeof item === 'object') {
+        const { text, url } = item as { text?: unknown; url?: unknown };
+        const cleanUrl = cleanText(url);
+        return cleanUrl ? { text: cleanText(text) || cleanUrl, url: cleanUrl } : null;
+      }
+      return null;
+    })
+    .filter((source): source is { text: string; url: string } =>
+      source !== null && /^https?:\/\//.test(source.url)
+    );
+}
+
+function cleanUrl(value: unknown, fixes: string[]): string | null {
+  const text = cleanText(value);
+  if (!text) return null;
+  if (/^https?:\/\//i.test(text)) return text;
+  if (/^[\w-]+(\.[\w-]+)+(\/|$)/.test(text)) {
+    fixes.push('scheme_url: added https://');
+    return `https://${text}`;
+  }
+  return text;
+}
+
+/**
+ * Clean scraper artifacts out of a raw record and validate it
+ */
+export function cleanSchemeRecord(raw: Record<string, unknown>): CleanedRecord {
+  const fixes: string[] = [];
+
+  const candidate = {
+    scheme_name: cleanText(raw.scheme_name)?.replace(/\s+/g, ' ') || '',
+    scheme_url: cleanUrl(raw.scheme_url, fixes),
+    ministry: cleanText(raw.ministry),
+    description: cleanText(raw.description),
+    tags: cleanTags(raw.tags, fixes),
+    details: cleanContentText(raw.details, fixes, 'details'),
+    benefits: cleanContentText(raw.benefits, fixes, 'benefits'),
+    eligibility: cleanContentText(raw.eligibility, fixes, 'eligibility'),
+    application_process: cleanApplicationProcess(raw.application_process, fixes),
+    documents_required: cleanContentText(raw.documents_required, fixes, 'documents_required'),
+    faqs: cleanFaqs(raw.faqs, fixes),
+    sources: cleanSources(raw.sources, fixes)
+  };
+
+  (['ministry', 'description', 'details', 'benefits', 'eligibility', 'documents_required', 'faqs'] as const)
+    .forEach(field => {
+      if (typeof raw[field] === 'string' && NULL_TOKENS.has((raw[field] as string).trim().toLowerCase())) {
+        fixes.push(`${field}: '${(raw[field] as string).trim()}' treated as empty`);
+      }
+    });
+
+  const result = schemeRecordSchema.safeParse(candidate);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`),
+      fixes
+    };
+  }
+
+  return { record: result.data, errors: [], fixes };
+}
+
+// ============================================================================
+// Deduplication
+// ============================================================================
+
+/**
+ * Canonical form of a scheme URL: no protocol, www, query or trailing slash
+ */
+export function normalizeSchemeUrl(url: string | null): string | null {
+  if (!url) return null;
+  return url
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Whether two records describe the same scheme, and why
+ */
+export function matchScheme(
+  a: { scheme_name: string; scheme_url: string | null },
+  b: { scheme_name: string; scheme_url: string | null }
+): 'url' | 'name' | null {
+  const urlA = normalizeSchemeUrl(a.scheme_url);
+  const urlB = normalizeSchemeUrl(b.scheme_url);
+
+  // Bare domains (e.g. msme.gov.in) are shared by many schemes
+  if (urlA && urlA === urlB && urlA.includes('/')) return 'url';
+  if (schemeNameSimilarity(a.scheme_name, b.scheme_name) >= NAME_SIMILARITY_THRESHOLD) return 'name';
+  return null;
+}
+
+/**
+ * Merge duplicate records: the first occurrence wins, gaps are filled from
+ * later ones and tags/sources are combined
+ */
+export function dedupeRecords(records: SchemeRecord[]): { records: SchemeRecord[]; duplicates: DuplicateRecord[] } {
+  const unique: SchemeRecord[] = [];
+  const duplicates: DuplicateRecord[] = [];
+
+  records.forEach(record => {
+    let reason: 'url' | 'name' | null = null;
+    const existingIndex = unique.findIndex(candidate => (reason = matchScheme(candidate, record)) !== null);
+
+    if (existingIndex === -1 || !reason) {
+      unique.push(record);
+      return;
+    }
+
+    const kept = unique[existingIndex];
+    duplicates.push({ kept: kept.scheme_name, dropped: record.scheme_name, reason });
+
+    const merged: SchemeRecord = { ...kept };
+    (Object.keys(record) as Array<keyof SchemeRecord>).forEach(key => {
+      if (merged[key] === null && record[key] !== null) {
+        (merged as Record<string, unknown>)[key] = record[key];
+      }
+    });
+    merged.tags = Array.from(new Set([...kept.tags, ...record.tags]));
+    merged.sources = [
+      ...kept.sources,
+      ...record.sources.filter(source => !kept.sources.some(s => s.url === source.url))
+    ];
+    unique[existingIndex] = merged;
+  });
+
+  return { records: unique, duplicates };
+}
+
+// ============================================================================
+// Transformation
+// ============================================================================
+
+/**
+ * Map a ministry name to a catalogue category
+ */
+export function extractCategory(ministry: string | null): string {
+  const name = (ministry || '').toLowerCase();
+  if (name.includes('msme') || name.includes('micro, small and medium')) return 'MSME';
+  if (name.includes('finance')) return 'Finance';
+  if (name.includes('skill')) return 'Skill Development';
+  return 'General';
+}
+
+/**
+ * Pick audience-like tags (artisans, women, SC/ST...) as target audience
+ */
+export function extractTargetAudience(tags: string[]): string[] {
+  const audienceKeywords = [
+    'Entrepreneur', 'Artisans', 'Craftspeople', 'Women',
+    'SC', 'ST', 'OBC', 'Minorities', 'Youth', 'Mahila'
+  ];
+
+  return tags.filter(tag =>
+    audienceKeywords.some(keyword => tag.toLowerCase().includes(keyword.toLowerCase()))
+  );
+}
+
+/**
+ * Convert a validated record to a schemes table row. Long text is stored
+ * as { content } JSONB, matching scripts/migrate-schemes.ts.
+ */
+export function toSchemeInsert(record: SchemeRecord): SchemeInsert {
+  return {
+    scheme_name: record.scheme_name,
+    scheme_url: record.scheme_url,
+    ministry: record.ministry,
+    description: record.description,
+    category: extractCategory(record.ministry),
+    tags: record.tags,
+    target_audience: extractTargetAudience(record.tags),
+    details: record.details || record.sources.length > 0
+      ? { content: record.details || '', sources: record.sources }
+      : null,
+    benefits: record.benefits ? { content: record.benefits } : null,
+    eligibility: record.eligibility ? { content: record.eligibility } : null,
+    application_process: record.application_process,
+    documents_required: record.documents_required ? { content: record.documents_required } : null,
+    // Figures extracted from the text are only stored once an admin has
+    // reviewed them in the scheme editor
+    financial_details: null,
+    eligibility_rules: (getCuratedRules(record.scheme_name) || null) as Json | null,
+    jurisdiction: inferJurisdiction(record.ministry) as unknown as Json,
+    relationships: (getCuratedRelationships(record.scheme_name) || null) as unknown as Json,
+    is_active: true
+  };
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * JSON with sorted keys, so JSONB read back from Postgres (which reorders
+ * keys) compares equal to the same value built locally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as object).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Clean, validate and dedupe a dump, then compare it with the current
+ * catalogue. Nothing is written; the report drives the dry run and the apply step.
+ */
+export function buildIngestionReport(
+  rawRecords: Record<string, unknown>[],
+  existing: Scheme[],
+  options: { source: string; format: IngestionFormat; deactivateMissing?: boolean }
+): IngestionReport {
+  const report: IngestionReport = {
+    source: options.source,
+    format: options.format,
+    totalRecords: rawRecords.length,
+    inserts: [],
+    updates: [],
+    deactivations: [],
+    missing: [],
+    unchanged: [],
+    duplicates: [],
+    rejected: [],
+    fixes: []
+  };
+
+  // Clean and validate
+  const valid: SchemeRecord[] = [];
+  rawRecords.forEach((raw, index) => {
+    const { record, errors, fixes } = cleanSchemeRecord(raw);
+    const name = cleanText(raw.scheme_name);
+
+    if (fixes.length > 0) {
+      report.fixes.push({ scheme_name: name || `#${index + 1}`, fixes });
+    }
+    if (!record) {
+      report.rejected.push({ index, scheme_name: name, errors });
+      return;
+    }
+    valid.push(record);
+  });
+
+  // Dedupe within the dump
+  const { records, duplicates } = dedupeRecords(valid);
+  report.duplicates = duplicates;
+
+  // Match against the catalogue
+  const matchedIds = new Set<string>();
+  records.forEach(record => {
+    const match = existing.find(scheme => !matchedIds.has(scheme.id) && matchScheme(scheme, record) !== null);
+    const row = toSchemeInsert(record);
+
+    if (!match) {
+      report.inserts.push(row);
+      return;
+    }
+
+    matchedIds.add(match.id);
+    const updates: SchemeUpdate = {};
+    const changedFields = INGESTED_FIELDS.filter(field =>
+      stableStringify(match[field]) !== stableStringify(row[field])
+    );
+    changedFields.forEach(field => {
+      (updates as Record<string, unknown>)[field] = row[field] ?? null;
+    });
+
+    if (changedFields.length === 0) {
+      report.unchanged.push(match.scheme_name);
+    } else {
+      report.updates.push({ id: match.id, scheme_name: match.scheme_name, changedFields, updates });
+    }
+  });
+
+  // Active schemes the dump no longer lists
+  existing
+    .filter(scheme => scheme.is_active && !matchedIds.has(scheme.id))
+    .forEach(scheme => {
+      const entry = { id: scheme.id, scheme_name: scheme.scheme_name };
+      if (options.deactivateMissing) {
+        report.deactivations.push(entry);
+      } else {
+        report.missing.push(entry);
+      }
+    });
+
+  return report;
+}
@@ -0,0 +1,216 @@
+import { ProcessedScheme, SchemeJurisdiction, JurisdictionLevel } from '@/types/scheme';
+
+/**
+ * Scheme jurisdiction: which states and districts a scheme can be availed in
+ *
+ * Central schemes apply everywhere. State and district schemes list the
+ * states (and districts) they cover; users whose location is outside them
+ * do not see them. State names are normalised to the canonical names below
+ * so profile text such as "orissa", "UP" or "NCT of Delhi" still matches.
+ */
+
+// States and union territories, canonical names
+export const INDIAN_STATES = [
+  'Andaman and Nicobar Islands',
+  'Andhra Pradesh',
+  'Arunachal Pradesh',
+  'Assam',
+  'Bihar',
+  'Chandigarh',
+  'Chhattisgarh',
+  'Dadra and Nagar Haveli and Daman and Diu',
+  'Delhi',
+  'Goa',
+  'Gujarat',
+  'Haryana',
+  'Himachal Pradesh',
+  'Jammu and Kashmir',
+  'Jharkhand',
+  'Karnataka',
+  'Kerala',
+  'Ladakh',
+  'Lakshadweep',
+  'Madhya Pradesh',
+  'Maharashtra',
+  'Manipur',
+  'Meghalaya',
+  'Mizoram',
+  'Nagaland',
+  'Odisha',
+  'Puducherry',
+  'Punjab',
+  'Rajasthan',
+  'Sikkim',
+  'Tamil Nadu',
+  'Telangana',
+  'Tripura',
+  'Uttar Pradesh',
+  'Uttarakhand',
+  'West Bengal'
+] as const;
+
+export const CENTRAL_JURISDICTION: SchemeJurisdiction = { level: 'central' };
+
+const JURISDICTION_LEVELS: JurisdictionLevel[] = ['central', 'state', 'district'];
+
+// Old names and spellings, matched anywhere in text
+const STATE_ALIASES: Record<string, string> = {
+  'orissa': 'Odisha',
+  'uttaranchal': 'Uttarakhand',
+  'pondicherry': 'Puducherry',
+  'nct of delhi': 'Delhi',
+  'new delhi': 'Delhi',
+  'andaman and nicobar': 'Andaman and Nicobar Islands',
+  'dadra and nagar haveli': 'Dadra and Nagar Haveli and Daman and Diu',
+  'daman and diu': 'Dadra and Nagar Haveli and Daman and Diu'
+};
+
+// Abbreviations, only accepted as the whole value of a location field
+const STATE_ABBREVIATIONS: Record<string, string> = {
+  'ap': 'Andhra Pradesh',
+  'hp': 'Himachal Pradesh',
+  'jk': 'Jammu and Kashmir',
+  'j and k': 'Jammu and Kashmir',
+  'mp': 'Madhya Pradesh',
+  'up': 'Uttar Pradesh',
+  'tn': 'Tamil Nadu',
+  'wb': 'West Bengal',
+  'mh': 'Maharashtra',
+  'ka': 'Karnataka',
+  'dl': 'Delhi'
+};
+
+/**
+ * Lowercase, spell out "&" and collapse punctuation to single spaces
+ */
+function normalizeKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const STATE_NAMES: Record<string, string> = {
+  ...Object.fromEntries(INDIAN_STATES.map(state => [normalizeKey(state), state])),
+  ...STATE_ALIASES
+};
+
+/**
+ * Canonical state/UT name for free text, or undefined if it is not one
+ */
+export function normalizeStateName(name: string | null | undefined): string | undefined {
+  if (!name) return undefined;
+  const key = normalizeKey(name);
+  return STATE_NAMES[key] || STATE_ABBREVIATIONS[key];
+}
+
+/**
+ * States named in a text, e.g. "Department of Industries, Government of Tamil Nadu"
+ */
+function findStatesInText(text: string): string[] {
+  const padded = ` ${normalizeKey(text)} `;
+  const found = new Set<string>();
+
+  // Longest names first so "dadra and nagar haveli and daman and diu" wins
+  // over the shorter aliases it contains
+  const keys = Object.keys(STATE_NAMES).sort((a, b) => b.length - a.length);
+  let remaining = padded;
+  for (const key of keys) {
+    if (remaining.includes(` ${key} `)) {
+      found.add(STATE_NAMES[key]);
+      remaining = remaining.split(` ${key} `).join('  ');
+    }
+  }
+
+  return Array.from(found);
+}
+
+/**
+ * Infer jurisdiction from the implementing ministry or department.
+ * Schemes run by a state government name the state; union ministries
+ * (which may mention "New Delhi" in an address) and everything else are
+ * treated as central.
+ */
+export function inferJurisdiction(ministry: string | null | undefined): SchemeJurisdiction {
+  if (!ministry || /^\s*ministry\b|government of india/i.test(ministry)) {
+    return { ...CENTRAL_JURISDICTION };
+  }
+
+  const states = findStatesInText(ministry);
+  return states.length > 0 ? { level: 'state', states } : { ...CENTRAL_JURISDICTION };
+}
+
+/**
+ * Read a jurisdiction stored as JSON (database column, admin edits).
+ * Returns undefined when the value is not a valid jurisdiction.
+ */
+export function parseJurisdiction(value: unknown): SchemeJurisdiction | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const { level, states, districts } = value as Record<string, unknown>;
+  if (!JURISDICTION_LEVELS.includes(level as JurisdictionLevel)) return undefined;
+  if (level === 'central') return { ...CENTRAL_JURISDICTION };
+
+  const toList = (list: unknown): string[] =>
+    Array.isArray(list)
+      ? list.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+      : [];
+
+  const jurisdiction: SchemeJurisdiction = {
+    level: level as JurisdictionLevel,
+    states: toList(states).map(state => normalizeStateName(state) || state.trim())
+  };
+  if (level === 'district') {
+    jurisdiction.districts = toList(districts).map(district => district.trim());
+  }
+  return jurisdiction;
+}
+
+/**
+ * Whether a scheme with this jurisdiction can be availed at a location.
+ * An unknown or unrecognised location hides nothing.
+ */
+export function isAvailableInLocation(
+  jurisdiction: SchemeJurisdiction,
+  location?: { state?: string; district?: string }
+): boolean {
+  if (jurisdiction.level === 'central') return true;
+
+  const state = normalizeStateName(location?.state);
+  if (!state) return true;
+
+  if (jurisdiction.states?.length && !jurisdiction.states.includes(state)) {
+    return false;
+  }
+
+  const district = location?.district?.trim().toLowerCase();
+  if (jurisdiction.level === 'district' && district && jurisdiction.districts?.length) {
+    return jurisdiction.districts.some(d => d.toLowerCase() === district);
+  }
+
+  return true;
+}
+
+/**
+ * Drop schemes that cannot be availed at the location
+ */
+export function filterSchemesByLocation(
+  schemes: ProcessedScheme[],
+  location?: { state?: string; district?: string }
+): ProcessedScheme[] {
+  return schemes.filter(scheme => isAvailableInLocation(scheme.jurisdiction, location));
+}
+
+/**
+ * Human-readable coverage, e.g. "All India", "Gujarat", "Pune (Maharashtra)"
+ */
+export function formatJurisdiction(jurisdiction: SchemeJurisdiction): string {
+  const states = jurisdiction.states?.join(', ') || '';
+
+  if (jurisdiction.level === 'central' || !states) return 'All India';
+  if (jurisdiction.level === 'district' && jurisdiction.districts?.length) {
+    return `${jurisdiction.districts.join(', ')} (${states})`;
+  }
+  return states;
+}
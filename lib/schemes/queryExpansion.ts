@@ -0,0 +1,337 @@
+import searchSynonyms from '@/data/searchSynonyms.json';
+
+/**
+ * Tokenization and multilingual query expansion for scheme search
+ *
+ * Users search in English, romanized Hindi ("mahila loan", "karz") and
+ * Devanagari ("कर्ज"). Scheme text is English, so Hindi words are mapped
+ * onto English terms through the synonym groups in data/searchSynonyms.json.
+ * Romanized spellings vary a lot (karz / karza / qarz), so aliases are
+ * compared by a phonetic key rather than exact spelling, and Devanagari is
+ * transliterated to the same key space.
+ */
+
+export interface QueryVariant {
+  term: string;
+  weight: number;
+}
+
+export interface QueryTerm {
+  original: string;
+  variants: QueryVariant[];
+}
+
+interface SynonymGroup {
+  terms: string[];
+  aliases: string[];
+}
+
+// Weight of a synonym relative to the word the user typed
+const SYNONYM_WEIGHT = 0.8;
+const TRANSLITERATION_WEIGHT = 0.9;
+
+const STOPWORDS = new Set([
+  // English
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'get', 'how', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'to',
+  'what', 'which', 'with', 'any', 'about', 'this', 'that', 'under', 'want', 'need',
+  // Romanized Hindi
+  'ka', 'ke', 'ki', 'ko', 'se', 'mein', 'mai', 'hai', 'hain', 'kya', 'kaise',
+  'mujhe', 'chahiye', 'mera', 'meri', 'mere', 'liye', 'koi', 'aur', 'bhi', 'kuch',
+  'ek', 'ye', 'yeh', 'wo', 'woh', 'hum', 'par', 'tak', 'sakta', 'sakti',
+  // Devanagari
+  'के', 'लिए', 'का', 'की', 'को', 'से', 'में', 'है', 'हैं', 'क्या', 'कैसे', 'मुझे',
+  'चाहिए', 'और', 'भी', 'एक', 'मेरा', 'मेरी', 'मेरे', 'कोई', 'कुछ', 'पर',
+]);
+
+const DEVANAGARI = /[\u0900-\u097F]/;
+
+// ============================================================================
+// Transliteration
+// ============================================================================
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o',
+};
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+};
+
+// Consonant + nukta, e.g. ज़ (z) in कर्ज़
+const NUKTA_CONSONANTS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'g', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f', 'य': 'y',
+};
+
+// Precomposed nukta letters
+const PRECOMPOSED_NUKTA: Record<string, string> = {
+  'क़': 'q', 'ख़': 'kh', 'ग़': 'g', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y',
+};
+
+const NUKTA = '़';
+const VIRAMA = '्';
+const NASAL_SIGNS = new Set(['ं', 'ँ']);
+const VISARGA = 'ः';
+
+/**
+ * Transliterate a Devanagari word to rough romanized Hindi.
+ * Good enough for matching, not for display: the final inherent vowel is
+ * dropped (कर्ज → karj) and long vowels are doubled (आ → aa).
+ */
+export function transliterateDevanagari(word: string): string {
+  const chars = Array.from(word);
+  let output = '';
+  let pendingInherent = false;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    let consonant = CONSONANTS[char] ?? PRECOMPOSED_NUKTA[char];
+
+    if (consonant !== undefined) {
+      if (pendingInherent) output += 'a';
+      if (chars[i + 1] === NUKTA && NUKTA_CONSONANTS[char]) {
+        consonant = NUKTA_CONSONANTS[char];
+        i++;
+      }
+      output += consonant;
+      pendingInherent = true;
+      continue;
+    }
+
+    if (char === VIRAMA) {
+      pendingInherent = false;
+    } else if (VOWEL_SIGNS[char]) {
+      output += VOWEL_SIGNS[char];
+      pendingInherent = false;
+    } else if (INDEPENDENT_VOWELS[char]) {
+      if (pendingInherent) output += 'a';
+      output += INDEPENDENT_VOWELS[char];
+      pendingInherent = false;
+    } else if (NASAL_SIGNS.has(char)) {
+      if (pendingInherent) output += 'a';
+      output += 'n';
+      pendingInherent = false;
+    } else if (char === VISARGA) {
+      if (pendingInherent) output += 'a';
+      output += 'h';
+      pendingInherent = false;
+    } else if (char !== NUKTA) {
+      if (pendingInherent) output += 'a';
+      output += char;
+      pendingInherent = false;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Reduce a romanized or Devanagari word to a spelling-insensitive key,
+ * so karz, karza, qarz and कर्ज़ all map to "karj"
+ */
+export function phoneticKey(word: string): string {
+  let key = DEVANAGARI.test(word) ? transliterateDevanagari(word) : word.toLowerCase();
+
+  key = key
+    .replace(/[^a-z]/g, '')
+    .replace(/chh/g, 'c')
+    .replace(/ch/g, 'c')
+    .replace(/ph/g, 'f')
+    .replace(/sh/g, 's')
+    .replace(/([kgtdbj])h/g, '$1')
+    .replace(/q/g, 'k')
+    .replace(/z/g, 'j')
+    .replace(/w/g, 'v')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/(.)\1+/g, '$1');
+
+  if (key.length > 3 && key.endsWith('a')) {
+    key = key.slice(0, -1);
+  }
+
+  return key;
+}
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+/**
+ * Light English stemmer: plural forms only. Prefix and typo matching in
+ * the index cover the remaining inflections.
+ */
+export function stemToken(token: string): string {
+  if (DEVANAGARI.test(token) || token.length <= 3) return token;
+  if (token.endsWith('ies') && token.length > 4) return `${token.slice(0, -3)}y`;
+  if (/(ss|us|is)$/.test(token)) return token;
+  if (/(ches|shes|xes|sses)$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Split text into lowercase words without stemming or stopword removal
+ */
+function splitWords(text: string): string[] {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .split(/[^a-z0-9\u0900-\u0963\u0966-\u097F]+/) // keep Devanagari, split on danda
+    .filter(word => word.length >= 2);
+}
+
+/**
+ * Tokenize text for indexing and querying: lowercase, drop stopwords, stem
+ */
+export function tokenizeForSearch(text: string): string[] {
+  return splitWords(text)
+    .filter(word => !STOPWORDS.has(word))
+    .map(stemToken);
+}
+
+// ============================================================================
+// Synonym Lookup
+// ============================================================================
+
+const groups = (searchSynonyms.groups as SynonymGroup[]).map(group => ({
+  terms: Array.from(new Set(group.terms.flatMap(term => tokenizeForSearch(term)))),
+  aliases: group.aliases,
+}));
+
+// Exact word → group indexes, and phonetic key → group indexes
+const wordToGroups = new Map<string, number[]>();
+const keyToGroups = new Map<string, number[]>();
+
+function addToLookup(lookup: Map<string, number[]>, key: string, groupIndex: number): void {
+  if (!key) return;
+  const existing = lookup.get(key) || [];
+  if (!existing.includes(groupIndex)) existing.push(groupIndex);
+  lookup.set(key, existing);
+}
+
+groups.forEach((group, index) => {
+  [...group.terms, ...group.aliases].forEach(word => {
+    const normalized = word.normalize('NFC').toLowerCase();
+    addToLookup(wordToGroups, normalized, index);
+    addToLookup(wordToGroups, stemToken(normalized), index);
+  });
+  group.aliases.forEach(alias => addToLookup(keyToGroups, phoneticKey(alias), index));
+});
+
+/**
+ * Find synonym groups for a word: exact spelling first, then phonetic key,
+ * then phonetic key within one edit for longer words
+ */
+function findGroups(word: string, stemmed: string): number[] {
+  const exact = wordToGroups.get(word) || wordToGroups.get(stemmed);
+  if (exact) return exact;
+
+  const key = phoneticKey(word);
+  if (key.length < 3) return [];
+
+  const phonetic = keyToGroups.get(key);
+  if (phonetic) return phonetic;
+
+  if (key.length >= 5) {
+    for (const [aliasKey, groupIndexes] of keyToGroups) {
+      if (Math.abs(aliasKey.length - key.length) <= 1 && editDistance(aliasKey, key, 1) <= 1) {
+        return groupIndexes;
+      }
+    }
+  }
+
+  return [];
+}
+
+// ============================================================================
+// Query Expansion
+// ============================================================================
+
+/**
+ * Expand a query into terms, each with weighted variants to look up:
+ * the word itself, its transliteration and its synonyms
+ */
+export function expandQuery(query: string): QueryTerm[] {
+  const seen = new Set<string>();
+  const terms: QueryTerm[] = [];
+
+  splitWords(query)
+    .filter(word => !STOPWORDS.has(word))
+    .forEach(word => {
+      const stemmed = stemToken(word);
+      if (seen.has(stemmed)) return;
+      seen.add(stemmed);
+
+      const variants = new Map<string, number>();
+      const addVariant = (term: string, weight: number) => {
+        if (term && (variants.get(term) || 0) < weight) variants.set(term, weight);
+      };
+
+      addVariant(stemmed, 1);
+
+      if (DEVANAGARI.test(word)) {
+        addVariant(transliterateDevanagari(word), TRANSLITERATION_WEIGHT);
+      }
+
+      findGroups(word, stemmed).forEach(groupIndex => {
+        groups[groupIndex].terms.forEach(term => addVariant(term, SYNONYM_WEIGHT));
+      });
+
+      terms.push({
+        original: word,
+        variants: Array.from(variants, ([term, weight]) => ({ term, weight })),
+      });
+    });
+
+  return terms;
+}
+
+/**
+ * Damerau-Levenshtein distance with an early exit once every cell in a
+ * row exceeds maxDistance (returns maxDistance + 1 in that case)
+ */
+export function editDistance(a: string, b: string, maxDistance: number = 2): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,333 @@
+import type { ProcessedScheme } from '@/types/scheme';
+import { findAmounts, findPercentages } from './financialExtractor';
+import { formatAmount, schemeNameSimilarity } from './schemeUtils';
+
+/**
+ * Scheme claims in assistant answers, checked against the catalogue
+ *
+ * The system prompt tells the model to recommend only catalogue schemes and
+ * to quote figures from its tools, but nothing enforced it. This reads an
+ * answer after it is generated and finds:
+ * - scheme-like names ("... Yojana", "... Scheme") that match no catalogue
+ *   scheme
+ * - subsidy percentages, loan amounts and interest rates stated for a
+ *   scheme that contradict its financialDetails
+ *
+ * Figures are attributed to the scheme named most recently before them in
+ * the answer (a heading resets this), and only checked when the scheme has
+ * financial details for them. Figures that appear in the scheme's own text
+ * are never flagged, since the text is where financialDetails came from.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VerificationCheck = 'unknown_scheme' | 'subsidy_percentage' | 'loan_amount' | 'interest_rate';
+
+export interface VerificationIssue {
+  check: VerificationCheck;
+  claim: string; // Name or sentence as written in the answer
+  message: string;
+  schemeId?: string;
+  schemeName?: string;
+  correction?: string; // What the catalogue says, for the user
+}
+
+export interface ResponseVerification {
+  mentionedSchemeIds: string[]; // Catalogue schemes the answer names, in order
+  issues: VerificationIssue[];
+}
+
+export const VERIFICATION_CHECK_LABELS: Record<VerificationCheck, string> = {
+  unknown_scheme: 'Scheme not in catalogue',
+  subsidy_percentage: 'Wrong subsidy rate',
+  loan_amount: 'Amount above scheme limit',
+  interest_rate: 'Wrong interest rate'
+};
+
+const SCHEME_WORDS = ['Scheme', 'Yojana', 'Yojna', 'Programme', 'Program', 'Mission', 'Abhiyan', 'Fund'];
+
+// Capitalised words that are never part of a scheme's name, so title-case
+// text such as "Welcome To The Scheme" is not read as one
+const NAME_STOPWORDS = [
+  'The', 'This', 'That', 'These', 'Those', 'A', 'An', 'Any', 'Each', 'Every', 'Which', 'What', 'Our', 'Your', 'My',
+  'Their', 'Its', 'To', 'Of', 'For', 'And', 'Or', 'In', 'On', 'At', 'By', 'From', 'With', 'Under', 'Via', 'About',
+  'Is', 'Are', 'Apply'
+];
+
+// Capitalised words, none of them stopwords, ending in a scheme word:
+// "Stand-Up India Scheme", "Pradhan Mantri Mudra Yojana"
+const SCHEME_NAME_PATTERN = new RegExp(
+  `\\b((?:(?!(?:${NAME_STOPWORDS.join('|')})\\s)[A-Z][\\w'’&-]*\\s+){1,7}(?:${SCHEME_WORDS.join('|')}))\\b`,
+  'g'
+);
+
+// Words that make a phrase a reference to "a scheme", not a scheme's name
+const GENERIC_NAME_WORDS = new Set([
+  'the', 'this', 'that', 'these', 'those', 'a', 'an', 'any', 'each', 'every', 'which', 'what', 'our', 'your',
+  'other', 'another', 'same', 'such', 'similar', 'relevant', 'specific', 'particular', 'suitable', 'eligible',
+  'following', 'above', 'new', 'existing', 'related', 'both', 'all', 'government', 'central', 'state', 'sponsored',
+  'msme', 'loan', 'subsidy', 'credit', 'for', 'of', 'and', 'in', 'under', 'with', 'apply', 'recommended'
+]);
+
+// Acronyms in a scheme's name or description: "(PMEGP)", "(CITUS)"
+const ACRONYM_PATTERN = /\(([A-Z][A-Z0-9-]{2,})\)/g;
+
+const SUBSIDY_CLAIM = /subsid|margin money|grant|reimburse/i;
+const NOT_A_SUBSIDY_RATE = /interest|contribution|own share|working capital|collateral|guarantee/i;
+const LIMIT_CLAIM = /up\s*-?\s*to|maximum|max\b|limit|ceiling|as much as|upto/i;
+const AMOUNT_SUBJECT = /\bloans?\b|project cost|funding|financ|assistance|credit/i;
+const INTEREST_CLAIM = /interest/i;
+
+// Rupee amounts may be rounded in prose ("₹3 lakh" for 3,00,000)
+const AMOUNT_TOLERANCE = 1.01;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface SchemeNames {
+  scheme: ProcessedScheme;
+  names: string[]; // Lowercase full name and clean acronyms
+}
+
+function schemeNames(scheme: ProcessedScheme): SchemeNames {
+  const names = new Set<string>([scheme.name.toLowerCase()]);
+
+  if (scheme.shortName && /^[A-Z][A-Z0-9-]{2,}$/.test(scheme.shortName)) {
+    names.add(scheme.shortName.toLowerCase());
+  }
+  for (const match of `${scheme.name} ${scheme.fullDescription.slice(0, 300)}`.matchAll(ACRONYM_PATTERN)) {
+    names.add(match[1].toLowerCase());
+  }
+
+  return { scheme, names: Array.from(names) };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a line mentions a name, as whole words
+ */
+function mentions(lowerText: string, name: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(name)}($|[^a-z0-9])`).test(lowerText);
+}
+
+function significantWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !SCHEME_WORDS.some(schemeWord => schemeWord.toLowerCase() === word));
+}
+
+/**
+ * Whether a scheme-like name refers to a catalogue scheme: similar to its
+ * name, or a shortened form of it ("Coir Vikas Yojana")
+ */
+function isCatalogueName(candidate: string, catalogue: SchemeNames[]): boolean {
+  const words = significantWords(candidate);
+
+  return catalogue.some(({ scheme, names }) => {
+    if (schemeNameSimilarity(candidate, scheme.name) >= 0.6) return true;
+    if (names.some(name => candidate.toLowerCase().includes(name))) return true;
+
+    const schemeWords = new Set(significantWords(scheme.name));
+    return words.length > 0 && words.every(word => schemeWords.has(word));
+  });
+}
+
+function isGenericName(candidate: string): boolean {
+  return significantWords(candidate).every(word => GENERIC_NAME_WORDS.has(word));
+}
+
+/**
+ * Lines of the answer, with list items and sentences split apart
+ */
+function splitClaims(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.;!?])\s+(?=[A-Z*•\-])/)
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+function excerpt(text: string): string {
+  const plain = text.replace(/\*\*/g, '').replace(/\s+/g, ' ');
+  return plain.length > 200 ? `${plain.slice(0, 197)}...` : plain;
+}
+
+function rupees(amount: number): string {
+  return `₹${formatAmount(amount)}`;
+}
+
+/**
+ * "25%", or "15% in urban and 25% in rural areas"
+ */
+function rateText({ urban, rural }: { urban?: number; rural?: number }): string {
+  if (urban === undefined || rural === undefined || urban === rural) {
+    const rate = urban ?? rural;
+    return rate === undefined ? '' : `${rate}%`;
+  }
+  return `${urban}% in urban and ${rural}% in rural areas`;
+}
+
+function sourceText(scheme: ProcessedScheme): string {
+  return `${scheme.sections.details} ${scheme.sections.benefits} ${scheme.sections.eligibility}`;
+}
+
+function displayName(scheme: ProcessedScheme): string {
+  return scheme.shortName && /^[A-Z][A-Z0-9-]{2,}$/.test(scheme.shortName) ? scheme.shortName : scheme.name;
+}
+
+// ============================================================================
+// Figure Checks
+// ============================================================================
+
+function checkSubsidy(claim: string, scheme: ProcessedScheme): VerificationIssue | undefined {
+  const details = scheme.financialDetails;
+  if (!details?.subsidyPercentage || !SUBSIDY_CLAIM.test(claim) || NOT_A_SUBSIDY_RATE.test(claim)) return undefined;
+
+  const { subsidyPercentage: general, specialCategorySubsidyPercentage: special } = details;
+  const allowed = new Set([
+    general.urban, general.rural, special?.urban, special?.rural,
+    ...findPercentages(sourceText(scheme))
+  ].filter((rate): rate is number => rate !== undefined));
+
+  const wrong = findPercentages(claim).filter(rate => !allowed.has(rate));
+  const rates = rateText(general);
+  if (wrong.length === 0 || !rates) return undefined;
+
+  const specialRates = special && rateText(special) ? `, ${rateText(special)} for special categories` : '';
+
+  return {
+    check: 'subsidy_percentage',
+    claim: excerpt(claim),
+    message: `States a ${wrong.join('% / ')}% subsidy; the catalogue has ${rates}${specialRates}`,
+    schemeId: scheme.id,
+    schemeName: scheme.name,
+    correction: `${displayName(scheme)} subsidy is ${rates}${specialRates}, not ${wrong.join('% or ')}%.`
+  };
+}
+
+function checkAmount(claim: string, scheme: ProcessedScheme): VerificationIssue | undefined {
+  const details = scheme.financialDetails;
+  if (!details || !LIMIT_CLAIM.test(claim) || !AMOUNT_SUBJECT.test(claim)) return undefined;
+
+  const limits = [
+    details.loanAmount?.max,
+    details.maxProjectCost,
+    ...Object.values(details.maxProjectCostBySector || {})
+  ].filter((limit): limit is number => limit !== undefined);
+  if (limits.length === 0) return undefined;
+
+  const ceiling = Math.max(...limits);
+  const stated = new Set(findAmounts(sourceText(scheme)));
+  const tooHigh = findAmounts(claim).filter(amount => amount > ceiling * AMOUNT_TOLERANCE && !stated.has(amount));
+  if (tooHigh.length === 0) return undefined;
+
+  const limitText = details.loanAmount?.max
+    ? `loans go up to ${rupees(details.loanAmount.max)}`
+    : `the project cost limit is ${rupees(ceiling)}`;
+
+  return {
+    check: 'loan_amount',
+    claim: excerpt(claim),
+    message: `States ${tooHigh.map(rupees).join(', ')}; the catalogue maximum is ${rupees(ceiling)}`,
+    schemeId: scheme.id,
+    schemeName: scheme.name,
+    correction: `Under ${displayName(scheme)}, ${limitText}, not ${tooHigh.map(rupees).join(' or ')}.`
+  };
+}
+
+function checkInterest(claim: string, scheme: ProcessedScheme): VerificationIssue | undefined {
+  const rate = scheme.financialDetails?.interestRate;
+  if (rate === undefined || !INTEREST_CLAIM.test(claim)) return undefined;
+
+  // The rate is the first percentage after the word "interest"
+  const stated = findPercentages(claim.slice(claim.search(INTEREST_CLAIM)))[0];
+  if (stated === undefined || Math.abs(stated - rate) < 0.01 || findPercentages(sourceText(scheme)).includes(stated)) {
+    return undefined;
+  }
+
+  return {
+    check: 'interest_rate',
+    claim: excerpt(claim),
+    message: `States ${stated}% interest; the catalogue has ${rate}%`,
+    schemeId: scheme.id,
+    schemeName: scheme.name,
+    correction: `${displayName(scheme)} loans carry ${rate}% interest, not ${stated}%.`
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check the schemes and figures in an answer against the catalogue
+ *
+ * @example
+ * ```typescript
+ * verifySchemeResponse('PMEGP gives a 50% subsidy on the project cost.', schemes);
+ * // { mentionedSchemeIds: ['...'], issues: [{ check: 'subsidy_percentage', ... }] }
+ * ```
+ */
+export function verifySchemeResponse(text: string, catalogue: ProcessedScheme[]): ResponseVerification {
+  const names = catalogue.map(schemeNames);
+  const mentioned: string[] = [];
+  const issues: VerificationIssue[] = [];
+  const unknownNames = new Set<string>();
+
+  let current: ProcessedScheme | undefined;
+
+  splitClaims(text).forEach(claim => {
+    const lowerClaim = claim.toLowerCase();
+
+    // Headings start a new topic; figures under them belong to whatever
+    // scheme they name, if any
+    if (/^#{1,6}\s/.test(claim)) current = undefined;
+
+    const named = names.filter(({ names: schemeAliases }) => schemeAliases.some(name => mentions(lowerClaim, name)));
+    named.forEach(({ scheme }) => {
+      if (!mentioned.includes(scheme.id)) mentioned.push(scheme.id);
+    });
+    if (named.length > 0) current = named[named.length - 1].scheme;
+
+    for (const match of claim.matchAll(SCHEME_NAME_PATTERN)) {
+      const candidate = match[1].trim();
+      if (unknownNames.has(candidate) || isGenericName(candidate) || isCatalogueName(candidate, names)) continue;
+
+      unknownNames.add(candidate);
+      issues.push({
+        check: 'unknown_scheme',
+        claim: candidate,
+        message: `"${candidate}" is not in the scheme catalogue`,
+        correction: `"${candidate}" is not in our scheme catalogue, so its details here could not be checked. Please confirm it with the official source or your District Industries Centre.`
+      });
+    }
+
+    // A line naming two schemes (a comparison) cannot be attributed. The
+    // catalogue can hold the same scheme twice, so count distinct names.
+    if (!current || new Set(named.map(({ scheme }) => scheme.name.toLowerCase())).size > 1) return;
+
+    [checkSubsidy, checkAmount, checkInterest].forEach(check => {
+      const issue = check(claim, current as ProcessedScheme);
+      if (issue) issues.push(issue);
+    });
+  });
+
+  return { mentionedSchemeIds: mentioned, issues };
+}
+
+/**
+ * Note appended to a flagged answer, with the catalogue's figures
+ */
+export function formatVerificationNote(issues: VerificationIssue[]): string {
+  const corrections = Array.from(new Set(issues.map(issue => issue.correction).filter(Boolean)));
+  if (corrections.length === 0) return '';
+
+  return `\n\n---\n⚠️ **Please double-check:**\n${corrections.map(correction => `- ${correction}`).join('\n')}`;
+}
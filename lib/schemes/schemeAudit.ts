@@ -0,0 +1,416 @@
+import type { Json, Scheme } from '@/types/database';
+import { SchemeCategory } from '@/types/scheme';
+import {
+  isNullToken,
+  normalizeSchemeUrl,
+  parsePythonLiteral,
+  NAME_SIMILARITY_THRESHOLD
+} from './ingestion';
+import { categorizeScheme, schemeNameSimilarity } from './schemeUtils';
+import { getCuratedDocuments } from './documentChecklist';
+import { extractFinancialDetails, FINANCIAL_FIELD_LABELS } from './financialExtractor';
+
+/**
+ * Data-quality audit of the schemes table
+ *
+ * Rows loaded before ingestion cleanup (or edited by hand) can carry scraper
+ * artifacts: 'None' or '[]' for missing values, Python dicts stored as
+ * strings inside JSONB, broken links. The audit flags these per scheme and
+ * scores each scheme from 100 down, so admins can fix the worst first.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AuditCheck =
+  | 'placeholder_field'
+  | 'stringified_json'
+  | 'missing_financial_details'
+  | 'mixed_category'
+  | 'missing_documents'
+  | 'duplicate_name'
+  | 'malformed_url'
+  | 'duplicate_url';
+
+export type AuditSeverity = 'error' | 'warning';
+
+export interface AuditIssue {
+  check: AuditCheck;
+  severity: AuditSeverity;
+  field?: string;
+  message: string;
+}
+
+export interface SchemeAuditResult {
+  id: string;
+  scheme_name: string;
+  is_active: boolean;
+  score: number; // 0-100
+  issues: AuditIssue[];
+}
+
+export interface SchemeAuditReport {
+  generatedAt: string;
+  schemeCount: number;
+  averageScore: number;
+  issueCounts: Record<AuditCheck, number>;
+  schemes: SchemeAuditResult[]; // Lowest score first
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const AUDIT_CHECK_LABELS: Record<AuditCheck, string> = {
+  placeholder_field: 'Empty or placeholder field',
+  stringified_json: 'Stringified JSON in JSONB column',
+  missing_financial_details: 'Missing financial details',
+  mixed_category: 'Uncategorised (MIXED)',
+  missing_documents: 'Missing documents list',
+  duplicate_name: 'Duplicate name',
+  malformed_url: 'Malformed URL',
+  duplicate_url: 'URL shared with another page'
+};
+
+const SEVERITY_PENALTY: Record<AuditSeverity, number> = {
+  error: 20,
+  warning: 10
+};
+
+// Placeholders beyond the scraper null markers handled by isNullToken
+const EMPTY_LITERALS = new Set(['[]', '{}', '""', "''", '()']);
+
+const TEXT_FIELDS = ['scheme_url', 'ministry', 'description', 'category'] as const;
+
+const CONTENT_FIELDS = ['details', 'benefits', 'eligibility', 'application_process'] as const;
+
+const STRUCTURED_FIELDS = ['financial_details', 'eligibility_rules', 'jurisdiction', 'relationships'] as const;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/g;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isPlaceholder(text: string): boolean {
+  return isNullToken(text) || EMPTY_LITERALS.has(text.trim());
+}
+
+/**
+ * Whether text is a dict or list literal (JSON or Python repr)
+ */
+function isStringifiedLiteral(text: string): boolean {
+  const trimmed = text.trim();
+  return /^[[{(]/.test(trimmed) && !EMPTY_LITERALS.has(trimmed) &&
+    parsePythonLiteral(trimmed) !== undefined;
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (parsed.protocol === 'http:' || parsed.protocol === 'https:') && parsed.hostname.includes('.');
+  } catch {
+    return false;
+  }
+}
+
+function getContent(value: Json | null): string | null {
+  if (value && typeof value === 'object' && !Array.isArray(value) && typeof value.content === 'string') {
+    return value.content;
+  }
+  return null;
+}
+
+/**
+ * Source and application URLs of a scheme: details.sources plus links in
+ * the application process text
+ */
+function getLinkedUrls(scheme: Scheme): { field: string; url: string }[] {
+  const urls: { field: string; url: string }[] = [];
+
+  const details = scheme.details;
+  if (details && typeof details === 'object' && !Array.isArray(details) && Array.isArray(details.sources)) {
+    details.sources.forEach(source => {
+      if (source && typeof source === 'object' && !Array.isArray(source) && typeof source.url === 'string') {
+        urls.push({ field: 'details.sources', url: source.url });
+      }
+    });
+  }
+
+  // The same link repeated in the application text is one link
+  const application = getContent(scheme.application_process);
+  const applicationUrls = new Map<string, string>();
+  (application?.match(URL_PATTERN) || []).forEach(match => {
+    const url = match.replace(/[.,;:]+$/, '');
+    const key = normalizeSchemeUrl(url)!;
+    if (!applicationUrls.has(key)) applicationUrls.set(key, url);
+  });
+  applicationUrls.forEach(url => urls.push({ field: 'application_process', url }));
+
+  return urls;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function checkFields(scheme: Scheme): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+
+  TEXT_FIELDS.forEach(field => {
+    const value = scheme[field];
+    if (value === null || value.trim() === '') {
+      issues.push({ check: 'placeholder_field', severity: 'warning', field, message: `${field} is empty` });
+    } else if (isPlaceholder(value)) {
+      issues.push({ check: 'placeholder_field', severity: 'error', field, message: `${field} is the placeholder '${value.trim()}'` });
+    }
+  });
+
+  CONTENT_FIELDS.forEach(field => {
+    const value = scheme[field];
+    if (typeof value === 'string') {
+      issues.push({
+        check: 'stringified_json',
+        severity: 'error',
+        field,
+        message: `${field} holds a string instead of { content }`
+      });
+      return;
+    }
+
+    const content = getContent(value);
+    if (content === null || content.trim() === '') {
+      issues.push({ check: 'placeholder_field', severity: 'warning', field, message: `${field} is empty` });
+    } else if (isPlaceholder(content)) {
+      issues.push({ check: 'placeholder_field', severity: 'error', field, message: `${field} is the placeholder '${content.trim()}'` });
+    } else if (isStringifiedLiteral(content)) {
+      issues.push({
+        check: 'stringified_json',
+        severity: 'error',
+        field,
+        message: `${field} content is a stringified ${content.trim().startsWith('{') ? 'dict' : 'list'}`
+      });
+    }
+  });
+
+  STRUCTURED_FIELDS.forEach(field => {
+    const value = scheme[field];
+    if (typeof value === 'string') {
+      issues.push({
+        check: isPlaceholder(value) ? 'placeholder_field' : 'stringified_json',
+        severity: 'error',
+        field,
+        message: isPlaceholder(value)
+          ? `${field} is the placeholder '${value.trim()}'`
+          : `${field} holds a JSON string instead of an object`
+      });
+    }
+  });
+
+  const tags = scheme.tags || [];
+  if (tags.length === 0) {
+    issues.push({ check: 'placeholder_field', severity: 'warning', field: 'tags', message: 'No tags' });
+  } else {
+    const placeholders = tags.filter(tag => isPlaceholder(tag) || isStringifiedLiteral(tag));
+    if (placeholders.length > 0) {
+      issues.push({
+        check: 'placeholder_field',
+        severity: 'error',
+        field: 'tags',
+        message: `Placeholder tags: ${placeholders.join(', ')}`
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkFinancialDetails(scheme: Scheme): AuditIssue[] {
+  const value = scheme.financial_details;
+  const empty = value === null ||
+    (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0);
+
+  if (!empty) return [];
+
+  const extracted = extractFinancialDetails({
+    details: getContent(scheme.details),
+    benefits: getContent(scheme.benefits)
+  });
+  const message = extracted.length > 0
+    ? `No financial details; ${extracted.map(extraction => FINANCIAL_FIELD_LABELS[extraction.field].toLowerCase()).join(', ')} can be extracted from the text for review`
+    : 'No financial details';
+
+  return [{ check: 'missing_financial_details', severity: 'warning', field: 'financial_details', message }];
+}
+
+function checkCategory(scheme: Scheme): AuditIssue[] {
+  return categorizeScheme(scheme.tags || []) === SchemeCategory.MIXED
+    ? [{
+        check: 'mixed_category',
+        severity: 'warning',
+        field: 'tags',
+        message: 'Tags match no category, so the scheme is categorised as MIXED'
+      }]
+    : [];
+}
+
+function checkDocuments(scheme: Scheme): AuditIssue[] {
+  const value = scheme.documents_required;
+  if (typeof value === 'string') {
+    return [{
+      check: 'stringified_json',
+      severity: 'error',
+      field: 'documents_required',
+      message: 'documents_required holds a string instead of { content }'
+    }];
+  }
+
+  const content = getContent(value);
+  if (content && !isPlaceholder(content) && content.trim() !== '') {
+    return [];
+  }
+
+  const curated = getCuratedDocuments(scheme.scheme_name);
+  return [{
+    check: 'missing_documents',
+    severity: curated ? 'warning' : 'error',
+    field: 'documents_required',
+    message: curated
+      ? 'No documents list; the curated list in data/schemeDocuments.json is used meanwhile'
+      : 'No documents list'
+  }];
+}
+
+function checkUrls(scheme: Scheme): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+
+  if (scheme.scheme_url && !isPlaceholder(scheme.scheme_url) && !isValidUrl(scheme.scheme_url)) {
+    issues.push({
+      check: 'malformed_url',
+      severity: 'error',
+      field: 'scheme_url',
+      message: `Malformed scheme URL: ${scheme.scheme_url}`
+    });
+  }
+
+  const seen = new Map<string, string>();
+  getLinkedUrls(scheme).forEach(({ field, url }) => {
+    if (!isValidUrl(url)) {
+      issues.push({ check: 'malformed_url', severity: 'error', field, message: `Malformed URL: ${url}` });
+      return;
+    }
+
+    const normalized = normalizeSchemeUrl(url)!;
+    if (seen.has(normalized)) {
+      issues.push({
+        check: 'duplicate_url',
+        severity: 'warning',
+        field,
+        message: `${url} points to the same page as another link in ${seen.get(normalized)}`
+      });
+    } else {
+      seen.set(normalized, field);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Issues that need the whole table: names too similar to another scheme's
+ * and scheme URLs shared with another scheme
+ */
+function checkAcrossSchemes(schemes: Scheme[]): Map<string, AuditIssue[]> {
+  const issues = new Map<string, AuditIssue[]>(schemes.map(scheme => [scheme.id, []]));
+
+  schemes.forEach((a, i) => {
+    schemes.slice(i + 1).forEach(b => {
+      if (schemeNameSimilarity(a.scheme_name, b.scheme_name) >= NAME_SIMILARITY_THRESHOLD) {
+        issues.get(a.id)!.push({
+          check: 'duplicate_name',
+          severity: 'error',
+          field: 'scheme_name',
+          message: `Same scheme as "${b.scheme_name}"`
+        });
+        issues.get(b.id)!.push({
+          check: 'duplicate_name',
+          severity: 'error',
+          field: 'scheme_name',
+          message: `Same scheme as "${a.scheme_name}"`
+        });
+      }
+
+      const urlA = a.scheme_url && isValidUrl(a.scheme_url) ? normalizeSchemeUrl(a.scheme_url) : null;
+      if (urlA && urlA === normalizeSchemeUrl(b.scheme_url)) {
+        issues.get(a.id)!.push({
+          check: 'duplicate_url',
+          severity: 'warning',
+          field: 'scheme_url',
+          message: `Scheme URL is the same page as "${b.scheme_name}"`
+        });
+        issues.get(b.id)!.push({
+          check: 'duplicate_url',
+          severity: 'warning',
+          field: 'scheme_url',
+          message: `Scheme URL is the same page as "${a.scheme_name}"`
+        });
+      }
+    });
+  });
+
+  return issues;
+}
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+/**
+ * Score from 100, less a penalty per issue
+ */
+export function scoreIssues(issues: AuditIssue[]): number {
+  const penalty = issues.reduce((total, issue) => total + SEVERITY_PENALTY[issue.severity], 0);
+  return Math.max(0, 100 - penalty);
+}
+
+/**
+ * Audit scheme rows and build the per-scheme report
+ */
+export function auditSchemes(schemes: Scheme[]): SchemeAuditReport {
+  const shared = checkAcrossSchemes(schemes);
+
+  const results: SchemeAuditResult[] = schemes.map(scheme => {
+    const issues = [
+      ...checkFields(scheme),
+      ...checkFinancialDetails(scheme),
+      ...checkCategory(scheme),
+      ...checkDocuments(scheme),
+      ...checkUrls(scheme),
+      ...shared.get(scheme.id)!
+    ];
+
+    return {
+      id: scheme.id,
+      scheme_name: scheme.scheme_name,
+      is_active: scheme.is_active,
+      score: scoreIssues(issues),
+      issues
+    };
+  });
+
+  const issueCounts = Object.fromEntries(
+    (Object.keys(AUDIT_CHECK_LABELS) as AuditCheck[]).map(check => [check, 0])
+  ) as Record<AuditCheck, number>;
+  results.forEach(result => result.issues.forEach(issue => issueCounts[issue.check]++));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    schemeCount: results.length,
+    averageScore: results.length > 0
+      ? Math.round(results.reduce((total, result) => total + result.score, 0) / results.length)
+      : 100,
+    issueCounts,
+    schemes: results.sort((a, b) => a.score - b.score || a.scheme_name.localeCompare(b.scheme_name))
+  };
+}
@@ -0,0 +1,71 @@
+import { ProcessedScheme, SchemeChunk, SchemeChunkKind } from '@/types/scheme';
+import { formatAmount } from './schemeUtils';
+
+/**
+ * Split schemes into retrievable chunks for embedding
+ *
+ * A whole scheme is too coarse to embed: a question about documents should
+ * match the application chunk, not be diluted by benefits text. Each chunk
+ * is prefixed with the scheme name so it stays meaningful on its own.
+ */
+
+/**
+ * Build the chunks for one scheme, skipping sections with no content
+ */
+export function chunkScheme(scheme: ProcessedScheme): SchemeChunk[] {
+  const sections: Record<SchemeChunkKind, string[]> = {
+    overview: [
+      scheme.summary,
+      scheme.ministry,
+      scheme.tags.length > 0 ? `Tags: ${scheme.tags.join(', ')}` : '',
+      scheme.targetAudience.length > 0 ? `For: ${scheme.targetAudience.join(', ')}` : ''
+    ],
+    benefits: [...scheme.keyBenefits, describeFinancials(scheme)],
+    eligibility: scheme.eligibilityCriteria,
+    application: [
+      ...scheme.applicationSteps,
+      scheme.documentsNeeded.length > 0 ? `Documents: ${scheme.documentsNeeded.join(', ')}` : ''
+    ]
+  };
+
+  return (Object.keys(sections) as SchemeChunkKind[])
+    .map(kind => ({ kind, body: sections[kind].filter(Boolean).join('\n') }))
+    .filter(({ body }) => body.trim().length > 0)
+    .map(({ kind, body }) => ({
+      id: `${scheme.id}:${kind}`,
+      schemeId: scheme.id,
+      kind,
+      text: `${scheme.name}\n${body}`
+    }));
+}
+
+/**
+ * Build chunks for a list of schemes
+ */
+export function chunkSchemes(schemes: ProcessedScheme[]): SchemeChunk[] {
+  return schemes.flatMap(chunkScheme);
+}
+
+/**
+ * One-line summary of extracted financial details
+ */
+function describeFinancials(scheme: ProcessedScheme): string {
+  const financial = scheme.financialDetails;
+  if (!financial) return '';
+
+  const parts: string[] = [];
+  if (financial.loanAmount?.max) {
+    parts.push(`Loan up to ${formatAmount(financial.loanAmount.max)}`);
+  }
+  if (financial.subsidyPercentage) {
+    const { urban, rural } = financial.subsidyPercentage;
+    if (urban || rural) {
+      parts.push(`Subsidy ${urban || 0}% urban, ${rural || 0}% rural`);
+    }
+  }
+  if (financial.interestRate) {
+    parts.push(`Interest ${financial.interestRate}%`);
+  }
+
+  return parts.join('. ');
+}
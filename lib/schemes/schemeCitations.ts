@@ -0,0 +1,183 @@
+import type { ProcessedScheme } from '@/types/scheme';
+
+/**
+ * Scheme citations
+ *
+ * Chat answers quote subsidy percentages, loan limits and criteria taken
+ * from scheme fields. Tool results list the fields they drew on as
+ * numbered references; the model writes the number in square brackets
+ * after each figure it quotes, and the references it used are sent with
+ * the answer as source-url parts. The chat then links each number to the
+ * scheme page section, official page or guideline it came from.
+ *
+ * Numbers are per answer, in the order tools returned them, so the chat
+ * renumbers them in the order they appear in the text.
+ */
+
+export type CitationField =
+  | 'details'
+  | 'benefits'
+  | 'eligibility'
+  | 'financialDetails'
+  | 'applicationProcess'
+  | 'documents'
+  | 'official'
+  | 'guideline';
+
+export interface SchemeCitation {
+  ref: number; // The number the model writes, as [ref]
+  schemeId: string;
+  schemeName: string;
+  field: CitationField;
+  title: string;
+  url: string; // Scheme page section, or an external official source
+}
+
+/**
+ * Reference as listed in a tool result for the model
+ */
+export interface CitationRef {
+  ref: number;
+  source: string;
+}
+
+// Stored on source-url parts as providerMetadata.citation
+export interface CitationMetadata {
+  schemeId: string;
+  field: CitationField;
+}
+
+const FIELD_LABELS: Record<CitationField, string> = {
+  details: 'Scheme details',
+  benefits: 'Benefits',
+  eligibility: 'Eligibility criteria',
+  financialDetails: 'Subsidy and loan terms',
+  applicationProcess: 'Application process',
+  documents: 'Documents required',
+  official: 'Official scheme page',
+  guideline: 'Guidelines'
+};
+
+// Section anchors on the scheme page (app/schemes/[slug]/page.tsx)
+const FIELD_ANCHORS: Record<Exclude<CitationField, 'official' | 'guideline'>, string> = {
+  details: 'details',
+  benefits: 'benefits',
+  eligibility: 'eligibility',
+  financialDetails: 'calculator',
+  applicationProcess: 'application-process',
+  documents: 'documents'
+};
+
+// [1], [12]; also matches the numbers in [1, 3]
+const CITATION_MARKER = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\]/g;
+
+/**
+ * Sources behind a field of a scheme. Guidelines give one source per
+ * linked document; the official page and guidelines are skipped when the
+ * scheme has none.
+ */
+function fieldSources(scheme: ProcessedScheme, field: CitationField): Array<Omit<SchemeCitation, 'ref'>> {
+  const base = { schemeId: scheme.id, schemeName: scheme.name, field };
+
+  if (field === 'official') {
+    return scheme.url ? [{ ...base, title: `${scheme.name}: ${FIELD_LABELS.official}`, url: scheme.url }] : [];
+  }
+
+  if (field === 'guideline') {
+    return scheme.sections.sources
+      .filter(source => source.url)
+      .map(source => ({ ...base, title: `${scheme.name}: ${source.text || FIELD_LABELS.guideline}`, url: source.url }));
+  }
+
+  return [{
+    ...base,
+    title: `${scheme.name}: ${FIELD_LABELS[field]}`,
+    url: `/schemes/${scheme.slug}#${FIELD_ANCHORS[field]}`
+  }];
+}
+
+/**
+ * Reference numbers in text, in order of first appearance
+ */
+export function citationRefsIn(text: string): number[] {
+  const refs: number[] = [];
+
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    match[1].split(',').forEach(value => {
+      const ref = parseInt(value.trim(), 10);
+      if (!refs.includes(ref)) refs.push(ref);
+    });
+  }
+
+  return refs;
+}
+
+/**
+ * Rewrite [n] markers with a function of each reference number; numbers
+ * the function returns null for are left as written
+ */
+export function replaceCitationMarkers(text: string, replace: (ref: number) => string | null): string {
+  return text.replace(CITATION_MARKER, (marker, refs: string) => {
+    const replaced = refs.split(',').map(value => replace(parseInt(value.trim(), 10)));
+    return replaced.every(value => value !== null) ? replaced.join('') : marker;
+  });
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export interface CitationRegistry {
+  /**
+   * Number the sources behind fields of a scheme; a source already cited
+   * in this answer keeps its number
+   */
+  cite(scheme: ProcessedScheme, fields: CitationField[]): CitationRef[];
+  getCitations(): SchemeCitation[];
+  /**
+   * Citations the answer refers to. An answer without markers cites the
+   * official pages of the schemes it names.
+   */
+  getCited(text: string): SchemeCitation[];
+}
+
+/**
+ * Citations for one answer
+ */
+export function createCitationRegistry(): CitationRegistry {
+  const citations: SchemeCitation[] = [];
+
+  return {
+    cite(scheme, fields) {
+      return fields
+        .flatMap(field => fieldSources(scheme, field))
+        .map(source => {
+          let citation = citations.find(existing =>
+            existing.schemeId === source.schemeId && existing.field === source.field && existing.url === source.url);
+
+          if (!citation) {
+            citation = { ref: citations.length + 1, ...source };
+            citations.push(citation);
+          }
+
+          return { ref: citation.ref, source: citation.title };
+        });
+    },
+
+    getCitations: () => [...citations],
+
+    getCited(text) {
+      const refs = citationRefsIn(text);
+
+      if (refs.length > 0) {
+        return refs
+          .map(ref => citations.find(citation => citation.ref === ref))
+          .filter((citation): citation is SchemeCitation => citation !== undefined);
+      }
+
+      const lowerText = text.toLowerCase();
+      return citations.filter(citation =>
+        citation.field === 'official' && lowerText.includes(citation.schemeName.toLowerCase()));
+    }
+  };
+}
@@ -0,0 +1,178 @@
+import { ProcessedScheme, SchemeRelationship, SchemeRelationType } from '@/types/scheme';
+import curatedRelationships from '@/data/schemeRelationships.json';
+
+/**
+ * Stacking and conflict rules between schemes
+ *
+ * Each scheme lists its relationships to other schemes by official name.
+ * stacks_with and excludes apply both ways whichever scheme lists them;
+ * prerequisite_for is directional. Recommendations, the compare view and
+ * the chat context use these so excluded schemes are never suggested
+ * together.
+ */
+
+export interface SchemeRelation {
+  type: SchemeRelationType;
+  from: ProcessedScheme; // For prerequisite_for, the scheme to avail first
+  to: ProcessedScheme;
+  note?: string;
+}
+
+const RELATION_TYPES: SchemeRelationType[] = ['stacks_with', 'excludes', 'prerequisite_for'];
+
+/**
+ * Look up curated relationships for a scheme by its official name
+ */
+export function getCuratedRelationships(schemeName: string): SchemeRelationship[] | undefined {
+  const relationships = (curatedRelationships.relationships as Record<string, SchemeRelationship[]>)[schemeName];
+  return relationships ? relationships.map(relationship => ({ ...relationship })) : undefined;
+}
+
+/**
+ * Read relationships stored as JSON (database column, admin edits).
+ * Invalid entries are dropped; returns undefined for a non-array value.
+ */
+export function parseRelationships(value: unknown): SchemeRelationship[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  return value.flatMap(item => {
+    const { type, scheme, note } = (item || {}) as Record<string, unknown>;
+    if (!RELATION_TYPES.includes(type as SchemeRelationType) || typeof scheme !== 'string' || !scheme.trim()) {
+      return [];
+    }
+    const relationship: SchemeRelationship = { type: type as SchemeRelationType, scheme: scheme.trim() };
+    if (typeof note === 'string' && note.trim()) relationship.note = note.trim();
+    return [relationship];
+  });
+}
+
+function isNamed(relationship: SchemeRelationship, scheme: ProcessedScheme): boolean {
+  return relationship.scheme.trim().toLowerCase() === scheme.name.trim().toLowerCase();
+}
+
+/**
+ * How two schemes relate, from either scheme's list. When the two lists
+ * disagree, excludes wins.
+ */
+export function getRelation(a: ProcessedScheme, b: ProcessedScheme): SchemeRelation | undefined {
+  const relations: SchemeRelation[] = [];
+
+  a.relationships
+    .filter(relationship => isNamed(relationship, b))
+    .forEach(relationship => relations.push({ type: relationship.type, from: a, to: b, note: relationship.note }));
+  b.relationships
+    .filter(relationship => isNamed(relationship, a))
+    .forEach(relationship => relations.push({ type: relationship.type, from: b, to: a, note: relationship.note }));
+
+  return relations.find(relation => relation.type === 'excludes') || relations[0];
+}
+
+/**
+ * Whether two schemes may be claimed together
+ */
+export function canCombine(a: ProcessedScheme, b: ProcessedScheme): boolean {
+  return a.id === b.id || getRelation(a, b)?.type !== 'excludes';
+}
+
+/**
+ * Every relation between pairs of the given schemes
+ */
+export function findRelations(schemes: ProcessedScheme[]): SchemeRelation[] {
+  const relations: SchemeRelation[] = [];
+
+  schemes.forEach((a, i) => {
+    schemes.slice(i + 1).forEach(b => {
+      const relation = getRelation(a, b);
+      if (relation) relations.push(relation);
+    });
+  });
+
+  return relations;
+}
+
+/**
+ * Keep schemes in order, dropping any that cannot be combined with one
+ * already kept, so a ranked list never recommends an invalid combination
+ */
+export function removeConflicting(schemes: ProcessedScheme[]): ProcessedScheme[] {
+  const kept: ProcessedScheme[] = [];
+
+  schemes.forEach(scheme => {
+    if (kept.every(other => canCombine(other, scheme))) {
+      kept.push(scheme);
+    }
+  });
+
+  return kept;
+}
+
+/**
+ * Schemes designed to be claimed alongside this one
+ */
+export function getStackingSchemes(
+  scheme: ProcessedScheme,
+  allSchemes: ProcessedScheme[]
+): ProcessedScheme[] {
+  return allSchemes.filter(other =>
+    other.id !== scheme.id && getRelation(scheme, other)?.type === 'stacks_with'
+  );
+}
+
+/**
+ * Schemes that must be availed before this one
+ */
+export function getPrerequisites(
+  scheme: ProcessedScheme,
+  allSchemes: ProcessedScheme[]
+): ProcessedScheme[] {
+  return allSchemes.filter(other => {
+    if (other.id === scheme.id) return false;
+    const relation = getRelation(other, scheme);
+    return relation?.type === 'prerequisite_for' && relation.from.id === other.id;
+  });
+}
+
+/**
+ * One sentence per relation, e.g. for the compare view
+ */
+export function describeRelation(relation: SchemeRelation): string {
+  const from = relation.from.name;
+  const to = relation.to.name;
+  let text: string;
+
+  switch (relation.type) {
+    case 'excludes':
+      text = `${from} and ${to} cannot be claimed together`;
+      break;
+    case 'stacks_with':
+      text = `${from} and ${to} can be claimed together`;
+      break;
+    case 'prerequisite_for':
+      text = `${from} must be availed before ${to}`;
+      break;
+  }
+
+  return relation.note ? `${text}: ${relation.note}` : text;
+}
+
+/**
+ * Combination rules among the given schemes, for the LLM system prompt
+ */
+export function formatRelationsForPrompt(schemes: ProcessedScheme[]): string {
+  return findRelations(schemes)
+    .map(relation => {
+      const from = relation.from.name;
+      const to = relation.to.name;
+      const note = relation.note ? ` (${relation.note})` : '';
+
+      switch (relation.type) {
+        case 'excludes':
+          return `- NEVER recommend ${from} together with ${to}; they cannot be claimed together${note}`;
+        case 'stacks_with':
+          return `- ${from} can be combined with ${to}${note}`;
+        case 'prerequisite_for':
+          return `- ${from} must be availed before ${to}${note}`;
+      }
+    })
+    .join('\n');
+}
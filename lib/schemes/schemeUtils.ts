@@ -1,15 +1,109 @@
 import {
   ProcessedScheme,
   SchemeFilter,
-  SchemeSearchResult,
   UserProfile,
   SchemeCategory
 } from '@/types/scheme';
+import { evaluateEligibility } from './eligibilityEngine';
+import { filterSchemesByLocation } from './jurisdiction';
+import { editDistance } from './queryExpansion';
+import { canCombine, getStackingSchemes } from './schemeRelationships';
+import { SchemeSearchIndex, processedSchemeToDocument } from './searchIndex';
 
 /**
  * Utility functions for scheme filtering, searching, and ranking
  */
 
+/**
+ * URL slug for a scheme name, e.g. "Prime Minister's Employment Generation
+ * Programme" -> "prime-ministers-employment-generation-programme"
+ */
+export function slugifySchemeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'scheme';
+}
+
+/**
+ * First of base, base-2, base-3, ... not in taken. The chosen slug is added
+ * to taken, so one set can be reused for a batch of new schemes.
+ */
+export function uniqueSlug(base: string, taken: Set<string>): string {
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  taken.add(slug);
+  return slug;
+}
+
+// Filler words ignored when comparing scheme names
+const NAME_STOPWORDS = new Set(['the', 'of', 'and', 'for', 'scheme', 'yojana', 'programme', 'program']);
+
+function normalizeSchemeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9\u0900-\u097F]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NAME_STOPWORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Similarity of two scheme names (0-1): the better of word overlap and
+ * character edit similarity, after dropping filler words like "scheme"
+ */
+export function schemeNameSimilarity(a: string, b: string): number {
+  const nameA = normalizeSchemeName(a);
+  const nameB = normalizeSchemeName(b);
+  if (!nameA || !nameB) return 0;
+  if (nameA === nameB) return 1;
+
+  const wordsA = new Set(nameA.split(' '));
+  const wordsB = new Set(nameB.split(' '));
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  const jaccard = shared / new Set([...wordsA, ...wordsB]).size;
+
+  const maxLength = Math.max(nameA.length, nameB.length);
+  const editSimilarity = 1 - editDistance(nameA, nameB, maxLength) / maxLength;
+
+  return Math.max(jaccard, editSimilarity);
+}
+
+/**
+ * Categorize scheme based on tags. Tags that match no category give MIXED.
+ */
+export function categorizeScheme(tags: string[]): SchemeCategory {
+  const tagString = tags.join(' ').toLowerCase();
+
+  if (tagString.includes('loan') || tagString.includes('credit')) {
+    return SchemeCategory.LOAN;
+  }
+  if (tagString.includes('subsidy') || tagString.includes('margin money')) {
+    return SchemeCategory.SUBSIDY;
+  }
+  if (tagString.includes('training') || tagString.includes('skill')) {
+    return SchemeCategory.TRAINING;
+  }
+  if (tagString.includes('grant')) {
+    return SchemeCategory.GRANT;
+  }
+  if (tagString.includes('technology') || tagString.includes('upgradation')) {
+    return SchemeCategory.TECHNOLOGY;
+  }
+  if (tagString.includes('marketing')) {
+    return SchemeCategory.MARKETING;
+  }
+  if (tagString.includes('certification') || tagString.includes('quality')) {
+    return SchemeCategory.CERTIFICATION;
+  }
+
+  return SchemeCategory.MIXED;
+}
+
 /**
  * Filter schemes based on multiple criteria
  */
@@ -55,6 +149,14 @@ export function filterSchemes(
     );
   }
 
+  // Filter by state/district, keeping central schemes
+  if (filter.state) {
+    filtered = filterSchemesByLocation(filtered, {
+      state: filter.state,
+      district: filter.district
+    });
+  }
+
   // Filter by online application availability
   if (filter.hasOnlineApplication !== undefined) {
     filtered = filtered.filter(scheme =>
@@ -76,95 +178,27 @@ export function filterSchemes(
 }
 
 /**
- * Search schemes using fuzzy matching
+ * Search schemes with the ranked inverted index (Hinglish, Devanagari and
+ * typo tolerant). Results are ordered by relevance.
  */
 export function searchInSchemes(
   schemes: ProcessedScheme[],
   query: string
 ): ProcessedScheme[] {
-  const queryLower = query.toLowerCase();
-  const queryTokens = tokenize(queryLower);
-
-  const results: SchemeSearchResult[] = schemes.map(scheme => {
-    const result: SchemeSearchResult = {
-      scheme,
-      score: 0,
-      matchedFields: []
-    };
-
-    // Score name matches (highest weight)
-    if (scheme.name.toLowerCase().includes(queryLower)) {
-      result.score += 10;
-      result.matchedFields.push('name');
-    } else {
-      const nameScore = calculateTokenMatchScore(
-        tokenize(scheme.name.toLowerCase()),
-        queryTokens
-      );
-      result.score += nameScore * 5;
-      if (nameScore > 0) result.matchedFields.push('name');
-    }
-
-    // Score summary matches
-    if (scheme.summary.toLowerCase().includes(queryLower)) {
-      result.score += 5;
-      result.matchedFields.push('summary');
-    }
-
-    // Score tag matches
-    const tagMatch = scheme.tags.some(tag =>
-      tag.toLowerCase().includes(queryLower)
-    );
-    if (tagMatch) {
-      result.score += 7;
-      result.matchedFields.push('tags');
-    }
-
-    // Score benefit matches
-    const benefitMatch = scheme.keyBenefits.some(benefit =>
-      benefit.toLowerCase().includes(queryLower)
-    );
-    if (benefitMatch) {
-      result.score += 4;
-      result.matchedFields.push('benefits');
-    }
-
-    // Score eligibility matches
-    const eligibilityMatch = scheme.eligibilityCriteria.some(criteria =>
-      criteria.toLowerCase().includes(queryLower)
-    );
-    if (eligibilityMatch) {
-      result.score += 3;
-      result.matchedFields.push('eligibility');
-    }
-
-    // Score target audience matches
-    const audienceMatch = scheme.targetAudience.some(audience =>
-      audience.toLowerCase().includes(queryLower)
-    );
-    if (audienceMatch) {
-      result.score += 6;
-      result.matchedFields.push('targetAudience');
-    }
-
-    return result;
-  });
-
-  // Filter and sort by score
-  return results
-    .filter(r => r.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .map(r => r.scheme);
+  return new SchemeSearchIndex(schemes, processedSchemeToDocument)
+    .search(query)
+    .map(hit => hit.item);
 }
 
 /**
- * Get schemes relevant to user profile
+ * Get schemes relevant to user profile. Schemes the user's location cannot
+ * avail (another state's schemes) are left out.
  */
 export function getSchemesForProfile(
   schemes: ProcessedScheme[],
   profile: UserProfile
 ): ProcessedScheme[] {
-  const scored = schemes.map(scheme => ({
+  const scored = filterSchemesByLocation(schemes, profile.location).map(scheme => ({
     scheme,
     score: calculateProfileRelevanceScore(scheme, profile)
   }));
@@ -184,6 +218,13 @@ export function calculateProfileRelevanceScore(
 ): number {
   let score = 0;
 
+  // Structured rules take precedence over keyword matching
+  if (scheme.eligibilityRules) {
+    const verdict = evaluateEligibility(scheme, profile).status;
+    if (verdict === 'not_eligible') return 0;
+    if (verdict === 'eligible') score += 6;
+  }
+
   // Location match
   if (profile.location) {
     if (profile.location.isRural && scheme.targetAudience.includes('Rural Enterprises')) {
@@ -261,16 +302,19 @@ export function getSchemesByFinancialNeed(
 
 /**
  * Get complementary schemes
- * (Schemes that work well together)
+ * (Schemes that work well together). Curated stacking partners come first;
+ * schemes that cannot be claimed with the primary are never suggested.
  */
 export function getComplementarySchemes(
   primaryScheme: ProcessedScheme,
   allSchemes: ProcessedScheme[]
 ): ProcessedScheme[] {
-  const complementary: ProcessedScheme[] = [];
+  const complementary = getStackingSchemes(primaryScheme, allSchemes);
 
-  // Don't include the primary scheme
-  const otherSchemes = allSchemes.filter(s => s.id !== primaryScheme.id);
+  // Don't include the primary scheme or schemes it excludes
+  const otherSchemes = allSchemes.filter(s =>
+    s.id !== primaryScheme.id && canCombine(primaryScheme, s)
+  );
 
   otherSchemes.forEach(scheme => {
     // If primary is loan, suggest subsidy schemes
@@ -297,7 +341,7 @@ export function getComplementarySchemes(
   });
 
   // Return top 3 complementary schemes
-  return complementary.slice(0, 3);
+  return Array.from(new Set(complementary)).slice(0, 3);
 }
 
 /**
@@ -372,10 +416,23 @@ export function rankSchemes(
   factors: {
     userProfile?: UserProfile;
     searchQuery?: string;
+    retrievalScores?: Map<string, number>; // 0-1 hybrid retrieval scores by scheme id
     preferOnline?: boolean;
     preferHighSubsidy?: boolean;
   }
 ): ProcessedScheme[] {
+  // Score the query once across all schemes so IDF reflects the catalogue
+  const searchScores = new Map<string, number>();
+  let topSearchScore = 0;
+  if (factors.searchQuery) {
+    new SchemeSearchIndex(schemes, processedSchemeToDocument)
+      .search(factors.searchQuery)
+      .forEach(hit => {
+        searchScores.set(hit.item.id, hit.score);
+        topSearchScore = Math.max(topSearchScore, hit.score);
+      });
+  }
+
   const scored = schemes.map(scheme => {
     let score = scheme.relevanceScore || 0;
 
@@ -385,11 +442,15 @@ export function rankSchemes(
     }
 
     // Search relevance
-    if (factors.searchQuery) {
-      const searchResult = searchInSchemes([scheme], factors.searchQuery);
-      if (searchResult.length > 0) {
-        score += 5;
-      }
+    const searchScore = searchScores.get(scheme.id);
+    if (searchScore !== undefined) {
+      score += 5 + (searchScore / topSearchScore) * 5;
+    }
+
+    // Precomputed retrieval relevance (keyword + semantic)
+    const retrievalScore = factors.retrievalScores?.get(scheme.id);
+    if (retrievalScore !== undefined) {
+      score += retrievalScore * 10;
     }
 
     // Online application preference
@@ -419,30 +480,6 @@ export function rankSchemes(
 
 // Helper functions
 
-/**
- * Tokenize text for fuzzy matching
- */
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, '')
-    .split(/\s+/)
-    .filter(token => token.length > 2);
-}
-
-/**
- * Calculate token match score
- */
-function calculateTokenMatchScore(tokens1: string[], tokens2: string[]): number {
-  let matches = 0;
-  tokens2.forEach(token2 => {
-    if (tokens1.some(token1 => token1.includes(token2) || token2.includes(token1))) {
-      matches++;
-    }
-  });
-  return matches / Math.max(tokens2.length, 1);
-}
-
 /**
  * Extract key information for quick reference
  */
@@ -488,4 +525,17 @@ export function formatAmount(amount: number): string {
     return `${(amount / 1000).toFixed(0)}K`;
   }
   return amount.toString();
-}
\ No newline at end of file
+}
+
+// Number of schemes /schemes/compare lines up side by side
+export const MIN_COMPARE_SCHEMES = 2;
+export const MAX_COMPARE_SCHEMES = 4;
+
+/**
+ * Shareable URL of the comparison view for scheme IDs (or official names)
+ */
+export function buildCompareUrl(keys: string[]): string {
+  const params = new URLSearchParams();
+  keys.forEach(key => params.append('id', key));
+  return `/schemes/compare?${params.toString()}`;
+}
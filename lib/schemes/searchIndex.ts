@@ -0,0 +1,267 @@
+import { ProcessedScheme, SchemeData } from '@/types/scheme';
+import { editDistance, expandQuery, tokenizeForSearch } from './queryExpansion';
+
+/**
+ * Inverted index for ranked scheme search
+ *
+ * Each scheme is split into weighted fields (name > tags > audience >
+ * benefits > eligibility > description) and scored BM25-style per field.
+ * Query words are expanded across English, Hinglish and Devanagari before
+ * lookup (see queryExpansion.ts); words missing from the index fall back to
+ * prefix matches (partial typing) and typo matches (edit distance 1-2).
+ *
+ * The index is generic over the item type so the /schemes page can index
+ * raw schemes.json entries while services index ProcessedScheme.
+ */
+
+export type SearchField = 'name' | 'tags' | 'audience' | 'benefits' | 'eligibility' | 'description';
+
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 6,
+  tags: 4,
+  audience: 3,
+  benefits: 2.5,
+  eligibility: 2,
+  description: 1
+};
+
+export interface SearchDocument {
+  fields: Partial<Record<SearchField, string | string[] | null | undefined>>;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  matchedFields: SearchField[];
+  matchedTerms: string[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  minScore?: number;
+}
+
+type FieldFrequencies = Partial<Record<SearchField, number>>;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Relative weight of fallback matches
+const PREFIX_WEIGHT = 0.7;
+const TYPO_WEIGHT = 0.6;
+
+// Bonus when the whole query appears in the scheme name
+const NAME_PHRASE_BOOST = 1.5;
+
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+export class SchemeSearchIndex<T> {
+  private items: T[];
+  private postings = new Map<string, Map<number, FieldFrequencies>>();
+  private fieldLengths: FieldFrequencies[] = [];
+  private averageFieldLengths = {} as Record<SearchField, number>;
+  private names: string[] = [];
+  private vocabulary: string[] = [];
+
+  constructor(items: T[], toDocument: (item: T) => SearchDocument) {
+    this.items = items;
+
+    items.forEach((item, docIndex) => {
+      const document = toDocument(item);
+      const lengths: FieldFrequencies = {};
+
+      FIELDS.forEach(field => {
+        const value = document.fields[field];
+        if (!value) return;
+
+        const text = Array.isArray(value) ? value.join(' \n ') : value;
+        const tokens = tokenizeForSearch(text);
+        lengths[field] = tokens.length;
+
+        tokens.forEach(token => {
+          let docs = this.postings.get(token);
+          if (!docs) {
+            docs = new Map();
+            this.postings.set(token, docs);
+          }
+          const frequencies = docs.get(docIndex) || {};
+          frequencies[field] = (frequencies[field] || 0) + 1;
+          docs.set(docIndex, frequencies);
+        });
+      });
+
+      const name = document.fields.name;
+      this.names.push((Array.isArray(name) ? name.join(' ') : name || '').toLowerCase());
+      this.fieldLengths.push(lengths);
+    });
+
+    FIELDS.forEach(field => {
+      const total = this.fieldLengths.reduce((sum, lengths) => sum + (lengths[field] || 0), 0);
+      this.averageFieldLengths[field] = items.length > 0 ? total / items.length : 0;
+    });
+
+    this.vocabulary = Array.from(this.postings.keys());
+  }
+
+  /**
+   * Number of indexed items
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Search the index, best matches first
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit<T>[] {
+    const { limit, minScore = 0 } = options;
+    const queryTerms = expandQuery(query);
+    if (queryTerms.length === 0) return [];
+
+    const totals = new Map<number, { score: number; matchedTerms: number; fields: Set<SearchField>; terms: Set<string> }>();
+
+    queryTerms.forEach(queryTerm => {
+      // Best score per document for this query word across all its variants
+      const termScores = new Map<number, number>();
+
+      queryTerm.variants.forEach((variant, variantIndex) => {
+        // Fallbacks only for the word as typed, not for synonyms
+        const lookups = variantIndex === 0
+          ? this.resolveTerm(variant.term)
+          : this.postings.has(variant.term) ? [{ term: variant.term, weight: 1 }] : [];
+
+        lookups.forEach(lookup => {
+          const docs = this.postings.get(lookup.term);
+          if (!docs) return;
+
+          const idf = this.idf(docs.size);
+
+          docs.forEach((frequencies, docIndex) => {
+            let fieldScore = 0;
+            const total = totals.get(docIndex) || {
+              score: 0,
+              matchedTerms: 0,
+              fields: new Set<SearchField>(),
+              terms: new Set<string>()
+            };
+
+            (Object.keys(frequencies) as SearchField[]).forEach(field => {
+              const tf = frequencies[field] || 0;
+              const lengthRatio = (this.fieldLengths[docIndex][field] || 0) /
+                (this.averageFieldLengths[field] || 1);
+              fieldScore += FIELD_WEIGHTS[field] * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * lengthRatio));
+              total.fields.add(field);
+            });
+
+            total.terms.add(lookup.term);
+            totals.set(docIndex, total);
+
+            const score = variant.weight * lookup.weight * idf * fieldScore;
+            termScores.set(docIndex, Math.max(termScores.get(docIndex) || 0, score));
+          });
+        });
+      });
+
+      termScores.forEach((score, docIndex) => {
+        const total = totals.get(docIndex)!;
+        total.score += score;
+        total.matchedTerms++;
+      });
+    });
+
+    const phrase = query.trim().toLowerCase();
+    const hits: SearchHit<T>[] = [];
+
+    totals.forEach((total, docIndex) => {
+      // Prefer schemes that match more of the query words
+      let score = total.score * (total.matchedTerms / queryTerms.length);
+      if (phrase.length >= 3 && this.names[docIndex].includes(phrase)) {
+        score *= NAME_PHRASE_BOOST;
+      }
+
+      if (score > minScore) {
+        hits.push({
+          item: this.items[docIndex],
+          score: Math.round(score * 100) / 100,
+          matchedFields: FIELDS.filter(field => total.fields.has(field)),
+          matchedTerms: Array.from(total.terms)
+        });
+      }
+    });
+
+    hits.sort((a, b) => b.score - a.score);
+    return limit ? hits.slice(0, limit) : hits;
+  }
+
+  /**
+   * Index terms for a query word: exact match, else prefix and typo matches
+   */
+  private resolveTerm(term: string): Array<{ term: string; weight: number }> {
+    if (this.postings.has(term)) {
+      return [{ term, weight: 1 }];
+    }
+
+    const matches: Array<{ term: string; weight: number }> = [];
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+    this.vocabulary.forEach(candidate => {
+      if (term.length >= 3 && candidate.startsWith(term)) {
+        matches.push({ term: candidate, weight: PREFIX_WEIGHT });
+      } else if (maxDistance > 0) {
+        const distance = editDistance(term, candidate, maxDistance);
+        if (distance <= maxDistance) {
+          matches.push({ term: candidate, weight: TYPO_WEIGHT / distance });
+        }
+      }
+    });
+
+    return matches;
+  }
+
+  /**
+   * BM25 inverse document frequency
+   */
+  private idf(documentFrequency: number): number {
+    const total = this.items.length;
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+}
+
+// ============================================================================
+// Document Builders
+// ============================================================================
+
+/**
+ * Searchable fields of a processed scheme
+ */
+export function processedSchemeToDocument(scheme: ProcessedScheme): SearchDocument {
+  return {
+    fields: {
+      name: [scheme.name, scheme.shortName || ''],
+      tags: [...scheme.tags, scheme.category],
+      audience: scheme.targetAudience,
+      benefits: scheme.keyBenefits,
+      eligibility: scheme.eligibilityCriteria,
+      description: [scheme.summary, scheme.fullDescription, scheme.ministry]
+    }
+  };
+}
+
+/**
+ * Searchable fields of a raw schemes.json entry
+ */
+export function rawSchemeToDocument(
+  scheme: Pick<SchemeData, 'scheme_name' | 'description' | 'benefits' | 'eligibility'> &
+    Partial<Pick<SchemeData, 'tags' | 'ministry' | 'details'>>
+): SearchDocument {
+  return {
+    fields: {
+      name: scheme.scheme_name,
+      tags: scheme.tags,
+      benefits: scheme.benefits,
+      eligibility: scheme.eligibility,
+      description: [scheme.description, scheme.details || '', scheme.ministry || '']
+    }
+  };
+}
@@ -0,0 +1,93 @@
+import { ProcessedScheme } from '@/types/scheme';
+
+/**
+ * Search engine and link preview metadata for scheme pages
+ *
+ * Builds the canonical page URLs and the schema.org GovernmentService
+ * JSON-LD embedded in /schemes/<slug>, so search engines can show schemes
+ * as government services.
+ */
+
+/**
+ * Public origin of the site, for canonical URLs, OpenGraph and the sitemap
+ */
+export const SITE_URL = (process.env.NEXT_PUBLIC_APP_URL || 'https://msmemitr.gov.in').replace(/\/+$/, '');
+
+/**
+ * Absolute URL of a scheme's detail page
+ */
+export function getSchemePageUrl(scheme: Pick<ProcessedScheme, 'slug'>): string {
+  return `${SITE_URL}/schemes/${scheme.slug}`;
+}
+
+/**
+ * Short description for meta tags: the full description, cut at a word
+ * boundary
+ */
+export function getSchemeMetaDescription(scheme: ProcessedScheme, maxLength = 160): string {
+  const text = (scheme.fullDescription || scheme.summary).replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * schema.org GovernmentService for a scheme. Central schemes are served
+ * across India; state and district schemes in their states.
+ */
+export function buildSchemeJsonLd(scheme: ProcessedScheme): Record<string, unknown> {
+  const pageUrl = getSchemePageUrl(scheme);
+  const states = scheme.jurisdiction.level !== 'central' ? scheme.jurisdiction.states || [] : [];
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'GovernmentService',
+    '@id': pageUrl,
+    name: scheme.name,
+    description: scheme.fullDescription || scheme.summary,
+    url: pageUrl,
+    serviceType: scheme.category,
+    areaServed: states.length > 0
+      ? states.map(state => ({ '@type': 'State', name: state, containedInPlace: { '@type': 'Country', name: 'India' } }))
+      : { '@type': 'Country', name: 'India' },
+    audience: {
+      '@type': 'BusinessAudience',
+      audienceType: scheme.targetAudience.length > 0 ? scheme.targetAudience.join(', ') : 'MSMEs'
+    }
+  };
+
+  if (scheme.ministry) {
+    jsonLd.provider = {
+      '@type': 'GovernmentOrganization',
+      name: scheme.ministry
+    };
+  }
+
+  if (scheme.shortName && scheme.shortName !== scheme.name) {
+    jsonLd.alternateName = scheme.shortName;
+  }
+
+  if (scheme.url) {
+    jsonLd.sameAs = scheme.url;
+  }
+
+  const serviceUrl = scheme.applicationUrls[0] || scheme.url;
+  if (serviceUrl) {
+    jsonLd.availableChannel = {
+      '@type': 'ServiceChannel',
+      serviceUrl
+    };
+  }
+
+  return jsonLd;
+}
+
+/**
+ * Serialize JSON-LD for a <script> tag. Escapes "<" so scheme text cannot
+ * close the tag.
+ */
+export function serializeJsonLd(jsonLd: Record<string, unknown>): string {
+  return JSON.stringify(jsonLd).replace(/</g, '\\u003c');
+}
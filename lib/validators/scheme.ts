@@ -0,0 +1,207 @@
+import { z } from 'zod'
+import { SchemeCategory } from '@/types/scheme'
+
+/**
+ * Scraped scheme record validation schema
+ *
+ * Applied after cleanup (see lib/schemes/ingestion.ts), so 'None' strings
+ * are already null and stringified Python dicts are already objects.
+ */
+export const schemeRecordSchema = z.object({
+  scheme_name: z
+    .string()
+    .min(3, 'Scheme name must be at least 3 characters')
+    .max(300, 'Scheme name must be less than 300 characters'),
+  scheme_url: z
+    .string()
+    .url('Scheme URL must be a valid URL')
+    .nullable(),
+  ministry: z.string().min(1).nullable(),
+  description: z.string().nullable(),
+  tags: z.array(z.string().min(1)),
+  details: z.string().nullable(),
+  benefits: z.string().nullable(),
+  eligibility: z.string().nullable(),
+  application_process: z
+    .object({
+      content: z.string().min(1, 'Application process content is empty'),
+      has_tabs: z.boolean().optional(),
+    })
+    .nullable(),
+  documents_required: z.string().nullable(),
+  faqs: z.array(z.unknown()).nullable(),
+  sources: z.array(z.object({
+    text: z.string(),
+    url: z.string().url('Source URL must be a valid URL'),
+  })),
+}).refine((record) => Boolean(record.description || record.details || record.benefits), {
+  message: 'At least one of description, details or benefits is required',
+  path: ['description'],
+})
+
+export type SchemeRecord = z.infer<typeof schemeRecordSchema>
+
+/**
+ * Subsidy and loan calculator request validation schema
+ */
+export const loanCalculatorSchema = z.object({
+  scheme: z.string().min(1, 'Scheme ID or name is required'),
+  projectCost: z
+    .number()
+    .positive('Project cost must be greater than zero')
+    .max(1000000000, 'Project cost must be at most ₹100 crore'),
+  areaType: z.enum(['urban', 'rural']),
+  category: z.enum(['general', 'special']),
+  sector: z.enum(['manufacturing', 'services', 'trading', 'agriculture']).optional(),
+  interestRate: z
+    .number()
+    .min(0, 'Interest rate cannot be negative')
+    .max(36, 'Interest rate must be at most 36%')
+    .optional(),
+  tenureYears: z
+    .number()
+    .positive('Tenure must be greater than zero')
+    .max(30, 'Tenure must be at most 30 years')
+    .optional(),
+})
+
+export type LoanCalculatorRequest = z.infer<typeof loanCalculatorSchema>
+
+/**
+ * Document checklist request validation schema
+ */
+export const documentChecklistSchema = z.object({
+  schemes: z
+    .array(z.string().min(1))
+    .min(1, 'At least one scheme ID or name is required')
+    .max(10, 'At most 10 schemes per checklist'),
+  profile: z
+    .object({
+      category: z.enum(['general', 'sc', 'st', 'obc', 'minority']).optional(),
+      businessConstitution: z
+        .enum(['proprietorship', 'partnership', 'llp', 'company', 'society'])
+        .optional(),
+      businessStage: z.enum(['planning', 'new', 'existing', 'expansion']).optional(),
+      areaType: z.enum(['urban', 'rural']).optional(),
+    })
+    .optional(),
+})
+
+export type DocumentChecklistRequest = z.infer<typeof documentChecklistSchema>
+
+/**
+ * Chat tool input: scheme search
+ */
+export const schemeSearchToolSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, 'Search query is required')
+    .max(200, 'Search query must be at most 200 characters'),
+  categories: z.array(z.enum(SchemeCategory)).optional(),
+  state: z.string().trim().min(1).optional(),
+  limit: z.number().int().min(1).max(10).default(5),
+})
+
+export type SchemeSearchToolInput = z.infer<typeof schemeSearchToolSchema>
+
+/**
+ * Chat tool input: one scheme's details
+ */
+export const schemeDetailsToolSchema = z.object({
+  scheme: z.string().min(1, 'Scheme ID or name is required'),
+})
+
+export type SchemeDetailsToolInput = z.infer<typeof schemeDetailsToolSchema>
+
+/**
+ * Chat tool input: eligibility check. profile holds what the user said in
+ * chat and overrides their saved profile.
+ */
+export const eligibilityCheckToolSchema = z.object({
+  schemes: z
+    .array(z.string().min(1))
+    .min(1, 'At least one scheme ID or name is required')
+    .max(10, 'At most 10 schemes per check'),
+  profile: z
+    .object({
+      age: z.number().int().min(0).max(120).optional(),
+      gender: z.enum(['female', 'male', 'other']).optional(),
+      category: z.enum(['general', 'sc', 'st', 'obc', 'minority']).optional(),
+      state: z.string().trim().min(1).optional(),
+      areaType: z.enum(['urban', 'rural']).optional(),
+      businessStage: z.enum(['planning', 'new', 'existing', 'expansion']).optional(),
+      businessSize: z.enum(['Micro', 'Small', 'Medium']).optional(),
+      sector: z.string().trim().min(1).optional(),
+      annualTurnover: z.number().min(0).optional(),
+      investment: z.number().min(0).optional(),
+    })
+    .optional(),
+})
+
+export type EligibilityCheckToolInput = z.infer<typeof eligibilityCheckToolSchema>
+
+/**
+ * Chat tool and saved schemes API input: save a scheme to the signed-in
+ * user's list
+ */
+export const saveSchemeToolSchema = z.object({
+  scheme: z.string().min(1, 'Scheme ID or name is required'),
+  notes: z.string().trim().max(500, 'Notes must be at most 500 characters').optional(),
+})
+
+export type SaveSchemeToolInput = z.infer<typeof saveSchemeToolSchema>
+
+/**
+ * Comma-separated or repeated query parameter, e.g. ?tags=a,b&tags=c
+ */
+const queryList = <T extends z.ZodType>(item: T) =>
+  z.preprocess(
+    (value) => (Array.isArray(value) ? value : [value])
+      .flatMap((entry) => String(entry).split(','))
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    z.array(item)
+  )
+
+/**
+ * Query parameters shared by the public v1 scheme endpoints
+ */
+const publicSchemeQueryBase = z.object({
+  fields: queryList(z.string()).optional(),
+  lang: z.string().trim().toLowerCase().optional(),
+})
+
+/**
+ * Public scheme list query validation schema (GET /api/v1/schemes).
+ * Filters mirror SchemeFilter.
+ */
+export const schemeListQuerySchema = publicSchemeQueryBase.extend({
+  categories: queryList(z.enum(SchemeCategory, 'Unknown scheme category')).optional(),
+  tags: queryList(z.string()).optional(),
+  targetAudience: queryList(z.string()).optional(),
+  ministry: z.string().trim().min(1).optional(),
+  state: z.string().trim().min(1).optional(),
+  district: z.string().trim().min(1).optional(),
+  hasOnlineApplication: z
+    .enum(['true', 'false'], 'hasOnlineApplication must be true or false')
+    .transform((value) => value === 'true')
+    .optional(),
+  searchQuery: z.string().trim().min(1).max(200, 'Search query must be at most 200 characters').optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+    .default(20),
+})
+
+export type SchemeListQuery = z.infer<typeof schemeListQuerySchema>
+
+/**
+ * Public single scheme query validation schema (GET /api/v1/schemes/:id)
+ */
+export const schemeDetailQuerySchema = publicSchemeQueryBase
+
+export type SchemeDetailQuery = z.infer<typeof schemeDetailQuerySchema>
@@ -52,6 +52,7 @@ export async function middleware(request: NextRequest) {
   const protectedRoutes = [
     '/chat',
     '/profile',
+    '/notifications',
     '/dashboard',
     '/applications',
     '/eligibility',
@@ -0,0 +1,152 @@
+/**
+ * Scheme Data Quality Audit Script
+ *
+ * Audits every row of the schemes table (active and inactive) for data
+ * problems: empty or placeholder fields ('None', '[]'), stringified JSON in
+ * JSONB columns, missing financial details or documents lists, schemes that
+ * categorise as MIXED, duplicate names, and malformed or duplicate URLs.
+ * Prints a per-scheme score (100 = no issues). Read-only.
+ *
+ * The same report is shown in the admin area at /admin/catalogue/audit.
+ *
+ * Usage:
+ *   npm run audit:schemes
+ *
+ *   # Save the full report as JSON
+ *   npm run audit:schemes -- --report audit-report.json
+ *
+ *   # Exit with an error if any active scheme scores below 60 (for CI)
+ *   npm run audit:schemes -- --fail-under 60
+ *
+ * Environment Variables:
+ *   NEXT_PUBLIC_SUPABASE_URL - Supabase project URL
+ *   SUPABASE_SERVICE_ROLE_KEY - Service role key
+ */
+
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+// Try to load .env.local first, then .env
+config({ path: resolve(process.cwd(), '.env.local') })
+config({ path: resolve(process.cwd(), '.env') })
+
+import * as fs from 'fs'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { SchemeService } from '@/services/database/schemeService'
+import {
+  auditSchemes,
+  AuditCheck,
+  AUDIT_CHECK_LABELS,
+  SchemeAuditReport
+} from '@/lib/schemes/schemeAudit'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+interface AuditOptions {
+  reportPath: string | null
+  failUnder: number | null
+}
+
+function parseArgs(argv: string[]): AuditOptions {
+  const args = [...argv]
+  let reportPath: string | null = null
+  let failUnder: number | null = null
+
+  while (args.length > 0) {
+    const arg = args.shift()!
+    if (arg === '--report') {
+      reportPath = args.shift() || null
+      if (!reportPath) throw new Error('--report requires a path')
+    } else if (arg === '--fail-under') {
+      failUnder = Number(args.shift())
+      if (!Number.isFinite(failUnder) || failUnder < 0 || failUnder > 100) {
+        throw new Error('--fail-under must be a score from 0 to 100')
+      }
+    } else {
+      throw new Error(`Unknown option: ${arg}\nUsage: npm run audit:schemes -- [--report <path>] [--fail-under <score>]`)
+    }
+  }
+
+  return { reportPath, failUnder }
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+function printReport(report: SchemeAuditReport) {
+  console.log(`\n📊 Data Quality Report (${report.schemeCount} schemes)`)
+  console.log(`   Average score: ${report.averageScore}/100`)
+  console.log(`   Schemes with no issues: ${report.schemes.filter(s => s.issues.length === 0).length}`)
+
+  console.log('\n🔎 Issues by check:')
+  ;(Object.keys(AUDIT_CHECK_LABELS) as AuditCheck[]).forEach(check => {
+    console.log(`   ${AUDIT_CHECK_LABELS[check]}: ${report.issueCounts[check]}`)
+  })
+
+  const flagged = report.schemes.filter(s => s.issues.length > 0)
+  if (flagged.length > 0) {
+    console.log('\n⚠️  Schemes with issues (lowest score first):')
+    flagged.forEach(scheme => {
+      const status = scheme.is_active ? '' : ' [inactive]'
+      console.log(`\n   ${scheme.score}/100  ${scheme.scheme_name}${status}`)
+      scheme.issues.forEach(issue => {
+        const icon = issue.severity === 'error' ? '❌' : '⚠️ '
+        console.log(`      ${icon} ${issue.message}`)
+      })
+    })
+  }
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function auditSchemesTable() {
+  console.log('🚀 Starting scheme data quality audit...\n')
+
+  try {
+    const options = parseArgs(process.argv.slice(2))
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    }
+
+    const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    })
+    const service = new SchemeService(supabase as unknown as ConstructorParameters<typeof SchemeService>[0])
+
+    console.log('🔍 Loading catalogue...')
+    const schemes = await service.listAllSchemes()
+    console.log(`✅ Found ${schemes.length} schemes in database`)
+
+    const report = auditSchemes(schemes)
+    printReport(report)
+
+    if (options.reportPath) {
+      fs.writeFileSync(resolve(process.cwd(), options.reportPath), JSON.stringify(report, null, 2))
+      console.log(`\n💾 Report written to ${options.reportPath}`)
+    }
+
+    if (options.failUnder !== null) {
+      const failing = report.schemes.filter(s => s.is_active && s.score < options.failUnder!)
+      if (failing.length > 0) {
+        console.error(`\n❌ ${failing.length} active schemes score below ${options.failUnder}`)
+        process.exit(1)
+      }
+    }
+
+    console.log('\n✨ Audit complete')
+  } catch (error) {
+    console.error('\n❌ Audit failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+auditSchemesTable()
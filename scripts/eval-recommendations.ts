@@ -0,0 +1,238 @@
+/**
+ * Recommendation Evaluation Script
+ *
+ * Runs the test conversations in data/eval/conversations.json through the
+ * context builder, the chat model with the scheme tools, and extraction,
+ * offline, and scores retrieval recall of the expected schemes, intent
+ * classification and extracted attributes. Prints the scores next to the
+ * stored baseline (data/eval/baseline.json).
+ *
+ * Usage:
+ *   npm run eval:recommendations
+ *
+ *   # Use the scripted mock model only, ignoring stored replies
+ *   npm run eval:recommendations -- --provider mock
+ *
+ *   # Save the comparison as a Markdown report
+ *   npm run eval:recommendations -- --report eval-report.md
+ *
+ *   # Exit with an error if an overall score drops below the baseline (for CI)
+ *   npm run eval:recommendations -- --fail-on-regression
+ *
+ *   # Store this run as the new baseline
+ *   npm run eval:recommendations -- --update-baseline
+ *
+ * Needs no API keys or database; scores use the checked-in data/schemes.json.
+ */
+
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+// Try to load .env.local first, then .env
+config({ path: resolve(process.cwd(), '.env.local') })
+config({ path: resolve(process.cwd(), '.env') })
+
+import * as fs from 'fs'
+import type {
+  EvalBaseline,
+  EvalComparison,
+  EvalMetric,
+  EvalProviderMode,
+  EvalRun
+} from '@/services/evaluation/recommendationEval'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_SUITE_PATH = 'data/eval/conversations.json'
+const DEFAULT_BASELINE_PATH = 'data/eval/baseline.json'
+
+interface EvalOptions {
+  provider: EvalProviderMode
+  suitePath: string
+  baselinePath: string
+  reportPath: string | null
+  updateBaseline: boolean
+  failOnRegression: boolean
+  verbose: boolean
+}
+
+function parseArgs(argv: string[]): EvalOptions {
+  const args = [...argv]
+  const options: EvalOptions = {
+    provider: 'recorded',
+    suitePath: DEFAULT_SUITE_PATH,
+    baselinePath: DEFAULT_BASELINE_PATH,
+    reportPath: null,
+    updateBaseline: false,
+    failOnRegression: false,
+    verbose: false
+  }
+
+  while (args.length > 0) {
+    const arg = args.shift()!
+    if (arg === '--provider') {
+      const provider = args.shift()
+      if (provider !== 'mock' && provider !== 'recorded') {
+        throw new Error('--provider must be mock or recorded')
+      }
+      options.provider = provider
+    } else if (arg === '--suite' || arg === '--baseline' || arg === '--report') {
+      const path = args.shift()
+      if (!path) throw new Error(`${arg} requires a path`)
+      if (arg === '--suite') options.suitePath = path
+      if (arg === '--baseline') options.baselinePath = path
+      if (arg === '--report') options.reportPath = path
+    } else if (arg === '--update-baseline') {
+      options.updateBaseline = true
+    } else if (arg === '--fail-on-regression') {
+      options.failOnRegression = true
+    } else if (arg === '--verbose') {
+      options.verbose = true
+    } else {
+      throw new Error(
+        `Unknown option: ${arg}\nUsage: npm run eval:recommendations -- [--provider mock|recorded] [--suite <path>] ` +
+        '[--baseline <path>] [--report <path>] [--update-baseline] [--fail-on-regression] [--verbose]'
+      )
+    }
+  }
+
+  return options
+}
+
+function readJson(path: string): unknown {
+  return JSON.parse(fs.readFileSync(resolve(process.cwd(), path), 'utf-8'))
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+function formatScore(value: number | null | undefined): string {
+  return value === null || value === undefined ? '    -' : `${(value * 100).toFixed(1).padStart(5)}%`
+}
+
+function printResults(
+  run: EvalRun,
+  comparison: EvalComparison | null,
+  labels: Record<EvalMetric, string>
+) {
+  const metrics = Object.keys(labels) as EvalMetric[]
+
+  console.log(`\n📊 Scores (${run.cases.length} cases, ${run.provider} provider)`)
+  console.log(`   ${'Metric'.padEnd(22)} Baseline  Current`)
+  metrics.forEach(metric => {
+    const change = comparison?.metrics.find(candidate => candidate.metric === metric)
+    const icon = change?.delta !== null && change?.delta !== undefined
+      ? (change.delta < -0.005 ? '❌' : change.delta > 0.005 ? '✅' : '  ')
+      : '  '
+    console.log(`   ${labels[metric].padEnd(22)} ${formatScore(change?.baseline)}   ${formatScore(run.metrics[metric])} ${icon}`)
+  })
+
+  console.log('\n🌐 By language:')
+  Object.entries(run.groups).forEach(([group, groupMetrics]) => {
+    const scores = metrics
+      .map(metric => `${labels[metric]} ${formatScore(groupMetrics[metric]).trim()}`)
+      .join(', ')
+    console.log(`   ${group}: ${scores}`)
+  })
+
+  if (!comparison) {
+    console.log('\nℹ️  No baseline to compare with; store one with --update-baseline')
+    return
+  }
+
+  if (!comparison.comparable) {
+    console.log('\n⚠️  The baseline was run with a different provider or suite version')
+  }
+
+  if (comparison.regressions.length > 0) {
+    console.log('\n❌ Regressed cases:')
+    comparison.regressions.forEach(change => {
+      console.log(`   ${change.caseId}: ${labels[change.metric]} ${formatScore(change.baseline).trim()} → ${formatScore(change.current).trim()}`)
+    })
+  }
+
+  if (comparison.improvements.length > 0) {
+    console.log('\n✅ Improved cases:')
+    comparison.improvements.forEach(change => {
+      console.log(`   ${change.caseId}: ${labels[change.metric]} ${formatScore(change.baseline).trim()} → ${formatScore(change.current).trim()}`)
+    })
+  }
+
+  if (comparison.newCases.length > 0) {
+    console.log(`\n🆕 Not in baseline: ${comparison.newCases.join(', ')}`)
+  }
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function evaluateRecommendations() {
+  console.log('🚀 Starting recommendation evaluation...\n')
+
+  try {
+    const options = parseArgs(process.argv.slice(2))
+
+    // Score against the checked-in catalogue, never the database. Set before
+    // the services load, as the scheme service picks its mode on import.
+    process.env.SCHEME_DATA_SOURCE = 'json'
+    const {
+      parseEvalSuite,
+      runEvaluation,
+      toBaseline,
+      compareWithBaseline,
+      hasRegressed,
+      formatEvalReport,
+      EVAL_METRIC_LABELS
+    } = await import('@/services/evaluation/recommendationEval')
+
+    const suite = parseEvalSuite(readJson(options.suitePath))
+    console.log(`🧪 Loaded ${suite.cases.length} test conversations from ${options.suitePath}`)
+
+    const baselinePath = resolve(process.cwd(), options.baselinePath)
+    const baseline = fs.existsSync(baselinePath) ? readJson(options.baselinePath) as EvalBaseline : null
+
+    // The chat and extraction services log every step; keep the output to scores
+    const log = { log: console.log, warn: console.warn }
+    if (!options.verbose) {
+      console.log = () => {}
+      console.warn = () => {}
+    }
+
+    let run: EvalRun
+    try {
+      run = await runEvaluation(suite, options.provider)
+    } finally {
+      console.log = log.log
+      console.warn = log.warn
+    }
+
+    const comparison = baseline ? compareWithBaseline(run, baseline) : null
+    printResults(run, comparison, EVAL_METRIC_LABELS)
+
+    if (options.reportPath) {
+      fs.writeFileSync(resolve(process.cwd(), options.reportPath), formatEvalReport(run, comparison))
+      console.log(`\n💾 Report written to ${options.reportPath}`)
+    }
+
+    if (options.updateBaseline) {
+      fs.writeFileSync(baselinePath, `${JSON.stringify(toBaseline(run), null, 2)}\n`)
+      console.log(`\n💾 Baseline written to ${options.baselinePath}`)
+    } else if (options.failOnRegression && comparison && hasRegressed(comparison)) {
+      console.error('\n❌ Scores dropped below the baseline')
+      process.exit(1)
+    }
+
+    console.log('\n✨ Evaluation complete')
+    // The conversation manager's session cleanup timer would keep the process alive
+    process.exit(0)
+  } catch (error) {
+    console.error('\n❌ Evaluation failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+evaluateRecommendations()
@@ -0,0 +1,284 @@
+/**
+ * Scheme Ingestion Script
+ *
+ * Loads a scraped scheme dump (SchemesDatabase JSON or CSV), cleans and
+ * validates every record, merges duplicates and compares the result with the
+ * schemes table. By default it only prints the planned inserts, updates and
+ * deactivations; nothing is written until --apply is passed.
+ *
+ * Usage:
+ *   # Dry run: print the report
+ *   npm run ingest:schemes -- data/schemes.json
+ *
+ *   # Save the report as JSON
+ *   npm run ingest:schemes -- dump.csv --report ingest-report.json
+ *
+ *   # Write the changes (revisions are recorded for each scheme)
+ *   npm run ingest:schemes -- dump.csv --apply [--deactivate-missing]
+ *
+ * Options:
+ *   --format json|csv      Input format (default: from the file extension)
+ *   --apply                Write inserts and updates to the database
+ *   --deactivate-missing   Deactivate active schemes absent from the dump
+ *   --report <path>        Write the full report as JSON
+ *
+ * Environment Variables:
+ *   NEXT_PUBLIC_SUPABASE_URL - Supabase project URL
+ *   SUPABASE_SERVICE_ROLE_KEY - Service role key (required for --apply)
+ */
+
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+// Try to load .env.local first, then .env
+config({ path: resolve(process.cwd(), '.env.local') })
+config({ path: resolve(process.cwd(), '.env') })
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { createClient } from '@supabase/supabase-js'
+import type { Database, Scheme } from '@/types/database'
+import { SchemeService, SchemeAuthor } from '@/services/database/schemeService'
+import {
+  buildIngestionReport,
+  parseSchemeDump,
+  IngestionFormat,
+  IngestionReport
+} from '@/lib/schemes/ingestion'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+interface IngestOptions {
+  file: string
+  format: IngestionFormat
+  apply: boolean
+  deactivateMissing: boolean
+  reportPath: string | null
+}
+
+// Revisions written by this script are attributed to the job, not a user
+const INGEST_AUTHOR: SchemeAuthor = { id: null, email: 'ingest-schemes' }
+
+function parseArgs(argv: string[]): IngestOptions {
+  const args = [...argv]
+  let file: string | null = null
+  let format: IngestionFormat | null = null
+  let apply = false
+  let deactivateMissing = false
+  let reportPath: string | null = null
+
+  while (args.length > 0) {
+    const arg = args.shift()!
+    if (arg === '--apply') {
+      apply = true
+    } else if (arg === '--deactivate-missing') {
+      deactivateMissing = true
+    } else if (arg === '--format') {
+      const value = args.shift()
+      if (value !== 'json' && value !== 'csv') {
+        throw new Error('--format must be json or csv')
+      }
+      format = value
+    } else if (arg === '--report') {
+      reportPath = args.shift() || null
+      if (!reportPath) throw new Error('--report requires a path')
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}`)
+    } else {
+      file = arg
+    }
+  }
+
+  if (!file) {
+    throw new Error('Usage: npm run ingest:schemes -- <file> [--format json|csv] [--apply] [--deactivate-missing] [--report <path>]')
+  }
+
+  return {
+    file,
+    format: format || (path.extname(file).toLowerCase() === '.csv' ? 'csv' : 'json'),
+    apply,
+    deactivateMissing,
+    reportPath
+  }
+}
+
+// ============================================================================
+// Database
+// ============================================================================
+
+function createServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!supabaseUrl || !supabaseServiceKey) return null
+
+  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false }
+  })
+}
+
+/**
+ * Write the planned changes. Each scheme is written on its own so one bad
+ * record does not stop the rest.
+ */
+async function applyReport(service: SchemeService, report: IngestionReport, note: string) {
+  const counts = { inserted: 0, updated: 0, deactivated: 0, failed: 0 }
+
+  for (const insert of report.inserts) {
+    try {
+      await service.createScheme(insert, INGEST_AUTHOR, note)
+      counts.inserted++
+    } catch (error) {
+      console.error(`   ❌ Insert "${insert.scheme_name}":`, error instanceof Error ? error.message : error)
+      counts.failed++
+    }
+  }
+
+  for (const update of report.updates) {
+    try {
+      await service.updateScheme(update.id, update.updates, INGEST_AUTHOR, note)
+      counts.updated++
+    } catch (error) {
+      console.error(`   ❌ Update "${update.scheme_name}":`, error instanceof Error ? error.message : error)
+      counts.failed++
+    }
+  }
+
+  for (const deactivation of report.deactivations) {
+    try {
+      await service.setSchemeActive(deactivation.id, false, INGEST_AUTHOR, `${note} (not in dump)`)
+      counts.deactivated++
+    } catch (error) {
+      console.error(`   ❌ Deactivate "${deactivation.scheme_name}":`, error instanceof Error ? error.message : error)
+      counts.failed++
+    }
+  }
+
+  return counts
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+function printReport(report: IngestionReport) {
+  const list = (items: string[], limit: number = 20) => {
+    items.slice(0, limit).forEach(item => console.log(`   - ${item}`))
+    if (items.length > limit) console.log(`   … and ${items.length - limit} more`)
+  }
+
+  console.log(`\n📊 Ingestion Report (${report.source}, ${report.format})`)
+  console.log(`   Records in dump: ${report.totalRecords}`)
+  console.log(`   Rejected: ${report.rejected.length}`)
+  console.log(`   Duplicates merged: ${report.duplicates.length}`)
+  console.log(`   Inserts: ${report.inserts.length}`)
+  console.log(`   Updates: ${report.updates.length}`)
+  console.log(`   Unchanged: ${report.unchanged.length}`)
+  console.log(`   Deactivations: ${report.deactivations.length}`)
+  if (report.missing.length > 0) {
+    console.log(`   Missing from dump (kept active): ${report.missing.length}`)
+  }
+
+  if (report.rejected.length > 0) {
+    console.log('\n❌ Rejected records:')
+    list(report.rejected.map(r => `#${r.index + 1} ${r.scheme_name || '(no name)'}: ${r.errors.join('; ')}`))
+  }
+  if (report.duplicates.length > 0) {
+    console.log('\n🔁 Duplicates merged:')
+    list(report.duplicates.map(d => `"${d.dropped}" → "${d.kept}" (same ${d.reason})`))
+  }
+  if (report.inserts.length > 0) {
+    console.log('\n➕ New schemes:')
+    list(report.inserts.map(i => i.scheme_name))
+  }
+  if (report.updates.length > 0) {
+    console.log('\n✏️  Updated schemes:')
+    list(report.updates.map(u => `${u.scheme_name}: ${u.changedFields.join(', ')}`))
+  }
+  if (report.deactivations.length > 0) {
+    console.log('\n⏸️  Deactivations:')
+    list(report.deactivations.map(d => d.scheme_name))
+  }
+  if (report.missing.length > 0) {
+    console.log('\n⚠️  Active schemes not in dump (use --deactivate-missing to deactivate):')
+    list(report.missing.map(m => m.scheme_name))
+  }
+  if (report.fixes.length > 0) {
+    console.log(`\n🧹 Cleaned ${report.fixes.length} records (see --report for details)`)
+  }
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function ingestSchemes() {
+  console.log('🚀 Starting scheme ingestion...\n')
+
+  try {
+    const options = parseArgs(process.argv.slice(2))
+    const filePath = resolve(process.cwd(), options.file)
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found at: ${filePath}`)
+    }
+
+    console.log(`📖 Reading ${options.file} as ${options.format.toUpperCase()}...`)
+    const records = parseSchemeDump(fs.readFileSync(filePath, 'utf-8'), options.format)
+    console.log(`✅ Parsed ${records.length} records`)
+
+    const supabase = createServiceClient()
+    let service: SchemeService | null = null
+    let existing: Scheme[] = []
+
+    if (supabase) {
+      service = new SchemeService(supabase as unknown as ConstructorParameters<typeof SchemeService>[0])
+      console.log('🔍 Loading current catalogue...')
+      existing = await service.listAllSchemes()
+      console.log(`✅ Found ${existing.length} schemes in database`)
+    } else if (options.apply) {
+      throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for --apply')
+    } else {
+      console.warn('⚠️  Supabase credentials not set; comparing against an empty catalogue')
+    }
+
+    const report = buildIngestionReport(records, existing, {
+      source: options.file,
+      format: options.format,
+      deactivateMissing: options.deactivateMissing
+    })
+
+    printReport(report)
+
+    if (options.reportPath) {
+      fs.writeFileSync(resolve(process.cwd(), options.reportPath), JSON.stringify(report, null, 2))
+      console.log(`\n💾 Report written to ${options.reportPath}`)
+    }
+
+    if (!options.apply || !service) {
+      console.log('\nℹ️  Dry run only. Re-run with --apply to write these changes.')
+      return
+    }
+
+    console.log('\n📝 Applying changes...')
+    const counts = await applyReport(service, report, `Ingested from ${path.basename(options.file)}`)
+
+    console.log('\n📊 Apply Summary:')
+    console.log(`   Inserted: ${counts.inserted}`)
+    console.log(`   Updated: ${counts.updated}`)
+    console.log(`   Deactivated: ${counts.deactivated}`)
+    if (counts.failed > 0) {
+      console.log(`   Failed: ${counts.failed}`)
+      process.exit(1)
+    }
+
+    console.log('\n✨ Ingestion completed successfully!')
+  } catch (error) {
+    console.error('\n❌ Ingestion failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+// Run ingestion
+ingestSchemes()
@@ -11,7 +11,12 @@
 import { createClient } from '@supabase/supabase-js'
 import * as fs from 'fs'
 import * as path from 'path'
-import type { Database } from '@/types/database'
+import type { Database, Json } from '@/types/database'
+import { getCuratedRules } from '@/lib/schemes/eligibilityEngine'
+import { inferJurisdiction } from '@/lib/schemes/jurisdiction'
+import { getCuratedRelationships } from '@/lib/schemes/schemeRelationships'
+import { extractCategory, extractTargetAudience } from '@/lib/schemes/ingestion'
+import { slugifySchemeName, uniqueSlug } from '@/lib/schemes/schemeUtils'
 
 // Initialize Supabase client with service role key for admin operations
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -80,71 +85,15 @@ function transformScheme(scheme: SchemeJSON) {
     documents_required: scheme.documents_required ? {
       content: scheme.documents_required
     } : null,
-    financial_details: extractFinancialDetails(scheme.details),
+    // Left for admins to review from the scheme editor's extraction
+    financial_details: null,
+    eligibility_rules: (getCuratedRules(scheme.scheme_name) || null) as Json | null,
+    jurisdiction: inferJurisdiction(scheme.ministry) as unknown as Json,
+    relationships: (getCuratedRelationships(scheme.scheme_name) || null) as unknown as Json,
     is_active: true
   }
 }
 
-/**
- * Extract category from ministry name
- */
-function extractCategory(ministry: string): string {
-  if (ministry.toLowerCase().includes('msme') || 
-      ministry.toLowerCase().includes('micro, small and medium')) {
-    return 'MSME'
-  }
-  if (ministry.toLowerCase().includes('finance')) {
-    return 'Finance'
-  }
-  if (ministry.toLowerCase().includes('skill')) {
-    return 'Skill Development'
-  }
-  return 'General'
-}
-
-/**
- * Extract target audience from tags
- */
-function extractTargetAudience(tags: string[]): string[] {
-  const audienceKeywords = [
-    'Entrepreneur', 'Artisans', 'Craftspeople', 'Women', 
-    'SC', 'ST', 'OBC', 'Minorities', 'Youth', 'Mahila'
-  ]
-  
-  return tags.filter(tag => 
-    audienceKeywords.some(keyword => 
-      tag.toLowerCase().includes(keyword.toLowerCase())
-    )
-  )
-}
-
-/**
- * Extract financial details from scheme details text
- */
-function extractFinancialDetails(details: string): any {
-  const financialInfo: any = {}
-  
-  // Extract subsidy information
-  const subsidyMatch = details.match(/subsidy[:\s]+([^.\n]+)/i)
-  if (subsidyMatch) {
-    financialInfo.subsidy = subsidyMatch[1].trim()
-  }
-  
-  // Extract loan information
-  const loanMatch = details.match(/loan[:\s]+([^.\n]+)/i)
-  if (loanMatch) {
-    financialInfo.loan = loanMatch[1].trim()
-  }
-  
-  // Extract amount information (₹ symbol)
-  const amountMatches = details.match(/₹\s*[\d,]+/g)
-  if (amountMatches && amountMatches.length > 0) {
-    financialInfo.amounts = amountMatches
-  }
-  
-  return Object.keys(financialInfo).length > 0 ? financialInfo : null
-}
-
 /**
  * Remove duplicate schemes based on scheme_name and scheme_url
  */
@@ -199,7 +148,7 @@ async function migrateSchemes() {
     console.log('🔍 Checking existing schemes in database...')
     const { data: existingSchemes, error: fetchError } = await supabase
       .from('schemes')
-      .select('scheme_name, scheme_url')
+      .select('scheme_name, scheme_url, slug')
     
     if (fetchError) {
       throw new Error(`Failed to fetch existing schemes: ${fetchError.message}`)
@@ -212,10 +161,19 @@ async function migrateSchemes() {
       existingSchemes?.map((s: any) => `${s.scheme_name}|${s.scheme_url}`) || []
     )
     
-    const newSchemes = transformedSchemes.filter(scheme => {
-      const key = `${scheme.scheme_name}|${scheme.scheme_url}`
-      return !existingKeys.has(key)
-    })
+    // Page slugs are set once here, avoiding the ones already stored
+    const takenSlugs = new Set<string>(
+      existingSchemes?.map((s: { slug: string | null }) => s.slug).filter((slug): slug is string => !!slug) || []
+    )
+    const newSchemes = transformedSchemes
+      .filter(scheme => {
+        const key = `${scheme.scheme_name}|${scheme.scheme_url}`
+        return !existingKeys.has(key)
+      })
+      .map(scheme => ({
+        ...scheme,
+        slug: uniqueSlug(slugifySchemeName(scheme.scheme_name), takenSlugs)
+      }))
     
     if (newSchemes.length === 0) {
       console.log('ℹ️  No new schemes to insert. All schemes already exist in database.')
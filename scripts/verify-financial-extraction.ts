@@ -0,0 +1,96 @@
+/**
+ * Financial Extraction Check Script
+ *
+ * Runs the financial details extractor (lib/schemes/financialExtractor.ts)
+ * over the phrasings it must understand and exits with an error if any
+ * field is missed or read wrongly. Run it after changing the patterns.
+ *
+ * Usage:
+ *   npm run verify:financial-extraction
+ *
+ * Needs no API keys or database.
+ */
+
+import { extractFinancialDetails } from '@/lib/schemes/financialExtractor'
+import type { FinancialDetails } from '@/types/scheme'
+
+// ============================================================================
+// Examples
+// ============================================================================
+
+interface ExtractionExample {
+  text: string
+  expected: Partial<FinancialDetails>
+}
+
+const EXAMPLES: ExtractionExample[] = [
+  // Phrasings from the scheme texts that the extractor was written for
+  {
+    text: '₹25 lakh for manufacturing',
+    expected: { loanAmount: { max: 2500000 } }
+  },
+  {
+    text: '15% in urban, 25% in rural',
+    expected: { subsidyPercentage: { urban: 15, rural: 25 } }
+  },
+  {
+    text: 'collateral free up to ₹10 lakh',
+    expected: { loanAmount: { max: 1000000 }, collateralRequired: false }
+  },
+  {
+    text: 'The maximum cost of the project is Rs. 50 lakh',
+    expected: { loanAmount: { max: 5000000 } }
+  },
+  {
+    text: 'Maximum project cost is ₹25 lakh for manufacturing and ₹10 lakh for service sector',
+    expected: { loanAmount: { min: 1000000, max: 2500000 } }
+  },
+  {
+    text: 'Margin money subsidy of 15% in urban areas and 25% in rural areas',
+    expected: { subsidyPercentage: { urban: 15, rural: 25 } }
+  },
+  {
+    text: 'Rate of interest is 8.5% per annum. No processing fee is charged.',
+    expected: { interestRate: 8.5, processingFee: 0 }
+  }
+]
+
+// ============================================================================
+// Main
+// ============================================================================
+
+function verifyFinancialExtraction() {
+  console.log('🔍 Checking financial details extraction...\n')
+
+  let failures = 0
+
+  EXAMPLES.forEach(({ text, expected }) => {
+    const extracted = Object.fromEntries(
+      extractFinancialDetails({ benefits: text }).map(extraction => [extraction.field, extraction.value])
+    )
+
+    const wrong = Object.entries(expected).filter(([field, value]) =>
+      JSON.stringify(extracted[field]) !== JSON.stringify(value)
+    )
+
+    if (wrong.length === 0) {
+      console.log(`✅ "${text}"`)
+      return
+    }
+
+    failures++
+    console.log(`❌ "${text}"`)
+    wrong.forEach(([field, value]) => {
+      console.log(`   ${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(extracted[field] ?? null)}`)
+    })
+  })
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${EXAMPLES.length} examples failed`)
+    process.exit(1)
+  }
+
+  console.log(`\n✨ All ${EXAMPLES.length} examples extracted correctly`)
+}
+
+verifyFinancialExtraction()
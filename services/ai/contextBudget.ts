@@ -0,0 +1,59 @@
+import type { UIMessage } from 'ai';
+import { TOKEN_ESTIMATION } from '@/types/conversation';
+
+/**
+ * Context budgets
+ *
+ * How many tokens of conversation history a chat prompt may carry. History
+ * gets at most half of a model's context window, leaving the rest for the
+ * system prompt, tool results and the answer, and never more than
+ * LLM_HISTORY_TOKEN_BUDGET so long sessions stay cheap on large-window
+ * models too. Tokens are estimated from characters, as elsewhere in the
+ * app, not counted with a tokenizer.
+ */
+
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'openai/gpt-4o-mini': 128000,
+  'openai/gpt-4o': 128000,
+  'openai/gpt-3.5-turbo': 16385,
+  'openai/gpt-4-turbo-preview': 128000,
+  'anthropic/claude-3-haiku': 200000,
+  'anthropic/claude-3.5-sonnet': 200000,
+  'anthropic/claude-3-sonnet': 200000,
+  'anthropic/claude-3-opus': 200000,
+  'meta-llama/llama-3-70b-instruct': 8192,
+  'mistralai/mistral-7b-instruct': 32768,
+  'google/gemini-pro': 32760
+};
+
+// Assumed for models missing from the table
+const DEFAULT_CONTEXT_WINDOW = 16000;
+const DEFAULT_HISTORY_BUDGET = 6000;
+
+/**
+ * Context window of a model. Accepts OpenAI's own IDs as well as
+ * OpenRouter's; the local mock takes anything.
+ */
+export function getContextWindow(model: string): number {
+  if (model.startsWith('mock-')) return MODEL_CONTEXT_WINDOWS['openai/gpt-4o-mini'];
+  return MODEL_CONTEXT_WINDOWS[model] || MODEL_CONTEXT_WINDOWS[`openai/${model}`] || DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * History budget for a turn that may be answered by any of the models (a
+ * routed chain can fail over), so the smallest window decides
+ */
+export function getHistoryTokenBudget(models: string[]): number {
+  const cap = parseInt(process.env.LLM_HISTORY_TOKEN_BUDGET || String(DEFAULT_HISTORY_BUDGET), 10);
+  const smallestWindow = models.length > 0
+    ? Math.min(...models.map(getContextWindow))
+    : DEFAULT_CONTEXT_WINDOW;
+  return Math.min(cap, Math.floor(smallestWindow / 2));
+}
+
+/**
+ * Estimated tokens of a message, tool calls and results included
+ */
+export function estimateMessageTokens(message: UIMessage): number {
+  return Math.ceil(JSON.stringify(message.parts || []).length / TOKEN_ESTIMATION.CHARS_PER_TOKEN);
+}
@@ -7,6 +7,7 @@ import {
   SchemeContext
 } from '@/types/scheme';
 import { schemeDataService } from '@/services/schemes/schemeDataService';
+import { schemeRetriever } from '@/services/ai/schemeRetriever';
 import { languageService, SupportedLanguage } from '@/services/language/languageService';
 import {
   filterSchemes,
@@ -15,6 +16,10 @@ import {
   extractSchemeHighlights,
   formatAmount
 } from '@/lib/schemes/schemeUtils';
+import { filterSchemesByLocation, formatJurisdiction } from '@/lib/schemes/jurisdiction';
+import { formatRelationsForPrompt } from '@/lib/schemes/schemeRelationships';
+import { getPromptTemplate } from '@/lib/prompts/promptRegistry';
+import { renderTemplate } from '@/lib/prompts/promptTemplate';
 
 /**
  * Context Builder for optimizing scheme data for LLM consumption
@@ -45,6 +50,7 @@ export class LLMContextBuilder {
     language?: string;
     maxTokens?: number;
     includeAllSchemes?: boolean;
+    toolsEnabled?: boolean;
   }): Promise<ConversationContext> {
     const {
       userQuery,
@@ -52,15 +58,16 @@ export class LLMContextBuilder {
       conversationHistory = [],
       language = 'en',
       maxTokens = this.TOKEN_LIMITS.STANDARD,
-      includeAllSchemes = false
+      includeAllSchemes = false,
+      toolsEnabled = false
     } = params;
 
     // Determine context format based on token limit
     const contextFormat = this.determineContextFormat(maxTokens);
 
-    // Get relevant schemes
+    // Get relevant schemes, leaving out those the user's location can't avail
     const relevantSchemes = includeAllSchemes
-      ? await schemeDataService.getAllSchemes()
+      ? await schemeDataService.getSchemesForLocation(userProfile?.location)
       : await this.selectRelevantSchemes(userQuery, userProfile, conversationHistory);
 
     // Optimize schemes for token limit
@@ -76,14 +83,16 @@ export class LLMContextBuilder {
       relevantSchemes: optimizedSchemes,
       conversationHistory,
       language,
-      contextFormat
+      contextFormat,
+      toolsEnabled
     };
   }
 
   /**
-   * Generate system prompt with scheme context
+   * Generate system prompt with scheme context, from the given version of
+   * the chat-system template or the active one (lib/prompts/promptRegistry)
    */
-  generateSystemPrompt(context: ConversationContext): string {
+  generateSystemPrompt(context: ConversationContext, promptVersion?: string): string {
     const schemeContext = this.formatSchemesForPrompt(
       context.relevantSchemes,
       context.contextFormat
@@ -94,73 +103,39 @@ export class LLMContextBuilder {
     const languagePrompt = languageService.getLanguagePrompt(languageCode);
     const languageInfo = languageService.getSupportedLanguages().find(l => l.code === languageCode);
 
-    // Enhanced system prompt with conversation strategies
-    const systemPrompt = `You are an AI assistant specializing in Indian MSME government schemes. You have access to ${context.relevantSchemes.length} relevant schemes out of 11 total schemes.
-
-${this.getUserProfileContext(context.userProfile)}
-
-## Language Instructions:
-${languagePrompt}
-Primary Language: ${languageInfo?.nativeName || 'English'}
-${languageCode !== 'en' ? `You should respond primarily in ${languageInfo?.nativeName}, but understand questions in both ${languageInfo?.nativeName} and English.` : 'Respond in simple, clear English suitable for Indian users.'}
-
-## Conversation Strategy:
-1. **Start Simple**: Begin with a friendly greeting and ask only 1-2 essential questions (business type & location)
-2. **Clarify Intent**: Paraphrase the user's goal and confirm before proceeding
-3. **Progressive Disclosure**: Ask only what's necessary at each step; avoid overwhelming with many questions
-4. **Plain Language**: Use local examples, avoid jargon, explain complex terms simply
-5. **Actionable Steps**: Provide clear next steps with eligibility checks, documents needed, and application links
-
-## Core Capabilities:
-- **Handle Vague Inputs**: Infer intent from minimal prompts and auto-suggest common goals:
-  • Credit/loans for business expansion
-  • Subsidies for machinery or technology
-  • Quality certifications (ISO, ZED)
-  • Technology upgradation support
-  • Export promotion assistance
-
-- **Guided Discovery**: Use branching dialogue for:
-  • Scheme selection based on needs
-  • Procurement readiness assessment
-  • Compliance and certification guidance
-  • Document preparation checklists
-
-- **Smart Contextualization**: Adjust recommendations by:
-  • Business sector and size
-  • Location (urban/rural benefits)
-  • Supply capacity and certifications
-  • Specific challenges (working capital, machinery, marketing)
-
-## Available Schemes Context:
-${schemeContext}
-
-## Response Guidelines:
-- **Scheme Guidance**: Explain benefits, eligibility, required documents, fees, timelines, and exact authority
-- **Document Prep**: Generate personalized checklists (PAN, Udyam, GST, bank statements, project reports, etc.)
-- **Local Examples**: Use success stories from user's state/region when possible
-- **Avoid Jargon**: Explain terms like "collateral" (property as loan security), "turnover" (yearly sales)
-- **Progressive Questions**: Start broad, then narrow based on responses
-
-## Your Role:
-1. Quickly understand user's business and immediate needs
-2. Suggest 2-3 most relevant schemes with clear reasoning
-3. Provide step-by-step application guidance
-4. Generate document checklists specific to chosen schemes
-5. Offer alternative options if primary schemes don't fit
-6. Connect to local support (District Industries Centre)
-
-## Response Format:
-- Lead with most relevant information
-- Use bullet points for clarity
-- Highlight key amounts (₹ in lakhs/crores)
-- Include direct application links
-- End with clear next steps
-- Keep responses concise but complete
-- Use emojis sparingly: 💰 funding, ✅ eligibility, 📝 documents, 🏭 manufacturing, 🛍️ trading, 💻 service
-
-Remember: Users may have limited time, internet, and technical knowledge. Make every interaction count by being helpful, clear, and action-oriented. Many are first-time entrepreneurs or from rural areas - be patient and encouraging.`;
-
-    return systemPrompt;
+    // Curated stacking and conflict rules among the schemes in context
+    const combinationRules = formatRelationsForPrompt(context.relevantSchemes);
+
+    return renderTemplate(getPromptTemplate('chat-system', promptVersion), {
+      schemeAccess: context.toolsEnabled
+        ? 'Look schemes up with your tools; the list below is only a starting point.'
+        : `You have access to ${context.relevantSchemes.length} relevant schemes out of 11 total schemes.`,
+      userProfile: this.getUserProfileContext(context.userProfile),
+      languagePrompt,
+      primaryLanguage: languageInfo?.nativeName || 'English',
+      languageInstruction: languageCode !== 'en'
+        ? `You should respond primarily in ${languageInfo?.nativeName}, but understand questions in both ${languageInfo?.nativeName} and English.`
+        : 'Respond in simple, clear English suitable for Indian users.',
+      schemesHeading: context.toolsEnabled ? 'Likely Relevant Schemes' : 'Available Schemes Context',
+      schemeContext,
+      toolsSection: context.toolsEnabled ? `\n## Tools:\n${this.getToolGuidelines()}\n` : '',
+      combinationSection: combinationRules ? `\n## Scheme Combination Rules:\n${combinationRules}\n` : ''
+    });
+  }
+
+  /**
+   * When to call each chat tool (services/ai/schemeTools.ts)
+   */
+  private getToolGuidelines(): string {
+    return [
+      '- **search_schemes**: Find schemes for the user\'s need before recommending any; do not recommend schemes you have not found or been given',
+      '- **get_scheme_details**: Fetch a scheme before quoting its amounts, eligibility, documents or application steps; never fill in details from memory',
+      '- **check_eligibility**: Check the user\'s eligibility instead of judging it yourself, passing anything they told you about themselves; ask about criteria it reports as unknown',
+      '- **generate_document_checklist** and **calculate_scheme_finance**: As described under Response Guidelines',
+      '- **save_scheme_for_user**: Only when the user asks to save or shortlist a scheme',
+      '- The app shows tool results to the user as cards, so summarise them rather than repeating every field',
+      '- **Citations**: Tool results list numbered `citations` for the scheme fields they came from. Put the number in square brackets right after each amount, percentage, limit, criterion or document you take from them, e.g. "25% subsidy in rural areas [3]". Only use numbers from the citations; the app turns them into links to the source'
+    ].join('\n');
   }
 
   /**
@@ -185,7 +160,7 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
     userProfile?: UserProfile,
     history?: ChatHistory[]
   ): Promise<ProcessedScheme[]> {
-    const allSchemes = await schemeDataService.getAllSchemes();
+    const allSchemes = await schemeDataService.getSchemesForLocation(userProfile?.location);
 
     // Extract intent from query
     const intent = this.extractQueryIntent(query);
@@ -193,13 +168,10 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
     // Get schemes based on different strategies
     let relevantSchemes: ProcessedScheme[] = [];
 
-    // Strategy 1: Direct search
-    if (intent.searchTerms.length > 0) {
-      const searchResults = await schemeDataService.searchSchemes(
-        intent.searchTerms.join(' ')
-      );
-      relevantSchemes.push(...searchResults);
-    }
+    // Strategy 1: Hybrid keyword + embedding retrieval over the full query
+    const retrievalHits = await schemeRetriever.hybridSearch(query, allSchemes, { limit: 5 });
+    const retrievalScores = new Map(retrievalHits.map(hit => [hit.scheme.id, hit.score]));
+    relevantSchemes.push(...retrievalHits.map(hit => hit.scheme));
 
     // Strategy 2: Profile-based
     if (userProfile) {
@@ -225,7 +197,10 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
       const mentionedSchemes = await Promise.all(
         Array.from(mentionedSchemeIds).map(id => schemeDataService.getSchemeById(id))
       );
-      relevantSchemes.push(...mentionedSchemes.filter(Boolean) as ProcessedScheme[]);
+      relevantSchemes.push(...filterSchemesByLocation(
+        mentionedSchemes.filter(Boolean) as ProcessedScheme[],
+        userProfile?.location
+      ));
     }
 
     // Remove duplicates and rank
@@ -233,7 +208,7 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
 
     return rankSchemes(uniqueSchemes, {
       userProfile,
-      searchQuery: query,
+      retrievalScores,
       preferOnline: query.toLowerCase().includes('online'),
       preferHighSubsidy: query.toLowerCase().includes('subsidy')
     });
@@ -243,31 +218,17 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
    * Extract intent from user query
    */
   private extractQueryIntent(query: string): {
-    searchTerms: string[];
     categories: any[];
     needsAmount?: number;
     isUrgent: boolean;
   } {
     const queryLower = query.toLowerCase();
     const intent = {
-      searchTerms: [] as string[],
       categories: [] as any[],
       needsAmount: undefined as number | undefined,
       isUrgent: false
     };
 
-    // Extract search terms
-    const keywords = [
-      'pmegp', 'loan', 'subsidy', 'grant', 'training',
-      'women', 'startup', 'rural', 'technology', 'export'
-    ];
-
-    keywords.forEach(keyword => {
-      if (queryLower.includes(keyword)) {
-        intent.searchTerms.push(keyword);
-      }
-    });
-
     // Extract categories
     if (queryLower.includes('loan') || queryLower.includes('credit')) {
       intent.categories.push('loan');
@@ -347,6 +308,7 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
       id: scheme.id,
       name: scheme.name,
       category: scheme.category,
+      availableIn: formatJurisdiction(scheme.jurisdiction),
       summary: scheme.summary,
       keyBenefits: scheme.keyBenefits.slice(0, 2),
       eligibility: scheme.eligibilityCriteria.slice(0, 2),
@@ -367,6 +329,7 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
     return schemes.map(scheme => {
       let md = `### ${scheme.name}\n`;
       md += `**Category:** ${scheme.category}\n`;
+      md += `**Available in:** ${formatJurisdiction(scheme.jurisdiction)}\n`;
       md += `**Summary:** ${scheme.summary}\n`;
 
       if (scheme.keyBenefits.length > 0) {
@@ -406,6 +369,7 @@ Remember: Users may have limited time, internet, and technical knowledge. Make e
       return `[Scheme ${index + 1}]
 Name: ${scheme.name}
 Type: ${scheme.category}
+Available in: ${formatJurisdiction(scheme.jurisdiction)}
 For: ${scheme.targetAudience.slice(0, 2).join(', ')}
 Benefits: ${scheme.keyBenefits[0] || 'Various benefits available'}
 Eligibility: ${scheme.eligibilityCriteria[0] || 'Check detailed eligibility'}
@@ -3,8 +3,9 @@
  * Implements intelligent dialogue flows for MSME advisory
  */
 
-import { UserProfile, ProcessedScheme } from '@/types/scheme';
+import { UserProfile, ProcessedScheme, DocumentChecklist } from '@/types/scheme';
 import { schemeDataService } from '../schemes/schemeDataService';
+import { buildDocumentChecklist } from '@/lib/schemes/documentChecklist';
 
 export interface ConversationIntent {
   type: 'credit' | 'subsidies' | 'certification' | 'tech' | 'export' | 'general' | 'unknown';
@@ -13,12 +14,6 @@ export interface ConversationIntent {
   nextQuestions: string[];
 }
 
-export interface DocumentChecklist {
-  required: string[];
-  optional: string[];
-  schemeSpecific: Record<string, string[]>;
-}
-
 export class ConversationStrategyService {
   /**
    * Core conversation principles
@@ -248,77 +243,14 @@ export class ConversationStrategyService {
   }
 
   /**
-   * Generate document checklist based on schemes
+   * Generate document checklist based on schemes, merged across schemes
+   * and personalised by profile
    */
   public generateDocumentChecklist(
     schemes: ProcessedScheme[],
     userProfile: Partial<UserProfile>
   ): DocumentChecklist {
-    const checklist: DocumentChecklist = {
-      required: [
-        'PAN Card',
-        'Aadhaar Card',
-        'Udyam Registration Certificate',
-        'GST Registration (if applicable)',
-        'Bank Account Statements (6 months)',
-        'Business Address Proof'
-      ],
-      optional: [
-        'Income Tax Returns (3 years)',
-        'Audited Financial Statements',
-        'CA Certificate',
-        'Partnership Deed (if partnership)',
-        'Company Registration (if company)'
-      ],
-      schemeSpecific: {}
-    };
-
-    // Add scheme-specific documents
-    schemes.forEach(scheme => {
-      const specificDocs: string[] = [];
-
-      if (scheme.id === 'pmegp') {
-        specificDocs.push(
-          'Project Report',
-          'Quotations for machinery',
-          'Educational qualification certificate',
-          'Caste certificate (if applicable)'
-        );
-      }
-
-      if (scheme.id === 'mudra') {
-        specificDocs.push(
-          'Business Plan',
-          'Quotations for purchases',
-          'Proof of business vintage',
-          'Property documents (if collateral)'
-        );
-      }
-
-      if (scheme.id === 'stand-up-india') {
-        specificDocs.push(
-          'SC/ST/Woman certificate',
-          'Project Report',
-          'Experience certificate',
-          'Training certificate (if any)'
-        );
-      }
-
-      if (scheme.id === 'cgtmse') {
-        specificDocs.push(
-          'Loan application to bank',
-          'CMA data',
-          'Projected financials',
-          'Collateral documents (negative list)'
-        );
-      }
-
-      if (specificDocs.length > 0) {
-        checklist.schemeSpecific[scheme.name] = specificDocs;
-      }
-    });
-
-    return checklist;
+    return buildDocumentChecklist(schemes, userProfile);
   }
 
   /**
@@ -0,0 +1,195 @@
+import { generateObject, type UIMessage } from 'ai';
+import { z } from 'zod';
+import type { LLMProvider } from './llmProvider';
+import { estimateMessageTokens } from './contextBudget';
+import { toUsageRecord } from './modelPricing';
+import { buildSummaryPrompt } from '@/lib/prompts/summaryPrompt';
+import { getPromptTemplate } from '@/lib/prompts/promptRegistry';
+import { recordLlmUsage } from '@/services/analytics/usageService';
+import type { ConversationSummary } from '@/types/conversation';
+
+/**
+ * Rolling conversation summaries
+ *
+ * Long advisory chats are kept within a token budget (services/ai/
+ * contextBudget) by folding their older messages into a summary of the
+ * user's business facts, the schemes discussed and the open questions.
+ * The summary goes into the system prompt; only the recent messages are
+ * sent as they are.
+ *
+ * When the history outgrows the budget, messages are folded until the
+ * recent ones fill half of it, so a summary is written every few turns
+ * rather than on every turn. If summarising fails, the oldest messages are
+ * simply left out for that turn: the prompt stays bounded either way.
+ */
+
+export interface CompactionRequest {
+  messages: UIMessage[]; // Full history, ending with the new user message
+  summary: ConversationSummary | null;
+  budget: number; // Tokens of history to send (getHistoryTokenBudget)
+  provider: LLMProvider;
+  // For the usage ledger
+  userId: string | null;
+  conversationId: string | null;
+  promptVersion?: string; // Version of the summary prompt; the active one when omitted
+}
+
+export interface CompactedHistory {
+  messages: UIMessage[]; // Messages to send to the model
+  summary: ConversationSummary | null; // Summary of everything before them
+  summaryUpdated: boolean; // The summary was rewritten and should be saved
+  droppedMessages: number; // Left out without being summarised
+}
+
+// The newest messages are always sent, however long
+const MIN_RECENT_MESSAGES = 2;
+
+const SUMMARY_TIMEOUT_MS = 10000;
+
+// Items kept per list, newest last
+const MAX_SUMMARY_ITEMS = 15;
+
+const summarySchema = z.object({
+  businessFacts: z.array(z.string()),
+  schemesDiscussed: z.array(z.string()),
+  openQuestions: z.array(z.string())
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Text of a message for the summary prompt; tool calls are noted by name
+ */
+function messageText(message: UIMessage): string {
+  return message.parts
+    .map(part => {
+      if (part.type === 'text') return part.text;
+      if (part.type.startsWith('tool-')) return `[looked up ${part.type.slice('tool-'.length)}]`;
+      return '';
+    })
+    .filter(Boolean)
+    .join(' ')
+    .trim();
+}
+
+/**
+ * Index of the first message of the most recent run that fits the budget
+ */
+function recentStart(messages: UIMessage[], budget: number): number {
+  let tokens = 0;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    tokens += estimateMessageTokens(messages[index]);
+    if (tokens > budget && index < messages.length - MIN_RECENT_MESSAGES) {
+      return index + 1;
+    }
+  }
+
+  return 0;
+}
+
+function cleanItems(items: string[]): string[] {
+  return [...new Set(items.map(item => item.trim()).filter(Boolean))].slice(-MAX_SUMMARY_ITEMS);
+}
+
+// ============================================================================
+// Summarising
+// ============================================================================
+
+/**
+ * Fold messages into the summary. Returns null when the model call fails.
+ */
+export async function summarizeMessages(
+  request: Pick<CompactionRequest, 'summary' | 'provider' | 'userId' | 'conversationId' | 'promptVersion'>,
+  messages: UIMessage[]
+): Promise<ConversationSummary | null> {
+  const { summary, provider } = request;
+  const modelId = provider.getModelId('summary');
+
+  const transcript = messages
+    .map(message => ({ role: message.role, content: messageText(message) }))
+    .filter(message => message.content.length > 0);
+
+  try {
+    const { object, usage } = await generateObject({
+      model: provider.getModel('summary'),
+      schema: summarySchema,
+      prompt: buildSummaryPrompt(summary, transcript, getPromptTemplate('summary', request.promptVersion)),
+      temperature: 0.2,
+      maxOutputTokens: 800,
+      maxRetries: 1,
+      abortSignal: AbortSignal.timeout(SUMMARY_TIMEOUT_MS)
+    });
+
+    const record = toUsageRecord(modelId, usage);
+    void recordLlmUsage({
+      purpose: 'summary',
+      user_id: request.userId,
+      conversation_id: request.conversationId,
+      model: record.model,
+      input_tokens: record.inputTokens,
+      output_tokens: record.outputTokens,
+      cost_usd: record.costUsd
+    });
+
+    return {
+      businessFacts: cleanItems(object.businessFacts),
+      schemesDiscussed: cleanItems(object.schemesDiscussed),
+      openQuestions: cleanItems(object.openQuestions),
+      coveredThroughMessageId: messages[messages.length - 1].id,
+      coveredMessageCount: (summary?.coveredMessageCount || 0) + messages.length,
+      model: modelId,
+      updatedAt: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error('[conversationSummarizer] Summary failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Messages to send for a turn, and the summary to send with them
+ */
+export async function compactHistory(request: CompactionRequest): Promise<CompactedHistory> {
+  const { messages, summary, budget } = request;
+
+  // Messages the summary already covers are never sent again. A summary
+  // whose last message is no longer in the history covers nothing here.
+  const coveredIndex = summary
+    ? messages.findIndex(message => message.id === summary.coveredThroughMessageId)
+    : -1;
+  const uncovered = messages.slice(coveredIndex + 1);
+
+  const start = recentStart(uncovered, budget);
+  if (start === 0) {
+    return { messages: uncovered, summary, summaryUpdated: false, droppedMessages: 0 };
+  }
+
+  // Fold down to half the budget so the next few turns fit as they are
+  const foldStart = recentStart(uncovered, Math.floor(budget / 2));
+  const updated = await summarizeMessages(request, uncovered.slice(0, foldStart));
+
+  if (!updated) {
+    return { messages: uncovered.slice(start), summary, summaryUpdated: false, droppedMessages: start };
+  }
+
+  return { messages: uncovered.slice(foldStart), summary: updated, summaryUpdated: true, droppedMessages: 0 };
+}
+
+/**
+ * System prompt section carrying the summary
+ */
+export function formatSummaryForPrompt(summary: ConversationSummary | null): string {
+  if (!summary) return '';
+
+  const section = (title: string, items: string[]) =>
+    items.length > 0 ? `\n**${title}:**\n${items.map(item => `- ${item}`).join('\n')}\n` : '';
+
+  return `
+
+## Earlier in This Conversation:
+The first ${summary.coveredMessageCount} messages of this conversation are summarised below instead of being shown. Treat these facts as already told to you; do not ask for them again.
+${section('Business Facts', summary.businessFacts)}${section('Schemes Discussed', summary.schemesDiscussed)}${section('Open Questions', summary.openQuestions)}`;
+}
@@ -0,0 +1,166 @@
+import { tokenizeForSearch } from '@/lib/schemes/queryExpansion';
+
+/**
+ * Pluggable text embedding providers
+ *
+ * Retrieval code depends only on the EmbeddingProvider interface. The
+ * default backend is a deterministic hashed TF-IDF model that runs locally
+ * with no API key, so retrieval works offline and in tests. A hosted model
+ * can be plugged in with registerEmbeddingProvider() and selected with the
+ * EMBEDDING_PROVIDER environment variable.
+ */
+
+export interface EmbeddingProvider {
+  /** Stable identifier; vectors from different providers are not comparable */
+  readonly id: string;
+  readonly dimensions: number;
+  /** Optional corpus statistics (e.g. IDF) computed before embedding */
+  fit?(corpus: string[]): void;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderFactory = () => EmbeddingProvider;
+
+// ============================================================================
+// Hashed TF-IDF
+// ============================================================================
+
+// Character trigrams give partial credit for related word forms
+// (finance / financing), at a lower weight than whole words
+const WORD_FEATURE_WEIGHT = 1;
+const TRIGRAM_FEATURE_WEIGHT = 0.4;
+
+/**
+ * FNV-1a 32-bit hash
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic local embeddings: TF-IDF weighted word and character
+ * trigram features, hashed into a fixed number of signed buckets and
+ * L2-normalized. Same input always gives the same vector.
+ */
+export class HashedTfIdfEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+
+  private documentFrequencies = new Map<string, number>();
+  private documentCount = 0;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.id = `hashed-tfidf-${dimensions}`;
+  }
+
+  /**
+   * Learn document frequencies from the corpus. Without fitting every
+   * feature gets the same IDF, which degrades to plain hashed TF.
+   */
+  fit(corpus: string[]): void {
+    this.documentFrequencies.clear();
+    this.documentCount = corpus.length;
+
+    corpus.forEach(text => {
+      new Set(this.extractFeatures(text).keys()).forEach(feature => {
+        this.documentFrequencies.set(feature, (this.documentFrequencies.get(feature) || 0) + 1);
+      });
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    this.extractFeatures(text).forEach((count, feature) => {
+      const tf = 1 + Math.log(count);
+      const df = this.documentFrequencies.get(feature) || 0;
+      const idf = Math.log((this.documentCount + 1) / (df + 1)) + 1;
+      const weight = feature.startsWith('c:') ? TRIGRAM_FEATURE_WEIGHT : WORD_FEATURE_WEIGHT;
+
+      // Signed hashing keeps collisions from only ever adding up
+      const hash = hashString(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimensions] += sign * tf * idf * weight;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * Feature counts: "w:<token>" for words, "c:<trigram>" for ASCII words
+   */
+  private extractFeatures(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const add = (feature: string) => features.set(feature, (features.get(feature) || 0) + 1);
+
+    tokenizeForSearch(text).forEach(token => {
+      add(`w:${token}`);
+      if (token.length >= 4 && /^[a-z0-9]+$/.test(token)) {
+        const padded = `_${token}_`;
+        for (let i = 0; i <= padded.length - 3; i++) {
+          add(`c:${padded.slice(i, i + 3)}`);
+        }
+      }
+    });
+
+    return features;
+  }
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const DEFAULT_PROVIDER = 'hashed-tfidf';
+
+const providerFactories = new Map<string, EmbeddingProviderFactory>([
+  [DEFAULT_PROVIDER, () => new HashedTfIdfEmbeddingProvider()]
+]);
+
+/**
+ * Make an embedding backend available by name
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  providerFactories.set(name, factory);
+}
+
+/**
+ * Create the configured embedding provider (EMBEDDING_PROVIDER, default
+ * hashed-tfidf). Unknown names fall back to the local provider.
+ */
+export function createEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER || DEFAULT_PROVIDER
+): EmbeddingProvider {
+  const factory = providerFactories.get(name);
+  if (!factory) {
+    console.warn(`Unknown embedding provider "${name}", using ${DEFAULT_PROVIDER}`);
+    return providerFactories.get(DEFAULT_PROVIDER)!();
+  }
+  return factory();
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
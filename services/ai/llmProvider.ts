@@ -0,0 +1,187 @@
+import type { LanguageModel } from 'ai';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createMockLanguageModel, type MockScript } from './mockLanguageModel';
+
+/**
+ * LLM provider
+ *
+ * The one place chat, welcome, extraction and conversation summaries get
+ * their language model.
+ * Which provider is used is set per environment:
+ *
+ * - LLM_PROVIDER=openrouter (OPENROUTER_API_KEY): any model OpenRouter
+ *   serves, e.g. "openai/gpt-4o-mini" or "anthropic/claude-3-haiku"
+ * - LLM_PROVIDER=openai (OPENAI_API_KEY): OpenAI directly
+ * - LLM_PROVIDER=mock: scripted local model, no API key needed
+ *
+ * Without LLM_PROVIDER, OpenRouter is used when its key is set, the mock
+ * outside production, and otherwise OpenRouter unconfigured, in which case
+ * callers use their static fallbacks.
+ */
+
+export type LLMProviderName = 'openrouter' | 'openai' | 'mock';
+export type LLMPurpose = 'chat' | 'welcome' | 'extraction' | 'summary';
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  isConfigured(): boolean;
+  /**
+   * Model ID used for a purpose. requested (e.g. the model chosen for a
+   * conversation) wins when the provider can serve it.
+   */
+  getModelId(purpose: LLMPurpose, requested?: string): string;
+  getModel(purpose: LLMPurpose, requested?: string): Exclude<LanguageModel, string>;
+}
+
+const DEFAULT_OPENROUTER_MODEL = 'openai/gpt-4o-mini';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+function createOpenRouterProvider(): LLMProvider {
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  const openrouter = createOpenRouter({
+    apiKey: apiKey || '',
+    headers: {
+      'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+      'X-Title': 'MSME Mitr - AI Business Advisor'
+    }
+  });
+
+  const getModelId = (purpose: LLMPurpose, requested?: string) => {
+    if (requested) return requested;
+    if (purpose === 'extraction') return process.env.EXTRACTION_MODEL || DEFAULT_OPENROUTER_MODEL;
+    if (purpose === 'summary') return process.env.SUMMARY_MODEL || DEFAULT_OPENROUTER_MODEL;
+    return process.env.OPENROUTER_MODEL || DEFAULT_OPENROUTER_MODEL;
+  };
+
+  return {
+    name: 'openrouter',
+    isConfigured: () => Boolean(apiKey),
+    getModelId,
+    getModel: (purpose, requested) => openrouter.chat(getModelId(purpose, requested))
+  };
+}
+
+function createOpenAIProvider(): LLMProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  const openai = createOpenAI({ apiKey: apiKey || '' });
+
+  // Conversations store OpenRouter IDs ("openai/gpt-4o-mini"); only OpenAI's
+  // own models can be served here
+  const getModelId = (purpose: LLMPurpose, requested?: string) => {
+    if (requested?.startsWith('openai/')) return requested.slice('openai/'.length);
+    if (purpose === 'extraction' && process.env.EXTRACTION_MODEL?.startsWith('openai/')) {
+      return process.env.EXTRACTION_MODEL.slice('openai/'.length);
+    }
+    if (purpose === 'summary' && process.env.SUMMARY_MODEL?.startsWith('openai/')) {
+      return process.env.SUMMARY_MODEL.slice('openai/'.length);
+    }
+    return process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL;
+  };
+
+  return {
+    name: 'openai',
+    isConfigured: () => Boolean(apiKey),
+    getModelId,
+    getModel: (purpose, requested) => openai.chat(getModelId(purpose, requested))
+  };
+}
+
+const MOCK_SCRIPTS: Record<LLMPurpose, MockScript> = {
+  chat: {
+    rules: [
+      {
+        match: /^\s*(hi|hello|hey|namaste|namaskar|नमस्ते)\b/i,
+        reply: 'Namaste! Tell me about your business (what you make or sell, and where) and I will find schemes that fit.'
+      }
+    ]
+  },
+  welcome: {
+    // The Hindi welcome prompt is written in Devanagari
+    rules: [
+      {
+        match: /[\u0900-\u097F]/,
+        reply: 'नमस्ते! मैं MSME Mitr AI हूं। मैं सरकारी योजनाओं, ऋण और व्यवसाय मार्गदर्शन में आपकी मदद कर सकता हूं। आज मैं आपकी कैसे मदद करूं?'
+      }
+    ],
+    defaultReply: 'Hello! I\'m MSME Mitr AI. I can help you find government schemes, loans and business guidance, in English, Hindi or any of 12 Indian languages. How can I help today?'
+  },
+  extraction: {
+    json: {
+      location: null,
+      industry: null,
+      businessSize: null,
+      annualTurnover: null,
+      employeeCount: null,
+      schemeInterests: [],
+      confidence: 0.5,
+      extractionNotes: 'Mock provider: no attributes extracted',
+      detectedLanguages: ['en']
+    }
+  },
+  summary: {
+    // Keeps what the user said, word for word
+    json: prompt => ({
+      businessFacts: (prompt.match(/^User: .+$/gm) || []).map(line => line.slice('User: '.length, 160)),
+      schemesDiscussed: [],
+      openQuestions: []
+    })
+  }
+};
+
+function createMockProvider(): LLMProvider {
+  const getModelId = (purpose: LLMPurpose) => `mock-${purpose}`;
+
+  return {
+    name: 'mock',
+    isConfigured: () => true,
+    getModelId,
+    getModel: purpose => createMockLanguageModel(getModelId(purpose), MOCK_SCRIPTS[purpose])
+  };
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+function resolveProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured === 'openrouter' || configured === 'openai' || configured === 'mock') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[llmProvider] Unknown LLM_PROVIDER "${configured}", choosing from API keys`);
+  }
+
+  if (process.env.OPENROUTER_API_KEY) return 'openrouter';
+  if (process.env.NODE_ENV === 'production') return 'openrouter';
+
+  console.warn('[llmProvider] No LLM_PROVIDER or OPENROUTER_API_KEY set, using the scripted mock model');
+  return 'mock';
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The provider for this environment
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    switch (resolveProviderName()) {
+      case 'openai':
+        provider = createOpenAIProvider();
+        break;
+      case 'mock':
+        provider = createMockProvider();
+        break;
+      default:
+        provider = createOpenRouterProvider();
+    }
+  }
+
+  return provider;
+}
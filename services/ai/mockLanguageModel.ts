@@ -0,0 +1,206 @@
+import { simulateReadableStream, type JSONValue, type LanguageModel } from 'ai';
+
+/**
+ * Deterministic local language model
+ *
+ * Stands in for a real provider when LLM_PROVIDER=mock (the default in
+ * development without API keys), so chat, welcome and extraction run end
+ * to end offline. Replies are scripted from the last message: canned text
+ * for matching rules, a search_schemes call when the chat tools are
+ * available, a summary once tool results come back, and scripted JSON for
+ * JSON-mode calls. The same prompt always gives the same output.
+ */
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelV2['doGenerate']>>;
+type StreamResult = Awaited<ReturnType<LanguageModelV2['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer Part> ? Part : never;
+type PromptMessage = CallOptions['prompt'][number];
+
+export interface MockRule {
+  match: RegExp; // Tested against the last user message
+  reply: string;
+}
+
+export interface MockScript {
+  rules?: MockRule[];
+  defaultReply?: string; // When no rule matches and no tool applies
+  json?: JSONValue | ((prompt: string) => JSONValue); // Reply to JSON-mode calls (generateObject), fixed or built from the last user message
+  chunkDelayMs?: number; // Delay between streamed words
+}
+
+type MockTurn =
+  | { kind: 'text'; text: string }
+  | { kind: 'tool-call'; toolCallId: string; toolName: string; input: Record<string, unknown> };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function messageText(message: PromptMessage): string {
+  if (typeof message.content === 'string') return message.content;
+
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .trim();
+}
+
+function lastUserText(prompt: CallOptions['prompt']): string {
+  const message = [...prompt].reverse().find(candidate => candidate.role === 'user');
+  return message ? messageText(message) : '';
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function promptLength(prompt: CallOptions['prompt']): number {
+  return prompt.reduce((total, message) =>
+    total + (typeof message.content === 'string' ? message.content.length : JSON.stringify(message.content).length), 0);
+}
+
+/**
+ * Reply to tool results: list the schemes found, or acknowledge the tool
+ */
+function summariseToolResults(message: Extract<PromptMessage, { role: 'tool' }>): string {
+  const lines: string[] = [];
+
+  message.content.forEach(part => {
+    if (part.type !== 'tool-result') return;
+
+    const value = part.output.type === 'json' ? part.output.value as Record<string, unknown> | null : null;
+
+    if (value && typeof value === 'object' && 'error' in value) {
+      lines.push(`I couldn't complete that: ${String(value.error)}`);
+      return;
+    }
+
+    if (part.toolName === 'search_schemes' && value && Array.isArray(value.results)) {
+      const results = value.results as Array<{ name: string; summary: string }>;
+      if (results.length === 0) {
+        lines.push(`I couldn't find schemes matching "${String(value.query)}". Could you tell me more about your business?`);
+        return;
+      }
+      // Cite each scheme's benefits (one citation per result) the way the
+      // prompt asks real models to
+      const citations = Array.isArray(value.citations) ? value.citations as Array<{ ref: number }> : [];
+      const cite = (index: number) => (citations[index] ? ` [${citations[index].ref}]` : '');
+
+      lines.push(`Here are schemes that match "${String(value.query)}":`, '');
+      results.forEach((scheme, index) => lines.push(`${index + 1}. **${scheme.name}**: ${scheme.summary}${cite(index)}`));
+      lines.push('', 'Would you like details or an eligibility check for any of these?');
+      return;
+    }
+
+    lines.push(`Here is the result from ${part.toolName}.`);
+  });
+
+  return lines.join('\n') || 'Done.';
+}
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * Create a scripted language model. modelId shows up in logs and headers.
+ */
+export function createMockLanguageModel(modelId: string, script: MockScript = {}): LanguageModelV2 {
+  const chunkDelayMs = script.chunkDelayMs ?? parseInt(process.env.LLM_MOCK_CHUNK_DELAY_MS || '15', 10);
+
+  const planTurn = (options: CallOptions): MockTurn => {
+    const last = options.prompt[options.prompt.length - 1];
+
+    if (last?.role === 'tool') {
+      return { kind: 'text', text: summariseToolResults(last) };
+    }
+
+    const userText = lastUserText(options.prompt);
+
+    if (options.responseFormat?.type === 'json') {
+      const json = typeof script.json === 'function' ? script.json(userText) : script.json;
+      return { kind: 'text', text: JSON.stringify(json ?? {}) };
+    }
+
+    const rule = script.rules?.find(candidate => candidate.match.test(userText));
+    if (rule) {
+      return { kind: 'text', text: rule.reply };
+    }
+
+    const canSearch = options.tools?.some(candidate => candidate.name === 'search_schemes');
+    if (canSearch && userText) {
+      return {
+        kind: 'tool-call',
+        toolCallId: `mock-call-${options.prompt.length}`,
+        toolName: 'search_schemes',
+        input: { query: userText.slice(0, 200), limit: 3 }
+      };
+    }
+
+    return {
+      kind: 'text',
+      text: script.defaultReply || `This is a mock response to: "${userText.slice(0, 100)}". Set LLM_PROVIDER and an API key for real answers.`
+    };
+  };
+
+  const usageFor = (options: CallOptions, output: string) => {
+    const inputTokens = Math.ceil(promptLength(options.prompt) / 4);
+    const outputTokens = estimateTokens(output);
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options): Promise<GenerateResult> {
+      const turn = planTurn(options);
+
+      if (turn.kind === 'tool-call') {
+        const input = JSON.stringify(turn.input);
+        return {
+          content: [{ type: 'tool-call', toolCallId: turn.toolCallId, toolName: turn.toolName, input }],
+          finishReason: 'tool-calls',
+          usage: usageFor(options, input),
+          warnings: []
+        };
+      }
+
+      return {
+        content: [{ type: 'text', text: turn.text }],
+        finishReason: 'stop',
+        usage: usageFor(options, turn.text),
+        warnings: []
+      };
+    },
+
+    async doStream(options): Promise<StreamResult> {
+      const turn = planTurn(options);
+      const chunks: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+      if (turn.kind === 'tool-call') {
+        const input = JSON.stringify(turn.input);
+        chunks.push(
+          { type: 'tool-call', toolCallId: turn.toolCallId, toolName: turn.toolName, input },
+          { type: 'finish', finishReason: 'tool-calls', usage: usageFor(options, input) }
+        );
+      } else {
+        // Stream word by word, keeping the spacing
+        chunks.push({ type: 'text-start', id: 'text-0' });
+        turn.text.split(/(?<=\s)/).forEach(delta => chunks.push({ type: 'text-delta', id: 'text-0', delta }));
+        chunks.push(
+          { type: 'text-end', id: 'text-0' },
+          { type: 'finish', finishReason: 'stop', usage: usageFor(options, turn.text) }
+        );
+      }
+
+      return {
+        stream: simulateReadableStream({ chunks, chunkDelayInMs: chunkDelayMs })
+      };
+    }
+  };
+}
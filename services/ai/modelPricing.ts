@@ -0,0 +1,72 @@
+import type { LanguageModelUsage } from 'ai';
+import type { TokenUsageRecord } from '@/types/conversation';
+
+/**
+ * Model pricing
+ *
+ * USD per million tokens, as listed by OpenRouter. Costs are worked out
+ * when usage is recorded, so changing a price here does not rewrite past
+ * costs. Models missing from the table are priced at DEFAULT_PRICING and
+ * logged, so an unlisted model shows up rather than costing nothing.
+ */
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'openai/gpt-4-turbo-preview': { input: 10, output: 30 },
+  'anthropic/claude-3-haiku': { input: 0.25, output: 1.25 },
+  'anthropic/claude-3.5-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3-opus': { input: 15, output: 75 },
+  'meta-llama/llama-3-70b-instruct': { input: 0.8, output: 0.8 },
+  'mistralai/mistral-7b-instruct': { input: 0.25, output: 0.25 },
+  'google/gemini-pro': { input: 0.5, output: 1.5 }
+};
+
+const DEFAULT_PRICING: ModelPrice = { input: 1, output: 3 };
+
+/**
+ * Price for a model ID. Accepts OpenAI's own IDs ("gpt-4o-mini") as well as
+ * OpenRouter's; the local mock model is free.
+ */
+export function getModelPrice(model: string): ModelPrice {
+  if (model.startsWith('mock-')) return { input: 0, output: 0 };
+
+  const price = MODEL_PRICING[model] || MODEL_PRICING[`openai/${model}`];
+  if (!price) {
+    console.warn(`[modelPricing] No price for ${model}, using the default`);
+    return DEFAULT_PRICING;
+  }
+
+  return price;
+}
+
+/**
+ * Cost in USD of a number of input and output tokens
+ */
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = getModelPrice(model);
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Usage record for a model call from the AI SDK's usage. Providers that
+ * report no counts give zero tokens.
+ */
+export function toUsageRecord(model: string, usage: LanguageModelUsage): TokenUsageRecord {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+
+  return {
+    model,
+    inputTokens,
+    outputTokens,
+    costUsd: calculateCost(model, inputTokens, outputTokens)
+  };
+}
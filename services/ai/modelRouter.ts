@@ -0,0 +1,229 @@
+import { APICallError, type LanguageModel } from 'ai';
+import type { LLMProvider } from './llmProvider';
+import type { ModelRouteRecord } from '@/types/conversation';
+
+/**
+ * Model routing for chat
+ *
+ * Each turn is routed to a tier: quick FAQ-style questions go to a cheap
+ * "fast" model, eligibility, application, document and calculation
+ * questions to a "strong" one. A tier is a chain of models tried in order;
+ * a model that times out or returns a server error fails over to the next.
+ * The strong chain ends with the fast models, so a detailed answer degrades
+ * to a cheaper model rather than to canned text.
+ *
+ * - LLM_FAST_MODELS / LLM_STRONG_MODELS: comma-separated chains
+ * - LLM_MODEL_TIMEOUT_MS: how long a model may take to start responding
+ *
+ * A user's preferred_model goes first when it is in the chain of the tier
+ * the turn was routed to; otherwise the tier's own order is kept.
+ */
+
+export type ModelTier = ModelRouteRecord['tier'];
+
+export interface ModelRoute {
+  tier: ModelTier;
+  reason: string;
+  chain: string[]; // Model IDs in the order they are tried
+}
+
+export interface RouteRequest {
+  message: string;
+  preferredModel?: string | null;
+}
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+const DEFAULT_FAST_MODELS = ['openai/gpt-4o-mini', 'anthropic/claude-3-haiku'];
+const DEFAULT_STRONG_MODELS = ['openai/gpt-4o', 'anthropic/claude-3.5-sonnet'];
+const DEFAULT_TIMEOUT_MS = 20000;
+
+// Questions that need the scheme rules applied carefully, in English, Hindi
+// and Hinglish
+const DETAILED_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /eligib|qualif|\bam i\b.*\b(able|allowed)\b|पात्र|योग्य|patra/i, reason: 'eligibility question' },
+  { pattern: /\bappl(y|ied|ication)\b|how (do|can) i (get|avail)|आवेदन|kaise (apply|milega|le)/i, reason: 'application guidance' },
+  { pattern: /\bdocument|paperwork|certificate|दस्तावेज|कागज/i, reason: 'documents question' },
+  { pattern: /\b(emi|subsidy amount|loan amount|project cost|margin money|calculate)\b|कितना|kitna/i, reason: 'amount calculation' },
+  { pattern: /\b(compare|difference between|which is better|vs\.?)\b/i, reason: 'scheme comparison' }
+];
+
+const LONG_MESSAGE_CHARS = 280;
+
+function modelList(value: string | undefined, fallback: string[]): string[] {
+  const models = (value || '').split(',').map(model => model.trim()).filter(Boolean);
+  return models.length > 0 ? models : fallback;
+}
+
+/**
+ * Tier chains from the environment
+ */
+export function getModelChains(): Record<ModelTier, string[]> {
+  return {
+    fast: modelList(process.env.LLM_FAST_MODELS, DEFAULT_FAST_MODELS),
+    strong: modelList(process.env.LLM_STRONG_MODELS, DEFAULT_STRONG_MODELS)
+  };
+}
+
+/**
+ * Pick the tier and model chain for a chat turn
+ */
+export function routeChatTurn({ message, preferredModel }: RouteRequest): ModelRoute {
+  const chains = getModelChains();
+  const detailed = DETAILED_PATTERNS.find(({ pattern }) => pattern.test(message));
+
+  let tier: ModelTier = 'fast';
+  let reason = 'short general question';
+  if (detailed) {
+    tier = 'strong';
+    reason = detailed.reason;
+  } else if (message.length > LONG_MESSAGE_CHARS) {
+    tier = 'strong';
+    reason = 'long, detailed message';
+  }
+
+  const allowed = chains[tier];
+  let chain = tier === 'strong' ? [...allowed, ...chains.fast] : [...allowed];
+
+  if (preferredModel && allowed.includes(preferredModel)) {
+    chain = [preferredModel, ...chain.filter(model => model !== preferredModel)];
+    reason += `; ${preferredModel} preferred by user`;
+  } else if (preferredModel && preferredModel !== chain[0]) {
+    reason += `; preferred ${preferredModel} not allowed for ${tier} tier`;
+  }
+
+  return { tier, reason, chain: [...new Set(chain)] };
+}
+
+// ============================================================================
+// Failover
+// ============================================================================
+
+class ModelTimeoutError extends Error {
+  constructor(modelId: string, timeoutMs: number) {
+    super(`${modelId} did not respond within ${timeoutMs}ms`);
+    this.name = 'ModelTimeoutError';
+  }
+}
+
+/**
+ * Timeouts, 5xx responses and network failures fail over; client errors
+ * (bad request, auth, content filter) would fail the same way on every model
+ */
+function shouldFailOver(error: unknown): boolean {
+  if (error instanceof ModelTimeoutError) return true;
+  if (APICallError.isInstance(error)) {
+    return error.statusCode === undefined || error.statusCode >= 500;
+  }
+  return false;
+}
+
+function describeError(error: unknown): string {
+  if (APICallError.isInstance(error) && error.statusCode) {
+    return `HTTP ${error.statusCode}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run a model call with a deadline for the first response. The deadline
+ * only covers the call resolving (for streams, the response starting), not
+ * reading the stream afterwards.
+ */
+async function withTimeout<T>(
+  modelId: string,
+  timeoutMs: number,
+  abortSignal: AbortSignal | undefined,
+  call: (abortSignal: AbortSignal) => PromiseLike<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortSignal?.reason);
+  abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ModelTimeoutError(modelId, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface RoutedModel {
+  model: LanguageModelV2;
+  route: ModelRoute;
+  /**
+   * The model that answered and the failovers so far. Read it once the
+   * response has finished.
+   */
+  record(): ModelRouteRecord;
+}
+
+/**
+ * Language model that works through a route's chain. Once a model has
+ * failed, later steps of the same response (after tool calls) start from
+ * the model that answered. Errors after a stream has started are not
+ * retried; the client has already shown part of the answer.
+ */
+export function createRoutedModel(provider: LLMProvider, route: ModelRoute): RoutedModel {
+  const timeoutMs = parseInt(process.env.LLM_MODEL_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS), 10);
+
+  // Providers that cannot serve a model ID map it to their default; try each
+  // resolved model once
+  const candidates = [...new Set(route.chain.map(model => provider.getModelId('chat', model)))];
+  const failovers: Array<{ model: string; error: string }> = [];
+  let active = 0;
+
+  const attempt = async <T>(
+    abortSignal: AbortSignal | undefined,
+    call: (model: LanguageModelV2, abortSignal: AbortSignal) => PromiseLike<T>
+  ): Promise<T> => {
+    for (let index = active; index < candidates.length; index++) {
+      const modelId = candidates[index];
+
+      try {
+        const result = await withTimeout(modelId, timeoutMs, abortSignal, signal =>
+          call(provider.getModel('chat', modelId), signal));
+        active = index;
+        return result;
+      } catch (error) {
+        const last = index === candidates.length - 1;
+        if (last || abortSignal?.aborted || !shouldFailOver(error)) throw error;
+
+        console.warn(`[modelRouter] ${modelId} failed (${describeError(error)}), trying ${candidates[index + 1]}`);
+        failovers.push({ model: modelId, error: describeError(error) });
+      }
+    }
+
+    throw new Error('No models to route to');
+  };
+
+  const model: LanguageModelV2 = {
+    specificationVersion: 'v2',
+    provider: provider.name,
+    modelId: candidates[0],
+    supportedUrls: {},
+    doGenerate: options => attempt(options.abortSignal, (candidate, abortSignal) =>
+      candidate.doGenerate({ ...options, abortSignal })),
+    doStream: options => attempt(options.abortSignal, (candidate, abortSignal) =>
+      candidate.doStream({ ...options, abortSignal }))
+  };
+
+  return {
+    model,
+    route,
+    record: () => ({
+      model: candidates[active],
+      tier: route.tier,
+      reason: route.reason,
+      ...(failovers.length > 0 ? { failovers: [...failovers] } : {})
+    })
+  };
+}
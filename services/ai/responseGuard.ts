@@ -0,0 +1,90 @@
+import type { StreamTextTransform, TextStreamPart, ToolSet } from 'ai';
+import {
+  formatVerificationNote,
+  verifySchemeResponse,
+  type ResponseVerification
+} from '@/lib/schemes/responseVerifier';
+import type { ProcessedScheme } from '@/types/scheme';
+
+/**
+ * Response guard
+ *
+ * Checks a chat answer against the scheme catalogue once it has been
+ * generated (lib/schemes/responseVerifier) and, unless
+ * RESPONSE_GUARD_MODE is "flag", appends a note with the catalogue's
+ * figures for every claim that failed. The answer itself is streamed as
+ * the model wrote it; the note is a separate text part at the end.
+ *
+ * The route reads the verification in onFinish to record the schemes the
+ * answer named and to log flagged answers for admin review.
+ */
+
+export type ResponseGuardMode = 'correct' | 'flag';
+
+export interface ResponseGuardResult extends ResponseVerification {
+  corrected: boolean; // A note was appended to the answer
+}
+
+export interface ResponseGuard {
+  /**
+   * Stream transform for streamText's experimental_transform
+   */
+  transform<TOOLS extends ToolSet>(): StreamTextTransform<TOOLS>;
+  /**
+   * Verification of the answer; empty until the stream has finished
+   */
+  result(): ResponseGuardResult;
+}
+
+const NOTE_PART_ID = 'response-guard-note';
+
+export function getResponseGuardMode(): ResponseGuardMode {
+  return process.env.RESPONSE_GUARD_MODE === 'flag' ? 'flag' : 'correct';
+}
+
+/**
+ * Guard for one answer
+ *
+ * @example
+ * ```typescript
+ * const guard = createResponseGuard(await schemeDataService.getAllSchemes());
+ * const result = streamText({ ..., experimental_transform: guard.transform() });
+ * // in onFinish: guard.result().issues
+ * ```
+ */
+export function createResponseGuard(
+  catalogue: ProcessedScheme[],
+  mode: ResponseGuardMode = getResponseGuardMode()
+): ResponseGuard {
+  let result: ResponseGuardResult = { mentionedSchemeIds: [], issues: [], corrected: false };
+
+  function transform<TOOLS extends ToolSet>(): StreamTextTransform<TOOLS> {
+    return () => {
+      let text = '';
+
+      return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+        transform(chunk, controller) {
+          if (chunk.type === 'text-delta') {
+            text += chunk.text;
+          }
+
+          if (chunk.type === 'finish') {
+            const verification = verifySchemeResponse(text, catalogue);
+            const note = mode === 'correct' ? formatVerificationNote(verification.issues) : '';
+            result = { ...verification, corrected: note.length > 0 };
+
+            if (note) {
+              controller.enqueue({ type: 'text-start', id: NOTE_PART_ID });
+              controller.enqueue({ type: 'text-delta', id: NOTE_PART_ID, text: note });
+              controller.enqueue({ type: 'text-end', id: NOTE_PART_ID });
+            }
+          }
+
+          controller.enqueue(chunk);
+        }
+      });
+    };
+  }
+
+  return { transform, result: () => result };
+}
@@ -0,0 +1,257 @@
+import type { InferUIMessageChunk } from 'ai';
+import type { SchemeChatMessage, SchemeTools, SchemeToolSummary } from './schemeTools';
+import type { DocumentChecklist, EligibilityCriterion, EligibilityStatus } from '@/types/scheme';
+
+/**
+ * Structured Chat Data Parts
+ *
+ * The chat stream carries typed data parts alongside the answer text, built
+ * from the results of the scheme tools: recommendation cards, eligibility
+ * verdicts, document checklists and suggested follow-up questions. The chat
+ * renders them as interactive cards (save, compare, view details), so the
+ * answer text does not have to list every scheme and document itself.
+ *
+ * Parts arrive as data-<name> parts on the assistant message, with the tool
+ * call ID as the part ID. Follow-up questions are sent once, just before
+ * the message finishes.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scheme recommendation card; the search summary, plus how to apply when
+ * the card comes from a details lookup
+ */
+export interface SchemeCardData extends SchemeToolSummary {
+  applyUrl?: string;
+  onlineApplication?: boolean;
+}
+
+export interface EligibilityVerdict {
+  schemeId: string;
+  schemeName: string;
+  pageUrl: string;
+  status: EligibilityStatus;
+  reasons: string[]; // Criteria not met or not known, as sentences
+  missingFields: EligibilityCriterion[];
+}
+
+export type SchemeChatDataParts = {
+  schemeCards: { query?: string; schemes: SchemeCardData[] };
+  eligibility: { results: EligibilityVerdict[] };
+  documentChecklist: DocumentChecklist & { missing: string[] };
+  followUps: { questions: string[] };
+};
+
+type SchemeChatChunk = InferUIMessageChunk<SchemeChatMessage>;
+type ToolName = keyof SchemeTools;
+type ToolOutput<NAME extends ToolName> = Exclude<
+  Extract<SchemeChatMessage['parts'][number], { type: `tool-${NAME}`; state: 'output-available' }>['output'],
+  { error: string }
+>;
+
+/**
+ * Tools whose results are sent as data parts rather than rendered from the
+ * tool part
+ */
+export const DATA_PART_TOOLS: ToolName[] = [
+  'search_schemes',
+  'get_scheme_details',
+  'check_eligibility',
+  'generate_document_checklist'
+];
+
+const MAX_FOLLOW_UPS = 3;
+
+// ============================================================================
+// Follow-up questions
+// ============================================================================
+
+interface FollowUpPhrases {
+  eligible: (scheme: string) => string;
+  documents: (scheme: string) => string;
+  apply: (scheme: string) => string;
+  subsidy: (scheme: string) => string;
+  compare: (first: string, second: string) => string;
+  save: (scheme: string) => string;
+  profileNeeded: string;
+  otherSchemes: string;
+}
+
+const FOLLOW_UP_PHRASES: Record<'en' | 'hi', FollowUpPhrases> = {
+  en: {
+    eligible: scheme => `Am I eligible for ${scheme}?`,
+    documents: scheme => `What documents do I need for ${scheme}?`,
+    apply: scheme => `How do I apply for ${scheme}?`,
+    subsidy: scheme => `How much subsidy can I get under ${scheme}?`,
+    compare: (first, second) => `Compare ${first} and ${second}`,
+    save: scheme => `Save ${scheme} to my schemes`,
+    profileNeeded: 'What details do you need to check my eligibility?',
+    otherSchemes: 'Which other schemes suit my business?'
+  },
+  hi: {
+    eligible: scheme => `क्या मैं ${scheme} के लिए पात्र हूं?`,
+    documents: scheme => `${scheme} के लिए कौन से दस्तावेज़ चाहिए?`,
+    apply: scheme => `${scheme} के लिए आवेदन कैसे करें?`,
+    subsidy: scheme => `${scheme} में कितनी सब्सिडी मिलेगी?`,
+    compare: (first, second) => `${first} और ${second} की तुलना करें`,
+    save: scheme => `${scheme} को मेरी योजनाओं में सेव करें`,
+    profileNeeded: 'मेरी पात्रता जांचने के लिए आपको क्या जानकारी चाहिए?',
+    otherSchemes: 'मेरे व्यवसाय के लिए और कौन सी योजनाएं सही हैं?'
+  }
+};
+
+/**
+ * Questions to suggest after a tool result, most useful first
+ */
+function followUpsFor(name: ToolName, output: unknown, phrases: FollowUpPhrases): string[] {
+  switch (name) {
+    case 'search_schemes': {
+      const [first, second] = (output as ToolOutput<'search_schemes'>).results;
+      if (!first) return [phrases.otherSchemes];
+      return [
+        phrases.eligible(first.name),
+        ...(second ? [phrases.compare(first.name, second.name)] : []),
+        phrases.documents(first.name)
+      ];
+    }
+
+    case 'get_scheme_details': {
+      const scheme = output as ToolOutput<'get_scheme_details'>;
+      return [
+        phrases.eligible(scheme.name),
+        ...(scheme.financialDetails ? [phrases.subsidy(scheme.name)] : []),
+        phrases.documents(scheme.name)
+      ];
+    }
+
+    case 'check_eligibility':
+      return (output as ToolOutput<'check_eligibility'>).results.flatMap(result => {
+        if (result.status === 'eligible') return [phrases.documents(result.schemeName), phrases.apply(result.schemeName)];
+        if (result.status === 'unknown') return [phrases.profileNeeded];
+        return [phrases.otherSchemes];
+      });
+
+    case 'generate_document_checklist': {
+      const [scheme] = (output as ToolOutput<'generate_document_checklist'>).schemes;
+      return scheme ? [phrases.apply(scheme), phrases.save(scheme)] : [];
+    }
+
+    default:
+      return [];
+  }
+}
+
+// ============================================================================
+// Data parts
+// ============================================================================
+
+/**
+ * Data part for a tool result, if the tool has one
+ */
+function toDataPart(name: ToolName, toolCallId: string, output: unknown): SchemeChatChunk | null {
+  switch (name) {
+    case 'search_schemes': {
+      const { query, results } = output as ToolOutput<'search_schemes'>;
+      return { type: 'data-schemeCards', id: toolCallId, data: { query, schemes: results } };
+    }
+
+    case 'get_scheme_details': {
+      const scheme = output as ToolOutput<'get_scheme_details'>;
+      const card: SchemeCardData = {
+        id: scheme.id,
+        slug: scheme.slug,
+        name: scheme.name,
+        ministry: scheme.ministry,
+        category: scheme.category,
+        summary: scheme.summary,
+        availableIn: scheme.availableIn,
+        keyBenefits: scheme.keyBenefits.slice(0, 3),
+        pageUrl: scheme.pageUrl,
+        applyUrl: scheme.applicationUrls[0] || scheme.officialUrl || undefined,
+        onlineApplication: scheme.onlineApplication
+      };
+      return { type: 'data-schemeCards', id: toolCallId, data: { schemes: [card] } };
+    }
+
+    case 'check_eligibility': {
+      const { results } = output as ToolOutput<'check_eligibility'>;
+      return {
+        type: 'data-eligibility',
+        id: toolCallId,
+        data: {
+          results: results.map(result => ({
+            schemeId: result.schemeId,
+            schemeName: result.schemeName,
+            pageUrl: `/schemes/${result.slug}`,
+            status: result.status,
+            reasons: result.criteria
+              .filter(criterion => criterion.status !== 'eligible')
+              .map(criterion => criterion.reason),
+            missingFields: result.missingFields
+          }))
+        }
+      };
+    }
+
+    case 'generate_document_checklist': {
+      const { schemes, items, missing } = output as ToolOutput<'generate_document_checklist'>;
+      return { type: 'data-documentChecklist', id: toolCallId, data: { schemes, items, missing } };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Transform for the chat's UI message stream that adds a data part after
+ * each scheme tool result, and follow-up questions before the finish.
+ * Results reported as { error } get no part; the answer explains them.
+ *
+ * @example
+ * ```ts
+ * createUIMessageStreamResponse({
+ *   stream: result.toUIMessageStream<SchemeChatMessage>().pipeThrough(schemeDataParts({ language }))
+ * });
+ * ```
+ */
+export function schemeDataParts(options: { language?: string } = {}) {
+  const phrases = FOLLOW_UP_PHRASES[options.language === 'hi' ? 'hi' : 'en'];
+  const toolNames = new Map<string, ToolName>();
+  const followUps: string[] = [];
+
+  return new TransformStream<SchemeChatChunk, SchemeChatChunk>({
+    transform(chunk, controller) {
+      if (chunk.type === 'finish' && followUps.length > 0) {
+        controller.enqueue({
+          type: 'data-followUps',
+          id: 'follow-ups',
+          data: { questions: [...new Set(followUps)].slice(0, MAX_FOLLOW_UPS) }
+        });
+      }
+
+      controller.enqueue(chunk);
+
+      if (chunk.type === 'tool-input-start' || chunk.type === 'tool-input-available') {
+        toolNames.set(chunk.toolCallId, chunk.toolName as ToolName);
+        return;
+      }
+
+      if (chunk.type !== 'tool-output-available') return;
+
+      const name = toolNames.get(chunk.toolCallId);
+      const output = chunk.output;
+      if (!name || !DATA_PART_TOOLS.includes(name) || !output || typeof output !== 'object' || 'error' in output) {
+        return;
+      }
+
+      const part = toDataPart(name, chunk.toolCallId, output);
+      if (part) controller.enqueue(part);
+      // Suggestions from later tool calls follow up on the latest result
+      followUps.unshift(...followUpsFor(name, output, phrases));
+    }
+  });
+}
@@ -0,0 +1,214 @@
+import { ProcessedScheme, SchemeChunk, SchemeEmbedding } from '@/types/scheme';
+import { chunkSchemes } from '@/lib/schemes/schemeChunks';
+import { expandQuery } from '@/lib/schemes/queryExpansion';
+import { SchemeSearchIndex, processedSchemeToDocument } from '@/lib/schemes/searchIndex';
+import {
+  EmbeddingProvider,
+  createEmbeddingProvider,
+  cosineSimilarity,
+  hashString
+} from './embeddingService';
+
+/**
+ * Semantic and hybrid scheme retrieval for LLM context
+ *
+ * Schemes are split into chunks (overview, benefits, eligibility,
+ * application), embedded and kept in a vector store. A query is embedded
+ * the same way and matched by cosine similarity; each scheme scores as its
+ * best chunk. Hybrid search blends this with the keyword index so exact
+ * names ("PMEGP") and paraphrased needs ("money to open a tailoring unit")
+ * both find the right scheme.
+ */
+
+export interface VectorMatch {
+  embedding: SchemeEmbedding;
+  score: number;
+}
+
+/**
+ * Storage for chunk embeddings. The in-memory store is enough for the
+ * current catalogue; a pgvector-backed store can implement the same shape.
+ */
+export interface VectorStore {
+  replaceAll(embeddings: SchemeEmbedding[]): Promise<void>;
+  query(vector: number[], limit: number): Promise<VectorMatch[]>;
+  size(): number;
+}
+
+export class InMemoryVectorStore implements VectorStore {
+  private embeddings: SchemeEmbedding[] = [];
+
+  async replaceAll(embeddings: SchemeEmbedding[]): Promise<void> {
+    this.embeddings = [...embeddings];
+  }
+
+  async query(vector: number[], limit: number): Promise<VectorMatch[]> {
+    return this.embeddings
+      .map(embedding => ({ embedding, score: cosineSimilarity(vector, embedding.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  size(): number {
+    return this.embeddings.length;
+  }
+}
+
+export interface SemanticHit {
+  scheme: ProcessedScheme;
+  score: number; // cosine similarity of the best chunk
+  chunk: SchemeChunk;
+}
+
+export interface HybridHit {
+  scheme: ProcessedScheme;
+  score: number; // 0-1 blended score
+  keywordScore: number; // 0-1, relative to the best keyword match
+  semanticScore: number; // 0-1, relative to the best semantic match
+  chunk?: SchemeChunk;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;
+  semanticWeight?: number; // 0 = keyword only, 1 = semantic only
+  minSimilarity?: number; // ignore weaker semantic matches
+}
+
+// Chunks fetched per requested scheme before grouping by scheme
+const CHUNKS_PER_SCHEME = 4;
+
+export class SchemeRetriever {
+  private provider: EmbeddingProvider;
+  private store: VectorStore;
+  private schemes = new Map<string, ProcessedScheme>();
+  private chunks = new Map<string, SchemeChunk>();
+  private keywordIndex: SchemeSearchIndex<ProcessedScheme> | null = null;
+  private fingerprint: string | null = null;
+
+  constructor(provider?: EmbeddingProvider, store?: VectorStore) {
+    this.provider = provider || createEmbeddingProvider();
+    this.store = store || new InMemoryVectorStore();
+  }
+
+  /**
+   * Chunk and embed schemes. Skipped when the chunk content is unchanged
+   * since the last call, so it is cheap to call before every query.
+   */
+  async indexSchemes(schemes: ProcessedScheme[]): Promise<void> {
+    const chunks = chunkSchemes(schemes);
+    const fingerprint = `${this.provider.id}:${chunks
+      .map(chunk => `${chunk.id}=${hashString(chunk.text)}`)
+      .sort()
+      .join('|')}`;
+
+    if (fingerprint === this.fingerprint) return;
+
+    // IDF-style providers must see the whole corpus, so every chunk is
+    // re-embedded whenever any chunk changes
+    this.provider.fit?.(chunks.map(chunk => chunk.text));
+    const vectors = await this.provider.embed(chunks.map(chunk => chunk.text));
+    const timestamp = new Date();
+
+    await this.store.replaceAll(chunks.map((chunk, i) => ({
+      schemeId: chunk.schemeId,
+      chunkId: chunk.id,
+      kind: chunk.kind,
+      embedding: vectors[i],
+      metadata: { model: this.provider.id, timestamp }
+    })));
+
+    this.schemes = new Map(schemes.map(scheme => [scheme.id, scheme]));
+    this.chunks = new Map(chunks.map(chunk => [chunk.id, chunk]));
+    this.keywordIndex = new SchemeSearchIndex(schemes, processedSchemeToDocument);
+    this.fingerprint = fingerprint;
+  }
+
+  /**
+   * Nearest-neighbour retrieval: schemes whose best chunk is most similar
+   * to the query
+   */
+  async retrieve(query: string, limit: number = 5): Promise<SemanticHit[]> {
+    if (this.store.size() === 0 || !query.trim()) return [];
+
+    const [queryVector] = await this.provider.embed([this.buildQueryText(query)]);
+    const matches = await this.store.query(queryVector, limit * CHUNKS_PER_SCHEME);
+
+    const best = new Map<string, SemanticHit>();
+    matches.forEach(({ embedding, score }) => {
+      const scheme = this.schemes.get(embedding.schemeId);
+      const chunk = this.chunks.get(embedding.chunkId);
+      if (!scheme || !chunk || score <= 0) return;
+
+      const current = best.get(scheme.id);
+      if (!current || score > current.score) {
+        best.set(scheme.id, { scheme, score, chunk });
+      }
+    });
+
+    return Array.from(best.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Blend keyword and semantic relevance. Each side is scaled to 0-1 by its
+   * best match before weighting, since BM25 and cosine scores differ in range.
+   */
+  async hybridSearch(
+    query: string,
+    schemes: ProcessedScheme[],
+    options: HybridSearchOptions = {}
+  ): Promise<HybridHit[]> {
+    const { limit = 5, semanticWeight = 0.5, minSimilarity = 0.05 } = options;
+
+    await this.indexSchemes(schemes);
+
+    const keywordHits = this.keywordIndex?.search(query) || [];
+    const semanticHits = (await this.retrieve(query, schemes.length))
+      .filter(hit => hit.score >= minSimilarity);
+
+    const topKeyword = keywordHits[0]?.score || 0;
+    const topSemantic = semanticHits[0]?.score || 0;
+
+    const combined = new Map<string, HybridHit>();
+    const entryFor = (scheme: ProcessedScheme): HybridHit => {
+      const existing = combined.get(scheme.id);
+      if (existing) return existing;
+      const entry: HybridHit = { scheme, score: 0, keywordScore: 0, semanticScore: 0 };
+      combined.set(scheme.id, entry);
+      return entry;
+    };
+
+    keywordHits.forEach(hit => {
+      entryFor(hit.item).keywordScore = topKeyword > 0 ? hit.score / topKeyword : 0;
+    });
+
+    semanticHits.forEach(hit => {
+      const entry = entryFor(hit.scheme);
+      entry.semanticScore = topSemantic > 0 ? hit.score / topSemantic : 0;
+      entry.chunk = hit.chunk;
+    });
+
+    return Array.from(combined.values())
+      .map(entry => ({
+        ...entry,
+        score: semanticWeight * entry.semanticScore + (1 - semanticWeight) * entry.keywordScore
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Add English synonyms of Hinglish and Devanagari words so the query
+   * shares vocabulary with the (English) scheme chunks
+   */
+  private buildQueryText(query: string): string {
+    const expansions = expandQuery(query).flatMap(term =>
+      term.variants.slice(1).map(variant => variant.term)
+    );
+    return [query, ...expansions].join(' ');
+  }
+}
+
+// Export singleton instance using the configured provider
+export const schemeRetriever = new SchemeRetriever();
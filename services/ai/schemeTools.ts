@@ -0,0 +1,427 @@
+import {
+  tool,
+  type InferUITools,
+  type StreamTextTransform,
+  type TextStreamPart,
+  type ToolSet,
+  type UIMessage
+} from 'ai';
+import {
+  loanCalculatorSchema,
+  documentChecklistSchema,
+  schemeSearchToolSchema,
+  schemeDetailsToolSchema,
+  eligibilityCheckToolSchema,
+  saveSchemeToolSchema,
+  type EligibilityCheckToolInput
+} from '@/lib/validators/scheme';
+import { schemeDataService } from '@/services/schemes/schemeDataService';
+import { UserSchemeService } from '@/services/database/userSchemeService';
+import { ProfileService } from '@/services/database/profileService';
+import { calculateSchemeFinance, supportsLoanCalculation } from '@/lib/schemes/financialCalculator';
+import { buildDocumentChecklist, toChecklistProfile } from '@/lib/schemes/documentChecklist';
+import {
+  accountToEligibilityProfile,
+  evaluateSchemesEligibility,
+  formatEligibilityResult
+} from '@/lib/schemes/eligibilityEngine';
+import { filterSchemes } from '@/lib/schemes/schemeUtils';
+import { formatJurisdiction } from '@/lib/schemes/jurisdiction';
+import { describeRelation, getRelation, type SchemeRelation } from '@/lib/schemes/schemeRelationships';
+import {
+  createCitationRegistry,
+  type CitationMetadata,
+  type CitationRegistry
+} from '@/lib/schemes/schemeCitations';
+import type { createClient } from '@/lib/supabase/client';
+import type { ProcessedScheme, UserProfile } from '@/types/scheme';
+import type { ChatMessageMetadata } from '@/types/conversation';
+import type { SchemeChatDataParts } from './schemeDataParts';
+
+/**
+ * Tools the chat assistant can call
+ *
+ * The model looks schemes up, checks eligibility and does arithmetic
+ * through these instead of relying on scheme text packed into the system
+ * prompt. Amounts and eligibility quoted in chat come from the same code
+ * as the scheme pages. Tools report problems as { error } results so the
+ * model can explain them rather than failing the stream.
+ */
+
+export interface SchemeToolContext {
+  profile: UserProfile; // Saved account profile merged with what the chat client sent
+  userId?: string; // Signed-in user; save_scheme_for_user needs one
+  supabase?: ReturnType<typeof createClient>;
+  preferredModel?: string; // Account's preferred_model, for model routing
+}
+
+/**
+ * Compact scheme entry returned by search_schemes
+ */
+export interface SchemeToolSummary {
+  id: string;
+  slug: string;
+  name: string;
+  ministry: string;
+  category: string;
+  summary: string;
+  availableIn: string;
+  keyBenefits: string[];
+  pageUrl: string;
+}
+
+function toSummary(scheme: ProcessedScheme): SchemeToolSummary {
+  return {
+    id: scheme.id,
+    slug: scheme.slug,
+    name: scheme.name,
+    ministry: scheme.ministry,
+    category: scheme.category,
+    summary: scheme.summary,
+    availableIn: formatJurisdiction(scheme.jurisdiction),
+    keyBenefits: scheme.keyBenefits.slice(0, 3),
+    pageUrl: `/schemes/${scheme.slug}`
+  };
+}
+
+/**
+ * Resolve scheme names or IDs, keeping the keys that matched nothing
+ */
+async function findSchemes(keys: string[]): Promise<{ schemes: ProcessedScheme[]; missing: string[] }> {
+  const schemes: ProcessedScheme[] = [];
+  const missing: string[] = [];
+
+  for (const key of keys) {
+    const scheme = await schemeDataService.findScheme(key);
+    if (scheme) {
+      schemes.push(scheme);
+    } else {
+      missing.push(key);
+    }
+  }
+
+  return { schemes, missing };
+}
+
+function noSchemesNamed(keys: string[]): { error: string } {
+  return { error: `No schemes named ${keys.map(key => `"${key}"`).join(', ')}` };
+}
+
+/**
+ * Saved profile with the details the user gave in chat laid over it
+ */
+function withProfileOverrides(
+  profile: UserProfile,
+  overrides: EligibilityCheckToolInput['profile'] = {}
+): UserProfile {
+  const { state, areaType, ...rest } = overrides;
+  const merged: UserProfile = { ...profile, ...rest };
+
+  if (state || areaType) {
+    merged.location = {
+      ...profile.location,
+      ...(state ? { state } : {}),
+      ...(areaType ? { isRural: areaType === 'rural' } : {})
+    };
+  }
+  if (rest.sector && !rest.businessSize) {
+    merged.businessType = rest.sector;
+  }
+
+  return merged;
+}
+
+const calculateSchemeFinanceTool = (citations: CitationRegistry) => tool({
+  description:
+    'Calculate margin money subsidy, own contribution, bank loan and monthly EMI for a scheme. ' +
+    'Use this whenever the user asks how much subsidy, loan or EMI they would get for a project cost. ' +
+    'scheme is the official scheme name; projectCost is in rupees; category is "special" for SC, ST, OBC, ' +
+    'minorities, women, ex-servicemen, differently abled, NER, hill and border areas, otherwise "general". ' +
+    'Ask the user for project cost and urban/rural location if they have not given them.',
+  inputSchema: loanCalculatorSchema,
+  execute: async ({ scheme: schemeKey, ...input }) => {
+    const scheme = await schemeDataService.findScheme(schemeKey);
+
+    if (!scheme) {
+      return { error: `No scheme named "${schemeKey}"` };
+    }
+    if (!supportsLoanCalculation(scheme)) {
+      return { error: `${scheme.name} has no subsidy or loan terms to calculate with` };
+    }
+
+    try {
+      return {
+        ...calculateSchemeFinance(scheme, input),
+        citations: citations.cite(scheme, ['financialDetails', 'guideline'])
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Calculation failed' };
+    }
+  }
+});
+
+const documentChecklistTool = (citations: CitationRegistry) => tool({
+  description:
+    'Build the list of documents the user needs to apply for one or more schemes, merged across schemes. ' +
+    'Use this whenever the user asks what documents or papers they need. schemes are official scheme names. ' +
+    'Pass the profile fields you know (social category, business constitution, stage, urban/rural) so ' +
+    'documents that do not apply are left out; leave unknown fields out.',
+  inputSchema: documentChecklistSchema,
+  execute: async ({ schemes: schemeKeys, profile }) => {
+    const { schemes, missing } = await findSchemes(schemeKeys);
+
+    if (schemes.length === 0) {
+      return noSchemesNamed(schemeKeys);
+    }
+
+    return {
+      ...buildDocumentChecklist(schemes, toChecklistProfile(profile || {})),
+      missing,
+      citations: schemes.flatMap(scheme => citations.cite(scheme, ['documents']))
+    };
+  }
+});
+
+const schemeDetailsTool = (citations: CitationRegistry) => tool({
+  description:
+    'Get the full details of one scheme: benefits, eligibility criteria, financial terms, application steps, ' +
+    'documents, where it is available and how it combines with other schemes. Call this before answering ' +
+    'specific questions about a scheme instead of relying on memory. scheme is the official name or ID from search_schemes.',
+  inputSchema: schemeDetailsToolSchema,
+  execute: async ({ scheme: schemeKey }) => {
+    const scheme = await schemeDataService.findScheme(schemeKey);
+
+    if (!scheme) {
+      return { error: `No scheme named "${schemeKey}". Use search_schemes to find its official name.` };
+    }
+
+    const allSchemes = await schemeDataService.getAllSchemes();
+    const combinations = allSchemes
+      .filter(other => other.id !== scheme.id)
+      .map(other => getRelation(scheme, other))
+      .filter((relation): relation is SchemeRelation => relation !== undefined)
+      .map(describeRelation);
+
+    return {
+      ...toSummary(scheme),
+      shortName: scheme.shortName,
+      description: scheme.fullDescription,
+      targetAudience: scheme.targetAudience,
+      keyBenefits: scheme.keyBenefits,
+      eligibilityCriteria: scheme.eligibilityCriteria,
+      financialDetails: scheme.financialDetails,
+      applicationSteps: scheme.applicationSteps,
+      documentsNeeded: scheme.documentsNeeded,
+      onlineApplication: scheme.onlineApplication,
+      applicationUrls: scheme.applicationUrls,
+      officialUrl: scheme.url,
+      combinations,
+      citations: citations.cite(scheme, [
+        'details',
+        'benefits',
+        'eligibility',
+        ...(scheme.financialDetails ? ['financialDetails' as const] : []),
+        'applicationProcess',
+        'documents',
+        'official',
+        'guideline'
+      ])
+    };
+  }
+});
+
+// ============================================================================
+// Tools bound to the current user
+// ============================================================================
+
+/**
+ * Tools for one chat request. Searches default to the user's state and
+ * eligibility checks use their profile; saving needs a signed-in user.
+ * Results list the scheme fields they drew on as citations, numbered
+ * across the whole answer (lib/schemes/schemeCitations).
+ */
+export function createSchemeTools(
+  context: SchemeToolContext,
+  citations: CitationRegistry = createCitationRegistry()
+) {
+  const searchSchemesTool = tool({
+    description:
+      'Search the scheme catalogue by need or keyword (e.g. "loan for machinery", "women entrepreneur subsidy", ' +
+      '"ZED certification"). Hindi and Hinglish queries work. Returns the best matches with a short summary; ' +
+      'call get_scheme_details for the full terms of a scheme. Only schemes available in the state are returned; ' +
+      'state defaults to the user\'s own.',
+    inputSchema: schemeSearchToolSchema,
+    execute: async ({ query, categories, state, limit }) => {
+      const location = state ? { state } : context.profile.location;
+      const matches = filterSchemes(await schemeDataService.searchSchemes(query), {
+        categories,
+        state: location?.state,
+        district: location?.district,
+        maxResults: limit
+      });
+
+      return {
+        query,
+        state: location?.state,
+        results: matches.map(toSummary),
+        citations: matches.flatMap(scheme => citations.cite(scheme, ['benefits']))
+      };
+    }
+  });
+
+  const checkEligibilityTool = tool({
+    description:
+      'Check whether the user is eligible for one or more schemes, criterion by criterion. Uses the user\'s saved ' +
+      'profile; pass in profile anything the user has told you in this conversation (age, gender, social category, ' +
+      'state, urban/rural, stage, size, sector, turnover and investment in rupees). Ask the user for criteria ' +
+      'reported as unknown rather than guessing.',
+    inputSchema: eligibilityCheckToolSchema,
+    execute: async ({ schemes: schemeKeys, profile }) => {
+      const { schemes, missing } = await findSchemes(schemeKeys);
+
+      if (schemes.length === 0) {
+        return noSchemesNamed(schemeKeys);
+      }
+
+      const results = evaluateSchemesEligibility(schemes, withProfileOverrides(context.profile, profile));
+      const slugs = new Map(schemes.map(scheme => [scheme.id, scheme.slug]));
+
+      return {
+        results: results.map(result => ({
+          ...result,
+          slug: slugs.get(result.schemeId) as string,
+          summary: formatEligibilityResult(result)
+        })),
+        missing,
+        citations: schemes.flatMap(scheme => citations.cite(scheme, ['eligibility']))
+      };
+    }
+  });
+
+  const saveSchemeTool = tool({
+    description:
+      'Save a scheme to the signed-in user\'s saved schemes so they can come back to it and get notified when ' +
+      'it changes. Only call this when the user asks to save, bookmark or shortlist a scheme.',
+    inputSchema: saveSchemeToolSchema,
+    execute: async ({ scheme: schemeKey, notes }) => {
+      if (!context.userId || !context.supabase) {
+        return { error: 'The user is not signed in. Ask them to sign in to save schemes.' };
+      }
+
+      const scheme = await schemeDataService.findScheme(schemeKey);
+      if (!scheme) {
+        return { error: `No scheme named "${schemeKey}"` };
+      }
+
+      try {
+        const userSchemeService = new UserSchemeService(context.supabase);
+        const { userScheme, alreadySaved } = await userSchemeService.saveScheme(context.userId, scheme.id, notes);
+
+        return {
+          scheme: toSummary(scheme),
+          status: userScheme.status,
+          alreadySaved
+        };
+      } catch (error) {
+        console.error('[schemeTools] Failed to save scheme:', error);
+        return { error: `Could not save ${scheme.name}. Please try again.` };
+      }
+    }
+  });
+
+  return {
+    search_schemes: searchSchemesTool,
+    get_scheme_details: schemeDetailsTool(citations),
+    check_eligibility: checkEligibilityTool,
+    generate_document_checklist: documentChecklistTool(citations),
+    calculate_scheme_finance: calculateSchemeFinanceTool(citations),
+    save_scheme_for_user: saveSchemeTool
+  };
+}
+
+/**
+ * Tool context for a chat request: the signed-in user's saved profile with
+ * the profile sent by the chat client laid over it. Anonymous users get the
+ * client profile only and cannot save schemes.
+ */
+export async function loadSchemeToolContext(sessionProfile: UserProfile = {}): Promise<SchemeToolContext> {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { profile: sessionProfile };
+    }
+
+    let accountProfile: UserProfile = {};
+    let preferredModel: string | undefined;
+    try {
+      const account = await new ProfileService(supabase).getProfile(user.id);
+      accountProfile = accountToEligibilityProfile(account);
+      preferredModel = account.preferred_model || undefined;
+    } catch (error) {
+      console.error('[schemeTools] Failed to load user profile:', error);
+    }
+
+    return {
+      profile: {
+        ...accountProfile,
+        ...sessionProfile,
+        location: sessionProfile.location
+          ? { ...accountProfile.location, ...sessionProfile.location }
+          : accountProfile.location
+      },
+      userId: user.id,
+      supabase,
+      preferredModel
+    };
+  } catch (error) {
+    console.error('[schemeTools] Failed to resolve the signed-in user:', error);
+    return { profile: sessionProfile };
+  }
+}
+
+/**
+ * Stream transform that adds the citations an answer refers to as sources
+ * just before it finishes. Send them to the client with
+ * toUIMessageStreamResponse({ sendSources: true }); they arrive as
+ * source-url parts, with the scheme and field in providerMetadata.citation.
+ */
+export function citeSchemeSources<TOOLS extends ToolSet>(citations: CitationRegistry): StreamTextTransform<TOOLS> {
+  return () => {
+    let text = '';
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(chunk, controller) {
+        if (chunk.type === 'text-delta') {
+          text += chunk.text;
+        }
+
+        if (chunk.type === 'finish') {
+          citations.getCited(text).forEach(citation => {
+            const metadata: CitationMetadata = { schemeId: citation.schemeId, field: citation.field };
+            controller.enqueue({
+              type: 'source',
+              sourceType: 'url',
+              id: String(citation.ref),
+              url: citation.url,
+              title: citation.title,
+              providerMetadata: { citation: { ...metadata } }
+            });
+          });
+        }
+
+        controller.enqueue(chunk);
+      }
+    });
+  };
+}
+
+export type SchemeTools = ReturnType<typeof createSchemeTools>;
+
+/**
+ * Chat message with typed metadata, data parts and tool parts, for
+ * rendering tool results (services/ai/schemeDataParts)
+ */
+export type SchemeChatMessage = UIMessage<ChatMessageMetadata, SchemeChatDataParts, InferUITools<SchemeTools>>;
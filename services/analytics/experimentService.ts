@@ -0,0 +1,239 @@
+/**
+ * Experiment Service
+ *
+ * Compares the outcomes of prompt experiment variants (lib/prompts/
+ * promptRegistry): for the conversations that used each variant, how many
+ * users went on to save schemes and apply for them, and how many answers
+ * failed a catalogue check.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getPromptExperiments } from '@/lib/prompts/promptRegistry';
+import type { PromptAssignment } from '@/lib/prompts/promptTemplate';
+import type {
+  AnalyticsFilters,
+  PromptExperimentResults,
+  PromptVariantOutcome,
+  UserScheme
+} from '@/types/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExperimentServiceOptions {
+  supabaseClient: SupabaseClient; // Admin's server client
+}
+
+export type ExperimentFilters = Pick<AnalyticsFilters, 'dateRange'>;
+
+interface ConversationRow {
+  id: string;
+  user_id: string;
+  message_count: number;
+  created_at: string;
+  prompt_variants: PromptAssignment[] | null;
+}
+
+interface VariantGroup {
+  experimentId: string;
+  prompt: string;
+  version: string;
+  conversationIds: string[];
+  messages: number;
+  firstExposure: Map<string, string>; // User ID -> first conversation with the variant
+}
+
+// Rows read for one comparison
+const MAX_CONVERSATIONS = 50000;
+
+// IDs per .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 200;
+
+const APPLIED_STATUSES: UserScheme['status'][] = ['applied', 'approved', 'rejected'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += ID_CHUNK_SIZE) {
+    chunks.push(items.slice(index, index + ID_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// ============================================================================
+// Experiment Service
+// ============================================================================
+
+export class ExperimentService {
+  private supabase: SupabaseClient;
+
+  constructor(options: ExperimentServiceOptions) {
+    this.supabase = options.supabaseClient;
+  }
+
+  /**
+   * Outcomes per variant of every experiment that conversations used or
+   * that is configured now
+   */
+  async getResults(filters?: ExperimentFilters): Promise<PromptExperimentResults[]> {
+    const conversations = await this.getExperimentConversations(filters);
+    const groups = new Map<string, VariantGroup>();
+
+    conversations.forEach(conversation => {
+      (conversation.prompt_variants || [])
+        .filter(assignment => assignment.experimentId)
+        .forEach(assignment => {
+          const key = `${assignment.experimentId}:${assignment.version}`;
+          const group = groups.get(key) || {
+            experimentId: assignment.experimentId as string,
+            prompt: assignment.prompt,
+            version: assignment.version,
+            conversationIds: [],
+            messages: 0,
+            firstExposure: new Map<string, string>()
+          };
+
+          group.conversationIds.push(conversation.id);
+          group.messages += conversation.message_count;
+          const exposure = group.firstExposure.get(conversation.user_id);
+          if (!exposure || conversation.created_at < exposure) {
+            group.firstExposure.set(conversation.user_id, conversation.created_at);
+          }
+          groups.set(key, group);
+        });
+    });
+
+    const [schemes, flags] = await Promise.all([
+      this.getUserSchemes([...new Set(conversations.map(conversation => conversation.user_id))]),
+      this.getFlagCounts(conversations.map(conversation => conversation.id))
+    ]);
+
+    const results = new Map<string, PromptExperimentResults>();
+
+    getPromptExperiments().forEach(experiment => {
+      results.set(experiment.id, { experimentId: experiment.id, prompt: experiment.prompt, active: true, variants: [] });
+    });
+
+    Array.from(groups.values()).forEach(group => {
+      const result = results.get(group.experimentId) || {
+        experimentId: group.experimentId,
+        prompt: group.prompt,
+        active: false,
+        variants: []
+      };
+
+      const outcome: PromptVariantOutcome = {
+        version: group.version,
+        conversations: group.conversationIds.length,
+        users: group.firstExposure.size,
+        messages: group.messages,
+        savedSchemes: 0,
+        usersWhoSaved: 0,
+        applications: 0,
+        flaggedAnswers: group.conversationIds.reduce((sum, id) => sum + (flags.get(id) || 0), 0)
+      };
+
+      group.firstExposure.forEach((exposure, userId) => {
+        const userSchemes = schemes.get(userId) || [];
+        const saved = userSchemes.filter(scheme => scheme.saved_at >= exposure);
+
+        outcome.savedSchemes += saved.length;
+        if (saved.length > 0) outcome.usersWhoSaved += 1;
+        outcome.applications += userSchemes.filter(scheme =>
+          APPLIED_STATUSES.includes(scheme.status) && scheme.updated_at >= exposure).length;
+      });
+
+      result.variants.push(outcome);
+      results.set(group.experimentId, result);
+    });
+
+    return Array.from(results.values()).map(result => ({
+      ...result,
+      variants: result.variants.sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }))
+    }));
+  }
+
+  /**
+   * Conversations with recorded prompt variants, created in the date range
+   */
+  private async getExperimentConversations(filters?: ExperimentFilters): Promise<ConversationRow[]> {
+    let query = this.supabase
+      .from('conversations')
+      .select('id, user_id, message_count, created_at, prompt_variants')
+      .not('prompt_variants', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(MAX_CONVERSATIONS);
+
+    if (filters?.dateRange) {
+      query = query
+        .gte('created_at', filters.dateRange.startDate)
+        .lte('created_at', filters.dateRange.endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[ExperimentService] Error fetching conversations:', error);
+      throw error;
+    }
+
+    return (data || []) as ConversationRow[];
+  }
+
+  /**
+   * Saved and applied schemes by user ID
+   */
+  private async getUserSchemes(
+    userIds: string[]
+  ): Promise<Map<string, Array<Pick<UserScheme, 'status' | 'saved_at' | 'updated_at'>>>> {
+    const schemes = new Map<string, Array<Pick<UserScheme, 'status' | 'saved_at' | 'updated_at'>>>();
+
+    for (const ids of chunk(userIds)) {
+      const { data, error } = await this.supabase
+        .from('user_schemes')
+        .select('user_id, status, saved_at, updated_at')
+        .in('user_id', ids);
+
+      if (error) {
+        console.error('[ExperimentService] Error fetching user schemes:', error);
+        throw error;
+      }
+
+      (data || []).forEach((row: Pick<UserScheme, 'user_id' | 'status' | 'saved_at' | 'updated_at'>) => {
+        schemes.set(row.user_id, [...(schemes.get(row.user_id) || []), row]);
+      });
+    }
+
+    return schemes;
+  }
+
+  /**
+   * Flagged answers by conversation ID
+   */
+  private async getFlagCounts(conversationIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+
+    for (const ids of chunk(conversationIds)) {
+      const { data, error } = await this.supabase
+        .from('response_flags')
+        .select('conversation_id')
+        .in('conversation_id', ids);
+
+      if (error) {
+        // Flags are a secondary outcome; compare the rest without them
+        console.error('[ExperimentService] Error fetching response flags:', error);
+        return counts;
+      }
+
+      (data || []).forEach((row: { conversation_id: string }) => {
+        counts.set(row.conversation_id, (counts.get(row.conversation_id) || 0) + 1);
+      });
+    }
+
+    return counts;
+  }
+}
@@ -9,6 +9,7 @@ import { createClient } from '@/lib/supabase/server';
 import { MessageService } from '@/services/database/messageService';
 import { ConversationService } from '@/services/database/conversationService';
 import { buildExtractionPrompt } from '@/lib/prompts/extractionPrompt';
+import { getPromptTemplate } from '@/lib/prompts/promptRegistry';
 import {
   normalizeLocation,
   normalizeIndustry,
@@ -24,13 +25,16 @@ import type {
   Message,
   Scheme
 } from '@/types/database';
-import OpenAI from 'openai';
+import { generateObject, generateText } from 'ai';
+import { getLLMProvider, type LLMProvider } from '@/services/ai/llmProvider';
+import { toUsageRecord } from '@/services/ai/modelPricing';
+import type { TokenUsageRecord } from '@/types/conversation';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface ExtractionResult {
+export interface ExtractionResult {
   attributes: {
     location?: string | null;
     industry?: string | null;
@@ -47,6 +51,7 @@ interface ExtractionResult {
     detectedLanguages: string[];
     extractionNotes: string;
     originalLanguageData?: any;
+    usage?: TokenUsageRecord; // Model call tokens and cost; absent for rule-based extraction
   };
 }
 
@@ -65,6 +70,202 @@ interface RawExtractionResponse {
   detectedLanguages: string[];
 }
 
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Extract attributes from conversation messages. Falls back to rule-based
+ * extraction when the provider is not configured or the model call fails.
+ * Needs no database, so the offline evaluation runs the same code as
+ * extraction jobs.
+ */
+export async function extractFromHistory(
+  conversationHistory: Array<{ role: string; content: string }>,
+  llm: LLMProvider = getLLMProvider()
+): Promise<ExtractionResult> {
+  // Detect languages used in conversation
+  const detectedLanguages = detectConversationLanguages(conversationHistory);
+  console.log(`[ExtractionService] Detected languages:`, detectedLanguages);
+
+  // Perform AI extraction
+  const { extraction: rawExtraction, usage } = await performAIExtraction(conversationHistory, llm);
+
+  // Normalize extracted data
+  const normalizedResult = normalizeExtractionResult(rawExtraction, detectedLanguages);
+  if (usage) {
+    normalizedResult.metadata.usage = usage;
+  }
+
+  return normalizedResult;
+}
+
+/**
+ * Perform AI extraction using the given LLM provider, with the
+ * tokens and cost of the model call that produced it
+ */
+async function performAIExtraction(
+  conversationHistory: Array<{ role: string; content: string }>,
+  llm: LLMProvider
+): Promise<{ extraction: RawExtractionResponse; usage?: TokenUsageRecord }> {
+  if (!llm.isConfigured()) {
+    console.warn(`[ExtractionService] LLM provider ${llm.name} not configured, using fallback`);
+    return { extraction: fallbackExtraction(conversationHistory) };
+  }
+
+  const prompt = buildExtractionPrompt(conversationHistory, getPromptTemplate('extraction'));
+
+  try {
+    console.log(`[ExtractionService] Calling AI model: ${llm.getModelId('extraction')}`);
+
+    const { object, usage } = await generateObject({
+      model: llm.getModel('extraction'),
+      output: 'no-schema',
+      prompt,
+      temperature: 0.3, // Lower temperature for more consistent extraction
+      maxOutputTokens: 1000
+    });
+
+    console.log('[ExtractionService] AI extraction successful');
+
+    return {
+      extraction: object as unknown as RawExtractionResponse,
+      usage: toUsageRecord(llm.getModelId('extraction'), usage)
+    };
+  } catch (error) {
+    console.error('[ExtractionService] AI extraction failed:', error);
+    
+    // Retry with fallback model
+    if (error instanceof Error && error.message.includes('model')) {
+      console.log('[ExtractionService] Retrying with fallback model');
+      try {
+        const fallbackModel = llm.getModelId('extraction', 'anthropic/claude-3-haiku');
+        const { text, usage } = await generateText({
+          model: llm.getModel('extraction', fallbackModel),
+          prompt,
+          temperature: 0.3,
+          maxOutputTokens: 1000
+        });
+
+        // Try to extract JSON from response
+        const jsonMatch = text.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+          return {
+            extraction: JSON.parse(jsonMatch[0]) as RawExtractionResponse,
+            usage: toUsageRecord(fallbackModel, usage)
+          };
+        }
+      } catch (retryError) {
+        console.error('[ExtractionService] Retry failed:', retryError);
+      }
+    }
+
+    // Use fallback extraction
+    return { extraction: fallbackExtraction(conversationHistory) };
+  }
+}
+
+/**
+ * Fallback extraction using rule-based approach
+ */
+function fallbackExtraction(
+  conversationHistory: Array<{ role: string; content: string }>
+): RawExtractionResponse {
+  console.log('[ExtractionService] Using fallback rule-based extraction');
+
+  const allText = conversationHistory
+    .map(msg => msg.content)
+    .join(' ')
+    .toLowerCase();
+
+  const result: RawExtractionResponse = {
+    location: null,
+    industry: null,
+    businessSize: null,
+    annualTurnover: null,
+    employeeCount: null,
+    schemeInterests: [],
+    confidence: 0.4, // Lower confidence for fallback
+    extractionNotes: 'Extracted using fallback rule-based method',
+    detectedLanguages: detectConversationLanguages(conversationHistory)
+  };
+
+  // Simple keyword-based extraction
+  // Location detection
+  const cities = ['mumbai', 'delhi', 'bangalore', 'pune', 'chennai', 'hyderabad', 'kolkata'];
+  for (const city of cities) {
+    if (allText.includes(city)) {
+      result.location = city;
+      break;
+    }
+  }
+
+  // Industry detection
+  if (allText.includes('textile') || allText.includes('kapde') || allText.includes('कपड़े')) {
+    result.industry = 'textiles';
+  } else if (allText.includes('food') || allText.includes('restaurant') || allText.includes('खाना')) {
+    result.industry = 'food';
+  } else if (allText.includes('retail') || allText.includes('shop') || allText.includes('dukaan')) {
+    result.industry = 'retail';
+  }
+
+  // Business size detection
+  if (allText.includes('small') || allText.includes('chota') || allText.includes('छोटा')) {
+    result.businessSize = 'Micro';
+  }
+
+  return result;
+}
+
+/**
+ * Normalize extraction result to standard format
+ */
+function normalizeExtractionResult(
+  raw: RawExtractionResponse,
+  detectedLanguages: string[]
+): ExtractionResult {
+  // Normalize location
+  const location = normalizeLocation(raw.location);
+
+  // Normalize industry
+  const industry = normalizeIndustry(raw.industry);
+
+  // Normalize business size (considering employee count and turnover)
+  const businessSize = normalizeBusinessSize(
+    raw.businessSize,
+    raw.employeeCount,
+    raw.annualTurnover
+  );
+
+  // Store original language data if different from normalized
+  const originalLanguageData: any = {};
+  if (raw.location && raw.location !== location) {
+    originalLanguageData.location = raw.location;
+  }
+  if (raw.industry && raw.industry !== industry) {
+    originalLanguageData.industry = raw.industry;
+  }
+
+  return {
+    attributes: {
+      location,
+      industry,
+      businessSize,
+      annualTurnover: raw.annualTurnover,
+      employeeCount: raw.employeeCount
+    },
+    schemeInterests: raw.schemeInterests || [],
+    metadata: {
+      confidence: raw.confidence,
+      detectedLanguages: raw.detectedLanguages || detectedLanguages,
+      extractionNotes: raw.extractionNotes,
+      originalLanguageData: Object.keys(originalLanguageData).length > 0 
+        ? originalLanguageData 
+        : undefined
+    }
+  };
+}
+
 // ============================================================================
 // Extraction Service
 // ============================================================================
@@ -73,24 +274,14 @@ export class ExtractionService {
   private supabase: any;
   private messageService: MessageService;
   private conversationService: ConversationService;
-  private openaiClient: OpenAI | null = null;
+  private llm: LLMProvider;
 
   constructor(supabaseClient?: any) {
     this.supabase = supabaseClient || createClient();
     this.messageService = new MessageService(this.supabase);
     this.conversationService = new ConversationService(this.supabase);
 
-    // Initialize OpenRouter client
-    if (process.env.OPENROUTER_API_KEY) {
-      this.openaiClient = new OpenAI({
-        baseURL: 'https://openrouter.ai/api/v1',
-        apiKey: process.env.OPENROUTER_API_KEY,
-        defaultHeaders: {
-          'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
-          'X-Title': 'MSME Mitr - Analytics Extraction',
-        }
-      });
-    }
+    this.llm = getLLMProvider();
   }
 
   /**
@@ -116,15 +307,8 @@ export class ExtractionService {
         content: msg.content
       }));
 
-      // Detect languages used in conversation
-      const detectedLanguages = detectConversationLanguages(conversationHistory);
-      console.log(`[ExtractionService] Detected languages:`, detectedLanguages);
-
-      // Perform AI extraction
-      const rawExtraction = await this.performAIExtraction(conversationHistory);
-
-      // Normalize extracted data
-      const normalizedResult = this.normalizeExtractionResult(rawExtraction, detectedLanguages);
+      // Extract and normalize attributes
+      const normalizedResult = await extractFromHistory(conversationHistory, this.llm);
 
       console.log(`[ExtractionService] Extraction completed with confidence: ${normalizedResult.metadata.confidence}`);
 
@@ -135,180 +319,6 @@ export class ExtractionService {
     }
   }
 
-  /**
-   * Perform AI extraction using OpenRouter
-   */
-  private async performAIExtraction(
-    conversationHistory: Array<{ role: string; content: string }>
-  ): Promise<RawExtractionResponse> {
-    if (!this.openaiClient) {
-      console.warn('[ExtractionService] OpenRouter not configured, using fallback');
-      return this.fallbackExtraction(conversationHistory);
-    }
-
-    try {
-      const prompt = buildExtractionPrompt(conversationHistory);
-      const model = process.env.EXTRACTION_MODEL || 'openai/gpt-4o-mini';
-
-      console.log(`[ExtractionService] Calling AI model: ${model}`);
-
-      const response = await this.openaiClient.chat.completions.create({
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.3, // Lower temperature for more consistent extraction
-        max_tokens: 1000,
-        response_format: { type: 'json_object' }
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No content in AI response');
-      }
-
-      // Parse JSON response
-      const parsed = JSON.parse(content);
-      console.log('[ExtractionService] AI extraction successful');
-
-      return parsed as RawExtractionResponse;
-    } catch (error) {
-      console.error('[ExtractionService] AI extraction failed:', error);
-      
-      // Retry with fallback model
-      if (error instanceof Error && error.message.includes('model')) {
-        console.log('[ExtractionService] Retrying with fallback model');
-        try {
-          const prompt = buildExtractionPrompt(conversationHistory);
-          const response = await this.openaiClient!.chat.completions.create({
-            model: 'anthropic/claude-3-haiku',
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.3,
-            max_tokens: 1000
-          });
-
-          const content = response.choices[0]?.message?.content;
-          if (content) {
-            // Try to extract JSON from response
-            const jsonMatch = content.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              return JSON.parse(jsonMatch[0]) as RawExtractionResponse;
-            }
-          }
-        } catch (retryError) {
-          console.error('[ExtractionService] Retry failed:', retryError);
-        }
-      }
-
-      // Use fallback extraction
-      return this.fallbackExtraction(conversationHistory);
-    }
-  }
-
-  /**
-   * Fallback extraction using rule-based approach
-   */
-  private fallbackExtraction(
-    conversationHistory: Array<{ role: string; content: string }>
-  ): RawExtractionResponse {
-    console.log('[ExtractionService] Using fallback rule-based extraction');
-
-    const allText = conversationHistory
-      .map(msg => msg.content)
-      .join(' ')
-      .toLowerCase();
-
-    const result: RawExtractionResponse = {
-      location: null,
-      industry: null,
-      businessSize: null,
-      annualTurnover: null,
-      employeeCount: null,
-      schemeInterests: [],
-      confidence: 0.4, // Lower confidence for fallback
-      extractionNotes: 'Extracted using fallback rule-based method',
-      detectedLanguages: detectConversationLanguages(conversationHistory)
-    };
-
-    // Simple keyword-based extraction
-    // Location detection
-    const cities = ['mumbai', 'delhi', 'bangalore', 'pune', 'chennai', 'hyderabad', 'kolkata'];
-    for (const city of cities) {
-      if (allText.includes(city)) {
-        result.location = city;
-        break;
-      }
-    }
-
-    // Industry detection
-    if (allText.includes('textile') || allText.includes('kapde') || allText.includes('कपड़े')) {
-      result.industry = 'textiles';
-    } else if (allText.includes('food') || allText.includes('restaurant') || allText.includes('खाना')) {
-      result.industry = 'food';
-    } else if (allText.includes('retail') || allText.includes('shop') || allText.includes('dukaan')) {
-      result.industry = 'retail';
-    }
-
-    // Business size detection
-    if (allText.includes('small') || allText.includes('chota') || allText.includes('छोटा')) {
-      result.businessSize = 'Micro';
-    }
-
-    return result;
-  }
-
-  /**
-   * Normalize extraction result to standard format
-   */
-  private normalizeExtractionResult(
-    raw: RawExtractionResponse,
-    detectedLanguages: string[]
-  ): ExtractionResult {
-    // Normalize location
-    const location = normalizeLocation(raw.location);
-
-    // Normalize industry
-    const industry = normalizeIndustry(raw.industry);
-
-    // Normalize business size (considering employee count and turnover)
-    const businessSize = normalizeBusinessSize(
-      raw.businessSize,
-      raw.employeeCount,
-      raw.annualTurnover
-    );
-
-    // Store original language data if different from normalized
-    const originalLanguageData: any = {};
-    if (raw.location && raw.location !== location) {
-      originalLanguageData.location = raw.location;
-    }
-    if (raw.industry && raw.industry !== industry) {
-      originalLanguageData.industry = raw.industry;
-    }
-
-    return {
-      attributes: {
-        location,
-        industry,
-        businessSize,
-        annualTurnover: raw.annualTurnover,
-        employeeCount: raw.employeeCount
-      },
-      schemeInterests: raw.schemeInterests || [],
-      metadata: {
-        confidence: raw.confidence,
-        detectedLanguages: raw.detectedLanguages || detectedLanguages,
-        extractionNotes: raw.extractionNotes,
-        originalLanguageData: Object.keys(originalLanguageData).length > 0 
-          ? originalLanguageData 
-          : undefined
-      }
-    };
-  }
-
   /**
    * Match scheme mentions in conversation and determine interest level
    */
@@ -4,15 +4,27 @@
  * Central export point for all analytics services
  */
 
-export { ExtractionService } from './extractionService';
+export { ExtractionService, extractFromHistory } from './extractionService';
 export { createExtractionTriggerService, extractionTriggerService } from './extractionTriggerService';
 export { JobQueueProcessor } from './jobQueueProcessor';
 export { AnalyticsService } from './analyticsService';
+export { UsageService, recordLlmUsage } from './usageService';
+export { ResponseFlagService, recordResponseFlag } from './responseFlagService';
+export { ExperimentService } from './experimentService';
 export { CacheService, getCacheService, generateCacheKey, generateFilterHash } from './cacheService';
 
 // Re-export types
+export type { ExtractionResult } from './extractionService';
 export type { ExtractionTriggerService } from './extractionTriggerService';
 export type { AnalyticsServiceOptions } from './analyticsService';
 export type { PaginationOptions } from './analyticsService';
 export type { SortOptions } from './analyticsService';
 export type { ExportOptions } from './analyticsService';
+export type { UsageServiceOptions, UsageFilters } from './usageService';
+export type {
+  ResponseFlagServiceOptions,
+  ResponseFlagFilters,
+  ResponseFlagReview,
+  ResponseFlagCounts
+} from './responseFlagService';
+export type { ExperimentServiceOptions, ExperimentFilters } from './experimentService';
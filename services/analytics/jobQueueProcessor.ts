@@ -6,6 +6,7 @@
  */
 
 import { createAnalyticsClient } from '@/lib/supabase/analytics-client';
+import { recordLlmUsage } from './usageService';
 import type { ExtractionJob, ExtractionJobUpdate } from '@/types/database';
 
 export interface ProcessingOptions {
@@ -147,6 +148,21 @@ export class JobQueueProcessor {
         job.id
       );
 
+      // Record what the extraction cost
+      const { usage } = extractionResult.metadata;
+      if (usage) {
+        await recordLlmUsage({
+          purpose: 'extraction',
+          user_id: job.user_id,
+          conversation_id: job.conversation_id,
+          extraction_job_id: job.id,
+          model: usage.model,
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+          cost_usd: usage.costUsd
+        });
+      }
+
       // Mark job as completed
       const updateCompleted: ExtractionJobUpdate = {
         status: 'completed',
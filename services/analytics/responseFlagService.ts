@@ -0,0 +1,142 @@
+/**
+ * Response Flag Service
+ *
+ * Logs chat answers that failed a catalogue check (services/ai/
+ * responseGuard) in response_flags, and lists them for admin review with
+ * their status, notes and reviewer.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAnalyticsClient } from '@/lib/supabase/analytics-client';
+import type { ResponseFlag, ResponseFlagInsert, ResponseFlagStatus } from '@/types/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ResponseFlagServiceOptions {
+  supabaseClient: SupabaseClient; // Admin's server client; flags are admin-only
+}
+
+export interface ResponseFlagFilters {
+  status?: ResponseFlagStatus;
+  limit?: number;
+}
+
+export interface ResponseFlagReview {
+  status: ResponseFlagStatus;
+  reviewerNotes?: string | null;
+  reviewedBy: string;
+}
+
+export interface ResponseFlagCounts {
+  pending: number;
+  reviewed: number;
+  dismissed: number;
+}
+
+const DEFAULT_LIMIT = 100;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Log a flagged answer. Uses the service role client so anonymous chats
+ * are logged too. Never throws: a lost flag must not fail the response.
+ */
+export async function recordResponseFlag(entry: ResponseFlagInsert): Promise<void> {
+  try {
+    const supabase = createAnalyticsClient() as unknown as SupabaseClient;
+    const { error } = await supabase.from('response_flags').insert(entry);
+
+    if (error) {
+      console.error('[ResponseFlagService] Failed to record flag:', error.message);
+    }
+  } catch (error) {
+    console.error('[ResponseFlagService] Failed to record flag:', error);
+  }
+}
+
+// ============================================================================
+// Response Flag Service
+// ============================================================================
+
+export class ResponseFlagService {
+  private supabase: SupabaseClient;
+
+  constructor(options: ResponseFlagServiceOptions) {
+    this.supabase = options.supabaseClient;
+  }
+
+  /**
+   * Flags, newest first
+   */
+  async listFlags(filters: ResponseFlagFilters = {}): Promise<ResponseFlag[]> {
+    let query = this.supabase
+      .from('response_flags')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || DEFAULT_LIMIT);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[ResponseFlagService] Error fetching flags:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Number of flags in each status
+   */
+  async getCounts(): Promise<ResponseFlagCounts> {
+    const statuses: ResponseFlagStatus[] = ['pending', 'reviewed', 'dismissed'];
+
+    const counts = await Promise.all(statuses.map(async status => {
+      const { count, error } = await this.supabase
+        .from('response_flags')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+
+      if (error) {
+        console.error('[ResponseFlagService] Error counting flags:', error);
+        throw error;
+      }
+
+      return count || 0;
+    }));
+
+    return { pending: counts[0], reviewed: counts[1], dismissed: counts[2] };
+  }
+
+  /**
+   * Record an admin's review of a flag
+   */
+  async reviewFlag(id: string, review: ResponseFlagReview): Promise<ResponseFlag> {
+    const { data, error } = await this.supabase
+      .from('response_flags')
+      .update({
+        status: review.status,
+        reviewer_notes: review.reviewerNotes ?? null,
+        reviewed_by: review.reviewedBy,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[ResponseFlagService] Error updating flag:', error);
+      throw error;
+    }
+
+    return data;
+  }
+}
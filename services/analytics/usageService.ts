@@ -0,0 +1,280 @@
+/**
+ * Usage Service
+ *
+ * Records tokens and cost of every chat response, extraction run and
+ * conversation summary in the llm_usage ledger, and aggregates the ledger
+ * by day, model, user and conversation for the admin dashboard and CSV
+ * export.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAnalyticsClient } from '@/lib/supabase/analytics-client';
+import type {
+  AnalyticsFilters,
+  LlmUsage,
+  LlmUsageInsert,
+  UsageSummary,
+  UsageTotals
+} from '@/types/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsageServiceOptions {
+  supabaseClient: SupabaseClient; // Admin's server client; the ledger is admin-only
+}
+
+export type UsageFilters = Pick<AnalyticsFilters, 'dateRange'>;
+
+// Rows read for one summary or export
+const MAX_USAGE_ROWS = 50000;
+
+// Entries kept in the per-user and per-conversation breakdowns
+const TOP_ENTRIES = 20;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Add a row to the usage ledger. Uses the service role client so anonymous
+ * chats and background jobs are recorded too. Never throws: losing a usage
+ * row must not fail the response it describes.
+ */
+export async function recordLlmUsage(entry: LlmUsageInsert): Promise<void> {
+  try {
+    // Untyped view: the Database type carries no Relationships metadata, so
+    // supabase-js resolves typed insert payloads to never
+    const supabase = createAnalyticsClient() as unknown as SupabaseClient;
+    const { error } = await supabase.from('llm_usage').insert(entry);
+
+    if (error) {
+      console.error('[UsageService] Failed to record usage:', error.message);
+    }
+  } catch (error) {
+    console.error('[UsageService] Failed to record usage:', error);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addRow(totals: UsageTotals, row: LlmUsage): void {
+  totals.calls += 1;
+  totals.inputTokens += row.input_tokens;
+  totals.outputTokens += row.output_tokens;
+  totals.costUsd += Number(row.cost_usd);
+}
+
+/**
+ * Sum rows per key, highest cost first
+ */
+function groupRows<K extends string | null>(
+  rows: LlmUsage[],
+  keyOf: (row: LlmUsage) => K
+): Array<{ key: K; totals: UsageTotals }> {
+  const groups = new Map<K, UsageTotals>();
+
+  rows.forEach(row => {
+    const key = keyOf(row);
+    const totals = groups.get(key) || emptyTotals();
+    addRow(totals, row);
+    groups.set(key, totals);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, totals]) => ({ key, totals }))
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd);
+}
+
+/**
+ * Escape CSV value (handle commas, quotes, newlines)
+ */
+function escapeCsvValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const stringValue = String(value);
+
+  if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+
+  return stringValue;
+}
+
+// ============================================================================
+// Usage Service
+// ============================================================================
+
+export class UsageService {
+  private supabase: SupabaseClient;
+
+  constructor(options: UsageServiceOptions) {
+    this.supabase = options.supabaseClient;
+  }
+
+  /**
+   * Ledger rows in the date range, newest first
+   */
+  private async getUsageRows(filters?: UsageFilters): Promise<LlmUsage[]> {
+    let query = this.supabase
+      .from('llm_usage')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(MAX_USAGE_ROWS);
+
+    if (filters?.dateRange) {
+      query = query
+        .gte('created_at', filters.dateRange.startDate)
+        .lte('created_at', filters.dateRange.endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[UsageService] Error fetching usage:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Cost and tokens in total and per day, model, purpose, user and
+   * conversation
+   */
+  async getSummary(filters?: UsageFilters): Promise<UsageSummary> {
+    const rows = await this.getUsageRows(filters);
+
+    const totals = emptyTotals();
+    rows.forEach(row => addRow(totals, row));
+
+    const byDay = groupRows(rows, row => row.created_at.split('T')[0])
+      .map(({ key, totals: dayTotals }) => ({ date: key, ...dayTotals }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const byModel = groupRows(rows, row => row.model)
+      .map(({ key, totals: modelTotals }) => ({ model: key, ...modelTotals }));
+
+    const byPurpose = groupRows(rows, row => row.purpose)
+      .map(({ key, totals: purposeTotals }) => ({ purpose: key, ...purposeTotals }));
+
+    const topUsers = groupRows(rows, row => row.user_id).slice(0, TOP_ENTRIES);
+    const topConversations = groupRows(
+      rows.filter(row => row.conversation_id),
+      row => row.conversation_id as string
+    ).slice(0, TOP_ENTRIES);
+
+    const [emails, conversations] = await Promise.all([
+      this.getUserEmails(topUsers.map(({ key }) => key).filter((id): id is string => id !== null)),
+      this.getConversations(topConversations.map(({ key }) => key))
+    ]);
+
+    return {
+      totals,
+      byDay,
+      byModel,
+      byPurpose,
+      byUser: topUsers.map(({ key, totals: userTotals }) => ({
+        userId: key,
+        email: key ? emails.get(key) || null : null,
+        ...userTotals
+      })),
+      byConversation: topConversations.map(({ key, totals: conversationTotals }) => ({
+        conversationId: key,
+        title: conversations.get(key)?.title || null,
+        userId: conversations.get(key)?.user_id || null,
+        ...conversationTotals
+      }))
+    };
+  }
+
+  /**
+   * One CSV line per ledger row, newest first
+   */
+  async exportCsv(filters?: UsageFilters): Promise<string> {
+    const rows = await this.getUsageRows(filters);
+    const emails = await this.getUserEmails(
+      [...new Set(rows.map(row => row.user_id).filter((id): id is string => id !== null))]
+    );
+
+    const headers = [
+      'Created At',
+      'Purpose',
+      'Model',
+      'User ID',
+      'User Email',
+      'Conversation ID',
+      'Extraction Job ID',
+      'Input Tokens',
+      'Output Tokens',
+      'Cost (USD)'
+    ];
+
+    const lines = rows.map(row => [
+      escapeCsvValue(row.created_at),
+      escapeCsvValue(row.purpose),
+      escapeCsvValue(row.model),
+      escapeCsvValue(row.user_id),
+      escapeCsvValue(row.user_id ? emails.get(row.user_id) : null),
+      escapeCsvValue(row.conversation_id),
+      escapeCsvValue(row.extraction_job_id),
+      row.input_tokens,
+      row.output_tokens,
+      Number(row.cost_usd).toFixed(6)
+    ].join(','));
+
+    return [headers.join(','), ...lines].join('\n');
+  }
+
+  /**
+   * Emails by user ID
+   */
+  private async getUserEmails(userIds: string[]): Promise<Map<string, string>> {
+    if (userIds.length === 0) return new Map();
+
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .select('id, email')
+      .in('id', userIds);
+
+    if (error) {
+      console.error('[UsageService] Error fetching user emails:', error);
+      return new Map();
+    }
+
+    return new Map((data || []).map((profile: { id: string; email: string }) => [profile.id, profile.email]));
+  }
+
+  /**
+   * Conversation titles and owners by conversation ID
+   */
+  private async getConversations(
+    conversationIds: string[]
+  ): Promise<Map<string, { title: string | null; user_id: string }>> {
+    if (conversationIds.length === 0) return new Map();
+
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .select('id, title, user_id')
+      .in('id', conversationIds);
+
+    if (error) {
+      console.error('[UsageService] Error fetching conversations:', error);
+      return new Map();
+    }
+
+    return new Map(
+      (data || []).map((conversation: { id: string; title: string | null; user_id: string }) =>
+        [conversation.id, { title: conversation.title, user_id: conversation.user_id }])
+    );
+  }
+}
@@ -8,6 +8,8 @@ import {
 import { schemeDataService } from '@/services/schemes/schemeDataService';
 import { llmContextBuilder } from '@/services/ai/contextBuilder';
 import { getSchemesForProfile } from '@/lib/schemes/schemeUtils';
+import { canCombine, getStackingSchemes, removeConflicting } from '@/lib/schemes/schemeRelationships';
+import type { ConversationSummary } from '@/types/conversation';
 
 export interface ConversationSession {
   id: string;
@@ -18,6 +20,8 @@ export interface ConversationSession {
   lastActive: Date;
   language: string;
   contextCache?: Map<string, any>;
+  // Rolling summary for chats without a saved conversation to hold it
+  summary?: ConversationSummary;
 }
 
 export interface ChatRequest {
@@ -25,6 +29,8 @@ export interface ChatRequest {
   sessionId?: string;
   language?: string;
   userProfile?: UserProfile;
+  toolsEnabled?: boolean; // The model has the scheme tools, so the prompt only lists candidate schemes
+  promptVersion?: string; // Version of the chat-system prompt; the active one when omitted
 }
 
 export interface ChatResponse {
@@ -41,6 +47,8 @@ export interface ChatResponse {
 export class ConversationManager {
   private sessions: Map<string, ConversationSession> = new Map();
   private readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+  // Names and one-liners only; the model fetches details through tools
+  private readonly TOOLS_TOKEN_BUDGET = 1000;
 
   constructor() {
     // Initialize scheme data on startup (async, but don't block constructor)
@@ -73,12 +81,13 @@ export class ConversationManager {
       userProfile: session.userProfile,
       conversationHistory: session.history,
       language: session.language,
-      maxTokens: this.determineTokenBudget(session),
-      includeAllSchemes: this.shouldIncludeAllSchemes(request.message)
+      maxTokens: request.toolsEnabled ? this.TOOLS_TOKEN_BUDGET : this.determineTokenBudget(session),
+      includeAllSchemes: !request.toolsEnabled && this.shouldIncludeAllSchemes(request.message),
+      toolsEnabled: request.toolsEnabled
     });
 
     // Generate system prompt with scheme context
-    const systemPrompt = llmContextBuilder.generateSystemPrompt(context);
+    const systemPrompt = llmContextBuilder.generateSystemPrompt(context, request.promptVersion);
 
     // Update session
     session.lastActive = new Date();
@@ -127,6 +136,14 @@ export class ConversationManager {
     this.updateProfileFromConversation(session, userMessage);
   }
 
+  /**
+   * Keep the rolling summary of older messages on the session
+   */
+  setSummary(sessionId: string, summary: ConversationSummary): void {
+    const session = this.sessions.get(sessionId);
+    if (session) session.summary = summary;
+  }
+
   /**
    * Get quick scheme suggestions for a user
    */
@@ -206,8 +223,9 @@ export class ConversationManager {
       };
     }
 
-    // Get personalized primary recommendations
-    const primary = getSchemesForProfile(allSchemes, session.userProfile)
+    // Get personalized primary recommendations, never two schemes that
+    // cannot be claimed together
+    const primary = removeConflicting(getSchemesForProfile(allSchemes, session.userProfile))
       .slice(0, 3);
 
     // Get complementary schemes
@@ -469,7 +487,10 @@ export class ConversationManager {
     primary: ProcessedScheme[],
     allSchemes: ProcessedScheme[]
   ): ProcessedScheme[] {
-    const complementary: ProcessedScheme[] = [];
+    // Curated stacking partners first
+    const complementary: ProcessedScheme[] = Array.from(new Set(
+      primary.flatMap(primaryScheme => getStackingSchemes(primaryScheme, allSchemes))
+    )).filter(scheme => !primary.includes(scheme));
 
     primary.forEach(primaryScheme => {
       allSchemes.forEach(scheme => {
@@ -488,7 +509,10 @@ export class ConversationManager {
       });
     });
 
-    return complementary.slice(0, 2);
+    // Drop anything that cannot be claimed with a primary scheme
+    return complementary
+      .filter(scheme => primary.every(primaryScheme => canCombine(primaryScheme, scheme)))
+      .slice(0, 2);
   }
 
   /**
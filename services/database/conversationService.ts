@@ -4,8 +4,11 @@ import type {
   ConversationInsert,
   ConversationUpdate,
   ConversationWithMessages,
-  Database
+  Database,
+  Json
 } from '@/types/database'
+import type { ConversationSummary } from '@/types/conversation'
+import type { PromptAssignment } from '@/lib/prompts/promptTemplate'
 
 /**
  * Service class for managing conversation-related database operations
@@ -244,6 +247,90 @@ export class ConversationService {
     return this.updateConversation(conversationId, { is_pinned: false })
   }
 
+  /**
+   * Get the rolling summary of a conversation's older messages
+   * @param conversationId - The ID of the conversation
+   * @returns The summary, or null if none has been written yet
+   * @throws Error if fetch fails
+   */
+  async getSummary(conversationId: string): Promise<ConversationSummary | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('conversations')
+        .select('summary')
+        .eq('id', conversationId)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to fetch conversation summary: ${error.message}`)
+      }
+
+      return (data?.summary as ConversationSummary | null) || null
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while fetching conversation summary')
+    }
+  }
+
+  /**
+   * Save the rolling summary of a conversation's older messages
+   * @param conversationId - The ID of the conversation
+   * @param summary - The updated summary
+   * @returns The updated conversation
+   * @throws Error if update fails
+   */
+  async updateSummary(conversationId: string, summary: ConversationSummary): Promise<Conversation> {
+    return this.updateConversation(conversationId, { summary: summary as unknown as Json })
+  }
+
+  /**
+   * Get the prompt versions a conversation used, with its owner, who is
+   * the subject of prompt experiments
+   * @param conversationId - The ID of the conversation
+   * @returns The owner and versions (null before the first chat turn), or null if not found
+   * @throws Error if fetch fails
+   */
+  async getPromptVariants(
+    conversationId: string
+  ): Promise<{ userId: string; variants: PromptAssignment[] | null } | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('conversations')
+        .select('user_id, prompt_variants')
+        .eq('id', conversationId)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to fetch conversation prompt variants: ${error.message}`)
+      }
+
+      if (!data) return null
+
+      return {
+        userId: data.user_id,
+        variants: (data.prompt_variants as PromptAssignment[] | null) || null
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while fetching conversation prompt variants')
+    }
+  }
+
+  /**
+   * Record the prompt versions a conversation uses
+   * @param conversationId - The ID of the conversation
+   * @param variants - Version of each prompt, with the experiment that chose it
+   * @returns The updated conversation
+   * @throws Error if update fails
+   */
+  async setPromptVariants(conversationId: string, variants: PromptAssignment[]): Promise<Conversation> {
+    return this.updateConversation(conversationId, { prompt_variants: variants as unknown as Json })
+  }
+
   /**
    * Get pinned conversations for a user
    * @param userId - The ID of the user
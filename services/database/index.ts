@@ -8,3 +8,12 @@
 export { ConversationService } from './conversationService'
 export { MessageService } from './messageService'
 export { ProfileService } from './profileService'
+export { UserSchemeService } from './userSchemeService'
+export { SchemeService, diffSchemeFields, EDITABLE_SCHEME_FIELDS } from './schemeService'
+export {
+  NotificationService,
+  classifySchemeChanges,
+  summarizeSchemeChanges,
+  DEFAULT_NOTIFICATION_CHANGE_TYPES,
+  SCHEME_CHANGE_TYPE_LABELS,
+} from './notificationService'
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client'
 import type {
+  Json,
   Message,
   MessageInsert,
   MessageUpdate,
@@ -24,6 +25,7 @@ export class MessageService {
    * @param role - The role of the message sender ('user', 'assistant', or 'system')
    * @param content - The message content (string or any format that can be converted to string)
    * @param parts - Optional AI SDK v5 parts data (JSONB)
+   * @param metadata - Optional message metadata, e.g. which model answered (JSONB)
    * @returns The created message
    * @throws Error if creation fails
    */
@@ -31,7 +33,8 @@ export class MessageService {
     conversationId: string,
     role: 'user' | 'assistant' | 'system',
     content: string | any,
-    parts?: any
+    parts?: any,
+    metadata?: Json | null
   ): Promise<Message> {
     try {
       // CRITICAL: Ensure content is ALWAYS a string
@@ -74,6 +77,7 @@ export class MessageService {
         role,
         content: stringContent, // Guaranteed to be a string
         parts: parts || null,
+        metadata: metadata || null,
       }
 
       const { data, error } = await this.supabase
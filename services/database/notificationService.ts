@@ -0,0 +1,395 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import type {
+  Scheme,
+  SchemeRevision,
+  SchemeFieldChange,
+  SchemeChangeType,
+  EditableSchemeField,
+  SchemeNotificationInsert,
+  SchemeNotificationWithScheme,
+  NotificationPreferences,
+} from '@/types/database'
+
+/**
+ * Which change type each editable scheme field belongs to
+ */
+const FIELD_CHANGE_TYPES: Record<EditableSchemeField, SchemeChangeType> = {
+  benefits: 'benefits',
+  eligibility: 'eligibility',
+  eligibility_rules: 'eligibility',
+  jurisdiction: 'eligibility',
+  relationships: 'eligibility',
+  documents_required: 'documents',
+  financial_details: 'financial',
+  application_process: 'application',
+  scheme_url: 'application',
+  is_active: 'status',
+  scheme_name: 'details',
+  ministry: 'details',
+  description: 'details',
+  details: 'details',
+  category: 'details',
+  tags: 'details',
+  target_audience: 'details',
+}
+
+/**
+ * Change types users are notified about unless they opt out.
+ * Cosmetic 'details' edits (tags, description) are opt-in.
+ */
+export const DEFAULT_NOTIFICATION_CHANGE_TYPES: SchemeChangeType[] = [
+  'benefits',
+  'eligibility',
+  'documents',
+  'financial',
+  'application',
+  'status',
+]
+
+export const SCHEME_CHANGE_TYPE_LABELS: Record<SchemeChangeType, string> = {
+  benefits: 'Benefits',
+  eligibility: 'Eligibility',
+  documents: 'Required documents',
+  financial: 'Loan and subsidy amounts',
+  application: 'Application process',
+  status: 'Scheme discontinued or restarted',
+  details: 'Description and other details',
+}
+
+/**
+ * Classify a field-level diff into user-facing change types
+ */
+export function classifySchemeChanges(changes: SchemeFieldChange[]): SchemeChangeType[] {
+  const types = new Set<SchemeChangeType>()
+  changes.forEach(change => types.add(FIELD_CHANGE_TYPES[change.field]))
+  return Array.from(types)
+}
+
+/**
+ * Build a notification title and summary lines for a scheme change
+ */
+export function summarizeSchemeChanges(
+  schemeName: string,
+  changes: SchemeFieldChange[]
+): { title: string; summary: string[] } {
+  const types = classifySchemeChanges(changes)
+  const statusChange = changes.find(change => change.field === 'is_active')
+
+  if (statusChange?.after === false) {
+    return {
+      title: `${schemeName} is no longer active`,
+      summary: ['This scheme has been discontinued or paused. New applications may not be accepted.'],
+    }
+  }
+
+  const summary: string[] = []
+  if (statusChange?.after === true) {
+    summary.push('This scheme is accepting applications again.')
+  }
+  if (types.includes('benefits')) {
+    summary.push('The benefits offered under this scheme have been updated.')
+  }
+  if (types.includes('financial')) {
+    summary.push('Loan, subsidy or grant amounts have changed.')
+  }
+  if (types.includes('eligibility')) {
+    summary.push('Eligibility criteria have changed. Please check that you still qualify.')
+  }
+  if (types.includes('documents')) {
+    summary.push('The list of required documents has changed.')
+  }
+  if (types.includes('application')) {
+    summary.push('The application process or link has changed.')
+  }
+  if (types.includes('details')) {
+    summary.push('The scheme description has been updated.')
+  }
+
+  return {
+    title: statusChange?.after === true
+      ? `${schemeName} is active again`
+      : `${schemeName} has been updated`,
+    summary,
+  }
+}
+
+/**
+ * Service class for managing scheme change notifications
+ * Handles fan-out to interested users, the per-user feed and preferences
+ */
+export class NotificationService {
+  private supabase: ReturnType<typeof createClient>
+
+  constructor(supabaseClient?: ReturnType<typeof createClient>) {
+    // Allow injection of Supabase client for testing or server-side usage
+    this.supabase = supabaseClient || createClient()
+  }
+
+  /**
+   * Untyped view of the client for writes. The Database type carries no
+   * Relationships metadata, so supabase-js resolves typed payloads to never.
+   */
+  private get writer(): SupabaseClient {
+    return this.supabase as unknown as SupabaseClient
+  }
+
+  /**
+   * Notify users who saved or asked about a scheme that it changed.
+   * Users are filtered by their change type preferences.
+   * @param scheme - The scheme after the change
+   * @param changes - Field-level diff from the scheme revision
+   * @param revision - The revision that recorded the change
+   * @returns Number of notifications created
+   * @throws Error if recipients cannot be loaded or insert fails
+   */
+  async createSchemeChangeNotifications(
+    scheme: Scheme,
+    changes: SchemeFieldChange[],
+    revision: SchemeRevision | null
+  ): Promise<number> {
+    const changeTypes = classifySchemeChanges(changes)
+    if (changeTypes.length === 0) return 0
+
+    try {
+      const userIds = await this.getInterestedUserIds(scheme.id)
+      if (userIds.length === 0) return 0
+
+      const preferences = await this.getPreferencesForUsers(userIds)
+      const { title, summary } = summarizeSchemeChanges(scheme.scheme_name, changes)
+
+      const notifications: SchemeNotificationInsert[] = userIds
+        .filter(userId => {
+          const prefs = preferences.get(userId)
+          if (prefs && !prefs.in_app_enabled) return false
+          const wanted = prefs?.change_types || DEFAULT_NOTIFICATION_CHANGE_TYPES
+          return changeTypes.some(type => wanted.includes(type))
+        })
+        .map(userId => ({
+          user_id: userId,
+          scheme_id: scheme.id,
+          revision_id: revision?.id || null,
+          change_types: changeTypes,
+          title,
+          summary,
+        }))
+
+      if (notifications.length === 0) return 0
+
+      const { error } = await this.writer
+        .from('scheme_notifications')
+        .insert(notifications)
+
+      if (error) {
+        throw new Error(`Failed to create notifications: ${error.message}`)
+      }
+
+      return notifications.length
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while creating notifications')
+    }
+  }
+
+  /**
+   * Get a user's notification feed, newest first
+   * @param userId - The ID of the user
+   * @param options - Unread filter and limit
+   * @returns Notifications with scheme name
+   * @throws Error if fetch fails
+   */
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<SchemeNotificationWithScheme[]> {
+    try {
+      let query = this.supabase
+        .from('scheme_notifications')
+        .select('*, scheme:schemes(id, scheme_name, is_active)')
+        .eq('user_id', userId)
+
+      if (options.unreadOnly) {
+        query = query.eq('is_read', false)
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(options.limit || 50)
+
+      if (error) {
+        throw new Error(`Failed to fetch notifications: ${error.message}`)
+      }
+
+      return (data || []) as unknown as SchemeNotificationWithScheme[]
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while fetching notifications')
+    }
+  }
+
+  /**
+   * Count unread notifications for a user
+   * @param userId - The ID of the user
+   * @returns Unread count
+   * @throws Error if fetch fails
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('scheme_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+
+    if (error) {
+      throw new Error(`Failed to count notifications: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  /**
+   * Mark notifications as read
+   * @param userId - The ID of the user
+   * @param notificationIds - Notifications to mark; all unread if omitted
+   * @throws Error if update fails
+   */
+  async markAsRead(userId: string, notificationIds?: string[]): Promise<void> {
+    let query = this.writer
+      .from('scheme_notifications')
+      .update({ is_read: true, read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+
+    if (notificationIds && notificationIds.length > 0) {
+      query = query.in('id', notificationIds)
+    }
+
+    const { error } = await query
+
+    if (error) {
+      throw new Error(`Failed to mark notifications as read: ${error.message}`)
+    }
+  }
+
+  /**
+   * Get a user's notification preferences, falling back to defaults
+   * @param userId - The ID of the user
+   * @returns Notification preferences
+   * @throws Error if fetch fails
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`)
+    }
+
+    if (data) {
+      return data as NotificationPreferences
+    }
+
+    const now = new Date().toISOString()
+    return {
+      user_id: userId,
+      change_types: DEFAULT_NOTIFICATION_CHANGE_TYPES,
+      in_app_enabled: true,
+      created_at: now,
+      updated_at: now,
+    }
+  }
+
+  /**
+   * Create or update a user's notification preferences
+   * @param userId - The ID of the user
+   * @param updates - Change types and/or in-app toggle
+   * @returns The saved preferences
+   * @throws Error if validation or save fails
+   */
+  async updatePreferences(
+    userId: string,
+    updates: { change_types?: SchemeChangeType[]; in_app_enabled?: boolean }
+  ): Promise<NotificationPreferences> {
+    if (updates.change_types !== undefined) {
+      const validTypes = Object.keys(SCHEME_CHANGE_TYPE_LABELS)
+      if (!Array.isArray(updates.change_types) ||
+          updates.change_types.some(type => !validTypes.includes(type))) {
+        throw new Error(`Invalid change types. Must be any of: ${validTypes.join(', ')}`)
+      }
+    }
+
+    const { data, error } = await this.writer
+      .from('notification_preferences')
+      .upsert({
+        user_id: userId,
+        ...updates,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id' })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update notification preferences: ${error.message}`)
+    }
+
+    return data as NotificationPreferences
+  }
+
+  /**
+   * Users who saved the scheme or asked about it in chat
+   */
+  private async getInterestedUserIds(schemeId: string): Promise<string[]> {
+    const [saved, interested] = await Promise.all([
+      this.supabase
+        .from('user_schemes')
+        .select('user_id')
+        .eq('scheme_id', schemeId),
+      // 'mentioned' only means the scheme came up; notify users who asked about it
+      this.supabase
+        .from('scheme_interests')
+        .select('user_id')
+        .eq('scheme_id', schemeId)
+        .eq('is_anonymized', false)
+        .in('interest_level', ['inquired', 'detailed']),
+    ])
+
+    if (saved.error) {
+      throw new Error(`Failed to fetch saved schemes: ${saved.error.message}`)
+    }
+    if (interested.error) {
+      throw new Error(`Failed to fetch scheme interests: ${interested.error.message}`)
+    }
+
+    const rows = [...(saved.data || []), ...(interested.data || [])] as Array<{ user_id: string }>
+    return Array.from(new Set(rows.map(row => row.user_id)))
+  }
+
+  /**
+   * Load stored preferences for many users at once
+   */
+  private async getPreferencesForUsers(
+    userIds: string[]
+  ): Promise<Map<string, NotificationPreferences>> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .select('*')
+      .in('user_id', userIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`)
+    }
+
+    const preferences = new Map<string, NotificationPreferences>()
+    ;((data || []) as NotificationPreferences[]).forEach(prefs => {
+      preferences.set(prefs.user_id, prefs)
+    })
+    return preferences
+  }
+}
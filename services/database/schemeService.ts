@@ -0,0 +1,616 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import type {
+  Json,
+  Scheme,
+  SchemeInsert,
+  SchemeUpdate,
+  SchemeRevision,
+  SchemeRevisionInsert,
+  SchemeRevisionAction,
+  SchemeFieldChange,
+  EditableSchemeField,
+  PaginatedResult,
+} from '@/types/database'
+import { slugifySchemeName, uniqueSlug } from '@/lib/schemes/schemeUtils'
+import { NotificationService } from './notificationService'
+
+/**
+ * Fields admins may edit. Every change to one of these is recorded in
+ * scheme_revisions so it can be audited and rolled back.
+ */
+export const EDITABLE_SCHEME_FIELDS: EditableSchemeField[] = [
+  'scheme_name',
+  'scheme_url',
+  'ministry',
+  'description',
+  'category',
+  'details',
+  'benefits',
+  'eligibility',
+  'application_process',
+  'documents_required',
+  'financial_details',
+  'eligibility_rules',
+  'jurisdiction',
+  'relationships',
+  'tags',
+  'target_audience',
+  'is_active',
+]
+
+export interface SchemeAuthor {
+  id: string | null // null for automated jobs such as scheme ingestion
+  email?: string | null
+}
+
+export interface SchemeListOptions {
+  search?: string
+  includeInactive?: boolean
+  page?: number
+  pageSize?: number
+}
+
+export interface SchemeEditResult {
+  scheme: Scheme
+  revision: SchemeRevision | null
+}
+
+/**
+ * Compute a field-level diff between two scheme states.
+ * Fields missing from `after` are treated as unchanged.
+ */
+export function diffSchemeFields(
+  before: Partial<Scheme> | null,
+  after: Partial<Scheme>
+): SchemeFieldChange[] {
+  const changes: SchemeFieldChange[] = []
+
+  for (const field of EDITABLE_SCHEME_FIELDS) {
+    if (!(field in after)) continue
+
+    const previous = (before?.[field] ?? null) as Json | null
+    const next = (after[field] ?? null) as Json | null
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, before: previous, after: next })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Service class for managing the scheme catalogue
+ * Handles admin CRUD operations on schemes with a revision history per edit
+ */
+export class SchemeService {
+  private supabase: ReturnType<typeof createClient>
+
+  constructor(supabaseClient?: ReturnType<typeof createClient>) {
+    // Allow injection of Supabase client for testing or server-side usage
+    this.supabase = supabaseClient || createClient()
+  }
+
+  /**
+   * Untyped view of the client for writes. The Database type carries no
+   * Relationships metadata, so supabase-js resolves typed payloads to never.
+   */
+  private get writer(): SupabaseClient {
+    return this.supabase as unknown as SupabaseClient
+  }
+
+  /**
+   * List schemes for the admin catalogue
+   * @param options - Search, inactive filter and pagination
+   * @returns Paginated schemes ordered by name
+   * @throws Error if fetch fails
+   */
+  async listSchemes(options: SchemeListOptions = {}): Promise<PaginatedResult<Scheme>> {
+    const page = Math.max(1, options.page || 1)
+    const pageSize = Math.min(100, Math.max(1, options.pageSize || 20))
+    const from = (page - 1) * pageSize
+
+    try {
+      let query = this.supabase
+        .from('schemes')
+        .select('*', { count: 'exact' })
+
+      if (!options.includeInactive) {
+        query = query.eq('is_active', true)
+      }
+
+      if (options.search) {
+        query = query.ilike('scheme_name', `%${options.search}%`)
+      }
+
+      const { data, error, count } = await query
+        .order('scheme_name', { ascending: true })
+        .range(from, from + pageSize - 1)
+
+      if (error) {
+        throw new Error(`Failed to fetch schemes: ${error.message}`)
+      }
+
+      const totalCount = count || 0
+
+      return {
+        data: (data || []) as Scheme[],
+        pagination: {
+          page,
+          pageSize,
+          totalCount,
+          totalPages: Math.ceil(totalCount / pageSize),
+        },
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while fetching schemes')
+    }
+  }
+
+  /**
+   * List every scheme, including inactive ones, page by page
+   * @returns All schemes ordered by name
+   * @throws Error if fetch fails
+   */
+  async listAllSchemes(): Promise<Scheme[]> {
+    const schemes: Scheme[] = []
+    let page = 1
+    let totalPages = 1
+
+    do {
+      const result = await this.listSchemes({ includeInactive: true, page, pageSize: 100 })
+      schemes.push(...result.data)
+      totalPages = result.pagination.totalPages
+      page++
+    } while (page <= totalPages)
+
+    return schemes
+  }
+
+  /**
+   * Get a single scheme by ID, including inactive schemes
+   * @param schemeId - The ID of the scheme
+   * @returns The scheme
+   * @throws Error if fetch fails or scheme not found
+   */
+  async getScheme(schemeId: string): Promise<Scheme> {
+    try {
+      const { data, error } = await this.supabase
+        .from('schemes')
+        .select('*')
+        .eq('id', schemeId)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to fetch scheme: ${error.message}`)
+      }
+
+      if (!data) {
+        throw new Error('Scheme not found')
+      }
+
+      return data as Scheme
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while fetching scheme')
+    }
+  }
+
+  /**
+   * Create a new scheme and record its first revision
+   * @param input - Scheme fields
+   * @param author - Admin creating the scheme
+   * @param note - Optional note stored with the revision
+   * @returns The created scheme and its revision
+   * @throws Error if validation or creation fails
+   */
+  async createScheme(
+    input: SchemeInsert,
+    author: SchemeAuthor,
+    note?: string
+  ): Promise<SchemeEditResult> {
+    this.validateSchemeFields(input, true)
+
+    try {
+      const slug = await this.getNewSlug(input.scheme_name)
+      const { data, error } = await this.writer
+        .from('schemes')
+        .insert({
+          ...this.pickEditableFields(input),
+          slug,
+          is_active: input.is_active ?? true,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create scheme: ${error.message}`)
+      }
+
+      if (!data) {
+        throw new Error('No data returned from scheme creation')
+      }
+
+      const scheme = data as Scheme
+      const revision = await this.recordRevision(
+        scheme,
+        'create',
+        diffSchemeFields(null, this.pickEditableFields(scheme)),
+        author,
+        note
+      )
+
+      return { scheme, revision }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while creating scheme')
+    }
+  }
+
+  /**
+   * Update a scheme and record a revision with the field-level diff
+   * @param schemeId - The ID of the scheme
+   * @param updates - Fields to update
+   * @param author - Admin making the edit
+   * @param note - Optional note stored with the revision
+   * @returns The updated scheme and revision (null if nothing changed)
+   * @throws Error if validation or update fails
+   */
+  async updateScheme(
+    schemeId: string,
+    updates: SchemeUpdate,
+    author: SchemeAuthor,
+    note?: string
+  ): Promise<SchemeEditResult> {
+    this.validateSchemeFields(updates, false)
+
+    let action: SchemeRevisionAction = 'update'
+    if (updates.is_active === false) action = 'deactivate'
+    if (updates.is_active === true) action = 'reactivate'
+
+    return this.applyChanges(schemeId, this.pickEditableFields(updates), action, author, note)
+  }
+
+  /**
+   * Activate or deactivate a scheme (schemes are never hard-deleted)
+   * @param schemeId - The ID of the scheme
+   * @param isActive - New active state
+   * @param author - Admin making the change
+   * @param note - Optional note stored with the revision
+   * @returns The updated scheme and revision
+   * @throws Error if update fails
+   */
+  async setSchemeActive(
+    schemeId: string,
+    isActive: boolean,
+    author: SchemeAuthor,
+    note?: string
+  ): Promise<SchemeEditResult> {
+    return this.applyChanges(
+      schemeId,
+      { is_active: isActive },
+      isActive ? 'reactivate' : 'deactivate',
+      author,
+      note
+    )
+  }
+
+  /**
+   * Get the revision history for a scheme, newest first
+   * @param schemeId - The ID of the scheme
+   * @returns Array of revisions
+   * @throws Error if fetch fails
+   */
+  async getRevisions(schemeId: string): Promise<SchemeRevision[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheme_revisions')
+        .select('*')
+        .eq('scheme_id', schemeId)
+        .order('revision_number', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch scheme revisions: ${error.message}`)
+      }
+
+      return (data || []) as SchemeRevision[]
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while fetching scheme revisions')
+    }
+  }
+
+  /**
+   * Restore a scheme to the state captured in an earlier revision.
+   * The rollback itself is recorded as a new revision.
+   * @param schemeId - The ID of the scheme
+   * @param revisionNumber - Revision to restore
+   * @param author - Admin performing the rollback
+   * @param note - Optional note stored with the revision
+   * @returns The restored scheme and the rollback revision
+   * @throws Error if the revision does not exist or update fails
+   */
+  async rollbackToRevision(
+    schemeId: string,
+    revisionNumber: number,
+    author: SchemeAuthor,
+    note?: string
+  ): Promise<SchemeEditResult> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scheme_revisions')
+        .select('*')
+        .eq('scheme_id', schemeId)
+        .eq('revision_number', revisionNumber)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to fetch scheme revision: ${error.message}`)
+      }
+
+      if (!data) {
+        throw new Error(`Revision ${revisionNumber} not found`)
+      }
+
+      const revision = data as SchemeRevision
+      const snapshot = this.pickEditableFields(revision.snapshot as Partial<Scheme>)
+
+      return this.applyChanges(
+        schemeId,
+        snapshot,
+        'rollback',
+        author,
+        note || `Rolled back to revision ${revisionNumber}`,
+        revisionNumber
+      )
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while rolling back scheme')
+    }
+  }
+
+  /**
+   * Apply changes to a scheme and record the resulting revision
+   */
+  private async applyChanges(
+    schemeId: string,
+    updates: Partial<Scheme>,
+    action: SchemeRevisionAction,
+    author: SchemeAuthor,
+    note?: string,
+    rolledBackTo?: number
+  ): Promise<SchemeEditResult> {
+    try {
+      const current = await this.getScheme(schemeId)
+      const changes = diffSchemeFields(current, updates)
+
+      if (changes.length === 0) {
+        return { scheme: current, revision: null }
+      }
+
+      // Schemes imported by scripts/migrate-schemes.ts have no history yet.
+      // Capture their current state first so the edit can be rolled back.
+      await this.ensureBaselineRevision(current, author)
+
+      const { data, error } = await this.writer
+        .from('schemes')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', schemeId)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update scheme: ${error.message}`)
+      }
+
+      if (!data) {
+        throw new Error('No data returned from scheme update')
+      }
+
+      const scheme = data as Scheme
+      const revision = await this.recordRevision(scheme, action, changes, author, note, rolledBackTo)
+
+      // The edit is already saved; a failed fan-out must not fail the request
+      try {
+        await new NotificationService(this.supabase)
+          .createSchemeChangeNotifications(scheme, changes, revision)
+      } catch (notifyError) {
+        console.error('[SchemeService] Failed to notify users about scheme change:', notifyError)
+      }
+
+      return { scheme, revision }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error('Unknown error occurred while updating scheme')
+    }
+  }
+
+  /**
+   * Record revision 1 for schemes that predate revision tracking
+   */
+  private async ensureBaselineRevision(scheme: Scheme, author: SchemeAuthor): Promise<void> {
+    const latest = await this.getLatestRevisionNumber(scheme.id)
+    if (latest > 0) return
+
+    await this.recordRevision(scheme, 'create', [], author, 'Baseline captured before first edit')
+  }
+
+  /**
+   * Append a revision with the scheme's full editable state
+   */
+  private async recordRevision(
+    scheme: Scheme,
+    action: SchemeRevisionAction,
+    changes: SchemeFieldChange[],
+    author: SchemeAuthor,
+    note?: string,
+    rolledBackTo?: number
+  ): Promise<SchemeRevision> {
+    const revisionNumber = (await this.getLatestRevisionNumber(scheme.id)) + 1
+
+    const revisionData: SchemeRevisionInsert = {
+      scheme_id: scheme.id,
+      revision_number: revisionNumber,
+      action,
+      author_id: author.id,
+      author_email: author.email || null,
+      changes,
+      snapshot: this.pickEditableFields(scheme) as Json,
+      note: note || null,
+      rolled_back_to: rolledBackTo ?? null,
+    }
+
+    const { data, error } = await this.writer
+      .from('scheme_revisions')
+      .insert(revisionData)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to record scheme revision: ${error.message}`)
+    }
+
+    return data as SchemeRevision
+  }
+
+  /**
+   * Get the highest revision number for a scheme (0 if none)
+   */
+  private async getLatestRevisionNumber(schemeId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('scheme_revisions')
+      .select('revision_number')
+      .eq('scheme_id', schemeId)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch latest scheme revision: ${error.message}`)
+    }
+
+    return (data as { revision_number: number } | null)?.revision_number || 0
+  }
+
+  /**
+   * Page slug for a new scheme: the name's slug, suffixed when another row
+   * already has it. Set once at insert so links survive renames.
+   */
+  private async getNewSlug(schemeName: string): Promise<string> {
+    const base = slugifySchemeName(schemeName)
+    const { data, error } = await this.supabase
+      .from('schemes')
+      .select('slug')
+      .like('slug', `${base}%`)
+
+    if (error) {
+      throw new Error(`Failed to check scheme slugs: ${error.message}`)
+    }
+
+    const taken = ((data || []) as { slug: string | null }[])
+      .map(row => row.slug)
+      .filter((slug): slug is string => !!slug)
+    return uniqueSlug(base, new Set(taken))
+  }
+
+  /**
+   * Keep only fields admins are allowed to edit
+   */
+  private pickEditableFields(source: Partial<Scheme> | SchemeInsert | SchemeUpdate): Partial<Scheme> {
+    const picked: Record<string, unknown> = {}
+
+    for (const field of EDITABLE_SCHEME_FIELDS) {
+      if (field in source) {
+        picked[field] = (source as Record<string, unknown>)[field]
+      }
+    }
+
+    return picked as Partial<Scheme>
+  }
+
+  /**
+   * Validate scheme fields before sending to database
+   * @param fields - Scheme fields to validate
+   * @param isCreate - Whether required fields must be present
+   * @throws Error if validation fails
+   */
+  private validateSchemeFields(fields: SchemeInsert | SchemeUpdate, isCreate: boolean): void {
+    if (isCreate || fields.scheme_name !== undefined) {
+      if (typeof fields.scheme_name !== 'string' || fields.scheme_name.trim().length === 0) {
+        throw new Error('Invalid scheme name. Scheme name is required')
+      }
+      if (fields.scheme_name.length > 300) {
+        throw new Error('Invalid scheme name. Must be 300 characters or less')
+      }
+    }
+
+    if (fields.scheme_url !== undefined && fields.scheme_url !== null) {
+      if (!/^https?:\/\/\S+$/.test(fields.scheme_url)) {
+        throw new Error('Invalid scheme URL. Must start with http:// or https://')
+      }
+    }
+
+    for (const field of ['tags', 'target_audience'] as const) {
+      const value = fields[field]
+      if (value !== undefined && value !== null) {
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+          throw new Error(`Invalid ${field}. Must be an array of strings`)
+        }
+      }
+    }
+
+    if (fields.is_active !== undefined && typeof fields.is_active !== 'boolean') {
+      throw new Error('Invalid is_active. Must be a boolean')
+    }
+
+    for (const field of ['financial_details', 'eligibility_rules', 'jurisdiction'] as const) {
+      const value = fields[field]
+      if (value !== undefined && value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+        throw new Error(`Invalid ${field}. Must be an object`)
+      }
+    }
+
+    if (fields.relationships !== undefined && fields.relationships !== null) {
+      const relationships = fields.relationships
+      if (
+        !Array.isArray(relationships) ||
+        relationships.some(relationship => {
+          const { type, scheme } = (relationship || {}) as { type?: unknown; scheme?: unknown }
+          return !['stacks_with', 'excludes', 'prerequisite_for'].includes(type as string) ||
+            typeof scheme !== 'string' || scheme.trim().length === 0
+        })
+      ) {
+        throw new Error(
+          'Invalid relationships. Must be an array of { type: stacks_with | excludes | prerequisite_for, scheme: name }'
+        )
+      }
+    }
+
+    const jurisdiction = fields.jurisdiction as { level?: unknown; states?: unknown } | null | undefined
+    if (jurisdiction) {
+      if (!['central', 'state', 'district'].includes(jurisdiction.level as string)) {
+        throw new Error('Invalid jurisdiction. level must be central, state or district')
+      }
+      if (jurisdiction.level !== 'central' && (!Array.isArray(jurisdiction.states) || jurisdiction.states.length === 0)) {
+        throw new Error('Invalid jurisdiction. State and district schemes must list their states')
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import type { UserScheme } from '@/types/database'
+
+/**
+ * Service class for a user's saved schemes (user_schemes)
+ * Each user has at most one row per scheme, tracking its status from saved to approved
+ */
+export class UserSchemeService {
+  private supabase: ReturnType<typeof createClient>
+
+  constructor(supabaseClient?: ReturnType<typeof createClient>) {
+    // Allow injection of Supabase client for testing or server-side usage
+    this.supabase = supabaseClient || createClient()
+  }
+
+  /**
+   * Untyped view of the client for writes. The Database type carries no
+   * Relationships metadata, so supabase-js resolves typed payloads to never.
+   */
+  private get writer(): SupabaseClient {
+    return this.supabase as unknown as SupabaseClient
+  }
+
+  /**
+   * Get a user's saved schemes, most recently saved first
+   * @param userId - The ID of the user
+   * @returns The user's saved scheme rows
+   * @throws Error if fetch fails
+   */
+  async getSavedSchemes(userId: string): Promise<UserScheme[]> {
+    const { data, error } = await this.supabase
+      .from('user_schemes')
+      .select('*')
+      .eq('user_id', userId)
+      .order('saved_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch saved schemes: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Get a user's row for one scheme
+   * @param userId - The ID of the user
+   * @param schemeId - The ID of the scheme
+   * @returns The row, or null if the user has not saved the scheme
+   * @throws Error if fetch fails
+   */
+  async getUserScheme(userId: string, schemeId: string): Promise<UserScheme | null> {
+    const { data, error } = await this.supabase
+      .from('user_schemes')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('scheme_id', schemeId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch saved scheme: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Save a scheme for a user. A scheme the user already saved is returned
+   * as it is, so its status (e.g. 'applied') is not reset.
+   * @param userId - The ID of the user
+   * @param schemeId - The ID of the scheme
+   * @param notes - Optional note to keep with the scheme
+   * @returns The saved row and whether it already existed
+   * @throws Error if the insert fails
+   */
+  async saveScheme(
+    userId: string,
+    schemeId: string,
+    notes?: string
+  ): Promise<{ userScheme: UserScheme; alreadySaved: boolean }> {
+    const existing = await this.getUserScheme(userId, schemeId)
+    if (existing) {
+      return { userScheme: existing, alreadySaved: true }
+    }
+
+    const { data, error } = await this.writer
+      .from('user_schemes')
+      .insert({
+        user_id: userId,
+        scheme_id: schemeId,
+        status: 'saved',
+        notes: notes || null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save scheme: ${error.message}`)
+    }
+
+    return { userScheme: data as UserScheme, alreadySaved: false }
+  }
+
+  /**
+   * Remove a scheme from a user's saved schemes
+   * @param userId - The ID of the user
+   * @param schemeId - The ID of the scheme
+   * @throws Error if the delete fails
+   */
+  async removeScheme(userId: string, schemeId: string): Promise<void> {
+    const { error } = await this.writer
+      .from('user_schemes')
+      .delete()
+      .eq('user_id', userId)
+      .eq('scheme_id', schemeId)
+
+    if (error) {
+      throw new Error(`Failed to remove saved scheme: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,524 @@
+import { z } from 'zod';
+import { generateText, stepCountIs, type JSONValue, type ModelMessage } from 'ai';
+import { conversationManager } from '@/services/chat/conversationManager';
+import { conversationStrategy, type ConversationIntent } from '@/services/ai/conversationStrategy';
+import { createMockLanguageModel, type MockScript } from '@/services/ai/mockLanguageModel';
+import { createSchemeTools } from '@/services/ai/schemeTools';
+import { extractFromHistory, type ExtractionResult } from '@/services/analytics/extractionService';
+import { schemeDataService } from '@/services/schemes/schemeDataService';
+import { createCitationRegistry } from '@/lib/schemes/schemeCitations';
+import { verifySchemeResponse } from '@/lib/schemes/responseVerifier';
+import type { LLMProvider } from '@/services/ai/llmProvider';
+import type { ProcessedScheme, UserProfile } from '@/types/scheme';
+
+/**
+ * Offline evaluation of scheme recommendations
+ *
+ * Runs checked-in test conversations (data/eval/conversations.json)
+ * through the same code as the chat route and extraction jobs, with no
+ * network: the context builder, the chat model with the scheme tools, and
+ * attribute extraction. Each case is scored on:
+ * - Retrieval recall: expected schemes among those the context builder
+ *   selects for the last turn
+ * - Answer recall: expected schemes named in any answer
+ * - Intent accuracy: conversationStrategy.inferIntent() per turn
+ * - Extraction accuracy: attributes extracted from the conversation
+ *
+ * The 'mock' provider answers with the scripted mock model (it searches the
+ * catalogue with the user's message) and extracts with the rule-based
+ * fallback. The 'recorded' provider replays answers and extraction JSON
+ * stored with the cases, falling back to the mock where none is stored.
+ * Results are compared with a stored baseline to catch regressions.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EvalProviderMode = 'mock' | 'recorded';
+
+export type EvalLanguageGroup = 'english' | 'hindi' | 'hinglish' | 'regional';
+
+export type EvalMetric = 'retrievalRecall' | 'answerRecall' | 'intentAccuracy' | 'extractionAccuracy';
+
+export type ExtractionField = keyof ExtractionResult['attributes'];
+
+const INTENT_TYPES = ['credit', 'subsidies', 'certification', 'tech', 'export', 'general', 'unknown'] as const;
+
+const evalTurnSchema = z.object({
+  user: z.string().min(1),
+  intent: z.enum(INTENT_TYPES).optional(), // Expected inferIntent() type
+  reply: z.string().optional() // Stored answer the recorded provider replays
+});
+
+const evalCaseSchema = z.object({
+  id: z.string().min(1),
+  group: z.enum(['english', 'hindi', 'hinglish', 'regional']),
+  language: z.string().min(2), // Language code the chat client sends
+  description: z.string().optional(),
+  profile: z.record(z.string(), z.unknown()).optional(), // Profile the chat client sends
+  turns: z.array(evalTurnSchema).min(1),
+  expected: z.object({
+    schemes: z.array(z.string()).optional(), // Scheme names, as in the catalogue
+    extraction: z.object({
+      location: z.string().nullable().optional(),
+      industry: z.string().nullable().optional(),
+      businessSize: z.enum(['Micro', 'Small', 'Medium']).nullable().optional(),
+      annualTurnover: z.number().nullable().optional(),
+      employeeCount: z.number().nullable().optional()
+    }).optional()
+  }),
+  recordedExtraction: z.record(z.string(), z.unknown()).optional() // Stored extraction model JSON
+});
+
+const evalSuiteSchema = z.object({
+  version: z.number(),
+  cases: z.array(evalCaseSchema).min(1)
+});
+
+export type EvalTurn = z.infer<typeof evalTurnSchema>;
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+export type EvalSuite = z.infer<typeof evalSuiteSchema>;
+
+export interface SchemeRecall {
+  expected: string[];
+  found: string[];
+  missed: string[];
+  recall: number;
+}
+
+export interface IntentResult {
+  message: string;
+  expected: ConversationIntent['type'];
+  actual: ConversationIntent['type'];
+}
+
+export interface ExtractionFieldResult {
+  field: ExtractionField;
+  expected: string | number | null;
+  actual: string | number | null;
+  correct: boolean;
+}
+
+export type EvalMetrics = Record<EvalMetric, number | null>; // null when no case measures it
+
+export interface EvalCaseResult {
+  id: string;
+  group: EvalLanguageGroup;
+  recorded: boolean; // Stored replies were replayed for at least one model call
+  retrieval: SchemeRecall | null;
+  answer: SchemeRecall | null;
+  intents: IntentResult[];
+  extraction: ExtractionFieldResult[];
+  metrics: EvalMetrics;
+}
+
+export interface EvalRun {
+  provider: EvalProviderMode;
+  suiteVersion: number;
+  createdAt: string;
+  metrics: EvalMetrics;
+  groups: Partial<Record<EvalLanguageGroup, EvalMetrics>>;
+  cases: EvalCaseResult[];
+}
+
+export interface EvalBaseline {
+  provider: EvalProviderMode;
+  suiteVersion: number;
+  createdAt: string;
+  metrics: EvalMetrics;
+  groups: Partial<Record<EvalLanguageGroup, EvalMetrics>>;
+  cases: Record<string, EvalMetrics>;
+}
+
+export interface MetricChange {
+  metric: EvalMetric;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+export interface EvalComparison {
+  comparable: boolean; // Same provider and suite version as the baseline
+  metrics: MetricChange[];
+  regressions: Array<MetricChange & { caseId: string }>;
+  improvements: Array<MetricChange & { caseId: string }>;
+  newCases: string[];
+  removedCases: string[];
+}
+
+export const EVAL_METRIC_LABELS: Record<EvalMetric, string> = {
+  retrievalRecall: 'Retrieval recall',
+  answerRecall: 'Answer recall',
+  intentAccuracy: 'Intent accuracy',
+  extractionAccuracy: 'Extraction accuracy'
+};
+
+const EVAL_METRICS = Object.keys(EVAL_METRIC_LABELS) as EvalMetric[];
+
+const EXTRACTION_FIELDS: ExtractionField[] = ['location', 'industry', 'businessSize', 'annualTurnover', 'employeeCount'];
+
+// Score changes smaller than this are rounding, not regressions
+const SCORE_TOLERANCE = 0.005;
+
+// Tool steps per answer, as in the chat route
+const MAX_STEPS = 5;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Expected scheme names matched by the given schemes. A catalogue name
+ * containing the expected name counts, so "PM Vishwakarma" matches
+ * "PM Vishwakarma Scheme".
+ */
+function scoreSchemes(expected: string[], schemes: ProcessedScheme[]): SchemeRecall {
+  const names = schemes.map(scheme => normalizeName(scheme.name));
+  const found = expected.filter(name => names.some(candidate => candidate.includes(normalizeName(name))));
+
+  return {
+    expected,
+    found,
+    missed: expected.filter(name => !found.includes(name)),
+    recall: expected.length > 0 ? found.length / expected.length : 1
+  };
+}
+
+function matchesValue(expected: string | number | null, actual: string | number | null): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return expected.trim().toLowerCase() === actual.trim().toLowerCase();
+  }
+  return expected === actual;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Metrics over a set of case results: recalls are averaged per case,
+ * accuracies are over all turns and fields
+ */
+function aggregateMetrics(results: EvalCaseResult[]): EvalMetrics {
+  const intents = results.flatMap(result => result.intents);
+  const fields = results.flatMap(result => result.extraction);
+
+  return {
+    retrievalRecall: mean(results.flatMap(result => (result.retrieval ? [result.retrieval.recall] : []))),
+    answerRecall: mean(results.flatMap(result => (result.answer ? [result.answer.recall] : []))),
+    intentAccuracy: intents.length > 0
+      ? intents.filter(intent => intent.expected === intent.actual).length / intents.length
+      : null,
+    extractionAccuracy: fields.length > 0
+      ? fields.filter(field => field.correct).length / fields.length
+      : null
+  };
+}
+
+function changeOf(metric: EvalMetric, baseline: number | null | undefined, current: number | null): MetricChange {
+  const previous = baseline ?? null;
+  return {
+    metric,
+    baseline: previous,
+    current,
+    delta: previous !== null && current !== null ? current - previous : null
+  };
+}
+
+/**
+ * Chat model for a turn: the stored answer when replaying, otherwise the
+ * scripted mock, which searches the catalogue with the user's message
+ */
+function chatModelFor(turn: EvalTurn, provider: EvalProviderMode) {
+  const script: MockScript = provider === 'recorded' && turn.reply
+    ? { rules: [{ match: /[\s\S]*/, reply: turn.reply }] }
+    : {};
+
+  return createMockLanguageModel(script.rules ? 'recorded-chat' : 'mock-chat', { ...script, chunkDelayMs: 0 });
+}
+
+/**
+ * Extraction provider for a case: replays the stored extraction JSON, or
+ * reports itself unconfigured so the rule-based fallback runs
+ */
+function extractionProviderFor(testCase: EvalCase, provider: EvalProviderMode): LLMProvider {
+  const recorded = provider === 'recorded' ? testCase.recordedExtraction : undefined;
+
+  return {
+    name: 'mock',
+    isConfigured: () => Boolean(recorded),
+    getModelId: () => 'recorded-extraction',
+    getModel: () => createMockLanguageModel('recorded-extraction', { json: recorded as JSONValue, chunkDelayMs: 0 })
+  };
+}
+
+// ============================================================================
+// Suite
+// ============================================================================
+
+/**
+ * Validate a test suite read from JSON
+ */
+export function parseEvalSuite(data: unknown): EvalSuite {
+  const suite = evalSuiteSchema.parse(data);
+
+  const seen = new Set<string>();
+  suite.cases.forEach(testCase => {
+    if (seen.has(testCase.id)) {
+      throw new Error(`Duplicate eval case id: ${testCase.id}`);
+    }
+    seen.add(testCase.id);
+  });
+
+  return suite;
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/**
+ * Run one test conversation turn by turn, as the chat route would, then
+ * extract attributes from the whole conversation
+ */
+export async function runEvalCase(testCase: EvalCase, provider: EvalProviderMode): Promise<EvalCaseResult> {
+  const catalogue = await schemeDataService.getAllSchemes();
+  const history: ModelMessage[] = [];
+  const answered: ProcessedScheme[] = [];
+  const intents: IntentResult[] = [];
+  let sessionId: string | undefined;
+  let lastContextSchemes: ProcessedScheme[] = [];
+  let recorded = provider === 'recorded' && Boolean(testCase.recordedExtraction);
+
+  for (const turn of testCase.turns) {
+    if (turn.intent) {
+      intents.push({
+        message: turn.user,
+        expected: turn.intent,
+        actual: conversationStrategy.inferIntent(turn.user).type
+      });
+    }
+
+    const { systemPrompt, context, session } = await conversationManager.processChat({
+      message: turn.user,
+      sessionId,
+      language: testCase.language,
+      userProfile: testCase.profile as UserProfile | undefined,
+      toolsEnabled: true
+    });
+    sessionId = session.id;
+    lastContextSchemes = context.relevantSchemes;
+
+    if (provider === 'recorded' && turn.reply) recorded = true;
+
+    const { text } = await generateText({
+      model: chatModelFor(turn, provider),
+      system: systemPrompt,
+      messages: [...history, { role: 'user', content: turn.user }],
+      tools: createSchemeTools({ profile: session.userProfile }, createCitationRegistry()),
+      stopWhen: stepCountIs(MAX_STEPS)
+    });
+
+    const mentioned = verifySchemeResponse(text, catalogue).mentionedSchemeIds;
+    answered.push(...catalogue.filter(scheme => mentioned.includes(scheme.id)));
+    conversationManager.updateSession(session.id, turn.user, text, mentioned);
+    history.push({ role: 'user', content: turn.user }, { role: 'assistant', content: text });
+  }
+
+  const expectedSchemes = testCase.expected.schemes || [];
+  const expectedExtraction = testCase.expected.extraction;
+  let extraction: ExtractionFieldResult[] = [];
+
+  if (expectedExtraction) {
+    const result = await extractFromHistory(
+      history.map(message => ({ role: message.role, content: String(message.content) })),
+      extractionProviderFor(testCase, provider)
+    );
+
+    extraction = EXTRACTION_FIELDS
+      .filter(field => expectedExtraction[field] !== undefined)
+      .map(field => {
+        const expected = expectedExtraction[field] ?? null;
+        const actual = result.attributes[field] ?? null;
+        return { field, expected, actual, correct: matchesValue(expected, actual) };
+      });
+  }
+
+  const result: EvalCaseResult = {
+    id: testCase.id,
+    group: testCase.group,
+    recorded,
+    retrieval: expectedSchemes.length > 0 ? scoreSchemes(expectedSchemes, lastContextSchemes) : null,
+    answer: expectedSchemes.length > 0 ? scoreSchemes(expectedSchemes, answered) : null,
+    intents,
+    extraction,
+    metrics: { retrievalRecall: null, answerRecall: null, intentAccuracy: null, extractionAccuracy: null }
+  };
+  result.metrics = aggregateMetrics([result]);
+
+  return result;
+}
+
+/**
+ * Run every case of a suite against the checked-in catalogue
+ */
+export async function runEvaluation(suite: EvalSuite, provider: EvalProviderMode): Promise<EvalRun> {
+  // Score against data/schemes.json so runs are repeatable
+  schemeDataService.setDatabaseMode(false);
+
+  const cases: EvalCaseResult[] = [];
+  for (const testCase of suite.cases) {
+    cases.push(await runEvalCase(testCase, provider));
+  }
+
+  const groups: EvalRun['groups'] = {};
+  Array.from(new Set(cases.map(result => result.group))).forEach(group => {
+    groups[group] = aggregateMetrics(cases.filter(result => result.group === group));
+  });
+
+  return {
+    provider,
+    suiteVersion: suite.version,
+    createdAt: new Date().toISOString(),
+    metrics: aggregateMetrics(cases),
+    groups,
+    cases
+  };
+}
+
+// ============================================================================
+// Baseline
+// ============================================================================
+
+/**
+ * Scores of a run to store as the baseline
+ */
+export function toBaseline(run: EvalRun): EvalBaseline {
+  return {
+    provider: run.provider,
+    suiteVersion: run.suiteVersion,
+    createdAt: run.createdAt,
+    metrics: run.metrics,
+    groups: run.groups,
+    cases: Object.fromEntries(run.cases.map(result => [result.id, result.metrics]))
+  };
+}
+
+/**
+ * Compare a run with the baseline, overall and per case
+ */
+export function compareWithBaseline(run: EvalRun, baseline: EvalBaseline): EvalComparison {
+  const regressions: EvalComparison['regressions'] = [];
+  const improvements: EvalComparison['improvements'] = [];
+
+  run.cases.forEach(result => {
+    const previous = baseline.cases[result.id];
+    if (!previous) return;
+
+    EVAL_METRICS.forEach(metric => {
+      const change = changeOf(metric, previous[metric], result.metrics[metric]);
+      if (change.delta === null) return;
+      if (change.delta < -SCORE_TOLERANCE) regressions.push({ ...change, caseId: result.id });
+      if (change.delta > SCORE_TOLERANCE) improvements.push({ ...change, caseId: result.id });
+    });
+  });
+
+  const caseIds = run.cases.map(result => result.id);
+
+  return {
+    comparable: baseline.provider === run.provider && baseline.suiteVersion === run.suiteVersion,
+    metrics: EVAL_METRICS.map(metric => changeOf(metric, baseline.metrics[metric], run.metrics[metric])),
+    regressions,
+    improvements,
+    newCases: caseIds.filter(id => !baseline.cases[id]),
+    removedCases: Object.keys(baseline.cases).filter(id => !caseIds.includes(id))
+  };
+}
+
+/**
+ * Whether an overall metric dropped below the baseline
+ */
+export function hasRegressed(comparison: EvalComparison): boolean {
+  return comparison.metrics.some(change => change.delta !== null && change.delta < -SCORE_TOLERANCE);
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+function formatScore(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null) return '-';
+  if (Math.abs(value) <= SCORE_TOLERANCE) return '0';
+  return `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+}
+
+/**
+ * Markdown report of a run, compared with the baseline when there is one
+ */
+export function formatEvalReport(run: EvalRun, comparison: EvalComparison | null): string {
+  const lines: string[] = [
+    '# Recommendation Evaluation',
+    '',
+    `Provider: \`${run.provider}\` · Suite version ${run.suiteVersion} · ${run.cases.length} cases · ${run.createdAt}`,
+    ''
+  ];
+
+  if (comparison && !comparison.comparable) {
+    lines.push('> The baseline was run with a different provider or suite version; changes are indicative only.', '');
+  }
+
+  lines.push('## Overall', '', '| Metric | Baseline | Current | Change |', '|---|---|---|---|');
+  EVAL_METRICS.forEach(metric => {
+    const change = comparison?.metrics.find(candidate => candidate.metric === metric);
+    lines.push(`| ${EVAL_METRIC_LABELS[metric]} | ${formatScore(change?.baseline ?? null)} | ${formatScore(run.metrics[metric])} | ${formatDelta(change?.delta ?? null)} |`);
+  });
+
+  lines.push('', '## By Language', '', `| Group | ${EVAL_METRICS.map(metric => EVAL_METRIC_LABELS[metric]).join(' | ')} |`, `|---|${EVAL_METRICS.map(() => '---').join('|')}|`);
+  (Object.keys(run.groups) as EvalLanguageGroup[]).forEach(group => {
+    const metrics = run.groups[group]!;
+    lines.push(`| ${group} | ${EVAL_METRICS.map(metric => formatScore(metrics[metric])).join(' | ')} |`);
+  });
+
+  if (comparison) {
+    lines.push('', '## Changes Since Baseline', '');
+    if (comparison.regressions.length === 0 && comparison.improvements.length === 0) {
+      lines.push('No case changed.');
+    }
+    comparison.regressions.forEach(change => {
+      lines.push(`- ❌ \`${change.caseId}\` ${EVAL_METRIC_LABELS[change.metric]}: ${formatScore(change.baseline)} → ${formatScore(change.current)}`);
+    });
+    comparison.improvements.forEach(change => {
+      lines.push(`- ✅ \`${change.caseId}\` ${EVAL_METRIC_LABELS[change.metric]}: ${formatScore(change.baseline)} → ${formatScore(change.current)}`);
+    });
+    if (comparison.newCases.length > 0) {
+      lines.push(`- New cases: ${comparison.newCases.map(id => `\`${id}\``).join(', ')}`);
+    }
+    if (comparison.removedCases.length > 0) {
+      lines.push(`- Removed cases: ${comparison.removedCases.map(id => `\`${id}\``).join(', ')}`);
+    }
+  }
+
+  lines.push('', '## Misses', '');
+  const misses = run.cases.flatMap(result => [
+    ...(result.retrieval?.missed || []).map(name => `- \`${result.id}\` not retrieved: ${name}`),
+    ...(result.answer?.missed || []).map(name => `- \`${result.id}\` not in answers: ${name}`),
+    ...result.intents
+      .filter(intent => intent.expected !== intent.actual)
+      .map(intent => `- \`${result.id}\` intent ${intent.actual}, expected ${intent.expected}: "${intent.message}"`),
+    ...result.extraction
+      .filter(field => !field.correct)
+      .map(field => `- \`${result.id}\` ${field.field} ${JSON.stringify(field.actual)}, expected ${JSON.stringify(field.expected)}`)
+  ]);
+  lines.push(...(misses.length > 0 ? misses : ['None.']));
+
+  return `${lines.join('\n')}\n`;
+}
@@ -73,27 +73,29 @@ class LanguageService {
    * Get translation strings for a language
    */
   public getTranslations(language: SupportedLanguage): TranslationStrings {
+    const en: TranslationStrings = {
+      greeting: 'Hello! I am your MSME AI Assistant',
+      helpMessage: 'How can I help you today?',
+      errorMessage: 'Something went wrong. Please try again.',
+      offlineMessage: 'You are offline. Using cached information.',
+      recordingMessage: 'Recording... Speak now',
+      typingMessage: 'Typing...',
+      sendButton: 'Send',
+      cancelButton: 'Cancel',
+      confirmButton: 'Confirm',
+      schemes: 'Government Schemes',
+      eligibility: 'Check Eligibility',
+      benefits: 'Benefits',
+      applyNow: 'Apply Now',
+      learnMore: 'Learn More',
+      contactSupport: 'Contact Support',
+      quickActions: 'Quick Actions',
+      voiceInputPlaceholder: 'Tap to speak',
+      textInputPlaceholder: 'Type your message...'
+    };
+
     const translations: Record<SupportedLanguage, TranslationStrings> = {
-      en: {
-        greeting: 'Hello! I am your MSME AI Assistant',
-        helpMessage: 'How can I help you today?',
-        errorMessage: 'Something went wrong. Please try again.',
-        offlineMessage: 'You are offline. Using cached information.',
-        recordingMessage: 'Recording... Speak now',
-        typingMessage: 'Typing...',
-        sendButton: 'Send',
-        cancelButton: 'Cancel',
-        confirmButton: 'Confirm',
-        schemes: 'Government Schemes',
-        eligibility: 'Check Eligibility',
-        benefits: 'Benefits',
-        applyNow: 'Apply Now',
-        learnMore: 'Learn More',
-        contactSupport: 'Contact Support',
-        quickActions: 'Quick Actions',
-        voiceInputPlaceholder: 'Tap to speak',
-        textInputPlaceholder: 'Type your message...'
-      },
+      en,
       hi: {
         greeting: 'नमस्ते! मैं आपका MSME AI सहायक हूं',
         helpMessage: 'मैं आज आपकी कैसे मदद कर सकता हूं?',
@@ -154,28 +156,20 @@ class LanguageService {
         voiceInputPlaceholder: 'మాట్లాడటానికి నొక్కండి',
         textInputPlaceholder: 'మీ సందేశాన్ని టైప్ చేయండి...'
       },
-      // Add more languages as needed
-      bn: this.getDefaultTranslations('bn'),
-      mr: this.getDefaultTranslations('mr'),
-      gu: this.getDefaultTranslations('gu'),
-      kn: this.getDefaultTranslations('kn'),
-      ml: this.getDefaultTranslations('ml'),
-      pa: this.getDefaultTranslations('pa'),
-      or: this.getDefaultTranslations('or'),
-      as: this.getDefaultTranslations('as')
+      // Add more languages as needed; until then fall back to English
+      bn: en,
+      mr: en,
+      gu: en,
+      kn: en,
+      ml: en,
+      pa: en,
+      or: en,
+      as: en
     };
 
     return translations[language] || translations.en;
   }
 
-  /**
-   * Get default translations (fallback to English)
-   */
-  private getDefaultTranslations(lang: SupportedLanguage): TranslationStrings {
-    // In production, these would be properly translated
-    return this.getTranslations('en');
-  }
-
   /**
    * Format currency for locale
    */
@@ -4,10 +4,20 @@ import {
   ProcessedScheme,
   SchemeCategory,
   SchemeCache,
-  FinancialDetails
+  FinancialDetails,
+  EligibilityRules,
+  SchemeSource,
+  UserProfile
 } from '@/types/scheme';
-import { Scheme } from '@/types/database';
+import { Json, Scheme } from '@/types/database';
 import { createClient } from '@/lib/supabase/client';
+import { getCuratedRules } from '@/lib/schemes/eligibilityEngine';
+import { getCuratedFinancialTerms } from '@/lib/schemes/financialCalculator';
+import { inferJurisdiction, parseJurisdiction, filterSchemesByLocation } from '@/lib/schemes/jurisdiction';
+import { extractSchemeDocuments } from '@/lib/schemes/documentChecklist';
+import { getCuratedRelationships, parseRelationships } from '@/lib/schemes/schemeRelationships';
+import { SchemeSearchIndex, processedSchemeToDocument } from '@/lib/schemes/searchIndex';
+import { categorizeScheme, formatAmount, slugifySchemeName, uniqueSlug } from '@/lib/schemes/schemeUtils';
 import schemesRawData from '@/data/schemes.json';
 
 /**
@@ -24,14 +34,26 @@ export class SchemeDataService {
   };
 
   private rawData: SchemesDatabase = schemesRawData as SchemesDatabase;
-  private supabase = createClient();
+  private supabaseClient: ReturnType<typeof createClient> | null = null;
   private useDatabase: boolean = true; // Feature flag for database vs JSON
   private isInitialized: boolean = false;
+  private searchIndex: SchemeSearchIndex<ProcessedScheme> | null = null;
 
   constructor(useDatabase: boolean = true) {
     this.useDatabase = useDatabase;
   }
 
+  /**
+   * Supabase client, created on first use so JSON mode needs no Supabase
+   * configuration
+   */
+  private get supabase(): ReturnType<typeof createClient> {
+    if (!this.supabaseClient) {
+      this.supabaseClient = createClient();
+    }
+    return this.supabaseClient;
+  }
+
   /**
    * Initialize cache - async version for database support
    */
@@ -51,11 +73,14 @@ export class SchemeDataService {
    * Initialize cache from database
    */
   private async initializeCacheFromDatabase(): Promise<void> {
+    this.searchIndex = null;
+
     try {
       const { data: schemes, error } = await this.supabase
         .from('schemes')
         .select('*')
-        .eq('is_active', true);
+        .eq('is_active', true)
+        .order('created_at', { ascending: true });
 
       if (error) {
         console.error('Error loading schemes from database:', error);
@@ -65,8 +90,9 @@ export class SchemeDataService {
       }
 
       if (schemes && schemes.length > 0) {
-        const processed = schemes.map((scheme, index) => 
-          this.processSchemeFromDatabase(scheme, index)
+        const processed = this.assignUniqueSlugs(
+          schemes.map((scheme, index) => this.processSchemeFromDatabase(scheme, index)),
+          new Set((schemes as Scheme[]).filter(scheme => scheme.slug).map(scheme => scheme.id))
         );
         processed.forEach(scheme => {
           this.cache.processed.set(scheme.id, scheme);
@@ -86,7 +112,8 @@ export class SchemeDataService {
    * Initialize cache from JSON (backward compatibility)
    */
   private initializeCacheFromJSON(): void {
-    const schemes = this.processRawSchemes(this.rawData.schemes);
+    this.searchIndex = null;
+    const schemes = this.assignUniqueSlugs(this.processRawSchemes(this.rawData.schemes));
     schemes.forEach(scheme => {
       this.cache.processed.set(scheme.id, scheme);
     });
@@ -103,17 +130,15 @@ export class SchemeDataService {
       ministry: dbScheme.ministry || '',
       description: dbScheme.description || '',
       tags: dbScheme.tags || [],
-      details: typeof dbScheme.details === 'string' ? dbScheme.details : JSON.stringify(dbScheme.details || ''),
-      benefits: typeof dbScheme.benefits === 'string' ? dbScheme.benefits : JSON.stringify(dbScheme.benefits || ''),
-      eligibility: typeof dbScheme.eligibility === 'string' ? dbScheme.eligibility : JSON.stringify(dbScheme.eligibility || ''),
+      details: this.getContentText(dbScheme.details),
+      benefits: this.getContentText(dbScheme.benefits),
+      eligibility: this.getContentText(dbScheme.eligibility),
       application_process: typeof dbScheme.application_process === 'object' && dbScheme.application_process !== null
         ? dbScheme.application_process as any
         : { content: JSON.stringify(dbScheme.application_process || ''), has_tabs: false },
-      documents_required: typeof dbScheme.documents_required === 'string' 
-        ? dbScheme.documents_required 
-        : JSON.stringify(dbScheme.documents_required || ''),
+      documents_required: this.getContentText(dbScheme.documents_required) || null,
       faqs: null,
-      sources: []
+      sources: this.getSources(dbScheme.details)
     };
 
     // Use existing processing logic
@@ -121,6 +146,10 @@ export class SchemeDataService {
     
     // Override ID with database ID
     processed.id = dbScheme.id;
+    if (dbScheme.slug) {
+      processed.slug = dbScheme.slug;
+    }
+    processed.lastUpdated = new Date(dbScheme.updated_at);
     
     // Use database category if available
     if (dbScheme.category) {
@@ -132,9 +161,31 @@ export class SchemeDataService {
       processed.targetAudience = dbScheme.target_audience;
     }
     
-    // Use database financial details if available
+    // Use database financial details if available, keeping curated
+    // calculator terms the row does not override
     if (dbScheme.financial_details) {
-      processed.financialDetails = dbScheme.financial_details as FinancialDetails;
+      processed.financialDetails = {
+        ...processed.financialDetails,
+        ...(dbScheme.financial_details as FinancialDetails)
+      };
+    }
+
+    // Use database eligibility rules if available
+    if (dbScheme.eligibility_rules) {
+      processed.eligibilityRules = dbScheme.eligibility_rules as EligibilityRules;
+    }
+
+    // Use database jurisdiction if set, otherwise keep the one inferred
+    // from the ministry
+    const jurisdiction = parseJurisdiction(dbScheme.jurisdiction);
+    if (jurisdiction) {
+      processed.jurisdiction = jurisdiction;
+    }
+
+    // Use database relationships if set, otherwise keep the curated ones
+    const relationships = parseRelationships(dbScheme.relationships);
+    if (relationships) {
+      processed.relationships = relationships;
     }
     
     return processed;
@@ -147,20 +198,70 @@ export class SchemeDataService {
     return rawSchemes.map((scheme, index) => this.processScheme(scheme, index));
   }
 
+  /**
+   * Make slugs unique. Slugs stored with the row (storedSlugIds) are kept
+   * as they are; schemes without one get their name's slug, with -2, -3,
+   * ... in load order when it is taken.
+   */
+  private assignUniqueSlugs(
+    schemes: ProcessedScheme[],
+    storedSlugIds: Set<string> = new Set()
+  ): ProcessedScheme[] {
+    const taken = new Set(
+      schemes.filter(scheme => storedSlugIds.has(scheme.id)).map(scheme => scheme.slug)
+    );
+
+    schemes
+      .filter(scheme => !storedSlugIds.has(scheme.id))
+      .forEach(scheme => {
+        scheme.slug = uniqueSlug(scheme.slug, taken);
+      });
+
+    return schemes;
+  }
+
+  /**
+   * Text of a JSONB content column ({ content } or a plain string)
+   */
+  private getContentText(value: Json | null): string {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && !Array.isArray(value) && typeof value.content === 'string') {
+      return value.content;
+    }
+    return '';
+  }
+
+  /**
+   * Source links stored with the details column
+   */
+  private getSources(details: Json | null): SchemeSource[] {
+    if (!details || typeof details !== 'object' || Array.isArray(details) || !Array.isArray(details.sources)) {
+      return [];
+    }
+    return details.sources.filter((source): source is { text: string; url: string } =>
+      !!source && typeof source === 'object' && !Array.isArray(source) &&
+      typeof source.text === 'string' && typeof source.url === 'string'
+    );
+  }
+
   /**
    * Process individual scheme with NLP and structuring
    */
   private processScheme(scheme: SchemeData, index: number): ProcessedScheme {
     const id = this.generateSchemeId(scheme.scheme_name, index);
-    const category = this.categorizeScheme(scheme.tags);
+    const category = categorizeScheme(scheme.tags);
     const targetAudience = this.extractTargetAudience(scheme);
     const keyBenefits = this.extractKeyBenefits(scheme.benefits);
     const eligibilityCriteria = this.extractEligibilityCriteria(scheme.eligibility);
-    const financialDetails = this.extractFinancialDetails(scheme.details);
+    // Only reviewed figures: curated calculator terms here, and what an
+    // admin saved from the editor (financial_details) for database rows.
+    // Figures extracted from the text wait for that review.
+    const financialDetails = getCuratedFinancialTerms(scheme.scheme_name);
     const applicationSteps = this.extractApplicationSteps(scheme.application_process);
 
     return {
       id,
+      slug: slugifySchemeName(scheme.scheme_name),
       name: scheme.scheme_name,
       shortName: this.generateShortName(scheme.scheme_name),
       url: scheme.scheme_url,
@@ -170,15 +271,25 @@ export class SchemeDataService {
       category,
       tags: scheme.tags,
       targetAudience,
+      jurisdiction: inferJurisdiction(scheme.ministry),
+      relationships: getCuratedRelationships(scheme.scheme_name) || [],
       keyBenefits,
       eligibilityCriteria,
+      eligibilityRules: getCuratedRules(scheme.scheme_name),
       financialDetails,
       applicationSteps,
       documentsNeeded: this.extractDocuments(scheme),
       onlineApplication: scheme.application_process.content.includes('Online'),
       applicationUrls: this.extractUrls(scheme),
+      sections: {
+        details: scheme.details || '',
+        benefits: scheme.benefits || '',
+        eligibility: scheme.eligibility || '',
+        applicationProcess: scheme.application_process?.content || '',
+        sources: scheme.sources || []
+      },
       minimalContext: this.generateMinimalContext(scheme),
-      detailedContext: this.generateDetailedContext(scheme),
+      detailedContext: this.generateDetailedContext(scheme, financialDetails),
       relevanceScore: 0,
       popularityRank: index + 1
     };
@@ -214,37 +325,6 @@ export class SchemeDataService {
     return acronym.length <= 6 ? acronym : name.substring(0, 20) + '...';
   }
 
-  /**
-   * Categorize scheme based on tags
-   */
-  private categorizeScheme(tags: string[]): SchemeCategory {
-    const tagString = tags.join(' ').toLowerCase();
-
-    if (tagString.includes('loan') || tagString.includes('credit')) {
-      return SchemeCategory.LOAN;
-    }
-    if (tagString.includes('subsidy') || tagString.includes('margin money')) {
-      return SchemeCategory.SUBSIDY;
-    }
-    if (tagString.includes('training') || tagString.includes('skill')) {
-      return SchemeCategory.TRAINING;
-    }
-    if (tagString.includes('grant')) {
-      return SchemeCategory.GRANT;
-    }
-    if (tagString.includes('technology') || tagString.includes('upgradation')) {
-      return SchemeCategory.TECHNOLOGY;
-    }
-    if (tagString.includes('marketing')) {
-      return SchemeCategory.MARKETING;
-    }
-    if (tagString.includes('certification') || tagString.includes('quality')) {
-      return SchemeCategory.CERTIFICATION;
-    }
-
-    return SchemeCategory.MIXED;
-  }
-
   /**
    * Extract target audience from scheme data
    */
@@ -338,78 +418,6 @@ export class SchemeDataService {
     return criteria.slice(0, 5);
   }
 
-  /**
-   * Extract financial details
-   */
-  private extractFinancialDetails(detailsText: string): FinancialDetails | undefined {
-    if (!detailsText) return undefined;
-
-    const financial: FinancialDetails = {};
-
-    // Extract loan amounts
-    const loanMatches = detailsText.match(/₹[\s]*(\d+(?:,\d+)*(?:\.\d+)?)\s*(?:lakh|crore|thousand)?/gi);
-    if (loanMatches) {
-      const amounts = loanMatches.map(match => this.parseAmount(match));
-      if (amounts.length > 0) {
-        financial.loanAmount = {
-          min: Math.min(...amounts),
-          max: Math.max(...amounts)
-        };
-      }
-    }
-
-    // Extract subsidy percentages
-    const subsidyMatches = detailsText.match(/(\d+(?:\.\d+)?)\s*%\s*(?:subsidy|margin money)?/gi);
-    if (subsidyMatches) {
-      const percentages = subsidyMatches.map(match => parseFloat(match.replace(/[^\d.]/g, '')));
-
-      // Look for urban/rural distinction
-      if (detailsText.includes('Urban') && detailsText.includes('Rural')) {
-        const urbanMatch = detailsText.match(/urban[^.]*?(\d+(?:\.\d+)?)\s*%/i);
-        const ruralMatch = detailsText.match(/rural[^.]*?(\d+(?:\.\d+)?)\s*%/i);
-
-        if (urbanMatch && ruralMatch) {
-          financial.subsidyPercentage = {
-            urban: parseFloat(urbanMatch[1]),
-            rural: parseFloat(ruralMatch[1])
-          };
-        }
-      } else if (percentages.length > 0) {
-        financial.subsidyPercentage = {
-          urban: percentages[0],
-          rural: percentages[0]
-        };
-      }
-    }
-
-    // Check for collateral
-    if (detailsText.toLowerCase().includes('collateral free') ||
-        detailsText.toLowerCase().includes('no collateral')) {
-      financial.collateralRequired = false;
-    }
-
-    return Object.keys(financial).length > 0 ? financial : undefined;
-  }
-
-  /**
-   * Parse amount strings to numbers
-   */
-  private parseAmount(amountStr: string): number {
-    const cleanStr = amountStr.replace(/[₹,\s]/g, '');
-    const match = cleanStr.match(/(\d+(?:\.\d+)?)\s*(lakh|crore|thousand)?/i);
-
-    if (!match) return 0;
-
-    let amount = parseFloat(match[1]);
-    const unit = match[2]?.toLowerCase();
-
-    if (unit === 'thousand') amount *= 1000;
-    else if (unit === 'lakh') amount *= 100000;
-    else if (unit === 'crore') amount *= 10000000;
-
-    return amount;
-  }
-
   /**
    * Extract application steps
    */
@@ -435,26 +443,11 @@ export class SchemeDataService {
   }
 
   /**
-   * Extract documents needed
+   * Extract documents needed: curated ones plus any the text mentions
    */
   private extractDocuments(scheme: SchemeData): string[] {
-    const docs: string[] = [];
     const text = (scheme.documents_required || '') + ' ' + scheme.application_process.content;
-
-    // Common documents
-    const commonDocs = [
-      'Aadhaar', 'PAN', 'GST', 'Bank Statement', 'Project Report',
-      'Address Proof', 'Identity Proof', 'Caste Certificate',
-      'Income Certificate', 'Educational Certificate'
-    ];
-
-    commonDocs.forEach(doc => {
-      if (text.toLowerCase().includes(doc.toLowerCase())) {
-        docs.push(doc);
-      }
-    });
-
-    return docs;
+    return extractSchemeDocuments(scheme.scheme_name, text);
   }
 
   /**
@@ -481,7 +474,7 @@ export class SchemeDataService {
    */
   private generateMinimalContext(scheme: SchemeData): string {
     const name = scheme.scheme_name;
-    const category = this.categorizeScheme(scheme.tags);
+    const category = categorizeScheme(scheme.tags);
     const keyBenefit = scheme.benefits.split('.')[0];
     const mainEligibility = scheme.eligibility.split('.')[0];
 
@@ -492,19 +485,20 @@ export class SchemeDataService {
    * Generate detailed context for specific queries
    * ~500-800 tokens per scheme
    */
-  private generateDetailedContext(scheme: SchemeData): string {
+  private generateDetailedContext(scheme: SchemeData, financial: FinancialDetails | undefined): string {
     const benefits = this.extractKeyBenefits(scheme.benefits).slice(0, 3).join('; ');
     const eligibility = this.extractEligibilityCriteria(scheme.eligibility).slice(0, 3).join('; ');
-    const financial = this.extractFinancialDetails(scheme.details);
 
     let context = `Scheme: ${scheme.scheme_name}\n`;
     context += `Ministry: ${scheme.ministry}\n`;
-    context += `Category: ${this.categorizeScheme(scheme.tags)}\n`;
+    context += `Category: ${categorizeScheme(scheme.tags)}\n`;
     context += `Benefits: ${benefits}\n`;
     context += `Eligibility: ${eligibility}\n`;
 
-    if (financial?.loanAmount) {
-      context += `Loan Amount: ₹${financial.loanAmount.min} - ₹${financial.loanAmount.max}\n`;
+    if (financial?.loanAmount?.max) {
+      context += financial.loanAmount.min
+        ? `Loan Amount: ₹${formatAmount(financial.loanAmount.min)} - ₹${formatAmount(financial.loanAmount.max)}\n`
+        : `Loan Amount: Up to ₹${formatAmount(financial.loanAmount.max)}\n`;
     }
     if (financial?.subsidyPercentage) {
       context += `Subsidy: Urban ${financial.subsidyPercentage.urban}%, Rural ${financial.subsidyPercentage.rural}%\n`;
@@ -575,6 +569,42 @@ export class SchemeDataService {
     return undefined;
   }
 
+  /**
+   * Get scheme by its official name (case-insensitive)
+   */
+  async getSchemeByName(name: string): Promise<ProcessedScheme | undefined> {
+    const target = name.trim().toLowerCase();
+    const schemes = await this.getAllSchemes();
+    return schemes.find(scheme => scheme.name.toLowerCase() === target);
+  }
+
+  /**
+   * Get scheme by its URL slug
+   */
+  async getSchemeBySlug(slug: string): Promise<ProcessedScheme | undefined> {
+    const schemes = await this.getAllSchemes();
+    return schemes.find(scheme => scheme.slug === slug);
+  }
+
+  /**
+   * Get scheme by official name, slug or ID. Pages built from
+   * data/schemes.json only know the name; links use the slug; everything
+   * else uses the ID.
+   */
+  async findScheme(key: string): Promise<ProcessedScheme | undefined> {
+    return (await this.getSchemeByName(key)) ||
+      (await this.getSchemeBySlug(key)) ||
+      (await this.getSchemeById(key));
+  }
+
+  /**
+   * Get schemes that can be availed at a location: central schemes plus
+   * state and district schemes covering it
+   */
+  async getSchemesForLocation(location?: UserProfile['location']): Promise<ProcessedScheme[]> {
+    return filterSchemesByLocation(await this.getAllSchemes(), location);
+  }
+
   /**
    * Get schemes by category
    */
@@ -638,40 +668,25 @@ export class SchemeDataService {
   }
 
   /**
-   * Search schemes by keyword
+   * Search schemes by keyword, best matches first.
+   * Understands Hinglish and Devanagari queries and tolerates typos.
    */
-  async searchSchemes(query: string): Promise<ProcessedScheme[]> {
-    await this.initialize();
-    
-    const queryLower = query.toLowerCase();
-    
-    // If using database, use text search
-    if (this.useDatabase) {
-      try {
-        const { data: schemes, error } = await this.supabase
-          .from('schemes')
-          .select('*')
-          .or(`scheme_name.ilike.%${queryLower}%,description.ilike.%${queryLower}%,tags.cs.{${queryLower}}`)
-          .eq('is_active', true);
-        
-        if (!error && schemes) {
-          return schemes.map((scheme, index) => 
-            this.processSchemeFromDatabase(scheme, index)
-          );
-        }
-      } catch (error) {
-        console.error('Error searching schemes:', error);
-      }
-    }
-    
-    // Fallback to cache with filter
+  async searchSchemes(query: string, limit?: number): Promise<ProcessedScheme[]> {
+    const index = await this.getSearchIndex();
+    return index.search(query, { limit }).map(hit => hit.item);
+  }
+
+  /**
+   * Search index over the cached schemes, rebuilt when the cache changes
+   */
+  private async getSearchIndex(): Promise<SchemeSearchIndex<ProcessedScheme>> {
     const allSchemes = await this.getAllSchemes();
-    return allSchemes.filter(scheme =>
-      scheme.name.toLowerCase().includes(queryLower) ||
-      scheme.summary.toLowerCase().includes(queryLower) ||
-      scheme.tags.some(tag => tag.toLowerCase().includes(queryLower)) ||
-      scheme.keyBenefits.some(benefit => benefit.toLowerCase().includes(queryLower))
-    );
+
+    if (!this.searchIndex || this.searchIndex.size !== allSchemes.length) {
+      this.searchIndex = new SchemeSearchIndex(allSchemes, processedSchemeToDocument);
+    }
+
+    return this.searchIndex;
   }
 
   /**
@@ -737,8 +752,8 @@ export class SchemeDataService {
   }
 }
 
-// Export singleton instance (defaults to database mode)
-export const schemeDataService = new SchemeDataService(true);
+// Export singleton instance (database mode unless SCHEME_DATA_SOURCE=json)
+export const schemeDataService = new SchemeDataService(process.env.SCHEME_DATA_SOURCE !== 'json');
 
 // Export class for custom instances
 export default SchemeDataService;
\ No newline at end of file
@@ -24,6 +24,50 @@ export interface StoredMessage {
   }>;
 }
 
+/**
+ * Model that answered an assistant message, and why it was chosen
+ */
+export interface ModelRouteRecord {
+  model: string;
+  tier: 'fast' | 'strong';
+  reason: string;
+  // Models that timed out or returned a server error before this one answered
+  failovers?: Array<{ model: string; error: string }>;
+}
+
+/**
+ * Tokens and cost of producing an assistant message, across all its steps
+ */
+export interface TokenUsageRecord {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Metadata streamed with assistant messages and stored on the message row
+ */
+export interface ChatMessageMetadata {
+  routing?: ModelRouteRecord;
+  usage?: TokenUsageRecord;
+}
+
+/**
+ * Rolling summary of the older part of a conversation. Messages up to
+ * coveredThroughMessageId are no longer sent to the model; this is sent
+ * in their place.
+ */
+export interface ConversationSummary {
+  businessFacts: string[]; // What the user said about their business and themselves
+  schemesDiscussed: string[]; // Scheme names, with what was concluded about each
+  openQuestions: string[]; // Questions or next steps still unresolved
+  coveredThroughMessageId: string;
+  coveredMessageCount: number;
+  model: string;
+  updatedAt: string;
+}
+
 /**
  * Complete conversation with full message history
  */
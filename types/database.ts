@@ -37,6 +37,21 @@ export interface Database {
         Insert: SchemeInsert
         Update: SchemeUpdate
       }
+      scheme_revisions: {
+        Row: SchemeRevision
+        Insert: SchemeRevisionInsert
+        Update: SchemeRevisionUpdate
+      }
+      scheme_notifications: {
+        Row: SchemeNotification
+        Insert: SchemeNotificationInsert
+        Update: SchemeNotificationUpdate
+      }
+      notification_preferences: {
+        Row: NotificationPreferences
+        Insert: NotificationPreferencesInsert
+        Update: NotificationPreferencesUpdate
+      }
       user_schemes: {
         Row: UserScheme
         Insert: UserSchemeInsert
@@ -57,6 +72,16 @@ export interface Database {
         Insert: ExtractionJobInsert
         Update: ExtractionJobUpdate
       }
+      llm_usage: {
+        Row: LlmUsage
+        Insert: LlmUsageInsert
+        Update: LlmUsageUpdate
+      }
+      response_flags: {
+        Row: ResponseFlag
+        Insert: ResponseFlagInsert
+        Update: ResponseFlagUpdate
+      }
     }
     Views: {
       [_ in never]: never
@@ -75,7 +100,11 @@ export interface Database {
       extraction_method: 'ai' | 'manual' | 'inferred'
       extraction_status: 'pending' | 'processing' | 'completed' | 'failed'
       extraction_priority: 'high' | 'normal' | 'low'
+      llm_usage_purpose: 'chat' | 'extraction' | 'summary'
+      response_flag_status: 'pending' | 'reviewed' | 'dismissed'
       interest_level: 'mentioned' | 'inquired' | 'detailed'
+      scheme_revision_action: 'create' | 'update' | 'deactivate' | 'reactivate' | 'rollback'
+      scheme_change_type: 'benefits' | 'eligibility' | 'documents' | 'financial' | 'application' | 'status' | 'details'
     }
   }
 }
@@ -188,6 +217,13 @@ export interface Conversation {
   is_archived: boolean
   is_pinned: boolean
   
+  // Rolling summary of older messages (ConversationSummary)
+  summary: Json | null
+  
+  // Prompt versions the conversation used (PromptAssignment[]), set on its
+  // first chat turn
+  prompt_variants: Json | null
+  
   // Timestamps
   created_at: string
   last_active_at: string
@@ -207,6 +243,8 @@ export interface ConversationInsert {
   message_count?: number
   is_archived?: boolean
   is_pinned?: boolean
+  summary?: Json | null
+  prompt_variants?: Json | null
   
   // Timestamps (auto-generated, optional on insert)
   created_at?: string
@@ -226,6 +264,8 @@ export interface ConversationUpdate {
   message_count?: number
   is_archived?: boolean
   is_pinned?: boolean
+  summary?: Json | null
+  prompt_variants?: Json | null
   
   // Timestamps
   last_active_at?: string
@@ -251,6 +291,9 @@ export interface Message {
   // AI SDK v5 Support
   parts: Json | null
   
+  // Message metadata: routing (model that answered and why)
+  metadata: Json | null
+  
   // Metadata
   created_at: string
 }
@@ -266,6 +309,9 @@ export interface MessageInsert {
   // AI SDK v5 Support
   parts?: Json | null
   
+  // Message metadata: routing (model that answered and why)
+  metadata?: Json | null
+  
   // Metadata (auto-generated, optional on insert)
   created_at?: string
 }
@@ -279,6 +325,7 @@ export interface MessageUpdate {
   
   // AI SDK v5 Support
   parts?: Json | null
+  metadata?: Json | null
 }
 
 // ============================================================================
@@ -290,6 +337,7 @@ export interface Scheme {
   
   // Scheme Information
   scheme_name: string
+  slug: string | null // Page URL slug, set once at insert; never edited
   scheme_url: string | null
   ministry: string | null
   description: string | null
@@ -302,6 +350,9 @@ export interface Scheme {
   application_process: Json | null
   documents_required: Json | null
   financial_details: Json | null
+  eligibility_rules: Json | null
+  jurisdiction: Json | null
+  relationships: Json | null
   
   // Metadata
   tags: string[] | null
@@ -318,6 +369,7 @@ export interface SchemeInsert {
   
   // Scheme Information
   scheme_name: string
+  slug?: string | null
   scheme_url?: string | null
   ministry?: string | null
   description?: string | null
@@ -330,6 +382,9 @@ export interface SchemeInsert {
   application_process?: Json | null
   documents_required?: Json | null
   financial_details?: Json | null
+  eligibility_rules?: Json | null
+  jurisdiction?: Json | null
+  relationships?: Json | null
   
   // Metadata
   tags?: string[] | null
@@ -356,6 +411,9 @@ export interface SchemeUpdate {
   application_process?: Json | null
   documents_required?: Json | null
   financial_details?: Json | null
+  eligibility_rules?: Json | null
+  jurisdiction?: Json | null
+  relationships?: Json | null
   
   // Metadata
   tags?: string[] | null
@@ -366,6 +424,171 @@ export interface SchemeUpdate {
   updated_at?: string
 }
 
+// ============================================================================
+// Scheme Revision Types
+// ============================================================================
+
+// Fields admins can edit, tracked field-by-field in revisions
+export type EditableSchemeField =
+  | 'scheme_name'
+  | 'scheme_url'
+  | 'ministry'
+  | 'description'
+  | 'category'
+  | 'details'
+  | 'benefits'
+  | 'eligibility'
+  | 'application_process'
+  | 'documents_required'
+  | 'financial_details'
+  | 'eligibility_rules'
+  | 'jurisdiction'
+  | 'relationships'
+  | 'tags'
+  | 'target_audience'
+  | 'is_active'
+
+export type SchemeRevisionAction = 'create' | 'update' | 'deactivate' | 'reactivate' | 'rollback'
+
+export interface SchemeFieldChange {
+  field: EditableSchemeField
+  before: Json | null
+  after: Json | null
+}
+
+export interface SchemeRevision {
+  id: string
+  scheme_id: string
+  revision_number: number
+  action: SchemeRevisionAction
+  
+  // Author
+  author_id: string | null
+  author_email: string | null
+  
+  // Field-level diff against the previous revision and full state after the edit
+  changes: SchemeFieldChange[]
+  snapshot: Json
+  note: string | null
+  rolled_back_to: number | null
+  
+  // Timestamps
+  created_at: string
+}
+
+export interface SchemeRevisionInsert {
+  id?: string
+  scheme_id: string
+  revision_number: number
+  action: SchemeRevisionAction
+  
+  // Author
+  author_id?: string | null
+  author_email?: string | null
+  
+  // Diff and snapshot
+  changes: SchemeFieldChange[]
+  snapshot: Json
+  note?: string | null
+  rolled_back_to?: number | null
+  
+  // Timestamps (auto-generated, optional on insert)
+  created_at?: string
+}
+
+// Revisions are append-only; only the note can be amended
+export interface SchemeRevisionUpdate {
+  note?: string | null
+}
+
+// ============================================================================
+// Scheme Notification Types
+// ============================================================================
+
+// Kinds of scheme change a user can subscribe to
+export type SchemeChangeType =
+  | 'benefits'
+  | 'eligibility'
+  | 'documents'
+  | 'financial'
+  | 'application'
+  | 'status'
+  | 'details'
+
+export interface SchemeNotification {
+  id: string
+  user_id: string
+  scheme_id: string
+  revision_id: string | null
+  
+  // Content
+  change_types: SchemeChangeType[]
+  title: string
+  summary: string[]
+  
+  // Read state
+  is_read: boolean
+  read_at: string | null
+  
+  // Timestamps
+  created_at: string
+}
+
+export interface SchemeNotificationInsert {
+  id?: string
+  user_id: string
+  scheme_id: string
+  revision_id?: string | null
+  
+  // Content
+  change_types: SchemeChangeType[]
+  title: string
+  summary: string[]
+  
+  // Read state
+  is_read?: boolean
+  read_at?: string | null
+  
+  // Timestamps (auto-generated, optional on insert)
+  created_at?: string
+}
+
+export interface SchemeNotificationUpdate {
+  is_read?: boolean
+  read_at?: string | null
+}
+
+// Scheme notification with scheme name (for joined queries)
+export interface SchemeNotificationWithScheme extends SchemeNotification {
+  scheme: Pick<Scheme, 'id' | 'scheme_name' | 'is_active'> | null
+}
+
+export interface NotificationPreferences {
+  user_id: string
+  
+  // Change types the user wants to hear about
+  change_types: SchemeChangeType[]
+  in_app_enabled: boolean
+  
+  // Timestamps
+  created_at: string
+  updated_at: string
+}
+
+export interface NotificationPreferencesInsert {
+  user_id: string
+  change_types?: SchemeChangeType[]
+  in_app_enabled?: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export interface NotificationPreferencesUpdate {
+  change_types?: SchemeChangeType[]
+  in_app_enabled?: boolean
+  updated_at?: string
+}
+
 // ============================================================================
 // User Scheme Types
 // ============================================================================
@@ -650,6 +873,108 @@ export interface ExtractionJobUpdate {
   completed_at?: string | null
 }
 
+// ============================================================================
+// LLM Usage Types (Analytics)
+// ============================================================================
+
+// One row per chat response, extraction run or conversation summary
+export type LlmUsagePurpose = 'chat' | 'extraction' | 'summary'
+
+export interface LlmUsage {
+  id: string
+  user_id: string | null // null for anonymous chats
+  conversation_id: string | null
+  extraction_job_id: string | null
+  
+  // Model call
+  purpose: LlmUsagePurpose
+  model: string
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number // Priced when recorded (services/ai/modelPricing)
+  
+  // Timestamps
+  created_at: string
+}
+
+export interface LlmUsageInsert {
+  id?: string
+  user_id?: string | null
+  conversation_id?: string | null
+  extraction_job_id?: string | null
+  
+  // Model call
+  purpose: LlmUsagePurpose
+  model: string
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+  
+  // Timestamps (auto-generated, optional on insert)
+  created_at?: string
+}
+
+// Usage rows are an append-only ledger
+export type LlmUsageUpdate = Record<string, never>
+
+// ============================================================================
+// Response Flag Types (Admin Review)
+// ============================================================================
+
+// pending until an admin confirms the problem (reviewed) or rejects it
+export type ResponseFlagStatus = 'pending' | 'reviewed' | 'dismissed'
+
+// One row per chat answer that failed a catalogue check
+// (lib/schemes/responseVerifier); issues holds the VerificationIssue list
+export interface ResponseFlag {
+  id: string
+  user_id: string | null // null for anonymous chats
+  conversation_id: string | null
+  
+  // The answer
+  model: string
+  user_message: string
+  response_text: string
+  issues: Json
+  corrected: boolean // A note with the catalogue's figures was appended
+  
+  // Review
+  status: ResponseFlagStatus
+  reviewer_notes: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  
+  // Timestamps
+  created_at: string
+}
+
+export interface ResponseFlagInsert {
+  id?: string
+  user_id?: string | null
+  conversation_id?: string | null
+  
+  // The answer
+  model: string
+  user_message: string
+  response_text: string
+  issues: Json
+  corrected?: boolean
+  
+  // Review
+  status?: ResponseFlagStatus
+  
+  // Timestamps (auto-generated, optional on insert)
+  created_at?: string
+}
+
+// Only the review fields change after a flag is recorded
+export interface ResponseFlagUpdate {
+  status?: ResponseFlagStatus
+  reviewer_notes?: string | null
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+}
+
 // ============================================================================
 // Analytics-Specific Types
 // ============================================================================
@@ -705,6 +1030,45 @@ export interface AnalyticsSummary {
   }>
 }
 
+export interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  byDay: Array<UsageTotals & { date: string }>
+  byModel: Array<UsageTotals & { model: string }>
+  byPurpose: Array<UsageTotals & { purpose: LlmUsagePurpose }>
+  
+  // Highest cost first, capped; userId is null for anonymous chats
+  byUser: Array<UsageTotals & { userId: string | null; email: string | null }>
+  byConversation: Array<UsageTotals & { conversationId: string; title: string | null; userId: string | null }>
+}
+
+// Outcomes of the conversations that used one variant of a prompt
+// experiment. Saves and applications count the users' schemes saved or
+// updated after their first conversation with the variant.
+export interface PromptVariantOutcome {
+  version: string
+  conversations: number
+  users: number
+  messages: number
+  savedSchemes: number
+  usersWhoSaved: number
+  applications: number // Schemes moved to applied, approved or rejected
+  flaggedAnswers: number // Answers that failed a catalogue check (response_flags)
+}
+
+export interface PromptExperimentResults {
+  experimentId: string
+  prompt: string
+  active: boolean // Still configured in PROMPT_EXPERIMENTS
+  variants: PromptVariantOutcome[]
+}
+
 export interface PaginatedResult<T> {
   data: T[]
   pagination: {
@@ -35,6 +35,7 @@ export interface SchemesDatabase {
 // Derived types for processing and optimization
 export interface ProcessedScheme {
   id: string;
+  slug: string; // Stable URL key from the name: /schemes/<slug>
   name: string;
   shortName?: string;
   url: string;
@@ -44,10 +45,13 @@ export interface ProcessedScheme {
   category: SchemeCategory;
   tags: string[];
   targetAudience: string[];
+  jurisdiction: SchemeJurisdiction; // Where the scheme can be availed
+  relationships: SchemeRelationship[]; // Stacking and conflict rules with other schemes
 
   // Structured benefits and eligibility
   keyBenefits: string[];
   eligibilityCriteria: string[];
+  eligibilityRules?: EligibilityRules; // Machine-checkable rules, when curated
   financialDetails?: FinancialDetails;
 
   // Application info
@@ -56,6 +60,9 @@ export interface ProcessedScheme {
   onlineApplication: boolean;
   applicationUrls: string[];
 
+  // Full text of the scheme page sections
+  sections: SchemeSections;
+
   // Metadata for optimization
   relevanceScore?: number;
   lastUpdated?: Date;
@@ -66,6 +73,14 @@ export interface ProcessedScheme {
   detailedContext?: string; // Full context when needed
 }
 
+export interface SchemeSections {
+  details: string;
+  benefits: string;
+  eligibility: string;
+  applicationProcess: string;
+  sources: SchemeSource[];
+}
+
 export interface FinancialDetails {
   loanAmount?: {
     min?: number;
@@ -75,9 +90,151 @@ export interface FinancialDetails {
     urban?: number;
     rural?: number;
   };
-  interestRate?: number;
-  processingFee?: number;
+  interestRate?: number; // annual %
+  processingFee?: number; // INR, 0 when waived
   collateralRequired?: boolean;
+
+  // Calculator terms; percentages are of project cost
+  specialCategorySubsidyPercentage?: {
+    urban?: number;
+    rural?: number;
+  };
+  ownContributionPercentage?: {
+    general?: number;
+    special?: number;
+  };
+  maxProjectCost?: number; // INR, cost admissible for subsidy
+  maxProjectCostBySector?: Partial<Record<BusinessSector, number>>;
+  loanTenureYears?: {
+    min?: number;
+    max?: number;
+  };
+  subsidyLockInYears?: number; // subsidy held as a deposit, interest-free, before adjustment
+}
+
+// Financial details read from the scheme text (lib/schemes/financialExtractor),
+// each with how sure the extractor is, for an admin to review before saving
+export type ExtractedFinancialField = 'loanAmount' | 'subsidyPercentage' | 'interestRate' | 'processingFee' | 'collateralRequired';
+
+export interface FinancialFieldExtraction {
+  field: ExtractedFinancialField;
+  value: NonNullable<FinancialDetails[ExtractedFinancialField]>;
+  confidence: number; // 0-1
+  source: 'details' | 'benefits'; // Text field the value was read from
+  excerpt: string; // Sentence the value was read from
+}
+
+// Central schemes apply across India; state and district schemes only in the
+// listed states (canonical names, see lib/schemes/jurisdiction) and districts
+export type JurisdictionLevel = 'central' | 'state' | 'district';
+
+export interface SchemeJurisdiction {
+  level: JurisdictionLevel;
+  states?: string[];
+  districts?: string[];
+}
+
+// How a scheme combines with another, named by its official name.
+// stacks_with and excludes hold both ways; prerequisite_for means this
+// scheme must be availed before the other
+export type SchemeRelationType = 'stacks_with' | 'excludes' | 'prerequisite_for';
+
+export interface SchemeRelationship {
+  type: SchemeRelationType;
+  scheme: string;
+  note?: string;
+}
+
+// Structured eligibility rules - every field is optional, a missing field
+// means the scheme does not restrict on that criterion
+export type BusinessSize = 'Micro' | 'Small' | 'Medium';
+export type AreaType = 'rural' | 'urban';
+export type UnitStage = 'new' | 'existing';
+export type BusinessSector = 'manufacturing' | 'services' | 'trading' | 'agriculture';
+
+export interface EligibilityRules {
+  minAge?: number;
+  maxAge?: number;
+  maxTurnover?: number; // INR
+  maxInvestment?: number; // INR, project cost or investment in plant & machinery
+  investmentCapsBySector?: Partial<Record<BusinessSector, number>>;
+  businessSizes?: BusinessSize[];
+  genders?: string[]; // 'female' | 'male' | 'other'
+  socialCategories?: string[]; // 'sc' | 'st' | 'obc' | 'general' | 'minority'
+  areaTypes?: AreaType[];
+  unitStages?: UnitStage[];
+  sectors?: BusinessSector[];
+  excludedActivities?: string[]; // Keywords from the scheme's negative list
+  notes?: string[]; // Conditions that cannot be checked automatically
+}
+
+export type EligibilityStatus = 'eligible' | 'not_eligible' | 'unknown';
+
+export type EligibilityCriterion =
+  | 'age'
+  | 'turnover'
+  | 'investment'
+  | 'businessSize'
+  | 'gender'
+  | 'socialCategory'
+  | 'area'
+  | 'unitStage'
+  | 'sector';
+
+export interface CriterionResult {
+  criterion: EligibilityCriterion;
+  status: EligibilityStatus;
+  reason: string;
+}
+
+export interface EligibilityResult {
+  schemeId: string;
+  schemeName: string;
+  status: EligibilityStatus;
+  criteria: CriterionResult[];
+  missingFields: EligibilityCriterion[];
+  notes: string[];
+}
+
+// Subsidy and loan calculator
+// Special category: SC, ST, OBC, minorities, women, ex-servicemen,
+// differently abled, NER, hill and border areas
+export type BeneficiaryCategory = 'general' | 'special';
+
+export interface LoanCalculationInput {
+  projectCost: number; // INR
+  areaType: AreaType;
+  category: BeneficiaryCategory;
+  sector?: BusinessSector;
+  interestRate?: number; // annual %, overrides the scheme rate
+  tenureYears?: number;
+}
+
+export interface RepaymentYear {
+  year: number;
+  principalPaid: number;
+  interestPaid: number;
+  closingBalance: number;
+}
+
+export interface LoanCalculationResult {
+  schemeId: string;
+  schemeName: string;
+  projectCost: number;
+  eligibleProjectCost: number; // portion of the cost that earns subsidy
+  subsidyRate: number;
+  subsidyAmount: number;
+  ownContributionRate: number;
+  ownContribution: number;
+  bankLoan: number;
+  repayableLoan: number; // bank loan less subsidy, the part that carries EMI
+  interestRate: number;
+  tenureMonths: number;
+  emi: number;
+  totalInterest: number;
+  totalRepayment: number;
+  schedule: RepaymentYear[];
+  assumptions: string[];
 }
 
 export enum SchemeCategory {
@@ -98,6 +255,8 @@ export interface SchemeFilter {
   tags?: string[];
   targetAudience?: string[];
   ministry?: string;
+  state?: string; // Hide schemes not available in this state
+  district?: string;
   hasOnlineApplication?: boolean;
   searchQuery?: string;
   maxResults?: number;
@@ -123,6 +282,7 @@ export interface ConversationContext {
   conversationHistory?: ChatHistory[];
   language: string;
   contextFormat: ContextFormat;
+  toolsEnabled?: boolean; // Model can look schemes up through tools; context lists candidates only
 }
 
 export interface UserProfile {
@@ -135,10 +295,33 @@ export interface UserProfile {
   category?: string; // SC/ST/OBC/General
   gender?: string;
   businessStage?: 'planning' | 'new' | 'existing' | 'expansion';
+  age?: number;
+  annualTurnover?: number; // INR
+  investment?: number; // INR, planned project cost or plant & machinery
+  businessSize?: BusinessSize;
+  sector?: string; // Free text, normalized before matching
+  businessConstitution?: BusinessConstitution;
   previousSchemes?: string[];
   interests?: string[];
 }
 
+// Document checklist
+export type BusinessConstitution = 'proprietorship' | 'partnership' | 'llp' | 'company' | 'society';
+export type DocumentGroup = 'identity' | 'business' | 'financial' | 'project' | 'category' | 'other';
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  group: DocumentGroup;
+  schemes: string[]; // Selected schemes asking for it; empty for documents every application needs
+  note?: string; // When it applies, e.g. "If registered for GST"
+}
+
+export interface DocumentChecklist {
+  schemes: string[];
+  items: ChecklistItem[];
+}
+
 export interface ChatHistory {
   role: 'user' | 'assistant';
   content: string;
@@ -161,8 +344,20 @@ export interface SchemeSearchResult {
   snippet?: string;
 }
 
+// Retrievable slice of a scheme; each chunk is embedded separately
+export type SchemeChunkKind = 'overview' | 'benefits' | 'eligibility' | 'application';
+
+export interface SchemeChunk {
+  id: string; // `${schemeId}:${kind}`
+  schemeId: string;
+  kind: SchemeChunkKind;
+  text: string;
+}
+
 export interface SchemeEmbedding {
   schemeId: string;
+  chunkId: string;
+  kind: SchemeChunkKind;
   embedding: number[];
   metadata: {
     model: string;